@@ -17,6 +17,8 @@ import Assessments from "@/pages/assessments";
 import Evaluations from "@/pages/evaluations";
 import JobDescriptions from "@/pages/job-descriptions";
 import Users from "@/pages/users";
+import PromptTemplates from "@/pages/prompt-templates";
+import SkillTaxonomy from "@/pages/skill-taxonomy";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -40,6 +42,8 @@ function Router() {
           <Route path="/evaluations" component={Evaluations} />
           <Route path="/job-descriptions" component={JobDescriptions} />
           <Route path="/users" component={Users} />
+          <Route path="/prompt-templates" component={PromptTemplates} />
+          <Route path="/skill-taxonomy" component={SkillTaxonomy} />
         </>
       )}
       <Route component={NotFound} />
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { SCORE_FIELD_LABELS, formatScore } from "@/components/score-adjustment-dialog";
+import type { AdjustableScoreField } from "@shared/constants";
+import type { AssessmentHistoryEntry } from "@shared/schema";
+
+function runLabel(run: AssessmentHistoryEntry): string {
+  const date = run.createdAt ? new Date(run.createdAt).toLocaleString() : "";
+  return `${date} · ${formatScore(run.overallScore)}`;
+}
+
+function insightLines(insights: string | null): string[] {
+  return (insights || "").split("\n").map(line => line.trim()).filter(Boolean);
+}
+
+// Insight lines only in the base run are removed, lines only in the compared run are added
+function diffInsights(base: string | null, target: string | null) {
+  const baseLines = insightLines(base);
+  const targetLines = insightLines(target);
+  return {
+    removed: baseLines.filter(line => !targetLines.includes(line)),
+    added: targetLines.filter(line => !baseLines.includes(line)),
+  };
+}
+
+export default function AssessmentHistoryDialog({
+  candidateId,
+  candidateName,
+  onClose,
+}: {
+  candidateId: string | null;
+  candidateName?: string;
+  onClose: () => void;
+}) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [baseId, setBaseId] = useState("");
+  const [targetId, setTargetId] = useState("");
+
+  const { data: history, isLoading } = useQuery<AssessmentHistoryEntry[]>({
+    queryKey: ["/api/candidates", candidateId, "assessments"],
+    enabled: !!candidateId,
+    retry: false,
+  });
+
+  // Compare the current run with the one before it by default
+  useEffect(() => {
+    if (!history || history.length === 0) return;
+    const targetIndex = Math.max(0, history.findIndex(run => run.isCurrent));
+    setTargetId(history[targetIndex].id);
+    setBaseId(history[Math.min(targetIndex + 1, history.length - 1)].id);
+  }, [candidateId, history?.length]);
+
+  const makeCurrentMutation = useMutation({
+    mutationFn: async (assessmentId: string) => {
+      const res = await apiRequest("PUT", `/api/candidates/${candidateId}/assessments/current`, { assessmentId });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/candidates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments"] });
+      toast({ title: t("currentAssessmentChanged") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const base = history?.find(run => run.id === baseId);
+  const target = history?.find(run => run.id === targetId);
+  const insights = base && target ? diffInsights(base.aiInsights, target.aiInsights) : null;
+
+  return (
+    <Dialog open={!!candidateId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[95vw] max-w-2xl mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-sm sm:text-base">
+            {t("assessmentHistory")}{candidateName ? ` - ${candidateName}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : !history || history.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("noAssessmentHistory")}</p>
+        ) : (
+          <div className="space-y-4">
+            {/* Runs */}
+            <ul className="space-y-2">
+              {history.map(run => (
+                <li
+                  key={run.id}
+                  className={cn("flex flex-wrap items-center gap-2 rounded border p-2 text-xs", run.isCurrent && "border-blue-300 bg-blue-50")}
+                >
+                  <span className="font-medium text-gray-800">{runLabel(run)}</span>
+                  <Badge variant="outline" className="text-xs">{run.status}</Badge>
+                  {run.model && <span className="text-gray-500">{run.provider ? `${run.provider}/` : ""}{run.model}</span>}
+                  {run.promptVersion != null && <span className="text-gray-500">{t("assessmentPrompt")} v{run.promptVersion}</span>}
+                  <span className="flex-1" />
+                  {run.isCurrent ? (
+                    <Badge className="text-xs">{t("currentAssessment")}</Badge>
+                  ) : (run.status === "completed" || run.status === "needs_review") && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => makeCurrentMutation.mutate(run.id)}
+                      disabled={makeCurrentMutation.isPending}
+                    >
+                      {t("makeCurrent")}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {/* Comparison */}
+            {history.length < 2 ? (
+              <p className="text-xs text-gray-500">{t("rerunToCompare")}</p>
+            ) : (
+              <div className="space-y-3 border-t border-gray-100 pt-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <div>
+                    <Label className="text-xs">{t("baseRun")}</Label>
+                    <Select value={baseId} onValueChange={setBaseId}>
+                      <SelectTrigger className="mt-1 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {history.map(run => (
+                          <SelectItem key={run.id} value={run.id}>{runLabel(run)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-xs">{t("compareRun")}</Label>
+                    <Select value={targetId} onValueChange={setTargetId}>
+                      <SelectTrigger className="mt-1 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {history.map(run => (
+                          <SelectItem key={run.id} value={run.id}>{runLabel(run)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {base && target && (
+                  <>
+                    <table className="w-full text-xs">
+                      <tbody>
+                        {(Object.keys(SCORE_FIELD_LABELS) as AdjustableScoreField[]).map(field => {
+                          const from = base[field] != null ? Number(base[field]) : null;
+                          const to = target[field] != null ? Number(target[field]) : null;
+                          const delta = from != null && to != null ? Math.round(to - from) : null;
+                          return (
+                            <tr key={field} className="border-b border-gray-100">
+                              <td className="py-1 font-medium text-gray-700">{t(SCORE_FIELD_LABELS[field])}</td>
+                              <td className="py-1 text-gray-600">{formatScore(from)}</td>
+                              <td className="py-1 text-gray-600">{formatScore(to)}</td>
+                              <td className={cn(
+                                "py-1 font-medium text-right",
+                                delta == null || delta === 0 ? "text-gray-500" : delta > 0 ? "text-green-600" : "text-red-600"
+                              )}>
+                                {delta == null ? "-" : delta > 0 ? `+${delta}` : delta}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+
+                    <div>
+                      <p className="text-xs font-medium text-gray-700 mb-1">{t("insightChanges")}</p>
+                      {insights && insights.removed.length === 0 && insights.added.length === 0 ? (
+                        <p className="text-xs text-gray-500">{t("noInsightChanges")}</p>
+                      ) : (
+                        <ul className="space-y-1 text-xs">
+                          {insights?.removed.map((line, index) => (
+                            <li key={`removed-${index}`} className="rounded bg-red-50 px-2 py-1 text-red-700">- {line}</li>
+                          ))}
+                          {insights?.added.map((line, index) => (
+                            <li key={`added-${index}`} className="rounded bg-green-50 px-2 py-1 text-green-700">+ {line}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useToast } from "@/hooks/use-toast";
+import { useBackgroundJob } from "@/hooks/useBackgroundJob";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import JobProgress from "@/components/job-progress";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowUpDown, Loader2, Target } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { CandidateWithFitScore } from "@shared/schema";
+
+type RankedFitScore = CandidateWithFitScore & { ranking: number; isStale: boolean };
+
+type SortKey = "ranking" | "fullName" | "skillMatch" | "experienceAlignment" | "languageMatch" | "calculatedAt";
+
+const SORT_VALUES: Record<SortKey, (row: RankedFitScore) => number | string> = {
+  ranking: row => row.ranking,
+  fullName: row => row.fullName.toLowerCase(),
+  skillMatch: row => row.fitScore?.skillMatch ?? 0,
+  experienceAlignment: row => row.fitScore?.experienceAlignment ?? 0,
+  languageMatch: row => row.fitScore?.languageMatch ?? 0,
+  calculatedAt: row => (row.fitScore?.calculatedAt ? new Date(row.fitScore.calculatedAt).getTime() : 0),
+};
+
+function scoreColor(score: number): string {
+  if (score >= 75) return "text-green-600";
+  if (score >= 50) return "text-yellow-600";
+  return "text-red-600";
+}
+
+export default function BestMatches({ jobs }: { jobs: Array<{ id: string; title?: string; position: string }> }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [jobId, setJobId] = useState("");
+  const [position, setPosition] = useState("all");
+  const [onlyUnscored, setOnlyUnscored] = useState(false);
+  const [onlyStale, setOnlyStale] = useState(false);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>("ranking");
+  const [sortAscending, setSortAscending] = useState(true);
+  const [batchJobId, setBatchJobId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!jobId && jobs.length > 0) setJobId(jobs[0].id);
+  }, [jobs, jobId]);
+
+  const { data: ranked, isLoading } = useQuery<RankedFitScore[]>({
+    queryKey: ["/api/job-descriptions", jobId, "fit-scores"],
+    enabled: !!jobId,
+    retry: false,
+  });
+
+  const { data: candidates } = useQuery<Array<{ id: string; position: string }>>({
+    queryKey: ["/api/candidates"],
+    retry: false,
+  });
+  const positions = useMemo(
+    () => Array.from(new Set((candidates || []).map(candidate => candidate.position))).sort(),
+    [candidates]
+  );
+
+  const { progress, items, isRunning, cancel } = useBackgroundJob(batchJobId, (job) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/job-descriptions", jobId, "fit-scores"] });
+    toast({
+      title: job.status === "cancelled" ? t("runCancelled") : t("fitScoringCompleted"),
+      description: `${job.progress?.completed ?? 0} ${t("completed").toLowerCase()}, ${job.progress?.dead ?? 0} ${t("failed").toLowerCase()}`,
+      variant: job.progress?.dead ? "destructive" : "default",
+    });
+    setBatchJobId(null);
+  });
+
+  // Show scores as they arrive while the rest of the batch is still running
+  const completedCount = progress?.completed ?? 0;
+  useEffect(() => {
+    if (completedCount > 0) {
+      queryClient.invalidateQueries({ queryKey: ["/api/job-descriptions", jobId, "fit-scores"] });
+    }
+  }, [completedCount, jobId]);
+
+  const scoreMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/job-descriptions/${jobId}/fit-scores`, {
+        position,
+        onlyUnscored,
+        onlyStale,
+        forceRefresh,
+      });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      setBatchJobId(data.jobId);
+      toast({
+        title: t("fitScoringQueued"),
+        description: data.skipped ? `${data.message} (${data.skipped} ${t("skippedWithoutResume")})` : data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: cancel,
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const sorted = useMemo(() => {
+    const valueOf = SORT_VALUES[sortKey];
+    return [...(ranked || [])].sort((a, b) => {
+      const left = valueOf(a);
+      const right = valueOf(b);
+      const order = left < right ? -1 : left > right ? 1 : 0;
+      return sortAscending ? order : -order;
+    });
+  }, [ranked, sortKey, sortAscending]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      // Rank and name read top-down; scores and dates are most useful highest first
+      setSortAscending(key === "ranking" || key === "fullName");
+    }
+  };
+
+  const sortableHead = (key: SortKey, label: string) => (
+    <TableHead>
+      <button type="button" className="inline-flex items-center gap-1" onClick={() => toggleSort(key)}>
+        {label}
+        <ArrowUpDown className={cn("w-3 h-3", sortKey === key ? "text-gray-900" : "text-gray-400")} />
+      </button>
+    </TableHead>
+  );
+
+  if (jobs.length === 0) {
+    return <p className="text-sm text-gray-500">{t("noJobsToMatch")}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-3 sm:p-4 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label className="text-sm">{t("matchJobDescription")}</Label>
+              <Select value={jobId} onValueChange={setJobId}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {jobs.map(job => (
+                    <SelectItem key={job.id} value={job.id}>{job.title || job.position}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-sm">{t("candidatesToScore")}</Label>
+              <Select value={position} onValueChange={setPosition}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t("allCandidates")}</SelectItem>
+                  {positions.map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox checked={onlyUnscored} onCheckedChange={(checked) => setOnlyUnscored(checked === true)} />
+              {t("onlyUnscoredCandidates")}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox checked={onlyStale} onCheckedChange={(checked) => setOnlyStale(checked === true)} />
+              {t("onlyStaleScores")}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox checked={forceRefresh} onCheckedChange={(checked) => setForceRefresh(checked === true)} />
+              {t("forceRefresh")}
+            </label>
+            <span className="flex-1" />
+            <Button size="sm" onClick={() => scoreMutation.mutate()} disabled={!jobId || scoreMutation.isPending || isRunning}>
+              {scoreMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Target className="w-4 h-4 mr-1" />}
+              {t("scoreCandidates")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {batchJobId && (
+        <JobProgress
+          title={t("scoringCandidates")}
+          progress={progress}
+          items={items}
+          onCancel={() => cancelMutation.mutate()}
+          isCancelling={cancelMutation.isPending}
+        />
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : sorted.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">{t("noFitScoresYet")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {sortableHead("ranking", t("fitScore"))}
+                  {sortableHead("fullName", t("matchCandidate"))}
+                  {sortableHead("skillMatch", t("skills"))}
+                  {sortableHead("experienceAlignment", t("experience"))}
+                  {sortableHead("languageMatch", t("languages"))}
+                  {sortableHead("calculatedAt", t("scoredAt"))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sorted.map(row => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      <span className="text-gray-500 mr-2">#{row.ranking}</span>
+                      <span className={cn("font-bold", scoreColor(row.fitScore?.fitScore ?? 0))}>{row.fitScore?.fitScore}%</span>
+                      {row.isStale && (
+                        <Badge variant="outline" className="ml-2 text-xs border-orange-300 text-orange-700" title={t("staleFitScoreHint")}>
+                          {t("staleFitScore")}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium text-gray-900">{row.fullName}</div>
+                      <div className="text-xs text-gray-500">{row.position}</div>
+                    </TableCell>
+                    <TableCell>{row.fitScore?.skillMatch}%</TableCell>
+                    <TableCell>{row.fitScore?.experienceAlignment}%</TableCell>
+                    <TableCell>{row.fitScore?.languageMatch}%</TableCell>
+                    <TableCell className="text-xs text-gray-500">
+                      {row.fitScore?.calculatedAt ? new Date(row.fitScore.calculatedAt).toLocaleDateString() : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Award, Briefcase, GraduationCap, Languages, Loader2, RefreshCw } from "lucide-react";
+import type { CandidateProfile as CandidateProfileData, CandidateWithRelations } from "@shared/schema";
+
+type CandidateDetails = CandidateWithRelations & { profile: CandidateProfileData };
+
+function Section({ icon: Icon, title, children }: { icon: typeof Briefcase; title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="flex items-center gap-1 text-xs font-semibold uppercase text-gray-500 mb-1">
+        <Icon className="w-3 h-3" />
+        {title}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+export default function CandidateProfile({ candidateId, hasResume }: { candidateId: string; hasResume: boolean }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  // parsedAt seen when parsing was requested; polling stops once it changes
+  const [waitingFrom, setWaitingFrom] = useState<string | null | undefined>(undefined);
+
+  const { data: candidate, isLoading } = useQuery<CandidateDetails>({
+    queryKey: ["/api/candidates", candidateId],
+    refetchInterval: (query) => {
+      const parsedAt = query.state.data?.profile?.parsedAt?.toString() ?? null;
+      return waitingFrom !== undefined && parsedAt === waitingFrom ? 3000 : false;
+    },
+  });
+
+  const profile = candidate?.profile;
+  const parsedAt = profile?.parsedAt?.toString() ?? null;
+  const isWaiting = waitingFrom !== undefined && parsedAt === waitingFrom;
+
+  const parseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/candidates/${candidateId}/parse-resume`, { forceRefresh: true });
+      return response.json();
+    },
+    onSuccess: () => {
+      setWaitingFrom(parsedAt);
+      toast({ title: t("parseResume"), description: t("resumeParsingQueued") });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const period = (start?: string | null, end?: string | null, isCurrent?: boolean) =>
+    start || end || isCurrent ? `${start || "?"} - ${isCurrent ? t("present") : end || "?"}` : null;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{t("candidateProfile")}</span>
+        {hasResume && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => parseMutation.mutate()}
+            disabled={parseMutation.isPending || isWaiting}
+          >
+            {parseMutation.isPending || isWaiting ? (
+              <Loader2 className="w-3 h-3 me-1 animate-spin" />
+            ) : (
+              <RefreshCw className="w-3 h-3 me-1" />
+            )}
+            {t("parseResume")}
+          </Button>
+        )}
+      </div>
+
+      {!profile?.parsedAt ? (
+        <p className="text-sm text-gray-500">{t("profileNotParsed")}</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {profile.workHistory.length > 0 && (
+            <Section icon={Briefcase} title={t("workHistory")}>
+              <ul className="space-y-1">
+                {profile.workHistory.map(job => (
+                  <li key={job.id} className="text-sm">
+                    <div className="font-medium text-gray-900">{job.title}</div>
+                    <div className="text-xs text-gray-600">
+                      {job.employer}
+                      {period(job.startDate, job.endDate, job.isCurrent) && ` · ${period(job.startDate, job.endDate, job.isCurrent)}`}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          )}
+
+          {profile.education.length > 0 && (
+            <Section icon={GraduationCap} title={t("education")}>
+              <ul className="space-y-1">
+                {profile.education.map(entry => (
+                  <li key={entry.id} className="text-sm">
+                    <div className="font-medium text-gray-900">
+                      {[entry.degree, entry.fieldOfStudy].filter(Boolean).join(", ") || entry.institution}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {entry.institution}
+                      {period(entry.startDate, entry.endDate) && ` · ${period(entry.startDate, entry.endDate)}`}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          )}
+
+          {profile.skills.length > 0 && (
+            <Section icon={Award} title={t("skills")}>
+              <div className="flex flex-wrap gap-1">
+                {profile.skills.map(skill => (
+                  <Badge key={skill.id} variant="secondary" className="text-xs">{skill.name}</Badge>
+                ))}
+              </div>
+            </Section>
+          )}
+
+          {profile.languages.length > 0 && (
+            <Section icon={Languages} title={t("languages")}>
+              <div className="flex flex-wrap gap-1">
+                {profile.languages.map(entry => (
+                  <Badge key={entry.id} variant="outline" className="text-xs">
+                    {entry.language}
+                    {entry.proficiency !== "unknown" && ` · ${entry.proficiency}`}
+                  </Badge>
+                ))}
+              </div>
+            </Section>
+          )}
+
+          {profile.certifications.length > 0 && (
+            <Section icon={Award} title={t("certifications")}>
+              <ul className="space-y-1">
+                {profile.certifications.map(cert => (
+                  <li key={cert.id} className="text-sm">
+                    <span className="font-medium text-gray-900">{cert.name}</span>
+                    {cert.issuer && <span className="text-xs text-gray-600"> · {cert.issuer}</span>}
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
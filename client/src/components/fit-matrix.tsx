@@ -0,0 +1,120 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLanguage } from "@/hooks/useLanguage";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { FitMatrix as FitMatrixData, RoleFit } from "@shared/schema";
+
+function fitColor(score: number): string {
+  if (score >= 75) return "text-green-600";
+  if (score >= 50) return "text-yellow-600";
+  return "text-red-600";
+}
+
+export default function FitMatrix() {
+  const { t } = useLanguage();
+  const [onlyBetterElsewhere, setOnlyBetterElsewhere] = useState(false);
+
+  const { data: matrix, isLoading } = useQuery<FitMatrixData>({
+    queryKey: ["/api/job-descriptions/fit-matrix"],
+    retry: false,
+  });
+
+  // Candidates whose best open role is not the one they applied for
+  const rows = useMemo(() => {
+    const all = matrix?.rows || [];
+    return onlyBetterElsewhere
+      ? all.filter(row => row.bestJobDescriptionId && row.bestJobDescriptionId !== row.currentJobDescriptionId)
+      : all;
+  }, [matrix, onlyBetterElsewhere]);
+
+  const renderFit = (fit: RoleFit) => {
+    if (fit.fitScore != null) {
+      return (
+        <span className={cn("font-semibold", fitColor(fit.fitScore))} title={fit.isStale ? t("staleFitScoreHint") : undefined}>
+          {fit.fitScore}%
+          {fit.isStale && <span className="ml-1 inline-block w-1.5 h-1.5 rounded-full bg-orange-400 align-middle" />}
+        </span>
+      );
+    }
+    if (fit.similarity != null) {
+      return (
+        <span className="text-xs italic text-gray-400" title={t("notFitScoredYet")}>
+          ~{Math.round(fit.similarity * 100)}%
+        </span>
+      );
+    }
+    return <span className="text-gray-300">-</span>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!matrix || matrix.jobs.length === 0) {
+    return <p className="text-sm text-gray-500">{t("noJobsToMatch")}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <Checkbox checked={onlyBetterElsewhere} onCheckedChange={(checked) => setOnlyBetterElsewhere(checked === true)} />
+          {t("onlyBetterElsewhere")}
+        </label>
+        <span className="flex-1" />
+        <span><span className="inline-block w-3 h-3 rounded-sm bg-green-50 border border-green-300 align-middle mr-1" />{t("bestRole")}</span>
+        <span><span className="inline-block w-3 h-3 rounded-sm border-2 border-blue-300 align-middle mr-1" />{t("appliedRole")}</span>
+        <span className="italic text-gray-400">~% {t("notFitScoredYet")}</span>
+      </div>
+
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">{t("noMatrixCandidates")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="sticky left-0 bg-white">{t("matchCandidate")}</TableHead>
+                  {matrix.jobs.map(job => (
+                    <TableHead key={job.id} className="text-center whitespace-nowrap">{job.title || job.position}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.id}>
+                    <TableCell className="sticky left-0 bg-white">
+                      <div className="font-medium text-gray-900 whitespace-nowrap">{row.fullName}</div>
+                      <div className="text-xs text-gray-500">{row.position}</div>
+                    </TableCell>
+                    {row.fits.map(fit => (
+                      <TableCell
+                        key={fit.jobDescriptionId}
+                        className={cn(
+                          "text-center",
+                          fit.jobDescriptionId === row.bestJobDescriptionId && "bg-green-50",
+                          fit.jobDescriptionId === row.currentJobDescriptionId && "border-2 border-blue-300"
+                        )}
+                      >
+                        {renderFit(fit)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
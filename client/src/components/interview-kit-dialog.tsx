@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileDown, Loader2, Plus, Save, Sparkles, Trash2 } from "lucide-react";
+import type { InterviewKit, InterviewKitSection } from "@shared/schema";
+
+export interface KitInterview {
+  id: string;
+  kit?: InterviewKit | null;
+}
+
+// Follow-ups are edited one per line
+interface DraftQuestion {
+  question: string;
+  goodAnswer: string;
+  targetsGap: string;
+  followUps: string;
+}
+
+interface DraftSection {
+  competency: string;
+  questions: DraftQuestion[];
+}
+
+function toDraft(sections: InterviewKitSection[]): DraftSection[] {
+  return sections.map(section => ({
+    competency: section.competency,
+    questions: section.questions.map(question => ({
+      question: question.question,
+      goodAnswer: question.goodAnswer,
+      targetsGap: question.targetsGap ?? "",
+      followUps: question.followUps.join("\n"),
+    })),
+  }));
+}
+
+const EMPTY_QUESTION: DraftQuestion = { question: "", goodAnswer: "", targetsGap: "", followUps: "" };
+
+export function kitQuestionCount(kit: InterviewKit): number {
+  return kit.sections.reduce((total, section) => total + section.questions.length, 0);
+}
+
+export default function InterviewKitDialog({
+  interview,
+  candidateName,
+  onClose,
+}: {
+  interview: KitInterview | null;
+  candidateName?: string;
+  onClose: () => void;
+}) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [summary, setSummary] = useState("");
+  const [sections, setSections] = useState<DraftSection[]>([]);
+  const [forceRefresh, setForceRefresh] = useState(false);
+
+  const kit = interview?.kit ?? null;
+
+  useEffect(() => {
+    setSummary(kit?.summary ?? "");
+    setSections(kit ? toDraft(kit.sections) : []);
+  }, [interview?.id, kit?.generatedAt, kit?.editedAt]);
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/interviews/${interview!.id}/kit`, { forceRefresh });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/interviews"] });
+      toast({ title: t("interviewKitGenerated") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/interviews/${interview!.id}/kit`, {
+        summary,
+        sections: sections.map(section => ({
+          competency: section.competency,
+          questions: section.questions.map(question => ({
+            question: question.question,
+            goodAnswer: question.goodAnswer,
+            targetsGap: question.targetsGap || null,
+            followUps: question.followUps.split("\n").map(line => line.trim()).filter(Boolean),
+          })),
+        })),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/interviews"] });
+      toast({ title: t("interviewKitSaved") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!interview) return null;
+
+  const generate = () => {
+    // Regenerating replaces the kit, interviewer edits included
+    if (!kit || confirm(t("confirmRegenerateKit"))) {
+      generateMutation.mutate();
+    }
+  };
+
+  const updateSection = (sectionIndex: number, changes: Partial<DraftSection>) => {
+    setSections(sections.map((section, index) => index === sectionIndex ? { ...section, ...changes } : section));
+  };
+
+  const updateQuestion = (sectionIndex: number, questionIndex: number, changes: Partial<DraftQuestion>) => {
+    const questions = sections[sectionIndex].questions
+      .map((question, index) => index === questionIndex ? { ...question, ...changes } : question);
+    updateSection(sectionIndex, { questions });
+  };
+
+  const removeQuestion = (sectionIndex: number, questionIndex: number) => {
+    updateSection(sectionIndex, { questions: sections[sectionIndex].questions.filter((_, index) => index !== questionIndex) });
+  };
+
+  return (
+    <Dialog open={!!interview} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[95vw] max-w-3xl mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-sm sm:text-base">
+            {t("interviewKit")}{candidateName ? ` - ${candidateName}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox checked={forceRefresh} onCheckedChange={(checked) => setForceRefresh(checked === true)} />
+              {t("forceRefresh")}
+            </label>
+            <span className="flex-1" />
+            <Button size="sm" variant={kit ? "outline" : "default"} onClick={generate} disabled={generateMutation.isPending}>
+              {generateMutation.isPending ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Sparkles className="w-3 h-3 mr-1" />}
+              {kit ? t("regenerateInterviewKit") : t("generateInterviewKit")}
+            </Button>
+            {kit && (
+              <Button size="sm" variant="outline" onClick={() => window.open(`/api/interviews/${interview.id}/kit/export`, "_blank")}>
+                <FileDown className="w-3 h-3 mr-1" />
+                {t("exportInterviewKit")}
+              </Button>
+            )}
+          </div>
+
+          {!kit ? (
+            <p className="text-sm text-gray-500">{t("noInterviewKit")}</p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500">
+                {t("kitGeneratedAt")}: {new Date(kit.generatedAt).toLocaleString()}
+                {kit.editedAt && ` · ${t("kitEditedAt")}: ${new Date(kit.editedAt).toLocaleString()}${kit.editedBy ? ` (${kit.editedBy})` : ""}`}
+              </p>
+
+              {kit.gaps.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-xs font-medium text-gray-700">{t("gapsToProbe")}:</span>
+                  {kit.gaps.map(gap => (
+                    <Badge key={gap} variant="outline" className="text-xs border-orange-300 text-orange-700">{gap}</Badge>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <Label className="text-sm">{t("kitSummary")}</Label>
+                <Textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={2} className="mt-2" />
+              </div>
+
+              {sections.map((section, sectionIndex) => (
+                <div key={sectionIndex} className="rounded-md border p-3 space-y-3">
+                  <div>
+                    <Label className="text-sm">{t("competency")}</Label>
+                    <Input
+                      value={section.competency}
+                      onChange={(e) => updateSection(sectionIndex, { competency: e.target.value })}
+                      className="mt-2"
+                    />
+                  </div>
+
+                  {section.questions.map((question, questionIndex) => (
+                    <div key={questionIndex} className="space-y-2 border-t pt-3">
+                      <div className="flex items-start gap-2">
+                        <Textarea
+                          value={question.question}
+                          onChange={(e) => updateQuestion(sectionIndex, questionIndex, { question: e.target.value })}
+                          placeholder={t("interviewQuestion")}
+                          rows={2}
+                          className="flex-1"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                          onClick={() => removeQuestion(sectionIndex, questionIndex)}
+                          title={t("removeQuestion")}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                      <Textarea
+                        value={question.goodAnswer}
+                        onChange={(e) => updateQuestion(sectionIndex, questionIndex, { goodAnswer: e.target.value })}
+                        placeholder={t("goodAnswer")}
+                        rows={2}
+                      />
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <Input
+                          value={question.targetsGap}
+                          onChange={(e) => updateQuestion(sectionIndex, questionIndex, { targetsGap: e.target.value })}
+                          placeholder={t("targetsGap")}
+                        />
+                        <Textarea
+                          value={question.followUps}
+                          onChange={(e) => updateQuestion(sectionIndex, questionIndex, { followUps: e.target.value })}
+                          placeholder={t("followUpQuestions")}
+                          rows={2}
+                        />
+                      </div>
+                    </div>
+                  ))}
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => updateSection(sectionIndex, { questions: [...section.questions, { ...EMPTY_QUESTION }] })}
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    {t("addQuestion")}
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSections([...sections, { competency: "", questions: [{ ...EMPTY_QUESTION }] }])}
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                {t("addCompetency")}
+              </Button>
+
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={onClose}>
+                  {t("cancel")}
+                </Button>
+                <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Save className="w-3 h-3 mr-1" />}
+                  {t("saveInterviewKit")}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
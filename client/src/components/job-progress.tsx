@@ -0,0 +1,90 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useLanguage } from "@/hooks/useLanguage";
+import { AlertTriangle, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import type { BackgroundJobItem, BackgroundJobProgress } from "@shared/schema";
+
+interface JobProgressProps {
+  title: string;
+  progress?: BackgroundJobProgress;
+  items: BackgroundJobItem[];
+  onCancel?: () => void;
+  isCancelling?: boolean;
+}
+
+export default function JobProgress({ title, progress, items, onCancel, isCancelling }: JobProgressProps) {
+  const { t } = useLanguage();
+
+  const total = progress?.total ?? items.length;
+  const processed = progress ? progress.completed + progress.dead + progress.cancelled : 0;
+  const percent = total > 0 ? Math.round((processed / total) * 100) : 0;
+
+  const active = items.filter(item => item.status === "started");
+  const failures = items.filter(item => item.status === "failed" || item.status === "retrying");
+  const recent = items.filter(item => item.status === "completed").slice(-3).reverse();
+
+  return (
+    <Card className="border-blue-200 dark:border-blue-800">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 min-w-0">
+            <Loader2 className="w-4 h-4 animate-spin text-blue-600 shrink-0" />
+            <span className="font-medium text-gray-900 dark:text-white truncate">{title}</span>
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {processed}/{total}
+            </span>
+            {onCancel && (
+              <Button variant="outline" size="sm" onClick={onCancel} disabled={isCancelling}>
+                <XCircle className="w-4 h-4 mr-1" />
+                {t("cancel")}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Progress value={percent} className="h-2" />
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+          <span>{t("completed")}: {progress?.completed ?? 0}</span>
+          <span>{t("failed")}: {progress?.dead ?? 0}</span>
+          {!!progress?.failed && <span>{t("retrying")}: {progress.failed}</span>}
+          {active.length > 0 && (
+            <span className="truncate">
+              {t("processing")}: {active.map(item => item.candidateName || item.candidateId).join(", ")}
+            </span>
+          )}
+        </div>
+
+        {recent.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {recent.map(item => (
+              <li key={item.itemId} className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />
+                <span className="truncate">{item.candidateName || item.candidateId}</span>
+                {item.score != null && <span className="ml-auto font-medium">{Math.round(item.score)}%</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {failures.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {failures.map(item => (
+              <li key={item.itemId} className="flex items-start gap-2 text-red-700 dark:text-red-400">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>
+                  <span className="font-medium">{item.candidateName || item.candidateId}</span>
+                  {item.status === "retrying" && ` (${t("retrying").toLowerCase()})`}
+                  {item.error && `: ${item.error}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
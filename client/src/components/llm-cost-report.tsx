@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLanguage } from "@/hooks/useLanguage";
+import { AlertTriangle, DollarSign, Loader2 } from "lucide-react";
+import type { AIAnalysisCacheStats, LLMCostBreakdown, LLMCostReport as LLMCostReportData } from "@shared/schema";
+
+interface CacheStatsResponse {
+  byTask: AIAnalysisCacheStats[];
+  totals: Omit<AIAnalysisCacheStats, "task">;
+}
+
+const TASK_LABELS: Record<string, "resumeAnalysisPrompt" | "resumeParsingPrompt" | "jobFitPrompt" | "evaluationPrompt" | "interviewKitPrompt" | "embeddingUsage"> = {
+  resume_analysis: "resumeAnalysisPrompt",
+  resume_parsing: "resumeParsingPrompt",
+  job_fit: "jobFitPrompt",
+  evaluation: "evaluationPrompt",
+  interview_kit: "interviewKitPrompt",
+  embedding: "embeddingUsage",
+};
+
+function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function BreakdownTable({ rows, label }: { rows: LLMCostBreakdown[]; label: (row: LLMCostBreakdown) => string }) {
+  const { t } = useLanguage();
+  const maxCost = Math.max(...rows.map(row => row.cost), 0);
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">{t("noDataFound")}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b">
+            <th className="py-2 pr-4 font-medium"></th>
+            <th className="py-2 pr-4 font-medium text-right">{t("aiCalls")}</th>
+            <th className="py-2 pr-4 font-medium text-right">{t("tokens")}</th>
+            <th className="py-2 font-medium text-right">{t("cost")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b last:border-0">
+              <td className="py-2 pr-4">
+                <div className="font-medium text-gray-900 truncate max-w-[16rem]">{label(row)}</div>
+                <div className="mt-1 h-1 rounded bg-gray-100">
+                  <div
+                    className="h-1 rounded bg-primary"
+                    style={{ width: `${maxCost > 0 ? (row.cost / maxCost) * 100 : 0}%` }}
+                  />
+                </div>
+              </td>
+              <td className="py-2 pr-4 text-right text-gray-600">{row.calls}</td>
+              <td className="py-2 pr-4 text-right text-gray-600">
+                {(row.promptTokens + row.completionTokens).toLocaleString()}
+              </td>
+              <td className="py-2 text-right font-medium">{formatCost(row.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function LLMCostReport() {
+  const { t } = useLanguage();
+  const [days, setDays] = useState("30");
+
+  const { data: report, isLoading } = useQuery<LLMCostReportData>({
+    queryKey: ["/api/dashboard/llm-costs", days],
+    queryFn: async () => {
+      const response = await fetch(`/api/dashboard/llm-costs?days=${days}`, { credentials: "include" });
+      if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const { data: cacheStats } = useQuery<CacheStatsResponse>({
+    queryKey: ["/api/dashboard/ai-cache"],
+    retry: false,
+  });
+
+  const budget = report?.budget;
+  const budgetPercent = budget?.monthlyBudget
+    ? Math.min(100, Math.round((budget.monthToDate / budget.monthlyBudget) * 100))
+    : 0;
+
+  return (
+    <Card>
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <DollarSign className="w-5 h-5 text-green-600" />
+            {t("aiCosts")}
+          </h3>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">{t("last7Days")}</SelectItem>
+              <SelectItem value="30">{t("last30Days")}</SelectItem>
+              <SelectItem value="90">{t("last90Days")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !report ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <p className="text-xs text-gray-500">{t("cost")}</p>
+                <p className="text-lg sm:text-xl font-bold text-gray-900">{formatCost(report.totals.cost)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">{t("aiCalls")}</p>
+                <p className="text-lg sm:text-xl font-bold text-gray-900">{report.totals.calls}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">{t("tokens")}</p>
+                <p className="text-lg sm:text-xl font-bold text-gray-900">
+                  {(report.totals.promptTokens + report.totals.completionTokens).toLocaleString()}
+                </p>
+              </div>
+            </div>
+
+            {cacheStats && cacheStats.totals.hits + cacheStats.totals.misses > 0 && (
+              <p className="text-xs text-gray-600">
+                {t("cacheHitRate")}: <span className="font-medium">{Math.round(cacheStats.totals.hitRate * 100)}%</span>
+                {" "}({cacheStats.totals.hits}/{cacheStats.totals.hits + cacheStats.totals.misses})
+              </p>
+            )}
+
+            {budget && budget.monthlyBudget > 0 && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs text-gray-600">
+                  <span className="flex items-center gap-1">
+                    {budget.exceeded && <AlertTriangle className="w-3 h-3 text-red-600" />}
+                    {t("monthlyBudget")}
+                  </span>
+                  <span>{formatCost(budget.monthToDate)} / {formatCost(budget.monthlyBudget)}</span>
+                </div>
+                <Progress value={budgetPercent} className={budget.exceeded ? "h-2 [&>div]:bg-red-600" : "h-2"} />
+                {budget.exceeded && (
+                  <p className="text-xs text-red-600">{t("budgetExceeded")}</p>
+                )}
+              </div>
+            )}
+
+            <Tabs defaultValue="day">
+              <TabsList>
+                <TabsTrigger value="day">{t("byDay")}</TabsTrigger>
+                <TabsTrigger value="task">{t("byTask")}</TabsTrigger>
+                <TabsTrigger value="job">{t("byJob")}</TabsTrigger>
+              </TabsList>
+              <TabsContent value="day">
+                <BreakdownTable rows={[...report.byDay].reverse()} label={row => new Date(row.key).toLocaleDateString()} />
+              </TabsContent>
+              <TabsContent value="task">
+                <BreakdownTable
+                  rows={report.byTask}
+                  label={row => TASK_LABELS[row.key] ? t(TASK_LABELS[row.key]) : row.label}
+                />
+              </TabsContent>
+              <TabsContent value="job">
+                <BreakdownTable rows={report.byJob} label={row => row.label} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
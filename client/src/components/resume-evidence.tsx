@@ -0,0 +1,162 @@
+import { Fragment, useMemo, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useLanguage } from "@/hooks/useLanguage";
+import { cn } from "@/lib/utils";
+import { CheckCircle, XCircle } from "lucide-react";
+import type { ScoreEvidence } from "@shared/schema";
+
+export interface EvidenceScore {
+  key: string;
+  label: string;
+  value: number | string | null;
+}
+
+interface ResumeEvidenceProps {
+  text: string;
+  evidence: ScoreEvidence[];
+  scores: EvidenceScore[];
+}
+
+type Segment = { text: string; index: number | null };
+
+/**
+ * Split the resume text into plain and highlighted segments. Overlapping spans
+ * are clipped so every character is highlighted at most once.
+ */
+function buildSegments(text: string, evidence: ScoreEvidence[], visible: (item: ScoreEvidence) => boolean): Segment[] {
+  const spans = evidence
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.start !== null && item.end !== null && visible(item))
+    .sort((a, b) => a.item.start! - b.item.start!);
+
+  const segments: Segment[] = [];
+  let cursor = 0;
+
+  for (const { item, index } of spans) {
+    const start = Math.max(item.start!, cursor);
+    const end = Math.min(item.end!, text.length);
+    if (end <= start) continue;
+
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), index: null });
+    segments.push({ text: text.slice(start, end), index });
+    cursor = end;
+  }
+
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), index: null });
+  return segments;
+}
+
+export default function ResumeEvidence({ text, evidence, scores }: ResumeEvidenceProps) {
+  const { t } = useLanguage();
+  const [selectedScore, setSelectedScore] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const markRefs = useRef<Record<number, HTMLElement | null>>({});
+
+  const segments = useMemo(
+    () => buildSegments(text, evidence, item => !selectedScore || item.score === selectedScore),
+    [text, evidence, selectedScore]
+  );
+
+  const focusEvidence = (index: number) => {
+    setActiveIndex(index);
+    markRefs.current[index]?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <div className="text-sm font-medium mb-1">{t("extractedResumeText")}</div>
+        <div dir="auto" className="text-sm text-gray-600 whitespace-pre-wrap border rounded-md p-3 max-h-96 overflow-y-auto">
+          {segments.map((segment, i) =>
+            segment.index === null ? (
+              <Fragment key={i}>{segment.text}</Fragment>
+            ) : (
+              <mark
+                key={i}
+                ref={element => { markRefs.current[segment.index!] = element; }}
+                onClick={() => setActiveIndex(segment.index)}
+                className={cn(
+                  "rounded px-0.5 cursor-pointer text-gray-900",
+                  activeIndex === segment.index ? "bg-yellow-300 ring-2 ring-yellow-500" : "bg-yellow-100"
+                )}
+              >
+                {segment.text}
+              </mark>
+            )
+          )}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-sm font-medium">{t("scoreEvidence")}</span>
+          {selectedScore && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setSelectedScore(null)}>
+              {t("showAllEvidence")}
+            </Button>
+          )}
+        </div>
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {scores.map(score => {
+            const items = evidence
+              .map((item, index) => ({ item, index }))
+              .filter(({ item }) => item.score === score.key);
+
+            return (
+              <div key={score.key} className="border rounded-md p-2">
+                <button
+                  type="button"
+                  className={cn(
+                    "w-full flex justify-between text-sm font-medium",
+                    selectedScore === score.key && "text-primary"
+                  )}
+                  onClick={() => setSelectedScore(selectedScore === score.key ? null : score.key)}
+                >
+                  <span>{score.label}</span>
+                  <span>{score.value !== null ? `${Math.round(Number(score.value))}%` : "-"}</span>
+                </button>
+
+                {items.length === 0 ? (
+                  <p className="text-xs text-gray-500 mt-1">{t("noEvidence")}</p>
+                ) : (
+                  <ul className="mt-2 space-y-1">
+                    {items.map(({ item, index }) => (
+                      <li
+                        key={index}
+                        className={cn(
+                          "text-xs rounded p-1",
+                          item.start !== null && "cursor-pointer hover:bg-gray-50",
+                          activeIndex === index && "bg-yellow-50"
+                        )}
+                        onClick={() => item.start !== null && focusEvidence(index)}
+                      >
+                        <div className="flex items-start gap-1">
+                          {item.status === "met" ? (
+                            <CheckCircle className="w-3 h-3 mt-0.5 shrink-0 text-green-600" />
+                          ) : (
+                            <XCircle className="w-3 h-3 mt-0.5 shrink-0 text-red-600" />
+                          )}
+                          <span className="font-medium text-gray-900">{item.requirement}</span>
+                          <Badge variant="outline" className="ms-auto text-[10px] px-1 py-0">
+                            {item.status === "met" ? t("requirementMet") : t("requirementMissing")}
+                          </Badge>
+                        </div>
+                        {item.quote && (
+                          <p dir="auto" className="text-gray-600 italic mt-0.5 ps-4">“{item.quote}”</p>
+                        )}
+                        {item.quote && item.start === null && (
+                          <p className="text-gray-400 mt-0.5 ps-4">{t("quoteNotFound")}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useLanguage } from "@/hooks/useLanguage";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { RubricSignal } from "@shared/constants";
+
+// A rubric criterion as edited; the server assigns ids from the names
+export interface RubricCriterionDraft {
+  name: string;
+  description: string;
+  weight: number;
+  mustHave: boolean;
+  signal: RubricSignal;
+}
+
+const SIGNAL_LABELS = {
+  skills: "rubricSignalSkills",
+  experience: "rubricSignalExperience",
+  education: "rubricSignalEducation",
+  keywords: "rubricSignalKeywords",
+} as const;
+
+// Starting point when a job switches from the default rubric to its own
+const DEFAULT_CRITERIA: RubricCriterionDraft[] = [
+  { name: "Technical skills", description: "Required skills and technologies demonstrated in the resume", weight: 60, mustHave: false, signal: "skills" },
+  { name: "Experience", description: "Years and relevance of professional experience against the level required", weight: 25, mustHave: false, signal: "experience" },
+  { name: "Education", description: "Degrees and certifications relevant to the role", weight: 15, mustHave: false, signal: "education" },
+];
+
+export function toRubricDrafts(rubric: RubricCriterionDraft[] | null | undefined): RubricCriterionDraft[] {
+  return (rubric || []).map(({ name, description, weight, mustHave, signal }) => ({ name, description, weight, mustHave, signal }));
+}
+
+export default function RubricEditor({ value, onChange }: { value: RubricCriterionDraft[]; onChange: (value: RubricCriterionDraft[]) => void }) {
+  const { t } = useLanguage();
+  const totalWeight = value.reduce((sum, criterion) => sum + (criterion.weight > 0 ? criterion.weight : 0), 0);
+
+  const update = (index: number, changes: Partial<RubricCriterionDraft>) => {
+    onChange(value.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{t("scoringRubric")}</Label>
+        <div className="flex gap-2">
+          {value.length === 0 && (
+            <Button type="button" variant="outline" size="sm" onClick={() => onChange(DEFAULT_CRITERIA)}>
+              {t("customizeRubric")}
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...value, { name: "", description: "", weight: 10, mustHave: false, signal: "keywords" }])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            {t("addCriterion")}
+          </Button>
+        </div>
+      </div>
+
+      {value.length === 0 ? (
+        <p className="text-xs text-gray-500">{t("defaultRubricHint")}</p>
+      ) : (
+        <div className="space-y-2">
+          {value.map((criterion, index) => (
+            <div key={index} className="rounded-md border p-2 space-y-2">
+              <div className="grid grid-cols-12 gap-2 items-center">
+                <Input
+                  value={criterion.name}
+                  onChange={(e) => update(index, { name: e.target.value })}
+                  placeholder={t("criterionName")}
+                  className="col-span-12 sm:col-span-5"
+                />
+                <div className="col-span-4 sm:col-span-2 flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={criterion.weight}
+                    onChange={(e) => update(index, { weight: Number(e.target.value) })}
+                    title={t("criterionWeight")}
+                  />
+                  <span className="text-xs text-gray-500 w-9 shrink-0">
+                    {totalWeight > 0 && criterion.weight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}%` : "-"}
+                  </span>
+                </div>
+                <Select value={criterion.signal} onValueChange={(signal) => update(index, { signal: signal as RubricSignal })}>
+                  <SelectTrigger className="col-span-6 sm:col-span-3" title={t("criterionSignal")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SIGNAL_LABELS) as RubricSignal[]).map(signal => (
+                      <SelectItem key={signal} value={signal}>{t(SIGNAL_LABELS[signal])}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="col-span-2 sm:col-span-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <Input
+                value={criterion.description}
+                onChange={(e) => update(index, { description: e.target.value })}
+                placeholder={t("criterionDescription")}
+              />
+              <label className="flex items-center gap-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={criterion.mustHave}
+                  onChange={(e) => update(index, { mustHave: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                {t("mustHaveCriterion")}
+              </label>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
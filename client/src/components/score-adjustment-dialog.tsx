@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import type { AdjustableScoreField } from "@shared/constants";
+import type { ScoreAdjustment, ScoreOverrides } from "@shared/schema";
+
+export const SCORE_FIELD_LABELS = {
+  overallScore: "overallScore",
+  technicalSkills: "skills",
+  experienceMatch: "experience",
+  education: "education",
+} as const;
+
+export interface AdjustableAssessment {
+  id: string;
+  status: string;
+  overallScore: number | string | null;
+  technicalSkills: string | null;
+  experienceMatch: string | null;
+  education: string | null;
+  scoreOverrides?: ScoreOverrides | null;
+}
+
+export function formatScore(value: number | string | null | undefined): string {
+  const score = Number(value);
+  return value != null && !isNaN(score) ? `${Math.round(score)}%` : "N/A";
+}
+
+export default function ScoreAdjustmentDialog({
+  assessment,
+  candidateName,
+  onClose,
+}: {
+  assessment: AdjustableAssessment | null;
+  candidateName?: string;
+  onClose: () => void;
+}) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [field, setField] = useState<AdjustableScoreField>("overallScore");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    setField("overallScore");
+    setValue("");
+    setReason("");
+  }, [assessment?.id]);
+
+  const { data: history, isLoading: historyLoading } = useQuery<ScoreAdjustment[]>({
+    queryKey: ["/api/assessments", assessment?.id, "adjustments"],
+    enabled: !!assessment,
+    retry: false,
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async (restore: boolean) => {
+      const res = await apiRequest("POST", `/api/assessments/${assessment!.id}/adjustments`, {
+        field,
+        value: restore ? null : Number(value),
+        reason,
+      });
+      return await res.json();
+    },
+    onSuccess: (_data, restore) => {
+      // Also refreshes the history, whose key starts with /api/assessments
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/candidates"] });
+      setValue("");
+      setReason("");
+      toast({ title: restore ? t("aiScoreRestored") : t("scoreAdjusted") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!assessment) return null;
+
+  const override = assessment.scoreOverrides?.[field];
+  const numericValue = Number(value);
+  const canSave = value.trim() !== "" && !isNaN(numericValue) && numericValue >= 0 && numericValue <= 100 && reason.trim() !== "";
+
+  return (
+    <Dialog open={!!assessment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[95vw] max-w-lg mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-sm sm:text-base">
+            {t("adjustScores")}{candidateName ? ` - ${candidateName}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="text-sm">{t("scoreToAdjust")}</Label>
+            <Select value={field} onValueChange={(next) => setField(next as AdjustableScoreField)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SCORE_FIELD_LABELS) as AdjustableScoreField[]).map(key => (
+                  <SelectItem key={key} value={key}>
+                    {t(SCORE_FIELD_LABELS[key])}: {formatScore(assessment[key])}
+                    {assessment.scoreOverrides?.[key] ? ` (${t("adjusted")})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {override && (
+              <p className="text-xs text-gray-500 mt-1">
+                {t("aiScore")}: {formatScore(override.aiValue)} · {override.reason}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <Label className="text-sm">{t("newScore")}</Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="0-100"
+              className="mt-2"
+            />
+          </div>
+
+          <div>
+            <Label className="text-sm">{t("adjustmentReason")}</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t("adjustmentReasonPlaceholder")}
+              rows={3}
+              className="mt-2"
+            />
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {override && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => adjustMutation.mutate(true)}
+                disabled={adjustMutation.isPending || !reason.trim()}
+                title={t("adjustmentReasonRequired")}
+              >
+                <RotateCcw className="w-4 h-4 mr-1" />
+                {t("restoreAiScore")}
+              </Button>
+            )}
+            <Button size="sm" onClick={() => adjustMutation.mutate(false)} disabled={adjustMutation.isPending || !canSave}>
+              {adjustMutation.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              {t("save")}
+            </Button>
+          </div>
+
+          {/* Audit trail */}
+          <div className="border-t border-gray-100 pt-3">
+            <div className="flex items-center gap-2 mb-2">
+              <History className="w-4 h-4 text-gray-500" />
+              <span className="text-sm font-medium text-gray-700">{t("adjustmentHistory")}</span>
+            </div>
+            {historyLoading ? (
+              <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+            ) : !history || history.length === 0 ? (
+              <p className="text-xs text-gray-500">{t("noAdjustments")}</p>
+            ) : (
+              <ul className="space-y-2">
+                {history.map(entry => (
+                  <li key={entry.id} className="text-xs bg-gray-50 rounded p-2 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-800">
+                        {t(SCORE_FIELD_LABELS[entry.field as AdjustableScoreField] ?? "overallScore")}
+                      </span>
+                      <span className="text-gray-600">
+                        {formatScore(entry.previousValue)} → {formatScore(entry.newValue)}
+                      </span>
+                      {entry.reverted && <Badge variant="outline" className="text-xs">{t("aiScoreRestored")}</Badge>}
+                    </div>
+                    <p className="text-gray-700">{entry.reason}</p>
+                    <p className="text-gray-500">
+                      {entry.adjustedBy || "-"} · {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : ""}
+                      {" · "}{t("aiScore")}: {formatScore(entry.aiValue)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,8 @@ import {
   Mail, 
   Brain,
   Briefcase,
+  FileCode,
+  Tags,
   Menu,
   X,
   LogOut
@@ -61,6 +63,16 @@ const getNavigationItems = (t: (key: any) => string) => [
     href: "/job-descriptions",
     icon: Briefcase,
   },
+  {
+    name: t("promptTemplates"),
+    href: "/prompt-templates",
+    icon: FileCode,
+  },
+  {
+    name: t("skillTaxonomy"),
+    href: "/skill-taxonomy",
+    icon: Tags,
+  },
   {
     name: t("users"),
     href: "/users",
@@ -0,0 +1,51 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLanguage } from "@/hooks/useLanguage";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Users } from "lucide-react";
+import type { CandidateSimilarity } from "@shared/schema";
+
+export default function SimilarCandidates({ candidateId, onSelect }: { candidateId: string; onSelect?: (candidateId: string) => void }) {
+  const { t } = useLanguage();
+
+  const { data: similar, isLoading } = useQuery<CandidateSimilarity[]>({
+    queryKey: ["/api/candidates", candidateId, "similar"],
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1 text-sm font-medium">
+        <Users className="w-4 h-4" />
+        {t("similarCandidates")}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+        </div>
+      ) : !similar?.length ? (
+        <p className="text-sm text-gray-500">{t("noSimilarCandidates")}</p>
+      ) : (
+        <ul className="space-y-1">
+          {similar.map(match => (
+            <li key={match.id}>
+              <button
+                type="button"
+                className="w-full flex items-center justify-between gap-2 rounded-md px-2 py-1 text-start hover:bg-gray-50 disabled:cursor-default"
+                onClick={() => onSelect?.(match.id)}
+                disabled={!onSelect}
+              >
+                <span className="min-w-0">
+                  <span className="block text-sm font-medium text-gray-900 truncate">{match.fullName}</span>
+                  <span className="block text-xs text-gray-600 truncate">{match.position}</span>
+                </span>
+                <Badge variant="secondary" className="text-xs shrink-0">
+                  {Math.round(match.similarity * 100)}% {t("similarity")}
+                </Badge>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
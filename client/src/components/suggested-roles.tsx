@@ -0,0 +1,122 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowRightLeft, Copy, Loader2, Sparkles } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ApplicationTransferMode } from "@shared/constants";
+import type { Candidate, SuggestedRole } from "@shared/schema";
+
+export default function SuggestedRoles({
+  candidateId,
+  onTransferred,
+}: {
+  candidateId: string;
+  onTransferred?: (candidate: Candidate, mode: ApplicationTransferMode) => void;
+}) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+
+  const { data: roles, isLoading } = useQuery<SuggestedRole[]>({
+    queryKey: ["/api/candidates", candidateId, "suggested-roles"],
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async ({ role, mode }: { role: SuggestedRole; mode: ApplicationTransferMode }) => {
+      const res = await apiRequest("POST", `/api/candidates/${candidateId}/transfer`, { jobDescriptionId: role.job.id, mode });
+      return await res.json() as Candidate;
+    },
+    onSuccess: (candidate, { mode }) => {
+      // Also refreshes the suggestions, whose key starts with /api/candidates
+      queryClient.invalidateQueries({ queryKey: ["/api/candidates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/job-descriptions/fit-matrix"] });
+      toast({ title: mode === "move" ? t("applicationMoved") : t("applicationDuplicated"), description: candidate.position });
+      onTransferred?.(candidate, mode);
+    },
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const transfer = (role: SuggestedRole, mode: ApplicationTransferMode) => {
+    const confirmation = mode === "move" ? t("confirmMoveApplication") : t("confirmDuplicateApplication");
+    if (confirm(`${confirmation}: ${role.job.title || role.job.position}?`)) {
+      transferMutation.mutate({ role, mode });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1 text-sm font-medium">
+        <Sparkles className="w-4 h-4" />
+        {t("suggestedRoles")}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+        </div>
+      ) : !roles?.length ? (
+        <p className="text-sm text-gray-500">{t("noSuggestedRoles")}</p>
+      ) : (
+        <ul className="space-y-2">
+          {roles.map(role => (
+            <li key={role.job.id} className="rounded-md border p-2 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-900">{role.job.title || role.job.position}</span>
+                {role.fitScore != null ? (
+                  <Badge variant="secondary" className="text-xs">{role.fitScore}% {t("fitScore")}</Badge>
+                ) : (
+                  <Badge variant="outline" className="text-xs" title={t("notFitScoredYet")}>
+                    {Math.round((role.similarity ?? 0) * 100)}% {t("similarity")}
+                  </Badge>
+                )}
+                {role.isStale && (
+                  <Badge variant="outline" className="text-xs border-orange-300 text-orange-700" title={t("staleFitScoreHint")}>
+                    {t("staleFitScore")}
+                  </Badge>
+                )}
+                {role.scoreDelta != null && (
+                  <span className={cn("text-xs font-medium", role.scoreDelta > 0 ? "text-green-600" : "text-gray-500")}>
+                    {role.scoreDelta > 0 ? `+${role.scoreDelta}` : role.scoreDelta} {t("vsCurrentRole")}
+                  </span>
+                )}
+              </div>
+              {role.reasons.length > 0 && (
+                <ul className="list-disc ps-5 text-xs text-gray-600 space-y-0.5">
+                  {role.reasons.map((reason, index) => (
+                    <li key={index}>{reason}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => transfer(role, "move")}
+                  disabled={transferMutation.isPending}
+                >
+                  <ArrowRightLeft className="w-3 h-3 mr-1" />
+                  {t("moveApplication")}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => transfer(role, "duplicate")}
+                  disabled={transferMutation.isPending}
+                >
+                  <Copy className="w-3 h-3 mr-1" />
+                  {t("duplicateApplication")}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
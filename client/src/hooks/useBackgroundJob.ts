@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  BackgroundJob,
+  BackgroundJobEvent,
+  BackgroundJobItem,
+  BackgroundJobProgress,
+} from "@shared/schema";
+
+export function isBackgroundJobFinished(job: BackgroundJob | undefined): boolean {
+  return !!job?.completedAt;
+}
+
+function summarizeItems(items: BackgroundJobItem[]): BackgroundJobProgress {
+  return {
+    total: items.length,
+    queued: items.filter(item => item.status === "queued").length,
+    running: items.filter(item => item.status === "started").length,
+    completed: items.filter(item => item.status === "completed").length,
+    failed: items.filter(item => item.status === "retrying").length,
+    dead: items.filter(item => item.status === "failed").length,
+    cancelled: items.filter(item => item.status === "cancelled").length,
+  };
+}
+
+/**
+ * Follow a queued background job (or batch) through its Server-Sent Events stream.
+ * Keeps per-candidate items and aggregate progress, and calls `onFinished` once
+ * when the job completes, is dead-lettered or is cancelled.
+ */
+export function useBackgroundJob(
+  jobId: string | null,
+  onFinished?: (job: BackgroundJob) => void
+) {
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  const [job, setJob] = useState<BackgroundJob>();
+  const [items, setItems] = useState<Map<string, BackgroundJobItem>>(new Map());
+  const [progress, setProgress] = useState<BackgroundJobProgress>();
+  const [finished, setFinished] = useState(false);
+
+  useEffect(() => {
+    setJob(undefined);
+    setItems(new Map());
+    setProgress(undefined);
+    setFinished(false);
+
+    if (!jobId) return;
+
+    const source = new EventSource(`/api/background-jobs/${jobId}/events`, { withCredentials: true });
+
+    const handleEvent = (message: MessageEvent) => {
+      const event = JSON.parse(message.data) as BackgroundJobEvent;
+
+      switch (event.type) {
+        case "snapshot":
+          setJob(event.job);
+          setItems(new Map(event.items.map(item => [item.itemId, item])));
+          setProgress(event.job.progress ?? (event.items.length > 0 ? summarizeItems(event.items) : undefined));
+          break;
+        case "item":
+          setItems(previous => new Map(previous).set(event.item.itemId, event.item));
+          break;
+        case "progress":
+          setProgress(event.progress);
+          break;
+        case "done":
+          // The stream closes after "done"; stop EventSource from reconnecting
+          source.close();
+          setJob(event.job);
+          if (event.job.progress) setProgress(event.job.progress);
+          setFinished(true);
+          onFinishedRef.current?.(event.job);
+          break;
+      }
+    };
+
+    for (const type of ["snapshot", "item", "progress", "done"]) {
+      source.addEventListener(type, handleEvent as EventListener);
+    }
+
+    return () => source.close();
+  }, [jobId]);
+
+  const cancel = useCallback(async () => {
+    if (!jobId) return;
+    await apiRequest("POST", `/api/background-jobs/${jobId}/cancel`);
+  }, [jobId]);
+
+  return {
+    job,
+    items: Array.from(items.values()),
+    progress,
+    isRunning: !!jobId && !finished,
+    cancel,
+  };
+}
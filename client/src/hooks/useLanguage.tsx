@@ -127,6 +127,10 @@ const translations = {
     // Assessment page specific
     runBulkAssessment: "Run Bulk Assessment",
     bulkAssessmentCompleted: "Bulk Assessment Completed",
+    assessmentsQueued: "Assessments Queued",
+    assessingCandidates: "Assessing candidates",
+    retrying: "Retrying",
+    runCancelled: "Run Cancelled",
     assessmentFailed: "Assessment Failed",
     noCandidatesAvailable: "No candidates available for assessment",
     failedToRunBulkAssessment: "Failed to run bulk assessment",
@@ -162,6 +166,8 @@ const translations = {
     missing: "Missing",
     matching: "Matching",
     evaluationCompleted: "Evaluation Completed",
+    evaluationQueued: "Evaluation Queued",
+    evaluatingCandidates: "Evaluating candidates",
     candidatesEvaluated: "candidates evaluated for",
     evaluationFailed: "Evaluation Failed",
     failedToRunEvaluation: "Failed to run evaluation",
@@ -261,6 +267,216 @@ const translations = {
     confirmDeleteInterview: "Are you sure you want to delete this interview? This action cannot be undone.",
     deleteAssessment: "Delete Assessment",
     confirmDeleteAssessment: "Are you sure you want to delete this assessment? This action cannot be undone.",
+    
+    // Prompt templates page
+    promptTemplates: "AI Prompts",
+    promptTemplatesDescription: "Edit, version and preview the prompts used for AI scoring",
+    resumeAnalysisPrompt: "Resume Analysis",
+    resumeParsingPrompt: "Resume Parsing",
+    jobFitPrompt: "Job Fit",
+    evaluationPrompt: "Evaluation",
+    promptVersions: "Versions",
+    systemPrompt: "System Prompt",
+    userPrompt: "User Prompt",
+    promptVariables: "Variables",
+    saveNewVersion: "Save as New Version",
+    saveAndActivate: "Save and Activate",
+    activateVersion: "Activate",
+    promptSaved: "Prompt version saved",
+    promptActivated: "Prompt version activated",
+    previewPrompt: "Preview",
+    runPreview: "Run with AI",
+    sampleCandidate: "Sample Candidate",
+    renderedPrompt: "Rendered Prompt",
+    modelOutput: "Model Output",
+    
+    // AI cost report
+    aiCosts: "AI Costs",
+    aiCalls: "AI Calls",
+    embeddingUsage: "Embeddings (semantic search)",
+    tokens: "Tokens",
+    cost: "Cost",
+    monthlyBudget: "Monthly budget",
+    budgetExceeded: "Budget reached: new AI jobs are rejected until next month",
+    last7Days: "Last 7 days",
+    last30Days: "Last 30 days",
+    last90Days: "Last 90 days",
+    byDay: "By Day",
+    byTask: "By Task",
+    byJob: "By Job",
+    cacheHitRate: "Cache hit rate",
+    forceRefresh: "Force refresh (ignore cached AI results)",
+    
+    // Score evidence
+    scoreEvidence: "Score Evidence",
+    extractedResumeText: "Extracted Resume Text",
+    requirementMet: "Met",
+    requirementMissing: "Missing",
+    quoteNotFound: "Quote not found in resume text",
+    showAllEvidence: "Show all",
+    noEvidence: "No evidence was cited for this score",
+    
+    // Candidate profile
+    candidateProfile: "Candidate Profile",
+    workHistory: "Work History",
+    languages: "Languages",
+    certifications: "Certifications",
+    present: "Present",
+    parseResume: "Parse Resume",
+    resumeParsingQueued: "Resume parsing queued. The profile will update shortly.",
+    profileNotParsed: "The resume has not been parsed into a profile yet.",
+
+    // Resume text extraction
+    textExtraction: "Text Extraction",
+    extractionTextLayer: "PDF text",
+    extractionOcr: "OCR (scanned)",
+    extractionDocx: "Word document",
+    extractionOdt: "OpenDocument text",
+    extractionRtf: "Rich text (RTF)",
+    extractionText: "Plain text",
+    ocrConfidence: "confidence",
+    needsManualReview: "Needs manual review",
+
+    // Resume language
+    resumeLanguage: "Resume Language",
+    allLanguages: "All Languages",
+    languageUndetermined: "Undetermined",
+
+    // Semantic search
+    semanticSearch: "Semantic",
+    semanticSearchPlaceholder: "Describe the profile, e.g. backend engineer with payments experience",
+    similarCandidates: "Similar Candidates",
+    noSimilarCandidates: "No candidates with a similar resume yet.",
+    similarity: "similar",
+
+    // Skill taxonomy
+    skillTaxonomy: "Skill Taxonomy",
+    skillTaxonomyDescription: "Canonical skill names, aliases and parent skills used to match jobs and resumes",
+    addSkill: "Add Skill",
+    editSkill: "Edit Skill",
+    skillName: "Canonical Name",
+    skillCategory: "Category",
+    parentSkill: "Parent Skill",
+    noParentSkill: "None",
+    skillAliases: "Aliases",
+    skillAliasesHint: "Comma separated. Resumes and jobs using an alias are matched to this skill.",
+    noSkillsFound: "No skills found",
+    skillSaved: "Skill saved",
+    skillDeleted: "Skill deleted",
+    confirmDeleteSkill: "Delete the skill",
+
+    // Scoring rubric
+    scoringRubric: "Scoring Rubric",
+    customizeRubric: "Customize",
+    addCriterion: "Add Criterion",
+    defaultRubricHint: "Scored with the default rubric: technical skills 60%, experience 25%, education 15%.",
+    criterionName: "Criterion, e.g. Cloud architecture",
+    criterionDescription: "What the scorer should look for",
+    criterionWeight: "Weight",
+    criterionSignal: "Measured without AI by",
+    rubricSignalSkills: "Required skills",
+    rubricSignalExperience: "Years of experience",
+    rubricSignalEducation: "Education level",
+    rubricSignalKeywords: "Description keywords",
+    mustHaveCriterion: "Must-have: a score below 50% caps the overall score",
+    mustHave: "Must-have",
+    rubricScores: "Rubric Scores",
+
+    // Score adjustments
+    adjustScores: "Adjust Scores",
+    adjusted: "Adjusted",
+    scoreToAdjust: "Score",
+    newScore: "New Score",
+    aiScore: "AI score",
+    adjustmentReason: "Reason",
+    adjustmentReasonPlaceholder: "Why does this score need to change? The reason is kept in the audit trail.",
+    adjustmentReasonRequired: "A reason is required",
+    restoreAiScore: "Restore AI Score",
+    scoreAdjusted: "Score adjusted",
+    aiScoreRestored: "AI score restored",
+    adjustmentHistory: "Adjustment History",
+    noAdjustments: "No scores have been adjusted",
+    rankedWithAdjustedScores: "Ranked using recruiter-adjusted assessment scores",
+    scoresAdjustedAfterRun: "Assessment scores were adjusted after this run; run the evaluation again to rank with them",
+
+    // Assessment history
+    assessmentHistory: "History",
+    noAssessmentHistory: "No assessments have been run for this candidate",
+    currentAssessment: "Current",
+    makeCurrent: "Make Current",
+    currentAssessmentChanged: "Current assessment changed",
+    assessmentPrompt: "Prompt",
+    rerunToCompare: "Run the assessment again to compare results between runs",
+    baseRun: "Compare from",
+    compareRun: "Compare to",
+    insightChanges: "Insight Changes",
+    noInsightChanges: "The insights are the same in both runs",
+
+    // Best matches
+    jobsTab: "Jobs",
+    bestMatches: "Best Matches",
+    matchJobDescription: "Job Description",
+    matchCandidate: "Candidate",
+    candidatesToScore: "Candidates to Score",
+    allCandidates: "All candidates",
+    onlyUnscoredCandidates: "Only candidates without a score for this job",
+    scoreCandidates: "Score Candidates",
+    scoringCandidates: "Scoring candidates against the job",
+    fitScoringQueued: "Job fit scoring queued",
+    fitScoringCompleted: "Job fit scoring completed",
+    skippedWithoutResume: "skipped without resume text",
+    noFitScoresYet: "No candidates have been scored against this job yet",
+    noJobsToMatch: "Create a job description to match candidates against it",
+    scoredAt: "Scored",
+
+    // Stale fit scores
+    staleFitScore: "Stale",
+    staleFitScoreHint: "The job description or resume changed after this score was calculated",
+    onlyStaleScores: "Only stale scores",
+    requeueStaleFitScores: "Recalculate fit scores made stale by this edit",
+    fitScoresRequeued: "Fit score recalculation queued for candidates",
+
+    // Role recommendations
+    fitMatrix: "Fit Matrix",
+    onlyBetterElsewhere: "Only candidates who fit another role best",
+    bestRole: "Best role",
+    appliedRole: "Applied for",
+    notFitScoredYet: "resume similarity, not fit-scored yet",
+    noMatrixCandidates: "No candidates to show",
+    suggestedRoles: "Suggested Roles",
+    noSuggestedRoles: "No other open roles to suggest",
+    vsCurrentRole: "vs. current role",
+    moveApplication: "Move",
+    duplicateApplication: "Also apply",
+    confirmMoveApplication: "Move this application to",
+    confirmDuplicateApplication: "Create a second application for",
+    applicationMoved: "Application moved",
+    applicationDuplicated: "Application duplicated",
+
+    // Interview kits
+    interviewKitPrompt: "Interview kit",
+    interviewKit: "Interview kit",
+    kitQuestions: "kit questions",
+    generateInterviewKit: "Generate kit",
+    regenerateInterviewKit: "Regenerate kit",
+    confirmRegenerateKit: "Regenerating replaces the current kit, including your edits. Continue?",
+    interviewKitGenerated: "Interview kit generated",
+    interviewKitSaved: "Interview kit saved",
+    exportInterviewKit: "Download PDF",
+    noInterviewKit: "No kit yet. Generate one from the candidate's resume, assessment and job description.",
+    kitGeneratedAt: "Generated",
+    kitEditedAt: "Edited",
+    gapsToProbe: "Gaps to probe",
+    kitSummary: "Summary",
+    competency: "Competency",
+    interviewQuestion: "Question",
+    goodAnswer: "What a good answer looks like",
+    targetsGap: "Gap this probes (optional)",
+    followUpQuestions: "Follow-up questions, one per line",
+    removeQuestion: "Remove question",
+    addQuestion: "Add question",
+    addCompetency: "Add competency",
+    saveInterviewKit: "Save kit",
   },
   ar: {
     // Navigation
@@ -355,6 +571,10 @@ const translations = {
     // Assessment page specific
     runBulkAssessment: "تشغيل التقييم الجماعي",
     bulkAssessmentCompleted: "اكتمل التقييم الجماعي",
+    assessmentsQueued: "تمت جدولة التقييمات",
+    assessingCandidates: "جارٍ تقييم المرشحين",
+    retrying: "إعادة المحاولة",
+    runCancelled: "تم إلغاء التشغيل",
     assessmentFailed: "فشل التقييم",
     noCandidatesAvailable: "لا يوجد مرشحون متاحون للتقييم",
     failedToRunBulkAssessment: "فشل في تشغيل التقييم الجماعي",
@@ -386,6 +606,8 @@ const translations = {
     missing: "مفقود",
     matching: "مطابق",
     evaluationCompleted: "اكتمل التقييم",
+    evaluationQueued: "تمت جدولة التقييم",
+    evaluatingCandidates: "جارٍ تقييم ملاءمة المرشحين",
     candidatesEvaluated: "مرشح تم تقييمهم لـ",
     evaluationFailed: "فشل التقييم",
     failedToRunEvaluation: "فشل في تشغيل التقييم",
@@ -513,6 +735,216 @@ const translations = {
     confirmDeleteInterview: "هل أنت متأكد من حذف هذا المقابلة؟ هذا الإجراء لا يمكن التراجع عنه.",
     deleteAssessment: "حذف التقييم",
     confirmDeleteAssessment: "هل أنت متأكد من حذف هذا التقييم؟ هذا الإجراء لا يمكن التراجع عنه.",
+    
+    // Prompt templates page
+    promptTemplates: "أوامر الذكاء الاصطناعي",
+    promptTemplatesDescription: "تعديل وإصدار ومعاينة الأوامر المستخدمة في التقييم بالذكاء الاصطناعي",
+    resumeAnalysisPrompt: "تحليل السيرة الذاتية",
+    resumeParsingPrompt: "استخراج بيانات السيرة الذاتية",
+    jobFitPrompt: "الملاءمة الوظيفية",
+    evaluationPrompt: "التقييم",
+    promptVersions: "الإصدارات",
+    systemPrompt: "أمر النظام",
+    userPrompt: "أمر المستخدم",
+    promptVariables: "المتغيرات",
+    saveNewVersion: "حفظ كإصدار جديد",
+    saveAndActivate: "حفظ وتفعيل",
+    activateVersion: "تفعيل",
+    promptSaved: "تم حفظ إصدار الأمر",
+    promptActivated: "تم تفعيل إصدار الأمر",
+    previewPrompt: "معاينة",
+    runPreview: "تشغيل بالذكاء الاصطناعي",
+    sampleCandidate: "مرشح تجريبي",
+    renderedPrompt: "الأمر بعد التعبئة",
+    modelOutput: "مخرجات النموذج",
+    
+    // AI cost report
+    aiCosts: "تكاليف الذكاء الاصطناعي",
+    aiCalls: "طلبات الذكاء الاصطناعي",
+    embeddingUsage: "التضمينات (البحث الدلالي)",
+    tokens: "الرموز",
+    cost: "التكلفة",
+    monthlyBudget: "الميزانية الشهرية",
+    budgetExceeded: "تم بلوغ الميزانية: سيتم رفض مهام الذكاء الاصطناعي الجديدة حتى الشهر القادم",
+    last7Days: "آخر 7 أيام",
+    last30Days: "آخر 30 يومًا",
+    last90Days: "آخر 90 يومًا",
+    byDay: "حسب اليوم",
+    byTask: "حسب المهمة",
+    byJob: "حسب الوظيفة",
+    cacheHitRate: "نسبة الاستفادة من التخزين المؤقت",
+    forceRefresh: "إعادة التحليل (تجاهل نتائج الذكاء الاصطناعي المخزنة)",
+    
+    // Score evidence
+    scoreEvidence: "أدلة التقييم",
+    extractedResumeText: "نص السيرة الذاتية المستخرج",
+    requirementMet: "مستوفى",
+    requirementMissing: "غير مستوفى",
+    quoteNotFound: "لم يتم العثور على الاقتباس في نص السيرة الذاتية",
+    showAllEvidence: "عرض الكل",
+    noEvidence: "لم يتم الاستشهاد بأي دليل لهذه النتيجة",
+    
+    // Candidate profile
+    candidateProfile: "ملف المرشح",
+    workHistory: "الخبرات العملية",
+    languages: "اللغات",
+    certifications: "الشهادات",
+    present: "حتى الآن",
+    parseResume: "استخراج بيانات السيرة الذاتية",
+    resumeParsingQueued: "تمت جدولة استخراج البيانات. سيتم تحديث الملف قريبًا.",
+    profileNotParsed: "لم يتم استخراج ملف من السيرة الذاتية بعد.",
+
+    // Resume text extraction
+    textExtraction: "استخراج النص",
+    extractionTextLayer: "نص PDF",
+    extractionOcr: "التعرف الضوئي (ممسوح ضوئيًا)",
+    extractionDocx: "مستند Word",
+    extractionOdt: "مستند OpenDocument",
+    extractionRtf: "نص منسق (RTF)",
+    extractionText: "نص عادي",
+    ocrConfidence: "الدقة",
+    needsManualReview: "يحتاج إلى مراجعة يدوية",
+
+    // Resume language
+    resumeLanguage: "لغة السيرة الذاتية",
+    allLanguages: "جميع اللغات",
+    languageUndetermined: "غير محددة",
+
+    // Semantic search
+    semanticSearch: "بحث دلالي",
+    semanticSearchPlaceholder: "صف الملف المطلوب، مثل مهندس خلفية لديه خبرة في المدفوعات",
+    similarCandidates: "مرشحون مشابهون",
+    noSimilarCandidates: "لا يوجد مرشحون بسيرة ذاتية مشابهة بعد.",
+    similarity: "تشابه",
+
+    // Skill taxonomy
+    skillTaxonomy: "تصنيف المهارات",
+    skillTaxonomyDescription: "الأسماء المعتمدة للمهارات ومرادفاتها والمهارات الأعم المستخدمة لمطابقة الوظائف والسير الذاتية",
+    addSkill: "إضافة مهارة",
+    editSkill: "تعديل المهارة",
+    skillName: "الاسم المعتمد",
+    skillCategory: "الفئة",
+    parentSkill: "المهارة الأعم",
+    noParentSkill: "لا يوجد",
+    skillAliases: "المرادفات",
+    skillAliasesHint: "مفصولة بفواصل. تتم مطابقة السير الذاتية والوظائف التي تستخدم أحد المرادفات مع هذه المهارة.",
+    noSkillsFound: "لا توجد مهارات",
+    skillSaved: "تم حفظ المهارة",
+    skillDeleted: "تم حذف المهارة",
+    confirmDeleteSkill: "حذف المهارة",
+
+    // Scoring rubric
+    scoringRubric: "معايير التقييم",
+    customizeRubric: "تخصيص",
+    addCriterion: "إضافة معيار",
+    defaultRubricHint: "يتم التقييم بالمعايير الافتراضية: المهارات التقنية 60٪، الخبرة 25٪، التعليم 15٪.",
+    criterionName: "المعيار، مثل هندسة الحوسبة السحابية",
+    criterionDescription: "ما الذي يجب أن يبحث عنه المقيّم",
+    criterionWeight: "الوزن",
+    criterionSignal: "يقاس بدون ذكاء اصطناعي بواسطة",
+    rubricSignalSkills: "المهارات المطلوبة",
+    rubricSignalExperience: "سنوات الخبرة",
+    rubricSignalEducation: "المستوى التعليمي",
+    rubricSignalKeywords: "كلمات الوصف",
+    mustHaveCriterion: "إلزامي: الدرجة الأقل من 50٪ تحدّ من الدرجة الإجمالية",
+    mustHave: "إلزامي",
+    rubricScores: "درجات المعايير",
+
+    // Score adjustments
+    adjustScores: "تعديل الدرجات",
+    adjusted: "معدّلة",
+    scoreToAdjust: "الدرجة",
+    newScore: "الدرجة الجديدة",
+    aiScore: "درجة الذكاء الاصطناعي",
+    adjustmentReason: "السبب",
+    adjustmentReasonPlaceholder: "لماذا يجب تغيير هذه الدرجة؟ يُحفظ السبب في سجل التدقيق.",
+    adjustmentReasonRequired: "السبب مطلوب",
+    restoreAiScore: "استعادة درجة الذكاء الاصطناعي",
+    scoreAdjusted: "تم تعديل الدرجة",
+    aiScoreRestored: "تمت استعادة درجة الذكاء الاصطناعي",
+    adjustmentHistory: "سجل التعديلات",
+    noAdjustments: "لم يتم تعديل أي درجة",
+    rankedWithAdjustedScores: "تم الترتيب باستخدام درجات تقييم عدّلها المسؤول عن التوظيف",
+    scoresAdjustedAfterRun: "عُدّلت درجات التقييم بعد هذا التشغيل؛ أعد تشغيل التقييم للترتيب بها",
+
+    // Assessment history
+    assessmentHistory: "السجل",
+    noAssessmentHistory: "لم يتم إجراء أي تقييم لهذا المرشح",
+    currentAssessment: "الحالي",
+    makeCurrent: "تعيين كحالي",
+    currentAssessmentChanged: "تم تغيير التقييم الحالي",
+    assessmentPrompt: "الموجّه",
+    rerunToCompare: "أعد تشغيل التقييم لمقارنة النتائج بين التشغيلات",
+    baseRun: "المقارنة من",
+    compareRun: "المقارنة مع",
+    insightChanges: "تغييرات الرؤى",
+    noInsightChanges: "الرؤى متطابقة في التشغيلين",
+
+    // Best matches
+    jobsTab: "الوظائف",
+    bestMatches: "أفضل المطابقات",
+    matchJobDescription: "الوصف الوظيفي",
+    matchCandidate: "المرشح",
+    candidatesToScore: "المرشحون المراد تقييمهم",
+    allCandidates: "جميع المرشحين",
+    onlyUnscoredCandidates: "المرشحون غير المقيّمين لهذه الوظيفة فقط",
+    scoreCandidates: "تقييم المرشحين",
+    scoringCandidates: "جارٍ تقييم المرشحين مقابل الوظيفة",
+    fitScoringQueued: "تمت جدولة تقييم الملاءمة",
+    fitScoringCompleted: "اكتمل تقييم الملاءمة",
+    skippedWithoutResume: "تم تخطيهم لعدم وجود نص سيرة ذاتية",
+    noFitScoresYet: "لم يتم تقييم أي مرشح مقابل هذه الوظيفة بعد",
+    noJobsToMatch: "أنشئ وصفًا وظيفيًا لمطابقة المرشحين معه",
+    scoredAt: "تاريخ التقييم",
+
+    // Stale fit scores
+    staleFitScore: "قديم",
+    staleFitScoreHint: "تغيّر الوصف الوظيفي أو السيرة الذاتية بعد حساب هذا التقييم",
+    onlyStaleScores: "التقييمات القديمة فقط",
+    requeueStaleFitScores: "إعادة حساب تقييمات الملاءمة التي أصبحت قديمة بسبب هذا التعديل",
+    fitScoresRequeued: "تمت جدولة إعادة حساب تقييم الملاءمة للمرشحين",
+
+    // Role recommendations
+    fitMatrix: "مصفوفة الملاءمة",
+    onlyBetterElsewhere: "المرشحون الأنسب لوظيفة أخرى فقط",
+    bestRole: "الوظيفة الأنسب",
+    appliedRole: "الوظيفة المتقدم لها",
+    notFitScoredYet: "تشابه السيرة الذاتية، لم يتم تقييم الملاءمة بعد",
+    noMatrixCandidates: "لا يوجد مرشحون لعرضهم",
+    suggestedRoles: "الوظائف المقترحة",
+    noSuggestedRoles: "لا توجد وظائف مفتوحة أخرى لاقتراحها",
+    vsCurrentRole: "مقارنة بالوظيفة الحالية",
+    moveApplication: "نقل",
+    duplicateApplication: "التقديم أيضًا",
+    confirmMoveApplication: "نقل هذا الطلب إلى",
+    confirmDuplicateApplication: "إنشاء طلب ثانٍ لوظيفة",
+    applicationMoved: "تم نقل الطلب",
+    applicationDuplicated: "تم نسخ الطلب",
+
+    // Interview kits
+    interviewKitPrompt: "دليل المقابلة",
+    interviewKit: "دليل المقابلة",
+    kitQuestions: "أسئلة الدليل",
+    generateInterviewKit: "إنشاء الدليل",
+    regenerateInterviewKit: "إعادة إنشاء الدليل",
+    confirmRegenerateKit: "ستؤدي إعادة الإنشاء إلى استبدال الدليل الحالي بما فيه تعديلاتك. هل تريد المتابعة؟",
+    interviewKitGenerated: "تم إنشاء دليل المقابلة",
+    interviewKitSaved: "تم حفظ دليل المقابلة",
+    exportInterviewKit: "تنزيل PDF",
+    noInterviewKit: "لا يوجد دليل بعد. أنشئ دليلاً من السيرة الذاتية للمرشح وتقييمه والوصف الوظيفي.",
+    kitGeneratedAt: "تاريخ الإنشاء",
+    kitEditedAt: "تاريخ التعديل",
+    gapsToProbe: "فجوات يجب استكشافها",
+    kitSummary: "الملخص",
+    competency: "الكفاءة",
+    interviewQuestion: "السؤال",
+    goodAnswer: "مواصفات الإجابة الجيدة",
+    targetsGap: "الفجوة التي يستكشفها (اختياري)",
+    followUpQuestions: "أسئلة المتابعة، سؤال في كل سطر",
+    removeQuestion: "حذف السؤال",
+    addQuestion: "إضافة سؤال",
+    addCompetency: "إضافة كفاءة",
+    saveInterviewKit: "حفظ الدليل",
   }
 };
 
@@ -14,7 +14,11 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      // AI insights are written in the language the recruiter is using
+      "X-UI-Language": document.documentElement.lang || "en",
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -11,6 +11,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { Users, Upload, CheckCircle, Send } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { FILE_UPLOAD } from "@shared/constants";
+
+const ACCEPTED_CV_TYPES: readonly string[] = FILE_UPLOAD.ALLOWED_TYPES;
+const ACCEPTED_CV_EXTENSIONS: readonly string[] = FILE_UPLOAD.ALLOWED_EXTENSIONS;
 
 const applicationSchema = z.object({
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
@@ -81,7 +85,7 @@ export default function ApplicationForm() {
     if (!cvFile) {
       toast({
         title: "CV Required",
-        description: "Please upload your CV in PDF format.",
+        description: "Please upload your CV as a PDF, Word (DOCX), ODT, RTF or TXT file.",
         variant: "destructive",
       });
       return;
@@ -93,10 +97,13 @@ export default function ApplicationForm() {
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (file.type !== 'application/pdf') {
+      // Browsers report an empty or generic type for some formats, so check the extension;
+      // the server verifies the actual content
+      const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+      if (!ACCEPTED_CV_EXTENSIONS.includes(extension)) {
         toast({
           title: "Invalid File Type",
-          description: "Please select a PDF file only.",
+          description: "Please select a PDF, DOCX, ODT, RTF or TXT file.",
           variant: "destructive",
         });
         return;
@@ -243,12 +250,12 @@ export default function ApplicationForm() {
 
               {/* CV Upload */}
               <div>
-                <Label htmlFor="cv">Upload CV (PDF only) *</Label>
+                <Label htmlFor="cv">Upload CV (PDF, DOCX, ODT, RTF or TXT) *</Label>
                 <div className="mt-2">
                   <input
                     type="file"
                     id="cv"
-                    accept=".pdf"
+                    accept={[...ACCEPTED_CV_EXTENSIONS, ...ACCEPTED_CV_TYPES].join(",")}
                     onChange={handleFileChange}
                     className="hidden"
                   />
@@ -268,7 +275,7 @@ export default function ApplicationForm() {
                       <div>
                         <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                         <p className="text-lg font-medium text-gray-600 mb-2">Drop your CV here or click to browse</p>
-                        <p className="text-sm text-gray-500">PDF files only, max 10MB</p>
+                        <p className="text-sm text-gray-500">PDF, DOCX, ODT, RTF or TXT, max 10MB</p>
                       </div>
                     )}
                   </div>
@@ -3,6 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useLanguage } from "@/hooks/useLanguage";
 import { useToast } from "@/hooks/use-toast";
+import { useBackgroundJob } from "@/hooks/useBackgroundJob";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import Sidebar from "@/components/sidebar";
@@ -13,6 +14,10 @@ import { Combobox, type ComboboxOption } from "@/components/ui/combobox";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import JobProgress from "@/components/job-progress";
+import ScoreAdjustmentDialog, { formatScore } from "@/components/score-adjustment-dialog";
+import AssessmentHistoryDialog from "@/components/assessment-history-dialog";
 import { 
   Brain, 
   TrendingUp, 
@@ -23,9 +28,13 @@ import {
   Loader2,
   User,
   Calendar,
-  Target
+  Target,
+  SlidersHorizontal,
+  History
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { AdjustableScoreField } from "@shared/constants";
+import type { ScoreOverrides } from "@shared/schema";
 
 interface Assessment {
   id: string;
@@ -36,6 +45,8 @@ interface Assessment {
   education: string;
   aiInsights: string;
   status: string;
+  rawResponses?: string[] | null;
+  scoreOverrides?: ScoreOverrides | null;
   processedAt?: string;
 }
 
@@ -52,9 +63,13 @@ export default function Assessments() {
   const { t, isRTL } = useLanguage();
   
   const [deletingAssessmentId, setDeletingAssessmentId] = useState<string | null>(null);
+  const [adjustingAssessment, setAdjustingAssessment] = useState<Assessment | null>(null);
+  const [historyCandidateId, setHistoryCandidateId] = useState<string | null>(null);
   const [expandedAssessments, setExpandedAssessments] = useState<Set<string>>(new Set());
   const [selectedPosition, setSelectedPosition] = useState<string>("all");
   const [selectedCandidateId, setSelectedCandidateId] = useState<string>("");
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [activeBatch, setActiveBatch] = useState<{ jobId: string; scope: "bulk" | "position" } | null>(null);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -104,6 +119,43 @@ export default function Assessments() {
     retry: false,
   });
 
+  // Bulk and position assessments run in the background job queue; progress is streamed per candidate
+  const {
+    progress: batchProgress,
+    items: batchItems,
+    isRunning: batchRunning,
+    cancel: cancelBatch,
+  } = useBackgroundJob(activeBatch?.jobId ?? null, (job) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/assessments"] });
+    toast({
+      title: job.status === "cancelled"
+        ? t("runCancelled")
+        : activeBatch?.scope === "position" ? t("positionAssessmentCompleted") : t("bulkAssessmentCompleted"),
+      description: `${job.progress?.completed ?? 0} ${t("completed").toLowerCase()}, ${job.progress?.dead ?? 0} ${t("failed").toLowerCase()}`,
+      variant: job.progress?.dead ? "destructive" : "default",
+    });
+    setActiveBatch(null);
+  });
+
+  // Show finished assessments while the rest of the batch is still running
+  const batchCompletedCount = batchProgress?.completed ?? 0;
+  useEffect(() => {
+    if (batchCompletedCount > 0) {
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments"] });
+    }
+  }, [batchCompletedCount]);
+
+  const cancelBatchMutation = useMutation({
+    mutationFn: cancelBatch,
+    onError: (error: any) => {
+      toast({
+        title: t("error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteAssessmentMutation = useMutation({
     mutationFn: async (assessmentId: string) => {
       const response = await apiRequest("DELETE", `/api/assessments/${assessmentId}`);
@@ -143,13 +195,16 @@ export default function Assessments() {
 
   const bulkAssessmentMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/assessments/bulk");
+      const response = await apiRequest("POST", "/api/assessments/bulk", { forceRefresh });
       return response.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/assessments"] });
+      if (data.jobId) {
+        setActiveBatch({ jobId: data.jobId, scope: "bulk" });
+      }
       toast({
-        title: t("bulkAssessmentCompleted"),
+        title: data.jobId ? t("assessmentsQueued") : t("bulkAssessmentCompleted"),
         description: data.message || `Processed ${data.processed || 0} candidates`,
       });
     },
@@ -175,13 +230,16 @@ export default function Assessments() {
 
   const positionAssessmentMutation = useMutation({
     mutationFn: async (position: string) => {
-      const response = await apiRequest("POST", `/api/assessments/position/${position}`);
+      const response = await apiRequest("POST", `/api/assessments/position/${position}`, { forceRefresh });
       return response.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/assessments"] });
+      if (data.jobId) {
+        setActiveBatch({ jobId: data.jobId, scope: "position" });
+      }
       toast({
-        title: t("positionAssessmentCompleted"),
+        title: data.jobId ? t("assessmentsQueued") : t("positionAssessmentCompleted"),
         description: data.message || `Processed ${data.processed || 0} candidates`,
       });
     },
@@ -207,7 +265,7 @@ export default function Assessments() {
 
   const candidateAssessmentMutation = useMutation({
     mutationFn: async (candidateId: string) => {
-      const response = await apiRequest("POST", `/api/assessments/candidate/${candidateId}`);
+      const response = await apiRequest("POST", `/api/assessments/candidate/${candidateId}`, { forceRefresh });
       return response.json();
     },
     onSuccess: (data) => {
@@ -294,6 +352,8 @@ export default function Assessments() {
       completed: { label: "Completed", variant: "default" as const },
       pending: { label: "Pending", variant: "secondary" as const },
       failed: { label: "Failed", variant: "destructive" as const },
+      invalid_response: { label: "Invalid AI Response", variant: "destructive" as const },
+      needs_review: { label: "Needs Manual Review", variant: "outline" as const },
     };
 
     const statusInfo = statusMap[status as keyof typeof statusMap] || { label: status, variant: "default" as const };
@@ -305,6 +365,21 @@ export default function Assessments() {
     );
   };
 
+  // Marks a score a recruiter has overridden; the tooltip shows what the AI gave
+  const renderOverrideBadge = (assessment: Assessment, field: AdjustableScoreField) => {
+    const override = assessment.scoreOverrides?.[field];
+    if (!override) return null;
+    return (
+      <Badge
+        variant="outline"
+        className="text-xs border-amber-300 bg-amber-50 text-amber-700 flex-shrink-0"
+        title={`${t("aiScore")}: ${formatScore(override.aiValue)} · ${override.reason}`}
+      >
+        {t("adjusted")}
+      </Badge>
+    );
+  };
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return "text-green-600";
     if (score >= 60) return "text-yellow-600";
@@ -383,10 +458,10 @@ export default function Assessments() {
               {/* Bulk Assessment - Always visible */}
               <Button
                 onClick={handleBulkAssessment}
-                disabled={bulkAssessmentMutation.isPending}
+                disabled={bulkAssessmentMutation.isPending || batchRunning}
                 className="bg-blue-600 hover:bg-blue-700 w-full sm:w-auto"
               >
-                {bulkAssessmentMutation.isPending ? (
+                {bulkAssessmentMutation.isPending || activeBatch?.scope === "bulk" ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                     {t("processing")}
@@ -419,10 +494,10 @@ export default function Assessments() {
                 </Select>
                 <Button
                   onClick={handlePositionAssessment}
-                  disabled={positionAssessmentMutation.isPending || selectedPosition === "all" || !selectedPosition}
+                  disabled={positionAssessmentMutation.isPending || batchRunning || selectedPosition === "all" || !selectedPosition}
                   className="bg-green-600 hover:bg-green-700 w-full sm:w-auto whitespace-nowrap"
                 >
-                  {positionAssessmentMutation.isPending ? (
+                  {positionAssessmentMutation.isPending || activeBatch?.scope === "position" ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                       {t("processing")}
@@ -467,9 +542,29 @@ export default function Assessments() {
                   )}
                 </Button>
               </div>
+
+              {/* Re-run the model even when a cached result exists for the same resume and prompt */}
+              <label className="lg:col-span-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+                <Checkbox
+                  checked={forceRefresh}
+                  onCheckedChange={(checked) => setForceRefresh(checked === true)}
+                />
+                {t("forceRefresh")}
+              </label>
             </div>
           </div>
 
+          {/* Live progress of the running bulk or position assessment */}
+          {activeBatch && (
+            <JobProgress
+              title={t("assessingCandidates")}
+              progress={batchProgress}
+              items={batchItems}
+              onCancel={() => cancelBatchMutation.mutate()}
+              isCancelling={cancelBatchMutation.isPending}
+            />
+          )}
+
           {/* Summary Stats */}
           {assessments && assessments.length > 0 && (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
@@ -609,7 +704,10 @@ export default function Assessments() {
                         {/* Score Row */}
                         <div className="space-y-2">
                           <div className="flex items-center justify-between">
-                            <span className="text-sm font-medium text-gray-700">{t("overallScore")}</span>
+                            <span className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                              {t("overallScore")}
+                              {renderOverrideBadge(assessment, "overallScore")}
+                            </span>
                             <span className={cn("text-lg font-bold", getScoreColor(Number(assessment.overallScore) || 0))}>
                               {(() => {
                                 const score = Number(assessment.overallScore);
@@ -635,18 +733,21 @@ export default function Assessments() {
                             <span className="text-gray-600 truncate">
                               <span className="font-medium">{t("skills")}:</span> {assessment.technicalSkills}
                             </span>
+                            {renderOverrideBadge(assessment, "technicalSkills")}
                           </div>
                           <div className="flex items-center space-x-2 p-2 bg-gray-50 rounded">
                             <TrendingUp className="w-3 h-3 sm:w-4 sm:h-4 text-gray-500 flex-shrink-0" />
                             <span className="text-gray-600 truncate">
                               <span className="font-medium">{t("experience")}:</span> {assessment.experienceMatch}
                             </span>
+                            {renderOverrideBadge(assessment, "experienceMatch")}
                           </div>
                           <div className="flex items-center space-x-2 p-2 bg-gray-50 rounded sm:col-span-2 lg:col-span-1">
                             <Star className="w-3 h-3 sm:w-4 sm:h-4 text-gray-500 flex-shrink-0" />
                             <span className="text-gray-600 truncate">
                               <span className="font-medium">{t("education")}:</span> {assessment.education}
                             </span>
+                            {renderOverrideBadge(assessment, "education")}
                           </div>
                         </div>
 
@@ -676,6 +777,20 @@ export default function Assessments() {
                           </div>
                         )}
 
+                        {/* Raw AI output kept for debugging responses that failed validation */}
+                        {assessment.status === "invalid_response" && assessment.rawResponses && assessment.rawResponses.length > 0 && (
+                          <details className="text-xs text-gray-600">
+                            <summary className="cursor-pointer font-medium text-gray-700">
+                              Raw AI responses ({assessment.rawResponses.length})
+                            </summary>
+                            {assessment.rawResponses.map((raw, index) => (
+                              <pre key={index} className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap break-all bg-gray-50 p-2 rounded">
+                                {raw}
+                              </pre>
+                            ))}
+                          </details>
+                        )}
+
                         {/* Processed Date */}
                         {assessment.processedAt && (
                           <div className="flex items-center space-x-2 text-xs sm:text-sm text-gray-500 bg-gray-50 p-2 rounded">
@@ -685,7 +800,27 @@ export default function Assessments() {
                         )}
 
                         {/* Actions */}
-                        <div className="flex justify-end pt-2 border-t border-gray-100">
+                        <div className="flex justify-end gap-2 pt-2 border-t border-gray-100">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setHistoryCandidateId(assessment.candidateId)}
+                            className="flex items-center space-x-2 text-xs sm:text-sm px-3 py-2 h-8 sm:h-9"
+                          >
+                            <History className="w-3 h-3 sm:w-4 sm:h-4" />
+                            <span className="hidden sm:inline">{t("assessmentHistory")}</span>
+                          </Button>
+                          {(assessment.status === "completed" || assessment.status === "needs_review") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setAdjustingAssessment(assessment)}
+                              className="flex items-center space-x-2 text-xs sm:text-sm px-3 py-2 h-8 sm:h-9"
+                            >
+                              <SlidersHorizontal className="w-3 h-3 sm:w-4 sm:h-4" />
+                              <span className="hidden sm:inline">{t("adjustScores")}</span>
+                            </Button>
+                          )}
                           <Button 
                             variant="outline" 
                             size="sm"
@@ -708,6 +843,18 @@ export default function Assessments() {
               })}
             </div>
           )}
+
+          <ScoreAdjustmentDialog
+            assessment={adjustingAssessment && (assessments?.find(a => a.id === adjustingAssessment.id) ?? adjustingAssessment)}
+            candidateName={candidates?.find(c => c.id === adjustingAssessment?.candidateId)?.fullName}
+            onClose={() => setAdjustingAssessment(null)}
+          />
+
+          <AssessmentHistoryDialog
+            candidateId={historyCandidateId}
+            candidateName={candidates?.find(c => c.id === historyCandidateId)?.fullName}
+            onClose={() => setHistoryCandidateId(null)}
+          />
         </div>
       </main>
     </div>
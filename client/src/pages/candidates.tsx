@@ -6,10 +6,15 @@ import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import Sidebar from "@/components/sidebar";
+import ResumeEvidence from "@/components/resume-evidence";
+import CandidateProfile from "@/components/candidate-profile";
+import SimilarCandidates from "@/components/similar-candidates";
+import SuggestedRoles from "@/components/suggested-roles";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -31,6 +36,7 @@ import {
   Users
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { CandidateSimilarity, ScoreEvidence } from "@shared/schema";
 
 interface CandidateWithAssessment {
   id: string;
@@ -45,26 +51,43 @@ interface CandidateWithAssessment {
   appliedAt: string;
   updatedAt: string;
   resumeSummary?: string;
+  extractionMethod?: string | null;
+  extractionConfidence?: string | null;
+  resumeLanguage?: string | null;
   assessment?: {
     id: string;
-    overallScore: number;
+    overallScore: number | null;
     technicalSkills: string;
     experienceMatch: string;
     education: string;
     aiInsights: string;
+    evidence?: ScoreEvidence[] | null;
     status: string;
     processedAt: string;
   };
 }
 
+const EXTRACTION_METHOD_LABELS = {
+  "pdf-parse": "extractionTextLayer",
+  buffer: "extractionTextLayer",
+  ocr: "extractionOcr",
+  docx: "extractionDocx",
+  odt: "extractionOdt",
+  rtf: "extractionRtf",
+  text: "extractionText",
+} as const;
+
 export default function Candidates() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
-  const { t, isRTL } = useLanguage();
+  const { t, isRTL, language } = useLanguage();
   const queryClient = useQueryClient();
   const [search, setSearch] = useState("");
+  const [semanticSearch, setSemanticSearch] = useState(false);
+  const [semanticQuery, setSemanticQuery] = useState("");
   const [positionFilter, setPositionFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [languageFilter, setLanguageFilter] = useState("all");
   const [selectedCandidate, setSelectedCandidate] = useState<CandidateWithAssessment | null>(null);
   const [emailSubject, setEmailSubject] = useState("");
   const [emailMessage, setEmailMessage] = useState("");
@@ -90,6 +113,22 @@ export default function Candidates() {
     retry: false,
   });
 
+  // Wait for a pause in typing before embedding the query
+  useEffect(() => {
+    const timer = setTimeout(() => setSemanticQuery(search.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data: semanticResults, isFetching: semanticLoading } = useQuery<CandidateSimilarity[]>({
+    queryKey: ["/api/candidates/semantic-search", semanticQuery],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/candidates/semantic-search?q=${encodeURIComponent(semanticQuery)}&limit=50`);
+      return response.json();
+    },
+    enabled: semanticSearch && semanticQuery.length >= 2,
+    retry: false,
+  });
+
   const deleteCandidate = useMutation({
     mutationFn: async (candidateId: string) => {
       const response = await apiRequest("DELETE", `/api/candidates/${candidateId}`);
@@ -240,7 +279,7 @@ export default function Candidates() {
       const a = document.createElement("a");
       a.style.display = "none";
       a.href = url;
-      a.download = candidate.cvFileName || `${candidate.fullName}_CV.pdf`;
+      a.download = candidate.cvFileName || `${candidate.fullName}_CV`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -372,19 +411,38 @@ export default function Candidates() {
     }
   };
 
+  // In semantic mode the search box matches by resume similarity, best match first
+  const semanticRank = semanticSearch && semanticQuery.length >= 2 && semanticResults
+    ? new Map(semanticResults.map((match, index) => [match.id, index]))
+    : null;
+
   // Filter candidates based on search and filters
   const filteredCandidates = candidates?.filter(candidate => {
-    const matchesSearch = candidate.fullName.toLowerCase().includes(search.toLowerCase()) ||
-                         candidate.email.toLowerCase().includes(search.toLowerCase()) ||
-                         candidate.position.toLowerCase().includes(search.toLowerCase());
+    const matchesSearch = semanticRank
+      ? semanticRank.has(candidate.id)
+      : candidate.fullName.toLowerCase().includes(search.toLowerCase()) ||
+        candidate.email.toLowerCase().includes(search.toLowerCase()) ||
+        candidate.position.toLowerCase().includes(search.toLowerCase());
     
     const matchesPosition = positionFilter === "all" || candidate.position === positionFilter;
     const matchesStatus = statusFilter === "all" || candidate.status === statusFilter;
+    const matchesLanguage = languageFilter === "all" || candidate.resumeLanguage === languageFilter;
     
-    return matchesSearch && matchesPosition && matchesStatus;
-  });
+    return matchesSearch && matchesPosition && matchesStatus && matchesLanguage;
+  }).sort((a, b) => semanticRank ? semanticRank.get(a.id)! - semanticRank.get(b.id)! : 0);
 
   const uniquePositions = Array.from(new Set(candidates?.map(c => c.position) || []));
+  const uniqueLanguages = Array.from(new Set(candidates?.flatMap(c => c.resumeLanguage ? [c.resumeLanguage] : []) || []));
+
+  // Resume languages are stored as ISO 639-1 codes; show them in the UI language
+  const languageLabel = (code: string) => {
+    if (code === "und") return t("languageUndetermined");
+    try {
+      return new Intl.DisplayNames([language], { type: "language" }).of(code) ?? code;
+    } catch {
+      return code;
+    }
+  };
 
   if (isLoading) {
     return (
@@ -442,9 +500,16 @@ export default function Candidates() {
             <CardContent className="space-y-4">
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
                 <div>
-                  <Label className="text-sm">Search</Label>
+                  <div className="flex items-center justify-between gap-2">
+                    <Label className="text-sm">Search</Label>
+                    <label className="flex items-center gap-1 text-xs text-gray-600">
+                      {semanticLoading && <Loader2 className="w-3 h-3 animate-spin" />}
+                      {t("semanticSearch")}
+                      <Switch checked={semanticSearch} onCheckedChange={setSemanticSearch} className="scale-75" />
+                    </label>
+                  </div>
                   <Input
-                    placeholder="Search by name, email, or position..."
+                    placeholder={semanticSearch ? t("semanticSearchPlaceholder") : "Search by name, email, or position..."}
                     value={search}
                     onChange={(e) => setSearch(e.target.value)}
                     className="mt-2"
@@ -482,6 +547,22 @@ export default function Candidates() {
                     </SelectContent>
                   </Select>
                 </div>
+                <div>
+                  <Label className="text-sm">{t("resumeLanguage")}</Label>
+                  <Select value={languageFilter} onValueChange={setLanguageFilter}>
+                    <SelectTrigger className="mt-2">
+                      <SelectValue placeholder={t("resumeLanguage")} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">{t("allLanguages")}</SelectItem>
+                      {uniqueLanguages.map(code => (
+                        <SelectItem key={code} value={code}>
+                          {languageLabel(code)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -498,7 +579,7 @@ export default function Candidates() {
                 <Users className="w-10 h-10 sm:w-12 sm:h-12 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">No candidates found</h3>
                 <p className="text-sm sm:text-base text-gray-500 mb-4">
-                  {search || positionFilter !== "all" || statusFilter !== "all"
+                  {search || positionFilter !== "all" || statusFilter !== "all" || languageFilter !== "all"
                     ? "Try adjusting your search filters to see more candidates."
                     : "No candidates have applied yet. Applications will appear here once submitted."}
                 </p>
@@ -549,7 +630,9 @@ export default function Candidates() {
                           </div>
                         </div>
                         
-                        {candidate.assessment && (
+                        {candidate.assessment?.status === "needs_review" ? (
+                          <Badge variant="outline" className="text-xs w-fit">{t("needsManualReview")}</Badge>
+                        ) : candidate.assessment && candidate.assessment.overallScore !== null && (
                           <div className="flex items-center space-x-2">
                             <span className="text-xs sm:text-sm font-medium text-gray-600">Score:</span>
                             <span className="text-xs sm:text-sm font-medium text-gray-900">
@@ -700,7 +783,10 @@ export default function Candidates() {
           {/* Candidate Details Dialog */}
           {selectedCandidate && (
             <Dialog open={!!selectedCandidate} onOpenChange={() => setSelectedCandidate(null)}>
-              <DialogContent className="w-[95vw] max-w-2xl mx-auto max-h-[90vh] overflow-y-auto">
+              <DialogContent className={cn(
+                "w-[95vw] mx-auto max-h-[90vh] overflow-y-auto",
+                selectedCandidate.assessment?.evidence?.length ? "max-w-4xl" : "max-w-2xl"
+              )}>
                 <DialogHeader>
                   <DialogTitle className="text-lg">{selectedCandidate.fullName}</DialogTitle>
                   <DialogDescription>
@@ -733,12 +819,58 @@ export default function Candidates() {
                       <Label className="text-sm font-medium">Applied Date</Label>
                       <p className="text-sm text-gray-600">{new Date(selectedCandidate.appliedAt).toLocaleDateString()}</p>
                     </div>
+                    {selectedCandidate.extractionMethod && (
+                      <div>
+                        <Label className="text-sm font-medium">{t("textExtraction")}</Label>
+                        <p className="text-sm text-gray-600">
+                          {t(EXTRACTION_METHOD_LABELS[selectedCandidate.extractionMethod as keyof typeof EXTRACTION_METHOD_LABELS] ?? "extractionTextLayer")}
+                          {selectedCandidate.extractionConfidence != null &&
+                            ` · ${t("ocrConfidence")} ${Math.round(Number(selectedCandidate.extractionConfidence))}%`}
+                        </p>
+                      </div>
+                    )}
+                    {selectedCandidate.resumeLanguage && (
+                      <div>
+                        <Label className="text-sm font-medium">{t("resumeLanguage")}</Label>
+                        <p className="text-sm text-gray-600">{languageLabel(selectedCandidate.resumeLanguage)}</p>
+                      </div>
+                    )}
                   </div>
-                  
+
+                  <CandidateProfile candidateId={selectedCandidate.id} hasResume={!!selectedCandidate.resumeSummary} />
+
                   {selectedCandidate.resumeSummary && (
+                    <SimilarCandidates
+                      candidateId={selectedCandidate.id}
+                      onSelect={(candidateId) => {
+                        const match = candidates?.find(c => c.id === candidateId);
+                        if (match) setSelectedCandidate(match);
+                      }}
+                    />
+                  )}
+
+                  <SuggestedRoles
+                    candidateId={selectedCandidate.id}
+                    onTransferred={(candidate, mode) => {
+                      // A duplicate is a new application; the open one only changes position when moved
+                      if (mode === "move") setSelectedCandidate({ ...selectedCandidate, position: candidate.position });
+                    }}
+                  />
+                  
+                  {selectedCandidate.resumeSummary && selectedCandidate.assessment?.evidence?.length ? (
+                    <ResumeEvidence
+                      text={selectedCandidate.resumeSummary}
+                      evidence={selectedCandidate.assessment.evidence}
+                      scores={[
+                        { key: "technicalSkills", label: t("technicalSkills"), value: selectedCandidate.assessment.technicalSkills },
+                        { key: "experienceMatch", label: t("experienceMatch"), value: selectedCandidate.assessment.experienceMatch },
+                        { key: "education", label: t("education"), value: selectedCandidate.assessment.education },
+                      ]}
+                    />
+                  ) : selectedCandidate.resumeSummary && (
                     <div>
                       <Label className="text-sm font-medium">Resume Summary</Label>
-                      <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{selectedCandidate.resumeSummary}</p>
+                      <p dir="auto" className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{selectedCandidate.resumeSummary}</p>
                     </div>
                   )}
                   
@@ -746,18 +878,24 @@ export default function Candidates() {
                     <div>
                       <Label className="text-sm font-medium">AI Assessment</Label>
                       <div className="mt-2 space-y-2">
-                        <div className="flex justify-between text-sm">
-                          <span>Overall Score:</span>
-                          <span className="font-medium">{selectedCandidate.assessment.overallScore}%</span>
-                        </div>
-                        <div className="w-full bg-gray-200 rounded-full h-2">
-                          <div 
-                            className="bg-green-500 h-2 rounded-full" 
-                            style={{ width: `${selectedCandidate.assessment.overallScore}%` }}
-                          />
-                        </div>
+                        {selectedCandidate.assessment.overallScore !== null ? (
+                          <>
+                            <div className="flex justify-between text-sm">
+                              <span>Overall Score:</span>
+                              <span className="font-medium">{selectedCandidate.assessment.overallScore}%</span>
+                            </div>
+                            <div className="w-full bg-gray-200 rounded-full h-2">
+                              <div 
+                                className="bg-green-500 h-2 rounded-full" 
+                                style={{ width: `${selectedCandidate.assessment.overallScore}%` }}
+                              />
+                            </div>
+                          </>
+                        ) : selectedCandidate.assessment.status === "needs_review" && (
+                          <Badge variant="outline" className="text-xs">{t("needsManualReview")}</Badge>
+                        )}
                         {selectedCandidate.assessment.aiInsights && (
-                          <p className="text-xs text-gray-600 mt-2">{selectedCandidate.assessment.aiInsights}</p>
+                          <p dir="auto" className="text-xs text-gray-600 mt-2">{selectedCandidate.assessment.aiInsights}</p>
                         )}
                       </div>
                     </div>
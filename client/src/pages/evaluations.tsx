@@ -3,6 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useLanguage } from "@/hooks/useLanguage";
 import { useToast } from "@/hooks/use-toast";
+import { useBackgroundJob } from "@/hooks/useBackgroundJob";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import Sidebar from "@/components/sidebar";
@@ -10,6 +11,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import JobProgress from "@/components/job-progress";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -24,9 +26,13 @@ import {
   Loader2,
   Calendar,
   User,
-  Building
+  Building,
+  History,
+  Trash2
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { MUST_HAVE_MIN_SCORE } from "@shared/constants";
+import type { CriterionScore, ScoreOverrides } from "@shared/schema";
 
 interface Evaluation {
   id: string;
@@ -45,16 +51,31 @@ interface Evaluation {
   culturalFit?: number;
   overallRecommendation: string;
   recommendations?: string;
+  scoringMethod?: "ai" | "heuristic";
+  criteriaScores?: CriterionScore[] | null;
+  scoreOverridden?: boolean;
   ranking: number;
   evaluatedAt?: string;
   evaluator?: string;
 }
 
+interface EvaluationRun {
+  id: string;
+  jobDescriptionId?: string | null;
+  jobTitle?: string | null;
+  position?: string | null;
+  candidateCount: number;
+  averageFitScore: number;
+  createdBy?: string | null;
+  createdAt: string;
+}
+
 interface Candidate {
   id: string;
   fullName: string;
   email: string;
   position: string;
+  assessment?: { scoreOverrides?: ScoreOverrides | null } | null;
 }
 
 interface JobDescription {
@@ -70,6 +91,11 @@ interface JobDescription {
   isActive?: boolean;
 }
 
+function hasScoreOverrides(candidate?: Candidate): boolean {
+  const overrides = candidate?.assessment?.scoreOverrides;
+  return !!overrides && Object.keys(overrides).length > 0;
+}
+
 export default function Evaluations() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
@@ -82,6 +108,8 @@ export default function Evaluations() {
   const [selectedPosition, setSelectedPosition] = useState("all");
   const [isJobSelectionDialogOpen, setIsJobSelectionDialogOpen] = useState(false);
   const [selectedJobDescription, setSelectedJobDescription] = useState<JobDescription | null>(null);
+  const [selectedRunId, setSelectedRunId] = useState("latest");
+  const [evaluationJobId, setEvaluationJobId] = useState<string | null>(null);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -97,9 +125,17 @@ export default function Evaluations() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
+  const { data: evaluationRuns } = useQuery<EvaluationRun[]>({
+    queryKey: ["/api/evaluations/runs"],
+    queryFn: () => fetch("/api/evaluations/runs").then(res => res.json()),
+    retry: false,
+  });
+
   const { data: evaluations, isLoading: evaluationsLoading } = useQuery<Evaluation[]>({
-    queryKey: ["/api/evaluations"],
-    queryFn: () => fetch("/api/evaluations").then(res => res.json()),
+    queryKey: ["/api/evaluations", selectedRunId],
+    queryFn: () => fetch(
+      selectedRunId === "latest" ? "/api/evaluations" : `/api/evaluations?runId=${selectedRunId}`
+    ).then(res => res.json()),
     retry: false,
   });
 
@@ -115,6 +151,47 @@ export default function Evaluations() {
     retry: false,
   });
 
+  // Evaluation runs are processed by the background job queue; progress is streamed per candidate
+  const {
+    progress: evaluationProgress,
+    items: evaluationItems,
+    isRunning: evaluationRunning,
+    cancel: cancelEvaluation,
+  } = useBackgroundJob(evaluationJobId, (job) => {
+    if (job.status === "cancelled") {
+      toast({
+        title: t("runCancelled"),
+        description: "The evaluation was stopped before results were saved",
+      });
+    } else if (job.status === "completed") {
+      toast({
+        title: t("evaluationCompleted"),
+        description: `Successfully evaluated ${job.result?.candidateCount || 0} candidates`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/evaluations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/evaluations/runs"] });
+      setSelectedRunId("latest");
+    } else {
+      toast({
+        title: t("evaluationFailed"),
+        description: job.lastError || t("failedToRunEvaluation"),
+        variant: "destructive",
+      });
+    }
+    setEvaluationJobId(null);
+  });
+
+  const cancelEvaluationMutation = useMutation({
+    mutationFn: cancelEvaluation,
+    onError: (error: any) => {
+      toast({
+        title: t("error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Run evaluation mutation
   const runEvaluationMutation = useMutation({
     mutationFn: async (data: { position?: string; jobDescriptionId?: string }) => {
@@ -122,11 +199,11 @@ export default function Evaluations() {
       return await res.json();
     },
     onSuccess: (data) => {
+      setEvaluationJobId(data.jobId);
       toast({
-        title: t("evaluationCompleted"),
-        description: `Successfully evaluated ${data.count || 0} candidates`,
+        title: t("evaluationQueued"),
+        description: data.message || `Evaluating ${data.count || 0} candidates`,
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/evaluations"] });
       setIsJobSelectionDialogOpen(false);
       setSelectedJobDescription(null);
     },
@@ -150,6 +227,48 @@ export default function Evaluations() {
     },
   });
 
+  const isEvaluating = runEvaluationMutation.isPending || evaluationRunning;
+
+  // Delete evaluation run mutation
+  const deleteRunMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const res = await apiRequest("DELETE", `/api/evaluations/runs/${runId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: t("success"),
+        description: "Evaluation run deleted",
+      });
+      setSelectedRunId("latest");
+      queryClient.invalidateQueries({ queryKey: ["/api/evaluations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/evaluations/runs"] });
+    },
+    onError: (error) => {
+      toast({
+        title: t("error"),
+        description: error.message || "Failed to delete evaluation run",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const latestRun = evaluationRuns?.[0];
+  const activeRun = selectedRunId === "latest"
+    ? latestRun
+    : evaluationRuns?.find(run => run.id === selectedRunId);
+
+  const formatRunLabel = (run: EvaluationRun) => {
+    const title = run.jobTitle || run.position || "All positions";
+    return `${new Date(run.createdAt).toLocaleString()} · ${title} (${run.candidateCount})`;
+  };
+
+  const handleDeleteRun = () => {
+    if (!activeRun) return;
+    if (!confirm("Delete this evaluation run and all of its rankings?")) return;
+    deleteRunMutation.mutate(activeRun.id);
+  };
+
   const handleRunEvaluation = () => {
     if (!candidates || candidates.length === 0) {
       toast({
@@ -310,10 +429,10 @@ export default function Evaluations() {
               </Select>
               <Button 
                 onClick={handleRunEvaluation}
-                disabled={runEvaluationMutation.isPending || !candidates || candidates.length === 0}
+                disabled={isEvaluating || !candidates || candidates.length === 0}
                 className="bg-blue-600 hover:bg-blue-700"
               >
-                {runEvaluationMutation.isPending ? (
+                {isEvaluating ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                     {t("evaluating")}
@@ -328,6 +447,67 @@ export default function Evaluations() {
             </div>
           </div>
 
+          {/* Live progress of the running evaluation */}
+          {evaluationJobId && (
+            <JobProgress
+              title={t("evaluatingCandidates")}
+              progress={evaluationProgress}
+              items={evaluationItems}
+              onCancel={() => cancelEvaluationMutation.mutate()}
+              isCancelling={cancelEvaluationMutation.isPending}
+            />
+          )}
+
+          {/* Evaluation Run Picker */}
+          {evaluationRuns && evaluationRuns.length > 0 && (
+            <Card>
+              <CardContent className="p-3 sm:p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                    <History className="w-4 h-4" />
+                    Evaluation Run
+                  </div>
+                  <Select value={selectedRunId} onValueChange={setSelectedRunId}>
+                    <SelectTrigger className="sm:w-96">
+                      <SelectValue placeholder="Select evaluation run" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="latest">
+                        Latest{latestRun ? ` · ${formatRunLabel(latestRun)}` : ""}
+                      </SelectItem>
+                      {evaluationRuns.map(run => (
+                        <SelectItem key={run.id} value={run.id}>
+                          {formatRunLabel(run)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {activeRun && (
+                    <div className="flex items-center gap-3 sm:ml-auto">
+                      <span className="text-xs text-gray-500">
+                        Avg. fit {activeRun.averageFitScore}%
+                        {activeRun.createdBy && ` · by ${activeRun.createdBy}`}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDeleteRun}
+                        disabled={deleteRunMutation.isPending}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        {deleteRunMutation.isPending ? (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : (
+                          <Trash2 className="w-3 h-3" />
+                        )}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Stats Cards */}
           {evaluations && evaluations.length > 0 && (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
@@ -547,10 +727,10 @@ export default function Evaluations() {
                     </Button>
                     <Button 
                       onClick={handleJobSelectionAndRunEvaluation}
-                      disabled={!selectedJobDescription || runEvaluationMutation.isPending}
+                      disabled={!selectedJobDescription || isEvaluating}
                       className="bg-blue-600 hover:bg-blue-700"
                     >
-                      {runEvaluationMutation.isPending ? (
+                      {isEvaluating ? (
                         <>
                           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                           Evaluating...
@@ -587,10 +767,10 @@ export default function Evaluations() {
                 {(!evaluations || evaluations.length === 0) && candidates && candidates.length > 0 && (
                   <Button 
                     onClick={handleRunEvaluation}
-                    disabled={runEvaluationMutation.isPending}
+                    disabled={isEvaluating}
                     className="bg-blue-600 hover:bg-blue-700"
                   >
-                    {runEvaluationMutation.isPending ? (
+                    {isEvaluating ? (
                       <>
                         <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                         {t("evaluating")}
@@ -635,6 +815,24 @@ export default function Evaluations() {
                             </div>
                           </div>
                           <div className="flex items-center space-x-2 flex-shrink-0">
+                            {evaluation.scoringMethod === "heuristic" && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs border-amber-300 text-amber-700"
+                                title="Rule-based estimate: this candidate has no completed AI assessment"
+                              >
+                                Heuristic
+                              </Badge>
+                            )}
+                            {(evaluation.scoreOverridden || hasScoreOverrides(candidate)) && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs border-amber-300 bg-amber-50 text-amber-700"
+                                title={evaluation.scoreOverridden ? t("rankedWithAdjustedScores") : t("scoresAdjustedAfterRun")}
+                              >
+                                {t("adjusted")}
+                              </Badge>
+                            )}
                             <Badge variant={scoreBadge.variant} className="text-xs">
                               {scoreBadge.label}
                             </Badge>
@@ -673,6 +871,37 @@ export default function Evaluations() {
                           </div>
                         </div>
 
+                        {/* Rubric criteria; the score above is their weighted mean */}
+                        {evaluation.criteriaScores && evaluation.criteriaScores.length > 0 && (
+                          <div className="space-y-1">
+                            <span className="text-xs font-medium text-gray-700">{t("rubricScores")}</span>
+                            {evaluation.criteriaScores.map(criterion => (
+                              <div
+                                key={criterion.criterionId}
+                                className="flex items-center justify-between gap-2 text-xs"
+                                title={criterion.rationale || undefined}
+                              >
+                                <span className="text-gray-600 truncate">
+                                  {criterion.name}
+                                  <span className="text-gray-400"> ×{criterion.weight}</span>
+                                  {criterion.mustHave && (
+                                    <Badge
+                                      variant="outline"
+                                      className={cn(
+                                        "ml-1 text-[10px] px-1 py-0",
+                                        criterion.score < MUST_HAVE_MIN_SCORE ? "border-red-300 text-red-700" : "border-green-300 text-green-700"
+                                      )}
+                                    >
+                                      {t("mustHave")}
+                                    </Badge>
+                                  )}
+                                </span>
+                                <span className={cn("font-medium shrink-0", getScoreColor(criterion.score))}>{criterion.score}%</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
                         {/* Recommendations */}
                         {evaluation.overallRecommendation && (
                           <div className="border-t border-gray-100 pt-3">
@@ -6,6 +6,7 @@ import { useLanguage } from "@/hooks/useLanguage";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import Sidebar from "@/components/sidebar";
+import LLMCostReport from "@/components/llm-cost-report";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { 
@@ -232,6 +233,9 @@ export default function Home() {
               </CardContent>
             </Card>
           </div>
+
+          {/* AI usage cost */}
+          <LLMCostReport />
         </div>
       </main>
     </div>
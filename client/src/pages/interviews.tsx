@@ -15,6 +15,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import InterviewKitDialog, { kitQuestionCount } from "@/components/interview-kit-dialog";
 import { 
   CalendarPlus, 
   Video, 
@@ -24,9 +25,11 @@ import {
   Loader2,
   Calendar,
   Clock,
-  User
+  User,
+  ClipboardList
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { InterviewKit } from "@shared/schema";
 
 interface Interview {
   id: string;
@@ -35,6 +38,7 @@ interface Interview {
   interviewType: string;
   status: string;
   notes?: string;
+  kit?: InterviewKit | null;
 }
 
 interface Candidate {
@@ -67,6 +71,9 @@ export default function Interviews() {
   // Delete interview state
   const [deletingInterviewId, setDeletingInterviewId] = useState<string | null>(null);
 
+  // Interview kit state, looked up from the list so it refreshes after generating or saving
+  const [kitInterviewId, setKitInterviewId] = useState<string | null>(null);
+
   // Redirect if not authenticated
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -91,6 +98,8 @@ export default function Interviews() {
     retry: false,
   });
 
+  const kitInterview = interviews?.find(interview => interview.id === kitInterviewId) ?? null;
+
   // Filter candidates based on search
   const filteredCandidates = candidates?.filter(candidate =>
     candidate.fullName.toLowerCase().includes(candidateSearch.toLowerCase()) ||
@@ -464,7 +473,12 @@ export default function Interviews() {
                               </p>
                             </div>
                           </div>
-                          <div className="flex-shrink-0">
+                          <div className="flex-shrink-0 flex items-center gap-2">
+                            {interview.kit && (
+                              <Badge variant="outline" className="text-xs">
+                                {kitQuestionCount(interview.kit)} {t("kitQuestions")}
+                              </Badge>
+                            )}
                             {getStatusBadge(interview.status)}
                           </div>
                         </div>
@@ -508,6 +522,15 @@ export default function Interviews() {
                             <Edit className="w-3 h-3" />
                             <span>Edit</span>
                           </Button>
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => setKitInterviewId(interview.id)}
+                            className="flex items-center space-x-1 text-xs px-3 py-2 h-8"
+                          >
+                            <ClipboardList className="w-3 h-3" />
+                            <span>{t("interviewKit")}</span>
+                          </Button>
                           <Button 
                             variant="outline" 
                             size="sm"
@@ -617,6 +640,12 @@ export default function Interviews() {
               </div>
             </DialogContent>
           </Dialog>
+
+          <InterviewKitDialog
+            interview={kitInterview}
+            candidateName={candidates?.find(c => c.id === kitInterview?.candidateId)?.fullName}
+            onClose={() => setKitInterviewId(null)}
+          />
         </div>
       </main>
     </div>
@@ -6,11 +6,15 @@ import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import Sidebar from "@/components/sidebar";
+import BestMatches from "@/components/best-matches";
+import FitMatrix from "@/components/fit-matrix";
+import RubricEditor, { toRubricDrafts, type RubricCriterionDraft } from "@/components/rubric-editor";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -32,6 +36,7 @@ interface JobDescription {
   salaryMin?: number;
   salaryMax?: number;
   notes?: string;
+  rubric?: RubricCriterionDraft[] | null;
   isActive?: boolean;
   createdAt: string;
   updatedAt: string;
@@ -47,6 +52,7 @@ export default function JobDescriptions() {
   const [editingJob, setEditingJob] = useState<JobDescription | null>(null);
   const [expandedJobs, setExpandedJobs] = useState<Set<string>>(new Set());
   const [deletingJobId, setDeletingJobId] = useState<string | null>(null);
+  const [requeueFitScores, setRequeueFitScores] = useState(true);
   
   const [jobForm, setJobForm] = useState({
     title: "",
@@ -65,7 +71,8 @@ export default function JobDescriptions() {
     department: "",
     employmentType: "",
     salaryRange: "",
-    status: "active"
+    status: "active",
+    rubric: [] as RubricCriterionDraft[], // Empty scores against the default rubric
   });
 
   // Redirect if not authenticated
@@ -143,17 +150,19 @@ export default function JobDescriptions() {
 
   const updateJobMutation = useMutation({
     mutationFn: async (data: typeof jobForm & { id: string }) => {
-      const res = await apiRequest("PUT", `/api/job-descriptions/${data.id}`, data);
+      const res = await apiRequest("PUT", `/api/job-descriptions/${data.id}`, { ...data, requeueFitScores });
       return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/job-descriptions"] });
       setIsEditDialogOpen(false);
       setEditingJob(null);
       resetForm();
       toast({
         title: "Job Updated",
-        description: "Job description updated successfully",
+        description: data.fitScoreRecalculation
+          ? `${t("fitScoresRequeued")}: ${data.fitScoreRecalculation.total}`
+          : "Job description updated successfully",
       });
     },
     onError: (error: Error) => {
@@ -230,7 +239,8 @@ export default function JobDescriptions() {
       department: "",
       employmentType: "",
       salaryRange: "",
-      status: "active"
+      status: "active",
+      rubric: [],
     });
   };
 
@@ -264,7 +274,8 @@ export default function JobDescriptions() {
       department: job.department || "",
       employmentType: job.employmentType || "",
       salaryRange: job.salaryRange || "",
-      status: job.status || "active"
+      status: job.status || "active",
+      rubric: toRubricDrafts(job.rubric),
     });
     setIsEditDialogOpen(true);
   };
@@ -453,6 +464,7 @@ export default function JobDescriptions() {
                       className="mt-2"
                     />
                   </div>
+                  <RubricEditor value={jobForm.rubric} onChange={(rubric) => setJobForm({ ...jobForm, rubric })} />
                   <div>
                     <Label className="text-sm">Description</Label>
                     <Textarea
@@ -547,142 +559,160 @@ export default function JobDescriptions() {
           </div>
 
           {/* Jobs List */}
-          {jobsLoading ? (
-            <div className="text-center py-8">
-              <Loader2 className="w-6 h-6 animate-spin mx-auto text-gray-500" />
-              <div className="text-gray-500 mt-2">Loading job descriptions...</div>
-            </div>
-          ) : !jobs || jobs.length === 0 ? (
-            <Card>
-              <CardContent className="p-6 sm:p-8 text-center">
-                <Briefcase className="w-10 h-10 sm:w-12 sm:h-12 text-gray-400 mx-auto mb-4" />
-                <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">No job descriptions</h3>
-                <p className="text-sm sm:text-base text-gray-500 mb-4">
-                  Create your first job description to start attracting candidates.
-                </p>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="space-y-3 sm:space-y-4">
-              {jobs.map((job) => {
-                const isExpanded = expandedJobs.has(job.id);
+          <Tabs defaultValue="jobs">
+            <TabsList>
+              <TabsTrigger value="jobs">{t("jobsTab")}</TabsTrigger>
+              <TabsTrigger value="matches">{t("bestMatches")}</TabsTrigger>
+              <TabsTrigger value="matrix">{t("fitMatrix")}</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="jobs" className="mt-4">
+              {jobsLoading ? (
+                <div className="text-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin mx-auto text-gray-500" />
+                  <div className="text-gray-500 mt-2">Loading job descriptions...</div>
+                </div>
+              ) : !jobs || jobs.length === 0 ? (
+                <Card>
+                  <CardContent className="p-6 sm:p-8 text-center">
+                    <Briefcase className="w-10 h-10 sm:w-12 sm:h-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">No job descriptions</h3>
+                    <p className="text-sm sm:text-base text-gray-500 mb-4">
+                      Create your first job description to start attracting candidates.
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="space-y-3 sm:space-y-4">
+                  {jobs.map((job) => {
+                    const isExpanded = expandedJobs.has(job.id);
                 
-                return (
-                  <Card key={job.id} className="hover:shadow-md transition-shadow">
-                    <CardContent className="p-3 sm:p-4">
-                      <div className="flex flex-col space-y-3">
-                        {/* Header Row */}
-                        <div className="flex items-center justify-between">
-                          <div className="flex-1 min-w-0">
-                            <h3 className="text-sm sm:text-base font-medium text-gray-900 truncate">
-                              {job.title}
-                            </h3>
-                            <p className="text-xs sm:text-sm text-gray-500 truncate">
-                              {job.department || job.position}
-                            </p>
-                          </div>
-                          <div className="flex-shrink-0">
-                            {getStatusBadge(job.status || 'active')}
-                          </div>
-                        </div>
+                    return (
+                      <Card key={job.id} className="hover:shadow-md transition-shadow">
+                        <CardContent className="p-3 sm:p-4">
+                          <div className="flex flex-col space-y-3">
+                            {/* Header Row */}
+                            <div className="flex items-center justify-between">
+                              <div className="flex-1 min-w-0">
+                                <h3 className="text-sm sm:text-base font-medium text-gray-900 truncate">
+                                  {job.title}
+                                </h3>
+                                <p className="text-xs sm:text-sm text-gray-500 truncate">
+                                  {job.department || job.position}
+                                </p>
+                              </div>
+                              <div className="flex-shrink-0">
+                                {getStatusBadge(job.status || 'active')}
+                              </div>
+                            </div>
 
-                        {/* Job Details */}
-                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 text-xs sm:text-sm">
-                          {job.location && (
-                            <div className="flex items-center space-x-2">
-                              <MapPin className="w-3 h-3 text-gray-500" />
-                              <span className="text-gray-600 truncate">{job.location}</span>
+                            {/* Job Details */}
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 text-xs sm:text-sm">
+                              {job.location && (
+                                <div className="flex items-center space-x-2">
+                                  <MapPin className="w-3 h-3 text-gray-500" />
+                                  <span className="text-gray-600 truncate">{job.location}</span>
+                                </div>
+                              )}
+                              <div className="flex items-center space-x-2">
+                                <Briefcase className="w-3 h-3 text-gray-500" />
+                                <span className="text-gray-600 capitalize">{job.employmentType?.replace('-', ' ') || 'N/A'}</span>
+                              </div>
+                              {job.salaryRange && (
+                                <div className="flex items-center space-x-2">
+                                  <DollarSign className="w-3 h-3 text-gray-500" />
+                                  <span className="text-gray-600 truncate">{job.salaryRange}</span>
+                                </div>
+                              )}
+                              <div className="flex items-center space-x-2">
+                                <Calendar className="w-3 h-3 text-gray-500" />
+                                <span className="text-gray-600">{new Date(job.createdAt).toLocaleDateString()}</span>
+                              </div>
                             </div>
-                          )}
-                          <div className="flex items-center space-x-2">
-                            <Briefcase className="w-3 h-3 text-gray-500" />
-                            <span className="text-gray-600 capitalize">{job.employmentType?.replace('-', ' ') || 'N/A'}</span>
-                          </div>
-                          {job.salaryRange && (
-                            <div className="flex items-center space-x-2">
-                              <DollarSign className="w-3 h-3 text-gray-500" />
-                              <span className="text-gray-600 truncate">{job.salaryRange}</span>
+
+                            {/* Job Description */}
+                            <div className="border-t border-gray-100 pt-3">
+                              <div className={cn(
+                                "text-xs sm:text-sm text-gray-600",
+                                !isExpanded && "line-clamp-2"
+                              )}>
+                                {job.description || 'No description available'}
+                              </div>
+                              {job.description && job.description.length > 150 && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => toggleJobExpansion(job.id)}
+                                  className="mt-2 h-6 text-xs text-blue-600 hover:text-blue-700 p-0"
+                                >
+                                  {isExpanded ? 'Show less' : 'Show more'}
+                                </Button>
+                              )}
                             </div>
-                          )}
-                          <div className="flex items-center space-x-2">
-                            <Calendar className="w-3 h-3 text-gray-500" />
-                            <span className="text-gray-600">{new Date(job.createdAt).toLocaleDateString()}</span>
-                          </div>
-                        </div>
 
-                        {/* Job Description */}
-                        <div className="border-t border-gray-100 pt-3">
-                          <div className={cn(
-                            "text-xs sm:text-sm text-gray-600",
-                            !isExpanded && "line-clamp-2"
-                          )}>
-                            {job.description || 'No description available'}
-                          </div>
-                          {job.description && job.description.length > 150 && (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => toggleJobExpansion(job.id)}
-                              className="mt-2 h-6 text-xs text-blue-600 hover:text-blue-700 p-0"
-                            >
-                              {isExpanded ? 'Show less' : 'Show more'}
-                            </Button>
-                          )}
-                        </div>
+                            {/* Requirements (when expanded) */}
+                            {isExpanded && (
+                              <div className="border-t border-gray-100 pt-3">
+                                <h4 className="text-sm font-medium text-gray-700 mb-2">Requirements</h4>
+                                <div className="text-xs sm:text-sm text-gray-600">
+                                  {job.requirements}
+                                </div>
+                              </div>
+                            )}
 
-                        {/* Requirements (when expanded) */}
-                        {isExpanded && (
-                          <div className="border-t border-gray-100 pt-3">
-                            <h4 className="text-sm font-medium text-gray-700 mb-2">Requirements</h4>
-                            <div className="text-xs sm:text-sm text-gray-600">
-                              {job.requirements}
-                            </div>
-                          </div>
-                        )}
+                            {/* Benefits (when expanded) */}
+                            {isExpanded && job.benefits && (
+                              <div className="border-t border-gray-100 pt-3">
+                                <h4 className="text-sm font-medium text-gray-700 mb-2">Benefits</h4>
+                                <div className="text-xs sm:text-sm text-gray-600">
+                                  {job.benefits}
+                                </div>
+                              </div>
+                            )}
 
-                        {/* Benefits (when expanded) */}
-                        {isExpanded && job.benefits && (
-                          <div className="border-t border-gray-100 pt-3">
-                            <h4 className="text-sm font-medium text-gray-700 mb-2">Benefits</h4>
-                            <div className="text-xs sm:text-sm text-gray-600">
-                              {job.benefits}
+                            {/* Actions */}
+                            <div className="flex justify-end space-x-2 pt-2 border-t border-gray-100">
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => handleEditJob(job)}
+                                className="flex items-center space-x-1 text-xs px-3 py-2 h-8"
+                              >
+                                <Edit className="w-3 h-3" />
+                                <span>Edit</span>
+                              </Button>
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => handleDeleteJob(job)}
+                                className="flex items-center space-x-1 text-xs px-3 py-2 h-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                                disabled={deletingJobId === job.id}
+                              >
+                                {deletingJobId === job.id ? (
+                                  <Loader2 className="w-3 h-3 animate-spin" />
+                                ) : (
+                                  <Trash2 className="w-3 h-3" />
+                                )}
+                                <span>Delete</span>
+                              </Button>
                             </div>
                           </div>
-                        )}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              )}
+            </TabsContent>
 
-                        {/* Actions */}
-                        <div className="flex justify-end space-x-2 pt-2 border-t border-gray-100">
-                          <Button 
-                            variant="outline" 
-                            size="sm"
-                            onClick={() => handleEditJob(job)}
-                            className="flex items-center space-x-1 text-xs px-3 py-2 h-8"
-                          >
-                            <Edit className="w-3 h-3" />
-                            <span>Edit</span>
-                          </Button>
-                          <Button 
-                            variant="outline" 
-                            size="sm"
-                            onClick={() => handleDeleteJob(job)}
-                            className="flex items-center space-x-1 text-xs px-3 py-2 h-8 text-red-600 hover:text-red-700 hover:bg-red-50"
-                            disabled={deletingJobId === job.id}
-                          >
-                            {deletingJobId === job.id ? (
-                              <Loader2 className="w-3 h-3 animate-spin" />
-                            ) : (
-                              <Trash2 className="w-3 h-3" />
-                            )}
-                            <span>Delete</span>
-                          </Button>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                );
-              })}
-            </div>
-          )}
+            <TabsContent value="matches" className="mt-4">
+              <BestMatches jobs={jobs || []} />
+            </TabsContent>
+
+            <TabsContent value="matrix" className="mt-4">
+              <FitMatrix />
+            </TabsContent>
+          </Tabs>
 
           {/* Edit Job Dialog */}
           <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
@@ -791,6 +821,7 @@ export default function JobDescriptions() {
                     className="mt-2"
                   />
                 </div>
+                <RubricEditor value={jobForm.rubric} onChange={(rubric) => setJobForm({ ...jobForm, rubric })} />
 
                 <div>
                   <Label className="text-sm">Description</Label>
@@ -862,6 +893,16 @@ export default function JobDescriptions() {
                   />
                   <Label htmlFor="isActive-edit" className="text-sm">Active Position</Label>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="requeueFitScores-edit"
+                    checked={requeueFitScores}
+                    onChange={(e) => setRequeueFitScores(e.target.checked)}
+                    className="rounded"
+                  />
+                  <Label htmlFor="requeueFitScores-edit" className="text-sm">{t("requeueStaleFitScores")}</Label>
+                </div>
 
                 <div className="flex justify-end space-x-2">
                   <Button variant="outline" size="sm" onClick={() => setIsEditDialogOpen(false)}>
@@ -0,0 +1,400 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import Sidebar from "@/components/sidebar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Eye, Loader2, Play, Save } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Candidate, JobDescription, PromptTemplate } from "@shared/schema";
+
+type PromptTask = "resume_analysis" | "resume_parsing" | "job_fit" | "evaluation" | "interview_kit";
+
+interface PromptVariablesResponse {
+  variables: Record<PromptTask, Record<string, string>>;
+}
+
+interface PromptPreview {
+  variables: Record<string, string>;
+  messages: { role: string; content: string }[];
+  output?: unknown;
+  rawResponses?: string[];
+}
+
+const TASK_LABELS = {
+  resume_analysis: "resumeAnalysisPrompt",
+  resume_parsing: "resumeParsingPrompt",
+  job_fit: "jobFitPrompt",
+  evaluation: "evaluationPrompt",
+  interview_kit: "interviewKitPrompt",
+} as const;
+
+export default function PromptTemplates() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const { t, isRTL } = useLanguage();
+
+  const [task, setTask] = useState<PromptTask>("resume_analysis");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState({ systemPrompt: "", userPrompt: "", notes: "" });
+  const [candidateId, setCandidateId] = useState("");
+  const [jobDescriptionId, setJobDescriptionId] = useState("");
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/auth";
+      }, 500);
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: templates, isLoading: templatesLoading } = useQuery<PromptTemplate[]>({
+    queryKey: ["/api/prompt-templates"],
+    retry: false,
+  });
+
+  const { data: variableInfo } = useQuery<PromptVariablesResponse>({
+    queryKey: ["/api/prompt-templates/variables"],
+    retry: false,
+  });
+
+  const { data: candidates } = useQuery<Candidate[]>({
+    queryKey: ["/api/candidates"],
+    retry: false,
+  });
+
+  const { data: jobDescriptions } = useQuery<JobDescription[]>({
+    queryKey: ["/api/job-descriptions"],
+    retry: false,
+  });
+
+  const versions = (templates || []).filter(template => template.task === task);
+  const selected = versions.find(template => template.id === selectedId);
+  const isDirty = !!selected && (
+    selected.systemPrompt !== form.systemPrompt ||
+    selected.userPrompt !== form.userPrompt
+  );
+
+  // Load the active version whenever the task changes or the list first arrives
+  useEffect(() => {
+    if (selected || versions.length === 0) return;
+    const active = versions.find(template => template.isActive) || versions[0];
+    setSelectedId(active.id);
+    setForm({ systemPrompt: active.systemPrompt, userPrompt: active.userPrompt, notes: "" });
+    setPreview(null);
+  }, [task, templates]);
+
+  const selectVersion = (template: PromptTemplate) => {
+    setSelectedId(template.id);
+    setForm({ systemPrompt: template.systemPrompt, userPrompt: template.userPrompt, notes: "" });
+    setPreview(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (activate: boolean) => {
+      const res = await apiRequest("POST", "/api/prompt-templates", {
+        task,
+        systemPrompt: form.systemPrompt,
+        userPrompt: form.userPrompt,
+        notes: form.notes || null,
+        isActive: activate,
+      });
+      return await res.json() as PromptTemplate;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/prompt-templates"] });
+      setSelectedId(template.id);
+      setForm(current => ({ ...current, notes: "" }));
+      toast({
+        title: template.isActive ? t("promptActivated") : t("promptSaved"),
+        description: `Version ${template.version}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/prompt-templates/${id}/activate`);
+      return await res.json() as PromptTemplate;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/prompt-templates"] });
+      toast({ title: t("promptActivated"), description: `Version ${template.version}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (execute: boolean) => {
+      const res = await apiRequest("POST", "/api/prompt-templates/preview", {
+        task,
+        candidateId,
+        jobDescriptionId: jobDescriptionId || null,
+        systemPrompt: form.systemPrompt,
+        userPrompt: form.userPrompt,
+        execute,
+      });
+      return await res.json() as PromptPreview;
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  const taskVariables = variableInfo?.variables[task] || {};
+
+  return (
+    <div className={cn("flex min-h-screen bg-gray-50", isRTL ? "flex-row-reverse" : "flex-row")}>
+      <Sidebar />
+
+      <main className={cn(
+        "flex-1 min-w-0 transition-all duration-200",
+        isRTL ? "lg:mr-64" : "lg:ml-64"
+      )}>
+        <div className="p-3 sm:p-4 lg:p-6 space-y-4 sm:space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-lg sm:text-2xl font-bold text-gray-900 dark:text-white">
+              {t("promptTemplates")}
+            </h1>
+            <p className="text-sm sm:text-base text-gray-500 dark:text-gray-400">
+              {t("promptTemplatesDescription")}
+            </p>
+          </div>
+
+          <Tabs value={task} onValueChange={(value) => { setTask(value as PromptTask); setSelectedId(null); }}>
+            <TabsList>
+              {(Object.keys(TASK_LABELS) as PromptTask[]).map(name => (
+                <TabsTrigger key={name} value={name}>{t(TASK_LABELS[name])}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 sm:gap-6">
+            {/* Versions */}
+            <Card className="lg:col-span-1">
+              <CardHeader>
+                <CardTitle className="text-base">{t("promptVersions")}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {templatesLoading ? (
+                  <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                ) : versions.map(template => (
+                  <button
+                    key={template.id}
+                    onClick={() => selectVersion(template)}
+                    className={cn(
+                      "w-full text-left rounded-md border p-3 transition-colors",
+                      template.id === selectedId ? "border-primary bg-primary/5" : "border-gray-200 hover:bg-gray-50"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm">v{template.version}</span>
+                      {template.isActive && (
+                        <Badge className="bg-green-100 text-green-800">{t("active")}</Badge>
+                      )}
+                    </div>
+                    {template.createdAt && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {new Date(template.createdAt).toLocaleString()}
+                      </p>
+                    )}
+                    {template.notes && (
+                      <p className="text-xs text-gray-600 mt-1 line-clamp-2">{template.notes}</p>
+                    )}
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Editor */}
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <CardTitle className="text-base">
+                    {selected ? `v${selected.version}` : t(TASK_LABELS[task])}
+                    {isDirty && <span className="ml-2 text-sm font-normal text-amber-600">*</span>}
+                  </CardTitle>
+                  {selected && !selected.isActive && !isDirty && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => activateMutation.mutate(selected.id)}
+                      disabled={activateMutation.isPending}
+                    >
+                      <CheckCircle2 className="w-4 h-4 mr-1" />
+                      {t("activateVersion")}
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label className="text-sm">{t("systemPrompt")}</Label>
+                  <Textarea
+                    value={form.systemPrompt}
+                    onChange={(e) => setForm({ ...form, systemPrompt: e.target.value })}
+                    className="mt-2 font-mono text-xs min-h-[120px]"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm">{t("userPrompt")}</Label>
+                  <Textarea
+                    value={form.userPrompt}
+                    onChange={(e) => setForm({ ...form, userPrompt: e.target.value })}
+                    className="mt-2 font-mono text-xs min-h-[320px]"
+                  />
+                </div>
+
+                <div>
+                  <Label className="text-sm">{t("promptVariables")}</Label>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {Object.entries(taskVariables).map(([name, description]) => (
+                      <Badge key={name} variant="outline" className="font-mono text-xs" title={description}>
+                        {`{{${name}}}`}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <Label className="text-sm">{t("notes")}</Label>
+                  <Input
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                    placeholder="What changed in this version?"
+                    className="mt-2"
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => saveMutation.mutate(false)}
+                    disabled={saveMutation.isPending || !form.systemPrompt.trim() || !form.userPrompt.trim()}
+                  >
+                    <Save className="w-4 h-4 mr-1" />
+                    {t("saveNewVersion")}
+                  </Button>
+                  <Button
+                    onClick={() => saveMutation.mutate(true)}
+                    disabled={saveMutation.isPending || !form.systemPrompt.trim() || !form.userPrompt.trim()}
+                  >
+                    <CheckCircle2 className="w-4 h-4 mr-1" />
+                    {t("saveAndActivate")}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Preview */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{t("previewPrompt")}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={candidateId} onValueChange={setCandidateId}>
+                  <SelectTrigger className="sm:w-64">
+                    <SelectValue placeholder={t("sampleCandidate")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(candidates || []).map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.fullName} - {candidate.position}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {task !== "resume_analysis" && task !== "resume_parsing" && (
+                  <Select value={jobDescriptionId} onValueChange={setJobDescriptionId}>
+                    <SelectTrigger className="sm:w-64">
+                      <SelectValue placeholder={t("jobDescriptions")} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(jobDescriptions || []).map(job => (
+                        <SelectItem key={job.id} value={job.id}>
+                          {job.title || job.position}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => previewMutation.mutate(false)}
+                  disabled={!candidateId || previewMutation.isPending}
+                >
+                  <Eye className="w-4 h-4 mr-1" />
+                  {t("previewPrompt")}
+                </Button>
+                <Button
+                  onClick={() => previewMutation.mutate(true)}
+                  disabled={!candidateId || previewMutation.isPending}
+                >
+                  {previewMutation.isPending
+                    ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    : <Play className="w-4 h-4 mr-1" />}
+                  {t("runPreview")}
+                </Button>
+              </div>
+
+              {preview && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-sm">{t("renderedPrompt")}</Label>
+                    {preview.messages.map((message, index) => (
+                      <div key={index} className="rounded-md border bg-gray-50 p-3">
+                        <p className="text-xs font-semibold uppercase text-gray-500 mb-1">{message.role}</p>
+                        <pre className="text-xs whitespace-pre-wrap break-words max-h-96 overflow-auto">{message.content}</pre>
+                      </div>
+                    ))}
+                  </div>
+                  {preview.output !== undefined && (
+                    <div className="space-y-2">
+                      <Label className="text-sm">{t("modelOutput")}</Label>
+                      <pre className="rounded-md border bg-gray-50 p-3 text-xs whitespace-pre-wrap break-words max-h-[36rem] overflow-auto">
+                        {JSON.stringify(preview.output, null, 2)}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import Sidebar from "@/components/sidebar";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Loader2, Plus, Search, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Skill } from "@shared/schema";
+
+const NO_PARENT = "none";
+
+const EMPTY_FORM = { name: "", category: "", parentId: NO_PARENT, aliases: "" };
+
+export default function SkillTaxonomy() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const { t, isRTL } = useLanguage();
+
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<Skill | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/auth";
+      }, 500);
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: skills, isLoading: skillsLoading } = useQuery<Skill[]>({
+    queryKey: ["/api/skills"],
+    retry: false,
+  });
+
+  const skillNames = useMemo(
+    () => new Map((skills || []).map(skill => [skill.id, skill.name])),
+    [skills]
+  );
+
+  const filtered = (skills || []).filter(skill => {
+    const query = search.trim().toLowerCase();
+    if (!query) return true;
+    return [skill.name, skill.category || "", ...skill.aliases].some(value => value.toLowerCase().includes(query));
+  });
+
+  const openDialog = (skill: Skill | null) => {
+    setEditing(skill);
+    setForm(skill ? {
+      name: skill.name,
+      category: skill.category || "",
+      parentId: skill.parentId || NO_PARENT,
+      aliases: skill.aliases.join(", "),
+    } : EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        category: form.category || null,
+        parentId: form.parentId === NO_PARENT ? null : form.parentId,
+        aliases: form.aliases.split(",").map(alias => alias.trim()).filter(Boolean),
+      };
+      const res = editing
+        ? await apiRequest("PUT", `/api/skills/${editing.id}`, body)
+        : await apiRequest("POST", "/api/skills", body);
+      return await res.json() as Skill;
+    },
+    onSuccess: (skill) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/skills"] });
+      setIsDialogOpen(false);
+      toast({ title: t("skillSaved"), description: skill.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/skills/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/skills"] });
+      toast({ title: t("skillDeleted") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleDelete = (skill: Skill) => {
+    if (!confirm(`${t("confirmDeleteSkill")} "${skill.name}"?`)) return;
+    deleteMutation.mutate(skill.id);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("flex min-h-screen bg-gray-50", isRTL ? "flex-row-reverse" : "flex-row")}>
+      <Sidebar />
+
+      <main className={cn(
+        "flex-1 min-w-0 transition-all duration-200",
+        isRTL ? "lg:mr-64" : "lg:ml-64"
+      )}>
+        <div className="p-3 sm:p-4 lg:p-6 space-y-4 sm:space-y-6">
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <h1 className="text-lg sm:text-2xl font-bold text-gray-900 dark:text-white">
+                {t("skillTaxonomy")}
+              </h1>
+              <p className="text-sm sm:text-base text-gray-500 dark:text-gray-400">
+                {t("skillTaxonomyDescription")}
+              </p>
+            </div>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="w-4 h-4 mr-1" />
+              {t("addSkill")}
+            </Button>
+          </div>
+
+          <div className="relative sm:w-80">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t("search")}
+              className="pl-9"
+            />
+          </div>
+
+          <Card>
+            <CardContent className="p-0">
+              {skillsLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+                </div>
+              ) : filtered.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">{t("noSkillsFound")}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("skillName")}</TableHead>
+                      <TableHead>{t("skillCategory")}</TableHead>
+                      <TableHead>{t("parentSkill")}</TableHead>
+                      <TableHead>{t("skillAliases")}</TableHead>
+                      <TableHead className="text-right">{t("actions")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filtered.map(skill => (
+                      <TableRow key={skill.id}>
+                        <TableCell className="font-medium">{skill.name}</TableCell>
+                        <TableCell className="text-gray-600">{skill.category || "-"}</TableCell>
+                        <TableCell className="text-gray-600">
+                          {skill.parentId ? skillNames.get(skill.parentId) : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {skill.aliases.map(alias => (
+                              <Badge key={alias} variant="outline" className="text-xs">{alias}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(skill)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            onClick={() => handleDelete(skill)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogContent className="w-[95vw] max-w-md mx-auto">
+              <DialogHeader>
+                <DialogTitle className="text-sm sm:text-base">
+                  {editing ? t("editSkill") : t("addSkill")}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label className="text-sm">{t("skillName")}</Label>
+                  <Input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm">{t("skillCategory")}</Label>
+                  <Input
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value })}
+                    placeholder="e.g. Framework"
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm">{t("parentSkill")}</Label>
+                  <Select value={form.parentId} onValueChange={(value) => setForm({ ...form, parentId: value })}>
+                    <SelectTrigger className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PARENT}>{t("noParentSkill")}</SelectItem>
+                      {(skills || []).filter(skill => skill.id !== editing?.id).map(skill => (
+                        <SelectItem key={skill.id} value={skill.id}>{skill.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-sm">{t("skillAliases")}</Label>
+                  <Input
+                    value={form.aliases}
+                    onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                    placeholder="e.g. reactjs, react.js"
+                    className="mt-2"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t("skillAliasesHint")}</p>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(false)}>
+                    {t("cancel")}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => saveMutation.mutate()}
+                    disabled={saveMutation.isPending || !form.name.trim()}
+                  >
+                    {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    {t("save")}
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </main>
+    </div>
+  );
+}
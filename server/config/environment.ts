@@ -9,6 +9,29 @@ export interface Environment {
   DATABASE_URL: string;
   SESSION_SECRET: string;
   OPENAI_API_KEY: string;
+  LLM_PROVIDER: string;
+  LLM_MODEL: string;
+  LLM_BASE_URL: string;
+  LLM_API_KEY: string;
+  LLM_API_VERSION: string;
+  LLM_MOCK_FIXTURES_DIR: string;
+  LLM_MAX_REPAIR_ATTEMPTS: number;
+  LLM_MONTHLY_BUDGET_USD: number;
+  LLM_PRICING: string;
+  PII_REDACTION_ENABLED: boolean;
+  PII_REDACTION_RULES: string;
+  PII_REDACTION_PATTERNS: string;
+  OCR_ENABLED: boolean;
+  OCR_MIN_TEXT_LENGTH: number;
+  OCR_MAX_PAGES: number;
+  EMBEDDING_PROVIDER: string;
+  EMBEDDING_MODEL: string;
+  EMBEDDING_DIMENSIONS: number;
+  JOB_WORKER_ENABLED: boolean;
+  JOB_WORKER_CONCURRENCY: number;
+  JOB_POLL_INTERVAL_MS: number;
+  JOB_MAX_ATTEMPTS: number;
+  JOB_RETRY_BASE_DELAY_MS: number;
   SMTP_HOST: string;
   SMTP_PORT: number;
   SMTP_USER: string;
@@ -22,6 +45,29 @@ export const env: Environment = {
   DATABASE_URL: process.env.DATABASE_URL || '',
   SESSION_SECRET: process.env.SESSION_SECRET || '',
   OPENAI_API_KEY: process.env.OPENAI_API_KEY || '',
+  LLM_PROVIDER: process.env.LLM_PROVIDER || 'openai',
+  LLM_MODEL: process.env.LLM_MODEL || 'gpt-4o',
+  LLM_BASE_URL: process.env.LLM_BASE_URL || '',
+  LLM_API_KEY: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || '',
+  LLM_API_VERSION: process.env.LLM_API_VERSION || '',
+  LLM_MOCK_FIXTURES_DIR: process.env.LLM_MOCK_FIXTURES_DIR || '',
+  LLM_MAX_REPAIR_ATTEMPTS: parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '2', 10),
+  LLM_MONTHLY_BUDGET_USD: parseFloat(process.env.LLM_MONTHLY_BUDGET_USD || '0'),
+  LLM_PRICING: process.env.LLM_PRICING || '',
+  PII_REDACTION_ENABLED: process.env.PII_REDACTION_ENABLED !== 'false',
+  PII_REDACTION_RULES: process.env.PII_REDACTION_RULES || '',
+  PII_REDACTION_PATTERNS: process.env.PII_REDACTION_PATTERNS || '',
+  OCR_ENABLED: process.env.OCR_ENABLED !== 'false',
+  OCR_MIN_TEXT_LENGTH: parseInt(process.env.OCR_MIN_TEXT_LENGTH || '100', 10),
+  OCR_MAX_PAGES: parseInt(process.env.OCR_MAX_PAGES || '5', 10),
+  EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER || 'local',
+  EMBEDDING_MODEL: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+  EMBEDDING_DIMENSIONS: parseInt(process.env.EMBEDDING_DIMENSIONS || '512', 10),
+  JOB_WORKER_ENABLED: process.env.JOB_WORKER_ENABLED !== 'false',
+  JOB_WORKER_CONCURRENCY: parseInt(process.env.JOB_WORKER_CONCURRENCY || '2', 10),
+  JOB_POLL_INTERVAL_MS: parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10),
+  JOB_MAX_ATTEMPTS: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+  JOB_RETRY_BASE_DELAY_MS: parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '5000', 10),
   SMTP_HOST: process.env.SMTP_HOST || 'smtp.gmail.com',
   SMTP_PORT: parseInt(process.env.SMTP_PORT || '587', 10),
   SMTP_USER: process.env.SMTP_USER || '',
@@ -29,15 +75,56 @@ export const env: Environment = {
   SMTP_FROM: process.env.SMTP_FROM || process.env.SMTP_USER || '',
 };
 
+export type LLMTask = 'resume_analysis' | 'resume_parsing' | 'job_fit' | 'evaluation' | 'interview_kit';
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+export interface LLMTaskConfig {
+  provider: LLMProviderName;
+  model: string;
+}
+
+const LLM_TASK_ENV_PREFIX: Record<LLMTask, string> = {
+  resume_analysis: 'LLM_RESUME_ANALYSIS',
+  resume_parsing: 'LLM_RESUME_PARSING',
+  job_fit: 'LLM_JOB_FIT',
+  evaluation: 'LLM_EVALUATION',
+  interview_kit: 'LLM_INTERVIEW_KIT',
+};
+
+// Resolve provider and model for a task, e.g. LLM_JOB_FIT_PROVIDER / LLM_JOB_FIT_MODEL,
+// falling back to the global LLM_PROVIDER / LLM_MODEL
+export function getLLMTaskConfig(task: LLMTask): LLMTaskConfig {
+  const prefix = LLM_TASK_ENV_PREFIX[task];
+  const provider = (process.env[`${prefix}_PROVIDER`] || env.LLM_PROVIDER) as LLMProviderName;
+
+  if (!['openai', 'openai-compatible', 'mock'].includes(provider)) {
+    throw new Error(`Unsupported LLM provider "${provider}" for task ${task}`);
+  }
+
+  return {
+    provider,
+    model: process.env[`${prefix}_MODEL`] || env.LLM_MODEL,
+  };
+}
+
 // Validate required environment variables
 export function validateEnvironment(): void {
-  const required = [
+  const required: Array<keyof Environment> = [
     'DATABASE_URL',
     'SESSION_SECRET',
-    'OPENAI_API_KEY',
     'SMTP_USER',
     'SMTP_PASS'
-  ] as const;
+  ];
+
+  // Only real providers need credentials; the mock provider runs offline
+  const tasks = Object.keys(LLM_TASK_ENV_PREFIX) as LLMTask[];
+  const providers = tasks.map(task => getLLMTaskConfig(task).provider);
+  if (providers.includes('openai') || env.EMBEDDING_PROVIDER === 'openai') {
+    required.push('OPENAI_API_KEY');
+  }
+  if (providers.includes('openai-compatible') || env.EMBEDDING_PROVIDER === 'openai-compatible') {
+    required.push('LLM_BASE_URL');
+  }
 
   const missing = required.filter(key => !env[key]);
   
@@ -1,11 +1,18 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage';
 import { insertCandidateSchema } from '@shared/schema';
-import { extractTextFromPDF } from '../services/pdfExtractor';
+import { extractDocumentText, getDocumentContentType } from '../services/documentExtractor';
+import type { DocumentExtractionResult } from '../interfaces/services';
 import { sendEmail, getApplicationConfirmationEmail } from '../services/email';
 import { logger } from '../services/logger';
 import { AppError, asyncHandler, ValidationError } from '../services/errorHandler';
-import { processAssessment } from '../services/assessmentService';
+import { queueAssessment } from '../services/assessmentService';
+import { queueResumeParsing } from '../services/resumeParser';
+import { findSimilarCandidates, searchCandidatesSemantic } from '../services/embeddingService';
+import { getSkillTaxonomy } from '../services/skillTaxonomyService';
+import { applicationTransferValidationSchema, getSuggestedRoles, transferApplication } from '../services/roleRecommendationService';
+import { getRequestLanguage } from '../services/languageService';
+import { APPLICATION_TRANSFER_MODES } from '@shared/constants';
 import { InputSanitizer } from '../services/security';
 import fs from 'fs';
 import path from 'path';
@@ -61,27 +68,33 @@ export const createCandidate = asyncHandler(async (req: Request, res: Response)
     position: candidateData.position 
   });
 
-  // Extract text from PDF if file was uploaded
-  let resumeSummary = null;
+  // Extract text from the resume if a file was uploaded
+  let extraction: DocumentExtractionResult | null = null;
   if (req.file?.path) {
     try {
-      resumeSummary = await extractTextFromPDF(req.file.path);
-      logger.info('PDF text extracted successfully', { 
+      extraction = await extractDocumentText(req.file.path);
+      logger.info('Resume text extracted successfully', { 
         candidateName: candidateData.fullName,
-        textLength: resumeSummary.length 
+        textLength: extraction.text.length,
+        method: extraction.method,
+        language: extraction.language
       });
     } catch (error) {
-      logger.warn('PDF text extraction failed, continuing without summary', { 
+      logger.warn('Resume text extraction failed, continuing without summary', { 
         error: error instanceof Error ? error.message : 'Unknown error',
         candidateName: candidateData.fullName 
       });
     }
   }
 
-  // Create candidate with resume summary
+  // Create candidate with resume summary and how it was obtained
+  const resumeSummary = extraction?.text ?? null;
   const candidateWithResume = {
     ...candidateData,
-    resumeSummary
+    resumeSummary,
+    extractionMethod: extraction?.method ?? null,
+    extractionConfidence: extraction?.confidence?.toString() ?? null,
+    resumeLanguage: extraction?.language ?? null
   };
 
   const candidate = await storage.createCandidate(candidateWithResume);
@@ -95,10 +108,15 @@ export const createCandidate = asyncHandler(async (req: Request, res: Response)
       error: error.message 
     }));
 
-  // Start AI assessment (non-blocking)
+  // Queue AI assessment and profile parsing; the background worker retries failed analyses
   if (resumeSummary) {
-    startAssessment(candidate.id, candidate.position, resumeSummary)
-      .catch(error => logger.error('Assessment failed', { 
+    queueAssessment(candidate)
+      .catch(error => logger.error('Failed to queue assessment', { 
+        candidateId: candidate.id, 
+        error: error.message 
+      }));
+    queueResumeParsing(candidate.id)
+      .catch(error => logger.error('Failed to queue resume parsing', { 
         candidateId: candidate.id, 
         error: error.message 
       }));
@@ -111,7 +129,7 @@ export const createCandidate = asyncHandler(async (req: Request, res: Response)
 });
 
 export const getCandidates = asyncHandler(async (req: Request, res: Response) => {
-  const { search, position, status, limit, offset } = req.query;
+  const { search, position, status, language, skill, limit, offset } = req.query;
   
   // Check for SQL injection patterns in search parameter
   if (search && typeof search === 'string') {
@@ -126,8 +144,11 @@ export const getCandidates = asyncHandler(async (req: Request, res: Response) =>
     search: search ? InputSanitizer.sanitizeSqlInput(search as string) : undefined,
     position: position ? InputSanitizer.sanitizeText(position as string) : undefined,
     status: status ? InputSanitizer.sanitizeText(status as string) : undefined,
+    language: language ? InputSanitizer.sanitizeText(language as string) : undefined,
     limit: limit ? parseInt(limit as string) : undefined,
     offset: offset ? parseInt(offset as string) : undefined,
+    // A skill also matches its aliases and narrower skills, e.g. "Machine Learning" finds TensorFlow
+    skills: skill ? (await getSkillTaxonomy()).variants(InputSanitizer.sanitizeText(skill as string)) : undefined,
   };
   
   const candidates = await storage.getCandidates(sanitizedParams);
@@ -143,7 +164,71 @@ export const getCandidateById = asyncHandler(async (req: Request, res: Response)
     throw new AppError('Candidate not found', 404);
   }
 
-  res.json(candidate);
+  const profile = await storage.getCandidateProfile(candidate.id);
+  res.json({ ...candidate, profile });
+});
+
+// Re-parse the resume into the structured profile in the background
+export const parseCandidateResume = asyncHandler(async (req: Request, res: Response) => {
+  const candidate = await storage.getCandidateById(req.params.id);
+
+  if (!candidate) {
+    throw new AppError('Candidate not found', 404);
+  }
+  if (!candidate.resumeSummary) {
+    throw new ValidationError('No resume text is available for this candidate');
+  }
+
+  const job = await queueResumeParsing(candidate.id, {
+    createdBy: req.user?.email ?? null,
+    forceRefresh: req.body?.forceRefresh === true,
+  });
+
+  logger.info('Resume parsing queued', { candidateId: candidate.id, jobId: job.id });
+  res.status(202).json({ message: 'Resume parsing queued', jobId: job.id });
+});
+
+// Result count from ?limit=, kept between 1 and 100
+function parseLimit(value: unknown, fallback: number): number {
+  const limit = parseInt(String(value ?? ''), 10);
+  return Number.isNaN(limit) ? fallback : Math.min(Math.max(limit, 1), 100);
+}
+
+// Rank candidates by resume similarity to a free-text query
+export const semanticSearchCandidates = asyncHandler(async (req: Request, res: Response) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (!query) {
+    throw new ValidationError('Query parameter q is required');
+  }
+
+  const results = await searchCandidatesSemantic(query, parseLimit(req.query.limit, 20));
+  logger.debug('Semantic candidate search', { queryLength: query.length, count: results.length });
+  res.json(results);
+});
+
+// Candidates whose resumes are closest to this candidate's
+export const getSimilarCandidates = asyncHandler(async (req: Request, res: Response) => {
+  res.json(await findSimilarCandidates(req.params.id, parseLimit(req.query.limit, 5)));
+});
+
+// Other open roles the candidate fits best, with the reasons from their fit scores
+export const getCandidateSuggestedRoles = asyncHandler(async (req: Request, res: Response) => {
+  res.json(await getSuggestedRoles(req.params.id, parseLimit(req.query.limit, 3)));
+});
+
+// Move the application to a suggested job, or duplicate it into that job
+export const transferCandidateApplication = asyncHandler(async (req: Request, res: Response) => {
+  const parsed = applicationTransferValidationSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    throw new ValidationError(parsed.error.errors.map(issue => issue.message).join(', '));
+  }
+
+  const { candidate, mode } = await transferApplication(req.params.id, parsed.data, {
+    createdBy: req.user?.email ?? null,
+    outputLanguage: getRequestLanguage(req),
+  });
+
+  res.status(mode === APPLICATION_TRANSFER_MODES.DUPLICATE ? 201 : 200).json(candidate);
 });
 
 export const updateCandidateStatus = asyncHandler(async (req: Request, res: Response) => {
@@ -175,8 +260,9 @@ export const downloadCV = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError('CV file not found on server', 404);
   }
 
-  res.setHeader('Content-Type', 'application/pdf');
-  res.setHeader('Content-Disposition', `attachment; filename="${candidate.cvFileName || 'CV.pdf'}"`);
+  const fileName = candidate.cvFileName || `CV${path.extname(filePath)}`;
+  res.setHeader('Content-Type', getDocumentContentType(fileName));
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
   
   const fileStream = fs.createReadStream(filePath);
   fileStream.pipe(res);
@@ -215,25 +301,6 @@ async function sendConfirmationEmail(candidate: any): Promise<void> {
   }
 }
 
-async function startAssessment(candidateId: string, position: string, resumeSummary: string): Promise<void> {
-  try {
-    const assessment = await storage.createAssessment({
-      candidateId,
-      status: 'pending',
-    });
-
-    await processAssessment(candidateId, assessment.id, position, resumeSummary);
-    
-    logger.info('Assessment completed', { candidateId, assessmentId: assessment.id });
-  } catch (error) {
-    logger.error('Assessment failed', { 
-      candidateId, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
-    throw error;
-  }
-}
-
 export const deleteCandidate = asyncHandler(async (req: Request, res: Response) => {
   const candidateId = req.params.id;
   
@@ -6,6 +6,8 @@ import { registerRoutes } from "./routes/index";
 import { setupVite, serveStatic, log } from "./vite";
 import config from "./config/environment";
 import { logger } from "./services/logger";
+import { registerJobHandlers } from "./services/jobHandlers";
+import { startJobWorker } from "./services/jobQueue";
 import { securityHeaders, rateLimitConfig, authRateLimitConfig, requestSizeLimits } from "./services/security";
 
 const app = express();
@@ -121,4 +123,13 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  registerJobHandlers();
+  if (config.JOB_WORKER_ENABLED) {
+    startJobWorker().catch(error => {
+      logger.error('Failed to start background job worker', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  }
 })();
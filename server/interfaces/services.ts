@@ -5,7 +5,7 @@ import type {
   EmailHistory, InsertEmail,
   User, InsertUser
 } from '@shared/schema';
-import type { EmailType, InterviewType } from '@shared/constants';
+import type { EmailType, ExtractionMethod, InterviewType, ResumeDocumentType } from '@shared/constants';
 
 // Candidate service interface
 export interface ICandidateService {
@@ -77,7 +77,7 @@ export interface IFileService {
   uploadFile(file: Express.Multer.File): Promise<string>;
   deleteFile(filePath: string): Promise<void>;
   validateFile(file: Express.Multer.File): Promise<boolean>;
-  extractTextFromPDF(filePath: string): Promise<string>;
+  extractText(filePath: string): Promise<DocumentExtractionResult>;
 }
 
 // PDF service interface
@@ -87,6 +87,21 @@ export interface IPdfService {
   validateContent(text: string): Promise<boolean>;
 }
 
+// Resume text and the method that produced it
+export interface DocumentExtractionResult {
+  text: string;
+  method: ExtractionMethod;
+  confidence: number | null; // Only OCR reports a confidence
+  language: string; // Detected ISO 639-1 code, "und" when unclear
+}
+
+// Text extractor for one resume document format
+export interface IDocumentExtractor {
+  readonly type: ResumeDocumentType;
+  matches(buffer: Buffer): Promise<boolean>;
+  extract(filePath: string, buffer: Buffer): Promise<Omit<DocumentExtractionResult, "language">>;
+}
+
 // Analytics service interface
 export interface IAnalyticsService {
   getDashboardStats(): Promise<{
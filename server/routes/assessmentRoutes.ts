@@ -1,19 +1,30 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
-import { asyncHandler } from '../services/errorHandler';
+import { asyncHandler, ValidationError } from '../services/errorHandler';
 import { requireAuth } from '../auth';
 import { logger } from '../services/logger';
-import { runAssessment } from '../services/assessmentService';
+import {
+  runAssessment,
+  queueAssessments,
+  getAssessmentHistory,
+  setCurrentAssessment,
+} from '../services/assessmentService';
+import { getRequestLanguage } from '../services/languageService';
+import {
+  adjustAssessmentScore,
+  getScoreAdjustmentHistory,
+  scoreAdjustmentValidationSchema,
+} from '../services/scoreAdjustmentService';
 
 const router = Router();
 
-// Get all assessments
+// Get the current assessment of every candidate
 router.get('/assessments', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   const assessments = await storage.getAssessments();
   res.json(assessments);
 }));
 
-// Get assessment by candidate ID
+// Get the current assessment of a candidate
 router.get('/assessments/candidate/:candidateId', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   const { candidateId } = req.params;
   const assessment = await storage.getAssessmentByCandidateId(candidateId);
@@ -25,7 +36,21 @@ router.get('/assessments/candidate/:candidateId', requireAuth, asyncHandler(asyn
   res.json(assessment);
 }));
 
-// Run bulk assessments
+// Every assessment run of a candidate, newest first, with prompt and model metadata
+router.get('/candidates/:id/assessments', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await getAssessmentHistory(req.params.id));
+}));
+
+// Choose which run is shown for the candidate
+router.put('/candidates/:id/assessments/current', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const assessmentId = req.body?.assessmentId;
+  if (typeof assessmentId !== 'string' || !assessmentId) {
+    throw new ValidationError('assessmentId is required');
+  }
+  res.json(await setCurrentAssessment(req.params.id, assessmentId));
+}));
+
+// Queue bulk assessments; follow GET /api/background-jobs/:jobId/events for progress
 router.post('/assessments/bulk', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   
   logger.info('Starting bulk assessment process');
@@ -51,55 +76,35 @@ router.post('/assessments/bulk', requireAuth, asyncHandler(async (req: Request,
     });
   }
 
-  logger.info(`Processing assessments for ${candidatesNeedingAssessment.length} candidates`);
-
-  const results = [];
-  for (const candidate of candidatesNeedingAssessment) {
-    try {
-      logger.debug(`Running assessment for candidate ${candidate.id}`, { 
-        candidateId: candidate.id, 
-        fullName: candidate.fullName 
-      });
-      
-      await runAssessment(candidate.id);
-      results.push({ candidateId: candidate.id, status: 'success' });
-      
-      logger.debug(`Assessment completed for candidate ${candidate.id}`);
-    } catch (error) {
-      logger.error(`Assessment failed for candidate ${candidate.id}`, { 
-        candidateId: candidate.id, 
-        error 
-      });
-      results.push({ candidateId: candidate.id, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
-    }
-  }
-
-  const successCount = results.filter(r => r.status === 'success').length;
-  const failureCount = results.filter(r => r.status === 'failed').length;
+  logger.info(`Queueing assessments for ${candidatesNeedingAssessment.length} candidates`);
 
-  logger.info('Bulk assessment completed', {
-    total: candidatesNeedingAssessment.length,
-    successful: successCount,
-    failed: failureCount
-  });
+  const batch = await queueAssessments(
+    candidatesNeedingAssessment,
+    {
+      createdBy: req.user?.email ?? null,
+      metadata: { scope: 'bulk' },
+      forceRefresh: req.body?.forceRefresh === true,
+      outputLanguage: getRequestLanguage(req),
+    }
+  );
 
-  res.json({
-    message: `Processed ${candidatesNeedingAssessment.length} candidates`,
-    processed: candidatesNeedingAssessment.length,
-    successful: successCount,
-    failed: failureCount,
-    results
+  res.status(202).json({
+    message: `Queued ${candidatesNeedingAssessment.length} candidates for assessment`,
+    jobId: batch.id,
+    processed: 0,
+    total: candidatesNeedingAssessment.length
   });
 }));
 
-// Trigger single assessment
+// Trigger single assessment (cached when the resume, prompt and model are unchanged; pass forceRefresh to re-run)
 router.post('/assessments/:candidateId', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   const { candidateId } = req.params;
+  const forceRefresh = req.body?.forceRefresh === true || req.query.forceRefresh === 'true';
   
-  logger.info(`Triggering assessment for candidate ${candidateId}`);
+  logger.info(`Triggering assessment for candidate ${candidateId}`, { forceRefresh });
   
   try {
-    await runAssessment(candidateId);
+    await runAssessment(candidateId, { forceRefresh, outputLanguage: getRequestLanguage(req) });
     logger.info(`Assessment completed for candidate ${candidateId}`);
     res.json({ message: 'Assessment completed successfully' });
   } catch (error) {
@@ -111,11 +116,12 @@ router.post('/assessments/:candidateId', requireAuth, asyncHandler(async (req: R
 // Trigger assessment for specific candidate (alternative endpoint for frontend compatibility)
 router.post('/assessments/candidate/:candidateId', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   const { candidateId } = req.params;
+  const forceRefresh = req.body?.forceRefresh === true || req.query.forceRefresh === 'true';
   
-  logger.info(`Triggering assessment for candidate ${candidateId}`);
+  logger.info(`Triggering assessment for candidate ${candidateId}`, { forceRefresh });
   
   try {
-    await runAssessment(candidateId);
+    await runAssessment(candidateId, { forceRefresh, outputLanguage: getRequestLanguage(req) });
     logger.info(`Assessment completed for candidate ${candidateId}`);
     res.json({ message: 'Assessment completed successfully' });
   } catch (error) {
@@ -124,7 +130,7 @@ router.post('/assessments/candidate/:candidateId', requireAuth, asyncHandler(asy
   }
 }));
 
-// Trigger assessments for all candidates in a specific position
+// Queue assessments for all candidates in a specific position
 router.post('/assessments/position/:position', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   const { position } = req.params;
   
@@ -160,48 +166,41 @@ router.post('/assessments/position/:position', requireAuth, asyncHandler(async (
     });
   }
 
-  logger.info(`Processing assessments for ${candidatesNeedingAssessment.length} candidates in position: ${position}`);
-
-  const results = [];
-  for (const candidate of candidatesNeedingAssessment) {
-    try {
-      logger.debug(`Running assessment for candidate ${candidate.id} (${position})`, { 
-        candidateId: candidate.id, 
-        fullName: candidate.fullName,
-        position: candidate.position 
-      });
-      
-      await runAssessment(candidate.id);
-      results.push({ candidateId: candidate.id, status: 'success' });
-      
-      logger.debug(`Assessment completed for candidate ${candidate.id}`);
-    } catch (error) {
-      logger.error(`Assessment failed for candidate ${candidate.id}`, { 
-        candidateId: candidate.id, 
-        error 
-      });
-      results.push({ candidateId: candidate.id, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
-    }
-  }
+  logger.info(`Queueing assessments for ${candidatesNeedingAssessment.length} candidates in position: ${position}`);
 
-  const successCount = results.filter(r => r.status === 'success').length;
-  const failureCount = results.filter(r => r.status === 'failed').length;
+  const batch = await queueAssessments(
+    candidatesNeedingAssessment,
+    {
+      createdBy: req.user?.email ?? null,
+      metadata: { scope: 'position', position },
+      forceRefresh: req.body?.forceRefresh === true,
+      outputLanguage: getRequestLanguage(req),
+    }
+  );
 
-  logger.info('Position-based assessment completed', {
-    position,
+  res.status(202).json({
+    message: `Queued ${candidatesNeedingAssessment.length} candidates for position "${position}"`,
+    jobId: batch.id,
+    processed: 0,
     total: candidatesNeedingAssessment.length,
-    successful: successCount,
-    failed: failureCount
+    position
   });
+}));
 
-  res.json({
-    message: `Processed ${candidatesNeedingAssessment.length} candidates for position "${position}"`,
-    processed: candidatesNeedingAssessment.length,
-    successful: successCount,
-    failed: failureCount,
-    position,
-    results
-  });
+// Adjustment history of an assessment's scores, newest first
+router.get('/assessments/:id/adjustments', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await getScoreAdjustmentHistory(req.params.id));
+}));
+
+// Override one score with a mandatory reason; send value: null to restore the AI score
+router.post('/assessments/:id/adjustments', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const parsed = scoreAdjustmentValidationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new ValidationError(parsed.error.errors.map(issue => issue.message).join(', '));
+  }
+
+  const assessment = await adjustAssessmentScore(req.params.id, parsed.data, req.user?.email ?? null);
+  res.json(assessment);
 }));
 
 // Delete assessment
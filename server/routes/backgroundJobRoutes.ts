@@ -0,0 +1,158 @@
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { asyncHandler } from '../services/errorHandler';
+import { requireAuth } from '../auth';
+import { logger } from '../services/logger';
+import { retryJob, cancelJob, subscribeToJob, isJobFinished, toJobItem } from '../services/jobQueue';
+import type { BackgroundJobEvent } from '@shared/schema';
+
+// Progress and batch items are re-read from the database on this interval so
+// streams also advance when the job is processed by a worker in another instance
+const SSE_REFRESH_INTERVAL_MS = 5000;
+
+const router = Router();
+
+// List background jobs (e.g. ?status=dead for the dead-letter queue)
+router.get('/background-jobs', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const { status, type, parentId, limit } = req.query;
+
+  const jobs = await storage.getBackgroundJobs({
+    status: status ? status as string : undefined,
+    type: type ? type as string : undefined,
+    parentId: parentId ? parentId as string : undefined,
+    limit: limit ? parseInt(limit as string, 10) : undefined,
+  });
+
+  res.json(jobs);
+}));
+
+// Get a job with aggregate progress when it is a batch
+router.get('/background-jobs/:id', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const job = await storage.getBackgroundJobById(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ message: 'Background job not found' });
+  }
+
+  res.json(job);
+}));
+
+// Stream progress events (Server-Sent Events): snapshot, item, progress and done
+router.get('/background-jobs/:id/events', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const job = await storage.getBackgroundJobById(id);
+
+  if (!job) {
+    return res.status(404).json({ message: 'Background job not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  let closed = false;
+  let unsubscribe = () => {};
+  let refreshTimer: NodeJS.Timeout | undefined;
+  // Last item sent per item id, so the refresh only sends the ones that changed
+  const sentItems = new Map<string, string>();
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    unsubscribe();
+    clearInterval(refreshTimer);
+    res.end();
+  };
+
+  const send = (event: BackgroundJobEvent) => {
+    if (closed) return;
+    if (event.type === 'item') sentItems.set(event.item.itemId, JSON.stringify(event.item));
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === 'done') close();
+  };
+
+  // Batch children are rows of their own, so their items are re-read with the
+  // progress. Items reported while a single job runs (evaluation run candidates)
+  // are only published in process and reach streams served by the same instance.
+  const sendChangedItems = async () => {
+    const children = await storage.getBackgroundJobs({ parentId: id, limit: 1000 });
+    for (const item of children.map(toJobItem)) {
+      if (sentItems.get(item.itemId) !== JSON.stringify(item)) {
+        send({ type: 'item', jobId: id, item });
+      }
+    }
+  };
+
+  // Headers are sent from here on, so errors end the stream instead of reaching the error handler
+  try {
+    // Subscribe before building the snapshot so no event is missed in between
+    unsubscribe = subscribeToJob(id, send);
+    req.on('close', close);
+
+    const children = job.type === 'batch'
+      ? await storage.getBackgroundJobs({ parentId: id, limit: 1000 })
+      : [];
+    const items = children.map(toJobItem);
+    for (const item of items) {
+      sentItems.set(item.itemId, JSON.stringify(item));
+    }
+    send({ type: 'snapshot', jobId: id, job, items });
+
+    if (isJobFinished(job) && !job.progress?.running) {
+      return send({ type: 'done', jobId: id, job });
+    }
+  } catch (error) {
+    logger.error('Failed to start background job event stream', {
+      jobId: id,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return close();
+  }
+
+  refreshTimer = setInterval(async () => {
+    try {
+      const latest = await storage.getBackgroundJobById(id);
+      if (!latest) return close();
+
+      if (latest.type === 'batch') {
+        await sendChangedItems();
+      }
+      if (latest.progress) {
+        send({ type: 'progress', jobId: id, progress: latest.progress });
+      }
+      if (latest.completedAt) {
+        send({ type: 'done', jobId: id, job: latest });
+      }
+    } catch (error) {
+      logger.error('Failed to refresh background job progress', {
+        jobId: id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }, SSE_REFRESH_INTERVAL_MS);
+}));
+
+// Cancel a queued or running job or batch
+router.post('/background-jobs/:id/cancel', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  logger.info('Cancelling background job', { jobId: id, user: req.user?.email });
+
+  const job = await cancelJob(id);
+  res.json({ message: 'Background job cancelled', job });
+}));
+
+// Requeue a dead-lettered job
+router.post('/background-jobs/:id/retry', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  logger.info('Retrying background job', { jobId: id, user: req.user?.email });
+
+  const job = await retryJob(id);
+  res.json({ message: 'Background job requeued', job });
+}));
+
+export default router;
@@ -5,22 +5,28 @@ import {
   getCandidateById,
   updateCandidateStatus,
   downloadCV,
-  deleteCandidate
+  deleteCandidate,
+  parseCandidateResume,
+  semanticSearchCandidates,
+  getSimilarCandidates,
+  getCandidateSuggestedRoles,
+  transferCandidateApplication
 } from '../controllers/candidateController';
-import { upload } from '../services/fileUpload';
+import { requireAuth } from '../auth';
+import { upload, verifyUploadedFile } from '../services/fileUpload';
 import { handleError, AppError } from '../services/errorHandler';
 
 const router = Router();
 
 // Create new candidate application
-router.post('/applications', upload.single('cv'), createCandidate);
+router.post('/applications', upload.single('cv'), verifyUploadedFile, createCandidate);
 
 // Secure file upload endpoint with validation
 router.post('/candidates/upload', (req, res, next) => {
   upload.single('cv')(req, res, (err) => {
     if (err) {
-      if (err.message === 'Only PDF files are allowed') {
-        return res.status(415).json({ message: 'Only PDF files are allowed' });
+      if (err instanceof AppError) {
+        return res.status(err.statusCode).json({ message: err.message });
       }
       if (err.code === 'LIMIT_FILE_SIZE') {
         return res.status(413).json({ message: 'File size too large. Maximum 10MB allowed' });
@@ -32,18 +38,20 @@ router.post('/candidates/upload', (req, res, next) => {
       return res.status(400).json({ message: 'No file uploaded' });
     }
     
-    // Additional security check
-    if (req.file.mimetype !== 'application/pdf') {
-      return res.status(415).json({ message: 'Only PDF files are allowed' });
-    }
-    
     if (req.file.size > 10 * 1024 * 1024) {
       return res.status(413).json({ message: 'File size too large. Maximum 10MB allowed' });
     }
     
-    res.status(200).json({ 
-      message: 'File uploaded successfully',
-      filename: req.file.filename 
+    // Additional security check: the content must match the file extension
+    verifyUploadedFile(req, res, (verifyError?: any) => {
+      if (verifyError) {
+        return res.status(verifyError.statusCode || 415).json({ message: verifyError.message });
+      }
+
+      res.status(200).json({ 
+        message: 'File uploaded successfully',
+        filename: req.file!.filename 
+      });
     });
   });
 });
@@ -51,12 +59,27 @@ router.post('/candidates/upload', (req, res, next) => {
 // Get all candidates with filtering
 router.get('/candidates', getCandidates);
 
+// Semantic search over resume embeddings (registered before /candidates/:id)
+router.get('/candidates/semantic-search', requireAuth, semanticSearchCandidates);
+
 // Get single candidate by ID
 router.get('/candidates/:id', getCandidateById);
 
+// Candidates with the most similar resumes
+router.get('/candidates/:id/similar', requireAuth, getSimilarCandidates);
+
+// Other active jobs the candidate fits best
+router.get('/candidates/:id/suggested-roles', requireAuth, getCandidateSuggestedRoles);
+
+// Move or duplicate the application into another job ({ jobDescriptionId, mode: 'move' | 'duplicate' })
+router.post('/candidates/:id/transfer', requireAuth, transferCandidateApplication);
+
 // Update candidate status
 router.patch('/candidates/:id/status', updateCandidateStatus);
 
+// Re-parse the resume into work history, education, skills, languages and certifications
+router.post('/candidates/:id/parse-resume', requireAuth, parseCandidateResume);
+
 // Download CV file
 router.get('/candidates/:id/cv', downloadCV);
 
@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { DashboardService } from '../services/dashboardService';
 import { asyncHandler } from '../services/errorHandler';
 import { requireAuth } from '../auth';
@@ -17,4 +17,17 @@ router.get('/activities', requireAuth, asyncHandler(async (req, res) => {
   res.json(activities);
 }));
 
+// AI cost report by day, task and job (?days=30)
+router.get('/llm-costs', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 30, 1), 366);
+  const report = await DashboardService.getLLMCostReport(days);
+  res.json(report);
+}));
+
+// AI analysis cache hit rate per task
+router.get('/ai-cache', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const stats = await DashboardService.getAnalysisCacheStats();
+  res.json(stats);
+}));
+
 export default router;
\ No newline at end of file
@@ -36,6 +36,61 @@ router.get('/evaluations', isAuthenticated, asyncHandler(async (req: Request, re
   }
 }));
 
+// List past evaluation runs
+router.get('/evaluations/runs', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+  logger.info("Fetching evaluation runs", { query: req.query });
+
+  try {
+    const { getEvaluationRuns } = await import('../controllers/evaluationController');
+    await getEvaluationRuns(req, res);
+  } catch (error) {
+    logger.error("Error fetching evaluation runs:", error);
+    res.status(500).json({ message: "Failed to fetch evaluation runs" });
+  }
+}));
+
+// Compare two evaluation runs
+router.get('/evaluations/runs/compare', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+  logger.info("Comparing evaluation runs", { query: req.query });
+
+  try {
+    const { compareEvaluationRuns } = await import('../controllers/evaluationController');
+    await compareEvaluationRuns(req, res);
+  } catch (error) {
+    logger.error("Error comparing evaluation runs:", error);
+    res.status(500).json({ message: "Failed to compare evaluation runs" });
+  }
+}));
+
+// Get a single evaluation run with its ranked results
+router.get('/evaluations/runs/:runId', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { getEvaluationRun } = await import('../controllers/evaluationController');
+    await getEvaluationRun(req, res);
+  } catch (error) {
+    logger.error("Error fetching evaluation run:", error);
+    res.status(500).json({ message: "Failed to fetch evaluation run" });
+  }
+}));
+
+// Delete an evaluation run
+router.delete('/evaluations/runs/:runId', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+  const { runId } = req.params;
+
+  logger.info("Deleting evaluation run", {
+    runId,
+    user: (req as any).user?.email
+  });
+
+  try {
+    const { deleteEvaluationRun } = await import('../controllers/evaluationController');
+    await deleteEvaluationRun(req, res);
+  } catch (error) {
+    logger.error("Error deleting evaluation run:", error);
+    res.status(500).json({ message: "Failed to delete evaluation run" });
+  }
+}));
+
 // Delete evaluation
 router.delete('/evaluations/:candidateId', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
   const { candidateId } = req.params;
@@ -8,6 +8,9 @@ import interviewRoutes from './interviewRoutes';
 import emailRoutes from './emailRoutes';
 import jobRoutes from './jobRoutes';
 import evaluationRoutes from './evaluationRoutes';
+import backgroundJobRoutes from './backgroundJobRoutes';
+import promptTemplateRoutes from './promptTemplateRoutes';
+import skillRoutes from './skillRoutes';
 import { setupAuth } from '../auth';
 import { logger } from '../services/logger';
 import { asyncHandler, handleError } from '../services/errorHandler';
@@ -25,6 +28,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api', emailRoutes);
   app.use('/api', jobRoutes);
   app.use('/api', evaluationRoutes);
+  app.use('/api', backgroundJobRoutes);
+  app.use('/api', promptTemplateRoutes);
+  app.use('/api', skillRoutes);
 
   // Legacy email endpoint for backward compatibility
   app.post('/api/send-email', asyncHandler(async (req, res) => {
@@ -1,9 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
-import { asyncHandler } from '../services/errorHandler';
+import { asyncHandler, ValidationError } from '../services/errorHandler';
 import { ValidationService, interviewValidationSchema } from '../services/validationService';
 import { requireAuth } from '../auth';
 import { logger } from '../services/logger';
+import { getRequestLanguage } from '../services/languageService';
+import {
+  generateInterviewKit,
+  interviewKitGenerationSchema,
+  interviewKitValidationSchema,
+  renderInterviewKitPdf,
+  updateInterviewKit,
+} from '../services/interviewKitService';
 
 const router = Router();
 
@@ -70,6 +78,39 @@ router.get('/interviews/:id', requireAuth, asyncHandler(async (req: Request, res
   res.json(interview);
 }));
 
+// Generate the candidate-specific interview kit, replacing any earlier one
+router.post('/interviews/:id/kit', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const parsed = interviewKitGenerationSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    throw new ValidationError(parsed.error.errors.map(issue => issue.message).join(', '));
+  }
+
+  const interview = await generateInterviewKit(req.params.id, parsed.data, {
+    outputLanguage: getRequestLanguage(req),
+  });
+  res.json(interview);
+}));
+
+// Save interviewer edits to the kit
+router.put('/interviews/:id/kit', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const parsed = interviewKitValidationSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    throw new ValidationError(parsed.error.errors.map(issue => issue.message).join(', '));
+  }
+
+  const interview = await updateInterviewKit(req.params.id, parsed.data, req.user?.email ?? null);
+  res.json(interview);
+}));
+
+// Kit as a PDF for printing
+router.get('/interviews/:id/kit/export', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const { pdf, filename } = await renderInterviewKitPdf(req.params.id);
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Content-Length', pdf.length);
+  res.send(pdf);
+}));
+
 // Delete interview
 router.delete('/interviews/:id', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -1,9 +1,20 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
-import { asyncHandler } from '../services/errorHandler';
+import { asyncHandler, ValidationError } from '../services/errorHandler';
 import { ValidationService, jobDescriptionValidationSchema } from '../services/validationService';
 import { requireAuth } from '../auth';
 import { logger } from '../services/logger';
+import { getRequestLanguage } from '../services/languageService';
+import { rankCandidatesForJob } from '../services/embeddingService';
+import { normalizeRubric, scoringRubricValidationSchema } from '../services/rubricService';
+import {
+  getCandidatesWithFitScoreStatus,
+  getRankedJobFitScores,
+  jobFitBatchValidationSchema,
+  queueJobFitScores,
+  requeueStaleFitScores,
+} from '../services/jobFitService';
+import { getFitMatrix } from '../services/roleRecommendationService';
 
 const router = Router();
 
@@ -13,6 +24,11 @@ router.get('/job-descriptions', requireAuth, asyncHandler(async (req: Request, r
   res.json(jobDescriptions);
 }));
 
+// Fit of every candidate against every active job (registered before /job-descriptions/:id)
+router.get('/job-descriptions/fit-matrix', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await getFitMatrix());
+}));
+
 // Get job description by ID
 router.get('/job-descriptions/:id', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -60,6 +76,11 @@ router.put('/job-descriptions/:id', requireAuth, asyncHandler(async (req: Reques
       updates[field] = req.body[field];
     }
   }
+
+  // An empty rubric resets the job to the default rubric
+  if (req.body.rubric !== undefined) {
+    updates.rubric = normalizeRubric(ValidationService.validate(scoringRubricValidationSchema.nullable(), req.body.rubric));
+  }
   
   logger.info('Updating job description', { 
     jobDescriptionId: id, 
@@ -69,7 +90,22 @@ router.put('/job-descriptions/:id', requireAuth, asyncHandler(async (req: Reques
   const updatedJobDescription = await storage.updateJobDescription(id, updates);
   
   logger.info('Job description updated', { jobDescriptionId: id });
-  res.json(updatedJobDescription);
+
+  // Optionally recalculate the fit scores the edit made stale; the edit itself is kept if queueing fails
+  let fitScoreRecalculation: { jobId: string; total: number } | null = null;
+  if (req.body.requeueFitScores === true) {
+    try {
+      const queued = await requeueStaleFitScores(id, {
+        createdBy: req.user?.email ?? null,
+        outputLanguage: getRequestLanguage(req),
+      });
+      fitScoreRecalculation = queued && { jobId: queued.batch.id, total: queued.total };
+    } catch (error) {
+      logger.warn('Could not re-queue stale fit scores', { jobDescriptionId: id, error: (error as Error).message });
+    }
+  }
+
+  res.json({ ...updatedJobDescription, fitScoreRecalculation });
 }));
 
 // Delete job description (soft delete)
@@ -84,26 +120,63 @@ router.delete('/job-descriptions/:id', requireAuth, asyncHandler(async (req: Req
   res.json({ message: 'Job description deleted successfully' });
 }));
 
-// Get candidates with fit scores for a job
+// Get candidates with fit scores for a job, flagging scores computed from since-changed content
 router.get('/job-descriptions/:id/candidates', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   
-  const candidatesWithFitScores = await storage.getCandidatesWithFitScores(id);
+  const candidatesWithFitScores = await getCandidatesWithFitScoreStatus(id);
   
   res.json(candidatesWithFitScores);
 }));
 
-// Calculate job fit score
+// Rank all candidates by embedding similarity to the job, a cheap pre-ranking before LLM fit scoring
+router.get('/job-descriptions/:id/semantic-ranking', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+  const ranking = await rankCandidatesForJob(req.params.id, limit && limit > 0 ? limit : undefined);
+
+  res.json(ranking);
+}));
+
+// Scored candidates for the job, best fit first
+router.get('/job-descriptions/:id/fit-scores', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await getRankedJobFitScores(req.params.id));
+}));
+
+// Queue fit scores for all candidates, or those matching the filters; follow GET /api/background-jobs/:jobId/events for progress
+router.post('/job-descriptions/:id/fit-scores', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const parsed = jobFitBatchValidationSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    throw new ValidationError(parsed.error.errors.map(issue => issue.message).join(', '));
+  }
+
+  const { batch, total, skipped } = await queueJobFitScores(req.params.id, parsed.data, {
+    createdBy: req.user?.email ?? null,
+    outputLanguage: getRequestLanguage(req),
+  });
+
+  res.status(202).json({
+    message: `Queued ${total} candidates for job fit scoring`,
+    jobId: batch.id,
+    total,
+    skipped,
+  });
+}));
+
+// Calculate job fit score; unchanged resume and job text reuse the cached result unless forceRefresh is set
 router.post('/job-descriptions/:id/calculate-fit/:candidateId', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   const { id: jobDescriptionId, candidateId } = req.params;
+  const forceRefresh = req.body?.forceRefresh === true || req.query.forceRefresh === 'true';
   
-  logger.info('Calculating job fit score', { jobDescriptionId, candidateId });
+  logger.info('Calculating job fit score', { jobDescriptionId, candidateId, forceRefresh });
   
   // Import the service dynamically to avoid circular dependencies
-  const { calculateJobFitScore } = await import('../services/jobFitService');
+  const { scoreCandidateForJob } = await import('../services/jobFitService');
   
   try {
-    const fitScore = await calculateJobFitScore(candidateId, jobDescriptionId);
+    const fitScore = await scoreCandidateForJob(candidateId, jobDescriptionId, {
+      forceRefresh,
+      outputLanguage: getRequestLanguage(req),
+    });
     
     logger.info('Job fit score calculated', { 
       jobDescriptionId, 
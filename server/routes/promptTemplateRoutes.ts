@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { getRequestLanguage } from '../services/languageService';
+import { asyncHandler, ValidationError } from '../services/errorHandler';
+import { isAuthenticated, isAdmin } from '../auth';
+import { ValidationService } from '../services/validationService';
+import {
+  PROMPT_VARIABLES,
+  DEFAULT_PROMPT_TEMPLATES,
+  createPromptTemplateVersion,
+  getActivePromptTemplate,
+  previewPromptTemplate,
+} from '../services/promptTemplateService';
+import { PROMPT_TASKS, type PromptTask } from '@shared/constants';
+import { insertPromptTemplateSchema } from '@shared/schema';
+
+const router = Router();
+
+const promptTaskSchema = z.enum([
+  PROMPT_TASKS.RESUME_ANALYSIS,
+  PROMPT_TASKS.RESUME_PARSING,
+  PROMPT_TASKS.JOB_FIT,
+  PROMPT_TASKS.EVALUATION,
+  PROMPT_TASKS.INTERVIEW_KIT,
+]);
+
+const createTemplateSchema = insertPromptTemplateSchema.pick({
+  task: true,
+  systemPrompt: true,
+  userPrompt: true,
+  notes: true,
+  isActive: true,
+});
+
+const previewSchema = z.object({
+  task: promptTaskSchema,
+  candidateId: z.string().min(1, 'Select a sample candidate'),
+  jobDescriptionId: z.string().nullish(),
+  templateId: z.string().nullish(),
+  systemPrompt: z.string().optional(),
+  userPrompt: z.string().optional(),
+  execute: z.boolean().optional(),
+});
+
+// Variables available to each task and the built-in prompts, for the editor
+router.get('/prompt-templates/variables', isAuthenticated, isAdmin, asyncHandler(async (req: Request, res: Response) => {
+  res.json({ variables: PROMPT_VARIABLES, defaults: DEFAULT_PROMPT_TEMPLATES });
+}));
+
+// List every version, newest first (?task=job_fit to filter)
+router.get('/prompt-templates', isAuthenticated, isAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const task = req.query.task ? promptTaskSchema.safeParse(req.query.task) : undefined;
+  if (task && !task.success) {
+    throw new ValidationError('Unknown prompt task');
+  }
+
+  // Make sure every task shows its active version, even before the first AI call
+  await Promise.all(
+    Object.values(PROMPT_TASKS)
+      .filter(name => !task || task.data === name)
+      .map(name => getActivePromptTemplate(name as PromptTask))
+  );
+
+  res.json(await storage.getPromptTemplates(task?.data));
+}));
+
+// Save an edited prompt as a new version
+router.post('/prompt-templates', isAuthenticated, isAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const data = ValidationService.validate(createTemplateSchema, req.body);
+  const template = await createPromptTemplateVersion(data, req.user?.email ?? null);
+  res.status(201).json(template);
+}));
+
+// Make a version the one used for new AI calls
+router.post('/prompt-templates/:id/activate', isAuthenticated, isAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const template = await storage.activatePromptTemplate(req.params.id);
+
+  if (!template) {
+    return res.status(404).json({ message: 'Prompt template not found' });
+  }
+
+  res.json(template);
+}));
+
+// Render a prompt against a sample candidate, optionally running it through the model
+router.post('/prompt-templates/preview', isAuthenticated, isAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const request = ValidationService.validate(previewSchema, req.body);
+  res.json(await previewPromptTemplate({ ...request, outputLanguage: getRequestLanguage(req) }));
+}));
+
+export default router;
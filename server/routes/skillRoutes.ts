@@ -0,0 +1,29 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../services/errorHandler';
+import { isAuthenticated, isAdmin, requireAuth } from '../auth';
+import { createSkill, deleteSkill, listSkills, updateSkill } from '../services/skillTaxonomyService';
+import { ValidationService } from '../services/validationService';
+import { insertSkillSchema, updateSkillSchema } from '@shared/schema';
+
+const router = Router();
+
+// Canonical skills with aliases and parents, for filters and the taxonomy editor
+router.get('/skills', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await listSkills());
+}));
+
+router.post('/skills', isAuthenticated, isAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const skill = await createSkill(ValidationService.validate(insertSkillSchema, req.body));
+  res.status(201).json(skill);
+}));
+
+router.put('/skills/:id', isAuthenticated, isAdmin, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await updateSkill(req.params.id, ValidationService.validate(updateSkillSchema, req.body)));
+}));
+
+router.delete('/skills/:id', isAuthenticated, isAdmin, asyncHandler(async (req: Request, res: Response) => {
+  await deleteSkill(req.params.id);
+  res.json({ message: 'Skill deleted successfully' });
+}));
+
+export default router;
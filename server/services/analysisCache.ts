@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import type { z } from "zod";
+import { storage } from "../storage";
+import { logger } from "./logger";
+import { completeWithSchema, getLLMProvider, type LLMCompletionRequest } from "./llmProvider";
+import type { RenderedPrompt } from "./promptTemplateService";
+import type { UiLanguage } from "@shared/constants";
+import type { AIAnalysisCacheStats } from "@shared/schema";
+
+export interface AnalysisCacheOptions {
+  // Skip the lookup and call the model again, replacing the cached result
+  forceRefresh?: boolean;
+}
+
+export interface AnalysisOptions extends AnalysisCacheOptions {
+  // Language for text the model writes (insights, analysis); English by default.
+  // It is part of the rendered prompt, so each language is cached separately.
+  outputLanguage?: UiLanguage;
+}
+
+export interface CachedCompletion<T> {
+  data: T;
+  rawResponses: string[];
+  provider: string;
+  model: string;
+  cached: boolean;
+}
+
+/**
+ * Hash everything that determines the model output. The rendered messages carry
+ * the resume text and job description content; provider, model and prompt
+ * version make a prompt edit or model switch a cache miss.
+ */
+export function buildAnalysisCacheKey(
+  request: LLMCompletionRequest,
+  provider: string,
+  model: string,
+  prompt: Pick<RenderedPrompt, "templateId" | "version">
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify({
+      task: request.task,
+      provider,
+      model,
+      promptTemplateId: prompt.templateId,
+      promptVersion: prompt.version,
+      temperature: request.temperature ?? null,
+      messages: request.messages,
+    }))
+    .digest("hex");
+}
+
+/**
+ * completeWithSchema with a content-hash cache in front of it. Cache errors are
+ * logged and never fail the analysis.
+ */
+export async function completeWithCache<T>(
+  request: LLMCompletionRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  prompt: Pick<RenderedPrompt, "templateId" | "version">,
+  options: AnalysisCacheOptions = {}
+): Promise<CachedCompletion<T>> {
+  const provider = getLLMProvider(request.task);
+  const cacheKey = buildAnalysisCacheKey(request, provider.name, provider.model, prompt);
+
+  if (!options.forceRefresh) {
+    try {
+      const entry = await storage.getAnalysisCacheEntry(cacheKey);
+      const parsed = entry ? schema.safeParse(entry.result) : undefined;
+
+      if (entry && parsed?.success) {
+        await storage.recordAnalysisCacheHit(entry.id);
+        logger.info("AI analysis cache hit", { task: request.task, model: entry.model, promptVersion: entry.promptVersion });
+        return {
+          data: parsed.data,
+          rawResponses: entry.rawResponses ?? [],
+          provider: entry.provider,
+          model: entry.model,
+          cached: true,
+        };
+      }
+    } catch (error) {
+      logger.warn("AI analysis cache lookup failed", {
+        task: request.task,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const { data, completion, rawResponses } = await completeWithSchema(request, schema);
+
+  try {
+    await storage.saveAnalysisCacheEntry({
+      cacheKey,
+      task: request.task,
+      provider: provider.name,
+      model: provider.model,
+      promptTemplateId: prompt.templateId,
+      promptVersion: prompt.version,
+      result: data as Record<string, any>,
+      rawResponses,
+    });
+  } catch (error) {
+    logger.warn("Failed to store AI analysis in cache", {
+      task: request.task,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  return { data, rawResponses, provider: completion.provider, model: completion.model, cached: false };
+}
+
+/**
+ * Hit rate per task: hits are cached results reused, misses are results computed
+ */
+export async function getAnalysisCacheStats(): Promise<{ byTask: AIAnalysisCacheStats[]; totals: Omit<AIAnalysisCacheStats, "task"> }> {
+  const byTask = await storage.getAnalysisCacheStats();
+  const totals = byTask.reduce(
+    (sum, row) => ({ entries: sum.entries + row.entries, hits: sum.hits + row.hits, misses: sum.misses + row.misses }),
+    { entries: 0, hits: 0, misses: 0 }
+  );
+
+  return {
+    byTask,
+    totals: {
+      ...totals,
+      hitRate: totals.hits + totals.misses > 0 ? totals.hits / (totals.hits + totals.misses) : 0,
+    },
+  };
+}
@@ -1,32 +1,40 @@
 import { storage } from '../storage';
 import { analyzeResume } from './openai';
 import { logger } from './logger';
-import { AppError } from './errorHandler';
+import { AppError, ValidationError } from './errorHandler';
+import { enqueueJob, enqueueBatch } from './jobQueue';
+import { LLMResponseValidationError } from './llmProvider';
+import { assertWithinLLMBudget } from './llmUsageService';
+import type { AnalysisOptions } from './analysisCache';
+import { detectLanguage, resolveOutputLanguage } from './languageService';
+import { ASSESSMENT_STATUS, BACKGROUND_JOB_TYPES, type UiLanguage } from '@shared/constants';
+import type { Assessment, AssessmentHistoryEntry, BackgroundJob, Candidate } from '@shared/schema';
 
 export async function processAssessment(
   candidateId: string, 
   assessmentId: string, 
   position: string,
-  resumeSummary: string | null
-): Promise<void> {
+  resumeSummary: string | null,
+  options: AnalysisOptions = {}
+): Promise<Assessment> {
   try {
-    // Handle cases where resume summary is not available
+    // Without resume text there is nothing to score; flag it instead of storing zero scores
     if (!resumeSummary || resumeSummary.trim().length < 50) {
-      // Create a basic assessment with minimal scores if PDF extraction failed
-      await storage.updateAssessment(assessmentId, {
-        overallScore: "0.00",
-        technicalSkills: "0.00", 
-        experienceMatch: "0.00",
-        education: "0.00",
-        aiInsights: "Resume content could not be extracted from the uploaded PDF. Manual review required to assess candidate qualifications.",
-        status: 'completed',
+      const assessment = await storage.updateAssessment(assessmentId, {
+        overallScore: null,
+        technicalSkills: null,
+        experienceMatch: null,
+        education: null,
+        aiInsights: "Resume content could not be extracted from the uploaded file, even with OCR. Manual review required to assess candidate qualifications.",
+        status: ASSESSMENT_STATUS.NEEDS_REVIEW,
       });
+      await storage.setCurrentAssessment(candidateId, assessmentId);
       
-      logger.warn('Assessment completed with minimal data due to missing resume content', { 
+      logger.warn('Assessment needs manual review due to missing resume content', { 
         candidateId, 
         assessmentId 
       });
-      return;
+      return assessment;
     }
 
     logger.info('Processing AI assessment', { 
@@ -37,17 +45,26 @@ export async function processAssessment(
     });
 
     // Analyze resume using AI
-    const analysis = await analyzeResume(resumeSummary, position);
+    const analysis = await analyzeResume(resumeSummary, position, { candidateId }, options);
 
     // Update assessment with results
-    await storage.updateAssessment(assessmentId, {
+    const assessment = await storage.updateAssessment(assessmentId, {
       overallScore: analysis.overallScore.toString(),
       technicalSkills: analysis.technicalSkills.toString(),
       experienceMatch: analysis.experienceMatch.toString(),
       education: analysis.education.toString(),
       aiInsights: analysis.insights.join('\n'),
+      evidence: analysis.evidence,
+      criteriaScores: analysis.criteriaScores,
+      rawResponses: analysis.rawResponses ?? null,
+      promptTemplateId: analysis.promptTemplateId ?? null,
+      promptVersion: analysis.promptVersion ?? null,
+      provider: analysis.provider ?? null,
+      model: analysis.model ?? null,
       status: 'completed',
     });
+    // A finished re-run supersedes the previous assessment; failed ones never do
+    await storage.setCurrentAssessment(candidateId, assessmentId);
 
     logger.info('Assessment completed successfully', { 
       candidateId, 
@@ -55,6 +72,7 @@ export async function processAssessment(
       overallScore: analysis.overallScore 
     });
 
+    return assessment;
   } catch (error) {
     logger.error('Assessment processing failed', { 
       candidateId, 
@@ -62,11 +80,19 @@ export async function processAssessment(
       error: error instanceof Error ? error.message : 'Unknown error' 
     });
 
-    // Update assessment status to failed
-    await storage.updateAssessment(assessmentId, {
-      status: 'failed',
-      aiInsights: error instanceof Error ? error.message : 'Assessment failed due to unknown error',
-    }).catch(updateError => {
+    // Keep unusable AI output apart from ordinary failures so it can be inspected
+    const update: Partial<Assessment> = error instanceof LLMResponseValidationError
+      ? {
+          status: ASSESSMENT_STATUS.INVALID_RESPONSE,
+          aiInsights: error.message,
+          rawResponses: error.rawResponses,
+        }
+      : {
+          status: ASSESSMENT_STATUS.FAILED,
+          aiInsights: error instanceof Error ? error.message : 'Assessment failed due to unknown error',
+        };
+
+    await storage.updateAssessment(assessmentId, update).catch(updateError => {
       logger.error('Failed to update assessment status', { 
         assessmentId, 
         error: updateError instanceof Error ? updateError.message : 'Unknown error' 
@@ -77,7 +103,13 @@ export async function processAssessment(
   }
 }
 
-export async function runAssessment(candidateId: string): Promise<void> {
+// Candidates stored before language detection get it on their next analysis
+async function ensureResumeLanguage(candidate: Candidate): Promise<void> {
+  if (candidate.resumeLanguage || !candidate.resumeSummary) return;
+  await storage.updateCandidateResumeLanguage(candidate.id, detectLanguage(candidate.resumeSummary).language);
+}
+
+export async function runAssessment(candidateId: string, options: AnalysisOptions = {}): Promise<void> {
   try {
     logger.info('Starting assessment for candidate', { candidateId });
     
@@ -87,6 +119,8 @@ export async function runAssessment(candidateId: string): Promise<void> {
       throw new AppError('Candidate not found', 404);
     }
     
+    await ensureResumeLanguage(candidate);
+
     // Create assessment record
     const assessment = await storage.createAssessment({
       candidateId,
@@ -94,11 +128,125 @@ export async function runAssessment(candidateId: string): Promise<void> {
     });
     
     // Process the assessment
-    await processAssessment(candidateId, assessment.id, candidate.position, candidate.resumeSummary);
+    await processAssessment(candidateId, assessment.id, candidate.position, candidate.resumeSummary, options);
     
     logger.info('Assessment completed successfully', { candidateId, assessmentId: assessment.id });
   } catch (error) {
     logger.error('Assessment failed', { candidateId, error: error instanceof Error ? error.message : 'Unknown error' });
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Create a pending assessment and hand the analysis to the background job queue
+ */
+export async function queueAssessment(
+  candidate: { id: string; fullName: string },
+  createdBy?: string | null,
+  outputLanguage?: UiLanguage
+): Promise<BackgroundJob> {
+  // Refuse up front rather than leaving a pending assessment that fails once it runs
+  await assertWithinLLMBudget();
+
+  const assessment = await storage.createAssessment({
+    candidateId: candidate.id,
+    status: 'pending',
+  });
+
+  return enqueueJob(
+    BACKGROUND_JOB_TYPES.RESUME_ANALYSIS,
+    { candidateId: candidate.id, candidateName: candidate.fullName, assessmentId: assessment.id, outputLanguage },
+    { createdBy }
+  );
+}
+
+/**
+ * Queue assessments for several candidates as one batch whose progress can be polled
+ */
+export async function queueAssessments(
+  candidates: Array<{ id: string; fullName: string }>,
+  options: { createdBy?: string | null; metadata?: Record<string, any>; forceRefresh?: boolean; outputLanguage?: UiLanguage } = {}
+): Promise<BackgroundJob> {
+  // Refuse the whole batch up front rather than failing every job once it runs
+  await assertWithinLLMBudget();
+
+  const payloads = [];
+  for (const candidate of candidates) {
+    const assessment = await storage.createAssessment({
+      candidateId: candidate.id,
+      status: 'pending',
+    });
+    // The name is carried along so progress events can be shown without extra lookups
+    payloads.push({
+      candidateId: candidate.id,
+      candidateName: candidate.fullName,
+      assessmentId: assessment.id,
+      forceRefresh: options.forceRefresh ?? false,
+      outputLanguage: options.outputLanguage,
+    });
+  }
+
+  return enqueueBatch(BACKGROUND_JOB_TYPES.RESUME_ANALYSIS, payloads, {
+    createdBy: options.createdBy,
+    metadata: options.metadata,
+  });
+}
+
+/**
+ * Background job handler: analyze the resume for an already created assessment
+ */
+export async function processQueuedAssessment(job: BackgroundJob): Promise<Record<string, any>> {
+  const { candidateId, assessmentId, forceRefresh, outputLanguage } = job.payload;
+
+  const candidate = await storage.getCandidateById(candidateId);
+  if (!candidate) {
+    throw new AppError('Candidate not found', 404);
+  }
+  await ensureResumeLanguage(candidate);
+
+  const assessment = await processAssessment(candidateId, assessmentId, candidate.position, candidate.resumeSummary, {
+    forceRefresh: forceRefresh === true,
+    outputLanguage: resolveOutputLanguage(outputLanguage),
+  });
+  return { candidateId, assessmentId, score: parseFloat(assessment.overallScore || '0') };
+}
+
+/**
+ * Background job cancel hook: drop the pending assessment that will never be processed
+ */
+export async function discardQueuedAssessment(job: BackgroundJob): Promise<void> {
+  await storage.deleteAssessment(job.payload.assessmentId);
+}
+
+/**
+ * Every assessment run of a candidate, newest first, flagging the current one
+ */
+export async function getAssessmentHistory(candidateId: string): Promise<AssessmentHistoryEntry[]> {
+  const candidate = await storage.getCandidateById(candidateId);
+  if (!candidate) {
+    throw new AppError('Candidate not found', 404);
+  }
+
+  const [history, current] = await Promise.all([
+    storage.getAssessmentsByCandidateId(candidateId),
+    storage.getAssessmentByCandidateId(candidateId),
+  ]);
+  return history.map(assessment => ({ ...assessment, isCurrent: assessment.id === current?.id }));
+}
+
+/**
+ * Make an earlier (or later) run the one shown for the candidate
+ */
+export async function setCurrentAssessment(candidateId: string, assessmentId: string): Promise<Assessment> {
+  const assessment = await storage.getAssessmentById(assessmentId);
+  if (!assessment || assessment.candidateId !== candidateId) {
+    throw new AppError('Assessment not found', 404);
+  }
+  if (assessment.status !== ASSESSMENT_STATUS.COMPLETED && assessment.status !== ASSESSMENT_STATUS.NEEDS_REVIEW) {
+    throw new ValidationError('Only completed assessments or assessments needing review can be made current');
+  }
+
+  await storage.setCurrentAssessment(candidateId, assessmentId);
+  logger.info('Current assessment changed', { candidateId, assessmentId });
+  return assessment;
+}
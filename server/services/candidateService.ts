@@ -1,10 +1,10 @@
 import type { 
   Candidate, InsertCandidate, CandidateWithAssessment, CandidateWithRelations 
 } from '../../shared/schema';
-import type { ICandidateService } from '../interfaces/services';
+import type { DocumentExtractionResult, ICandidateService } from '../interfaces/services';
 import type { ICandidateRepository, IAssessmentRepository, IEmailRepository } from '../interfaces/repositories';
-import { extractTextFromPDF } from './pdfExtractor';
-import { processAssessment } from './assessmentService';
+import { extractDocumentText } from './documentExtractor';
+import { queueAssessment } from './assessmentService';
 import { sendEmail, getApplicationConfirmationEmail } from './email';
 import { logger } from './logger';
 import { AppError } from './errorHandler';
@@ -44,16 +44,17 @@ export class CandidateService implements ICandidateService {
     }
 
     // Extract resume text if CV file provided
-    let resumeSummary = null;
+    let extraction: DocumentExtractionResult | null = null;
     if (file && data.cvFilePath) {
       try {
-        resumeSummary = await extractTextFromPDF(data.cvFilePath);
-        logger.info('PDF text extracted successfully', { 
+        extraction = await extractDocumentText(data.cvFilePath);
+        logger.info('Resume text extracted successfully', { 
           candidateEmail: data.email,
-          textLength: resumeSummary.length 
+          textLength: extraction.text.length,
+          method: extraction.method 
         });
       } catch (error) {
-        logger.error('Failed to extract PDF text', { 
+        logger.error('Failed to extract resume text', { 
           candidateEmail: data.email,
           error: error instanceof Error ? error.message : 'Unknown error' 
         });
@@ -63,7 +64,10 @@ export class CandidateService implements ICandidateService {
     // Create candidate with extracted resume text
     const candidateData = {
       ...data,
-      resumeSummary,
+      resumeSummary: extraction?.text ?? null,
+      extractionMethod: extraction?.method ?? null,
+      extractionConfidence: extraction?.confidence?.toString() ?? null,
+      resumeLanguage: extraction?.language ?? null,
       status: APPLICATION_STATUS.NEW
     };
 
@@ -79,8 +83,8 @@ export class CandidateService implements ICandidateService {
     this.sendConfirmationEmailAsync(candidate);
 
     // Process AI assessment asynchronously if resume text available
-    if (resumeSummary) {
-      this.processAssessmentAsync(candidate.id, resumeSummary);
+    if (candidate.resumeSummary) {
+      this.processAssessmentAsync(candidate, candidate.resumeSummary);
     }
 
     return candidate;
@@ -186,12 +190,11 @@ export class CandidateService implements ICandidateService {
     }
   }
 
-  private async processAssessmentAsync(candidateId: string, resumeText: string): Promise<void> {
+  private async processAssessmentAsync(candidate: Candidate, resumeText: string): Promise<void> {
+    const candidateId = candidate.id;
     try {
-      // Note: This would need to be updated once we know the correct processAssessment signature
-      // For now, we'll just log that it should be processed
-      logger.info('Assessment queued for processing', { candidateId, resumeTextLength: resumeText.length });
-      // await processAssessment(candidateId, resumeText, position, requirements);
+      const job = await queueAssessment(candidate);
+      logger.info('Assessment queued for processing', { candidateId, jobId: job.id, resumeTextLength: resumeText.length });
     } catch (error) {
       logger.error('Failed to process assessment', { 
         candidateId,
@@ -1,5 +1,7 @@
 import { storage } from '../storage';
 import { logger } from './logger';
+import { getLLMCostReport } from './llmUsageService';
+import { getAnalysisCacheStats } from './analysisCache';
 
 export class DashboardService {
   /**
@@ -43,4 +45,23 @@ export class DashboardService {
       throw error;
     }
   }
+
+  /**
+   * Get AI usage cost for the last `days` days
+   */
+  static async getLLMCostReport(days: number) {
+    const to = new Date();
+    const from = new Date(to);
+    from.setUTCHours(0, 0, 0, 0);
+    from.setUTCDate(from.getUTCDate() - (days - 1));
+
+    return getLLMCostReport(from, to);
+  }
+
+  /**
+   * Get hit rate of the AI analysis cache
+   */
+  static async getAnalysisCacheStats() {
+    return getAnalysisCacheStats();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import JSZip from "jszip";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { AppError } from "./errorHandler";
+import {
+  detectDocumentType,
+  docxXmlToText,
+  extractDocumentText,
+  odtXmlToText,
+  rtfToText,
+  verifyDocumentType,
+} from "./documentExtractor";
+
+const DATA_DIR = path.resolve(__dirname, "../../test/data");
+const fixture = (name: string) => path.join(DATA_DIR, name);
+
+describe("docxXmlToText", () => {
+  it("turns paragraphs, breaks and tabs into whitespace", () => {
+    const xml = "<w:p><w:r><w:t>One</w:t><w:br/><w:t>Two</w:t><w:tab/><w:t>Three</w:t></w:r></w:p><w:p><w:r><w:t>Four</w:t></w:r></w:p>";
+    expect(docxXmlToText(xml)).toBe("One\nTwo\tThree\nFour\n");
+  });
+
+  it("decodes named and numeric entities", () => {
+    expect(docxXmlToText("<w:t>R&amp;D &lt;.NET&gt; &quot;x&quot; &apos;y&apos; &#8211; &#x20AC;</w:t>")).toBe("R&D <.NET> \"x\" 'y' – €");
+  });
+
+  it("drops field instructions and deleted revisions", () => {
+    const xml = '<w:instrText>HYPERLINK "https://example.com"</w:instrText><w:t>Portfolio</w:t><w:delText>Removed</w:delText>';
+    expect(docxXmlToText(xml)).toBe("Portfolio");
+  });
+});
+
+describe("odtXmlToText", () => {
+  it("expands repeated spaces and keeps line structure", () => {
+    const xml = '<text:h>Title</text:h><text:p>A<text:s text:c="3"/>B<text:s/>C<text:tab/>D<text:line-break/>E</text:p>';
+    expect(odtXmlToText(xml)).toBe("Title\nA   B C\tD\nE\n");
+  });
+
+  it("drops annotations and decodes entities", () => {
+    const xml = "<text:p>R&amp;D<office:annotation><text:p>Comment</text:p></office:annotation> &#x41;</text:p>";
+    expect(odtXmlToText(xml)).toBe("R&D A\n");
+  });
+});
+
+describe("rtfToText", () => {
+  it("decodes \\uN escapes and skips their fallback characters", () => {
+    expect(rtfToText(String.raw`{\rtf1\uc1 \u1605?\u1581?\u1605?\u1583?}`)).toBe("محمد");
+    expect(rtfToText(String.raw`{\rtf1\uc2 \u8364??5}`)).toBe("€5");
+  });
+
+  it("maps negative \\uN values to the upper half of the BMP", () => {
+    expect(rtfToText(String.raw`{\rtf1\u-3913?}`)).toBe(String.fromCharCode(65536 - 3913));
+  });
+
+  it("decodes \\'hh bytes in the document code page", () => {
+    expect(rtfToText(String.raw`{\rtf1\ansi\ansicpg1252 Caf\'e9}`)).toBe("Café");
+    expect(rtfToText(String.raw`{\rtf1\ansi\ansicpg1251 \'cf\'f0\'e8}`)).toBe("При");
+  });
+
+  it("skips headers, footers, metadata and field instructions", () => {
+    const rtf = String.raw`{\rtf1{\fonttbl{\f0 Calibri;}}{\info{\author Someone}}{\header Header}{\footer Footer}{\*\generator Writer;}Body {\field{\*\fldinst HYPERLINK "x"}{\fldrslt Link}}}`;
+    expect(rtfToText(rtf)).toBe("Body Link");
+  });
+
+  it("keeps escaped braces and backslashes and maps symbols", () => {
+    expect(rtfToText(String.raw`{\rtf1 a\{b\}c\\d\par e\tab f\endash g}`)).toBe("a{b}c\\d\ne\tf–g");
+  });
+});
+
+describe("extractDocumentText", () => {
+  it("reads DOCX headers before the body and footers after it", async () => {
+    const result = await extractDocumentText(fixture("resume.docx"));
+
+    expect(result.method).toBe("docx");
+    const header = result.text.indexOf("jane.doe@example.com");
+    const body = result.text.indexOf("Senior Engineer at R&D Labs");
+    const footer = result.text.indexOf("References available on request");
+    expect(header).toBeGreaterThanOrEqual(0);
+    expect(body).toBeGreaterThan(header);
+    expect(footer).toBeGreaterThan(body);
+    expect(result.text).toContain("C# <.NET> – SQL");
+    expect(result.text).toContain("Line one\nLine two");
+    expect(result.text).not.toContain("HYPERLINK");
+    expect(result.text).not.toContain("Removed draft text");
+  });
+
+  it("reads ODT content without annotations", async () => {
+    const result = await extractDocumentText(fixture("resume.odt"));
+
+    expect(result.method).toBe("odt");
+    expect(result.text).toBe("Jane Doe\n\nSenior Engineer at R&D Labs\n\nSkills: C# <.NET> SQL\n\nLine one\nLine two");
+  });
+
+  it("reads RTF body text only", async () => {
+    const result = await extractDocumentText(fixture("resume.rtf"));
+
+    expect(result.method).toBe("rtf");
+    expect(result.text).toBe("Jane Doe\nCafé owner turned engineer – R&D\nArabic: محمد €5\nPortfolio\nBraces { and backslash \\");
+  });
+});
+
+describe("document type checks", () => {
+  let tmpDir: string;
+
+  const copyAs = (source: string, name: string) => {
+    const target = path.join(tmpDir, name);
+    fs.copyFileSync(fixture(source), target);
+    return target;
+  };
+
+  const rejection = async (promise: Promise<unknown>) => {
+    const error = await promise.catch(error => error);
+    expect(error).toBeInstanceOf(AppError);
+    return error as AppError;
+  };
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "document-extractor-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("detects each fixture by its content", async () => {
+    expect(await detectDocumentType(fs.readFileSync(fixture("resume.docx")))).toBe("docx");
+    expect(await detectDocumentType(fs.readFileSync(fixture("resume.odt")))).toBe("odt");
+    expect(await detectDocumentType(fs.readFileSync(fixture("resume.rtf")))).toBe("rtf");
+  });
+
+  it("accepts a file whose content matches its extension", async () => {
+    expect(await verifyDocumentType(copyAs("resume.docx", "cv.docx"), "cv.docx")).toBe("docx");
+  });
+
+  it("rejects a renamed file with 415", async () => {
+    const error = await rejection(verifyDocumentType(copyAs("resume.docx", "cv.pdf"), "cv.pdf"));
+    expect(error.statusCode).toBe(415);
+  });
+
+  it("rejects a renamed executable with 415", async () => {
+    const target = path.join(tmpDir, "cv.txt");
+    fs.writeFileSync(target, Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00, 0x00, 0x00]));
+
+    const error = await rejection(verifyDocumentType(target, "cv.txt"));
+    expect(error.statusCode).toBe(415);
+  });
+
+  it("refuses to inflate an oversized DOCX entry", async () => {
+    const zip = new JSZip();
+    zip.file("word/document.xml", `<w:p><w:t>${" ".repeat(20 * 1024 * 1024)}</w:t></w:p>`);
+    const target = path.join(tmpDir, "bomb.docx");
+    fs.writeFileSync(target, await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }));
+
+    const error = await rejection(extractDocumentText(target));
+    expect(error.statusCode).toBe(400);
+  });
+});
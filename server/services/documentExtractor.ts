@@ -0,0 +1,424 @@
+import fs from "fs";
+import path from "path";
+import JSZip from "jszip";
+import { logger } from "./logger";
+import { AppError } from "./errorHandler";
+import { extractResumeText } from "./pdfExtractor";
+import { detectLanguage, normalizeUnicodeText } from "./languageService";
+import {
+  EXTRACTION_METHODS,
+  FILE_UPLOAD,
+  HTTP_STATUS,
+  RESUME_DOCUMENT_TYPES,
+  type ResumeDocumentType,
+} from "@shared/constants";
+import type { DocumentExtractionResult, IDocumentExtractor } from "../interfaces/services";
+
+export const UNSUPPORTED_FILE_MESSAGE = "Only PDF, DOCX, ODT, RTF and TXT files are allowed";
+
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+// Far above the text of any real resume; a larger entry is most likely a zip bomb
+const MAX_ZIP_ENTRY_SIZE = 5 * 1024 * 1024;
+const ODT_MIMETYPE = RESUME_DOCUMENT_TYPES.odt.contentType;
+
+// Some browsers and operating systems send a generic type for .odt and .rtf files;
+// those uploads are accepted on their extension and checked by magic bytes
+const GENERIC_MIME_TYPES = ["application/octet-stream", "application/msword"];
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (match, entity: string) => {
+    const named: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+    if (entity[0] !== "#") return named[entity.toLowerCase()] ?? match;
+    const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return Number.isNaN(code) ? match : String.fromCodePoint(code);
+  });
+}
+
+// Keep line breaks so sections and bullet points survive; only runs of
+// spaces and blank lines are collapsed
+function normalizeDocumentText(text: string): string {
+  return normalizeUnicodeText(text)
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00a0]+/g, " ")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * WordprocessingML to text: paragraphs and breaks become newlines, field
+ * instructions and deleted revisions are dropped
+ */
+export function docxXmlToText(xml: string): string {
+  return decodeXmlEntities(
+    xml
+      .replace(/<w:instrText[^>]*>[\s\S]*?<\/w:instrText>/g, "")
+      .replace(/<w:delText[^>]*>[\s\S]*?<\/w:delText>/g, "")
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(br|cr)\b[^>]*\/>/g, "\n")
+      .replace(/<\/w:p>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  );
+}
+
+/**
+ * OpenDocument text to plain text; <text:s text:c="n"/> stands for n spaces
+ */
+export function odtXmlToText(xml: string): string {
+  return decodeXmlEntities(
+    xml
+      .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, "")
+      .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count?: string) => " ".repeat(parseInt(count || "1", 10)))
+      .replace(/<text:tab\s*\/>/g, "\t")
+      .replace(/<text:line-break\s*\/>/g, "\n")
+      .replace(/<\/text:(p|h)>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  );
+}
+
+// Destinations that hold formatting or metadata rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "themedata",
+  "colorschememapping", "datastore", "latentstyles", "listtable", "listoverridetable",
+  "rsidtbl", "generator", "xmlnstbl", "header", "headerl", "headerr", "headerf",
+  "footer", "footerl", "footerr", "footerf", "fldinst",
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: "\n", line: "\n", sect: "\n", page: "\n", row: "\n", cell: "\t", tab: "\t",
+  emdash: "—", endash: "–", bullet: "•", lquote: "‘", rquote: "’",
+  ldblquote: "“", rdblquote: "”",
+};
+
+/**
+ * Minimal RTF reader: follows groups, skips non-text destinations and decodes
+ * \'hh bytes in the document code page and \uN escapes
+ */
+export function rtfToText(rtf: string): string {
+  const controlWord = new RegExp("([a-zA-Z]{1,32})(-?\\d{1,10})? ?", "y");
+  const stack: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  let skip = false;
+  let unicodeSkip = 1; // Fallback characters that follow each \uN
+  let pendingFallback = 0;
+  let decoder = new TextDecoder("windows-1252");
+  let output = "";
+
+  const emit = (text: string) => {
+    if (skip) return;
+    if (pendingFallback > 0) {
+      pendingFallback--;
+      return;
+    }
+    output += text;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      stack.push({ skip, unicodeSkip });
+      i++;
+    } else if (char === "}") {
+      const state = stack.pop();
+      if (state) ({ skip, unicodeSkip } = state);
+      pendingFallback = 0;
+      i++;
+    } else if (char === "\\") {
+      const next = rtf[i + 1];
+      if (next === "*") {
+        skip = true;
+        i += 2;
+      } else if (next === "'") {
+        emit(decoder.decode(Buffer.from([parseInt(rtf.substr(i + 2, 2), 16) || 0x3f])));
+        i += 4;
+      } else if (next === "\\" || next === "{" || next === "}") {
+        emit(next);
+        i += 2;
+      } else if (next === "~") {
+        emit(" ");
+        i += 2;
+      } else if (next === "\n" || next === "\r") {
+        emit("\n");
+        i += 2;
+      } else {
+        controlWord.lastIndex = i + 1;
+        const match = controlWord.exec(rtf);
+        if (!match) {
+          i += 2; // Other control symbols (\-, \_, \|, ...) carry no text
+          continue;
+        }
+        i = controlWord.lastIndex;
+
+        const [, word, param] = match;
+        if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+          skip = true;
+        } else if (word === "ansicpg" && param) {
+          try {
+            decoder = new TextDecoder(`windows-${param}`);
+          } catch {
+            logger.debug("Unsupported RTF code page", { codePage: param });
+          }
+        } else if (word === "uc" && param) {
+          unicodeSkip = parseInt(param, 10);
+        } else if (word === "u" && param) {
+          const code = parseInt(param, 10);
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+          if (!skip) pendingFallback = unicodeSkip;
+        } else if (RTF_SYMBOLS[word]) {
+          emit(RTF_SYMBOLS[word]);
+        }
+      }
+    } else {
+      if (char !== "\n" && char !== "\r") emit(char);
+      i++;
+    }
+  }
+
+  return output;
+}
+
+function decodePlainText(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return new TextDecoder("utf-16le").decode(buffer.subarray(2));
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return new TextDecoder("utf-16be").decode(buffer.subarray(2));
+  return new TextDecoder("utf-8", { fatal: true }).decode(buffer).replace(/^\uFEFF/, "");
+}
+
+function isPlainText(buffer: Buffer): boolean {
+  if ((buffer[0] === 0xff && buffer[1] === 0xfe) || (buffer[0] === 0xfe && buffer[1] === 0xff)) return true;
+  if (buffer.includes(0)) return false;
+  try {
+    decodePlainText(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zipEntryTooLarge(name: string): AppError {
+  logger.warn("Document archive entry exceeds the size limit", { entry: name, limit: MAX_ZIP_ENTRY_SIZE });
+  return new AppError("Document is too large to extract", HTTP_STATUS.BAD_REQUEST);
+}
+
+/**
+ * Inflate one archive entry, refusing entries that declare or turn out to be
+ * larger than MAX_ZIP_ENTRY_SIZE. The declared size can be forged, so
+ * inflation also stops as soon as the output passes the limit.
+ */
+function readZipEntry(entry: JSZip.JSZipObject): Promise<string> {
+  // Sizes from the central directory, kept by JSZip on entries read with loadAsync
+  const declaredSize = (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize;
+  if (typeof declaredSize === "number" && declaredSize > MAX_ZIP_ENTRY_SIZE) {
+    return Promise.reject(zipEntryTooLarge(entry.name));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream("nodebuffer") as NodeJS.ReadableStream & { destroy(): void };
+
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_ZIP_ENTRY_SIZE) {
+        // Stops inflation: the destroyed stream no longer asks JSZip for data
+        stream.destroy();
+        reject(zipEntryTooLarge(entry.name));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+  });
+}
+
+async function readZipEntries(zip: JSZip, pattern: RegExp): Promise<string[]> {
+  const names = Object.keys(zip.files)
+    .filter((name) => pattern.test(name))
+    .sort();
+  return Promise.all(names.map((name) => readZipEntry(zip.files[name])));
+}
+
+const pdfExtractor: IDocumentExtractor = {
+  type: "pdf",
+  // The header may be preceded by a few junk bytes, which readers tolerate
+  matches: async (buffer) => buffer.subarray(0, 1024).includes("%PDF-"),
+  extract: (filePath) => extractResumeText(filePath),
+};
+
+const docxExtractor: IDocumentExtractor = {
+  type: "docx",
+  matches: async (buffer) => {
+    if (!buffer.subarray(0, 4).equals(ZIP_SIGNATURE)) return false;
+    try {
+      const zip = await JSZip.loadAsync(buffer);
+      return !!zip.file("word/document.xml");
+    } catch {
+      return false;
+    }
+  },
+  extract: async (_filePath, buffer) => {
+    const zip = await JSZip.loadAsync(buffer);
+    // Contact details often sit in the page header, so headers come first
+    const [headers, body, footers] = await Promise.all([
+      readZipEntries(zip, /^word\/header\d*\.xml$/),
+      readZipEntries(zip, /^word\/document\.xml$/),
+      readZipEntries(zip, /^word\/footer\d*\.xml$/),
+    ]);
+    const text = [...headers, ...body, ...footers].map(docxXmlToText).join("\n");
+    return { text, method: EXTRACTION_METHODS.DOCX, confidence: null };
+  },
+};
+
+const odtExtractor: IDocumentExtractor = {
+  type: "odt",
+  // ODF stores an uncompressed "mimetype" entry first, right after the 30-byte local header
+  matches: async (buffer) =>
+    buffer.subarray(0, 4).equals(ZIP_SIGNATURE) &&
+    buffer.toString("latin1", 30, 38) === "mimetype" &&
+    buffer.toString("latin1", 38, 38 + ODT_MIMETYPE.length) === ODT_MIMETYPE,
+  extract: async (_filePath, buffer) => {
+    const [content] = await readZipEntries(await JSZip.loadAsync(buffer), /^content\.xml$/);
+    return { text: odtXmlToText(content ?? ""), method: EXTRACTION_METHODS.ODT, confidence: null };
+  },
+};
+
+const rtfExtractor: IDocumentExtractor = {
+  type: "rtf",
+  matches: async (buffer) => buffer.toString("latin1", 0, 5) === "{\\rtf",
+  extract: async (_filePath, buffer) => ({
+    text: rtfToText(buffer.toString("latin1")),
+    method: EXTRACTION_METHODS.RTF,
+    confidence: null,
+  }),
+};
+
+const textExtractor: IDocumentExtractor = {
+  type: "txt",
+  matches: async (buffer) => isPlainText(buffer),
+  extract: async (_filePath, buffer) => ({
+    text: decodePlainText(buffer),
+    method: EXTRACTION_METHODS.TEXT,
+    confidence: null,
+  }),
+};
+
+// Checked in order; plain text accepts almost anything so it comes last
+const DOCUMENT_EXTRACTORS: IDocumentExtractor[] = [
+  pdfExtractor,
+  odtExtractor,
+  docxExtractor,
+  rtfExtractor,
+  textExtractor,
+];
+
+function documentTypeForExtension(fileName: string): ResumeDocumentType | null {
+  const extension = path.extname(fileName).toLowerCase();
+  const entry = Object.entries(RESUME_DOCUMENT_TYPES).find(([, type]) =>
+    (type.extensions as readonly string[]).includes(extension)
+  );
+  return entry ? (entry[0] as ResumeDocumentType) : null;
+}
+
+async function findExtractor(buffer: Buffer): Promise<IDocumentExtractor | null> {
+  for (const extractor of DOCUMENT_EXTRACTORS) {
+    if (await extractor.matches(buffer)) return extractor;
+  }
+  return null;
+}
+
+/**
+ * Identify a document by its content rather than its name or declared type
+ */
+export async function detectDocumentType(buffer: Buffer): Promise<ResumeDocumentType | null> {
+  return (await findExtractor(buffer))?.type ?? null;
+}
+
+/**
+ * Upload filter check on the declared content type and file extension
+ */
+export function isAllowedResumeFile(file: Pick<Express.Multer.File, "mimetype" | "originalname">): boolean {
+  const type = documentTypeForExtension(file.originalname);
+  if (!type) return false;
+
+  const mimeTypes: readonly string[] = RESUME_DOCUMENT_TYPES[type].mimeTypes;
+  return mimeTypes.includes(file.mimetype) || GENERIC_MIME_TYPES.includes(file.mimetype);
+}
+
+/**
+ * Check that a stored upload really is the format its name claims. Renamed
+ * executables or archives are rejected with 415.
+ */
+export async function verifyDocumentType(filePath: string, originalName: string): Promise<ResumeDocumentType> {
+  const buffer = await fs.promises.readFile(filePath);
+  const detected = await detectDocumentType(buffer);
+  const expected = documentTypeForExtension(originalName);
+
+  if (!detected || detected !== expected) {
+    logger.warn("Uploaded file content does not match its type", { originalName, detected, expected });
+    throw new AppError(UNSUPPORTED_FILE_MESSAGE, HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE);
+  }
+
+  return detected;
+}
+
+/**
+ * Content type to serve a stored resume with, based on its file name
+ */
+export function getDocumentContentType(fileName: string): string {
+  const type = documentTypeForExtension(fileName);
+  return type ? RESUME_DOCUMENT_TYPES[type].contentType : "application/octet-stream";
+}
+
+/**
+ * Extract resume text from any supported document format
+ */
+export async function extractDocumentText(filePath: string): Promise<DocumentExtractionResult> {
+  if (!fs.existsSync(filePath)) {
+    throw new AppError("Resume file not found", 404);
+  }
+
+  const buffer = await fs.promises.readFile(filePath);
+  if (buffer.length > FILE_UPLOAD.MAX_SIZE) {
+    throw new AppError("File size exceeds 10MB limit", HTTP_STATUS.PAYLOAD_TOO_LARGE);
+  }
+
+  const extractor = await findExtractor(buffer);
+  if (!extractor) {
+    throw new AppError(UNSUPPORTED_FILE_MESSAGE, HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE);
+  }
+
+  // PDFs are cleaned, validated and logged by the PDF extractor itself
+  if (extractor.type === "pdf") {
+    const result = await extractor.extract(filePath, buffer);
+    return { ...result, language: detectLanguage(result.text).language };
+  }
+
+  logger.info("Starting document text extraction", { filePath, type: extractor.type });
+
+  let result: Omit<DocumentExtractionResult, "language">;
+  try {
+    result = await extractor.extract(filePath, buffer);
+  } catch (error: any) {
+    if (error instanceof AppError) throw error;
+    logger.error("Document text extraction failed", { filePath, type: extractor.type, error: error.message });
+    throw new AppError(`Failed to extract text from ${extractor.type.toUpperCase()} file: ${error.message}`, 500);
+  }
+
+  const text = normalizeDocumentText(result.text);
+  if (text.length < 10) {
+    throw new AppError("Document appears to be empty or contains no readable text", 400);
+  }
+
+  const { language } = detectLanguage(text);
+  logger.info("Document text extraction successful", {
+    type: extractor.type,
+    textLength: text.length,
+    wordCount: text.split(/\s+/).length,
+    language,
+  });
+
+  return { ...result, text, language };
+}
@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import OpenAI from "openai";
+import env from "../config/environment";
+import { logger } from "./logger";
+import { AppError } from "./errorHandler";
+import { assertWithinLLMBudget, recordLLMUsage } from "./llmUsageService";
+import type { LLMUsage } from "./llmProvider";
+
+export type EmbeddingProviderName = "local" | "openai" | "openai-compatible";
+
+// Task name of embedding calls in the LLM usage log
+export const EMBEDDING_USAGE_TASK = "embedding";
+
+export interface EmbeddingResult {
+  vectors: number[][]; // One per input text, in the same order
+  usage?: LLMUsage;
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+/**
+ * Embeddings endpoint of api.openai.com or any server speaking the same API
+ * (Ollama, vLLM, Azure OpenAI)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  private client: OpenAI;
+
+  constructor(
+    public readonly name: EmbeddingProviderName,
+    public readonly model: string,
+    options: ConstructorParameters<typeof OpenAI>[0]
+  ) {
+    this.client = new OpenAI(options);
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    if (texts.length === 0) return { vectors: [] };
+
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    return {
+      vectors: response.data
+        .slice()
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding),
+      usage: response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: 0,
+        totalTokens: response.usage.total_tokens,
+      } : undefined,
+    };
+  }
+}
+
+const TOKEN_SEPARATOR = new RegExp("[^\\p{L}\\p{N}+#]+", "u");
+
+function hashToken(token: string): number {
+  return crypto.createHash("md5").update(token).digest().readUInt32LE(0);
+}
+
+/**
+ * Offline model: words and word pairs hashed into a fixed-size vector with
+ * sublinear term frequencies. It matches shared vocabulary in any script, not
+ * meaning, but needs no network access or API key.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = "local" as const;
+  public readonly model: string;
+
+  constructor(private dimensions: number = env.EMBEDDING_DIMENSIONS) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  private embedOne(text: string): number[] {
+    const words = text.toLowerCase().split(TOKEN_SEPARATOR).filter(word => word.length > 1);
+    const counts = new Map<string, number>();
+    words.forEach((word, index) => {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+      if (index > 0) {
+        const pair = `${words[index - 1]} ${word}`;
+        counts.set(pair, (counts.get(pair) ?? 0) + 1);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    counts.forEach((count, token) => {
+      const hash = hashToken(token);
+      // The top bit picks the sign so colliding tokens tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    return { vectors: texts.map(text => this.embedOne(text)) };
+  }
+}
+
+function createEmbeddingProvider(): EmbeddingProvider {
+  const provider = env.EMBEDDING_PROVIDER as EmbeddingProviderName;
+
+  switch (provider) {
+    case "local":
+      return new LocalEmbeddingProvider();
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL) {
+        throw new AppError("LLM_BASE_URL is required for the openai-compatible embedding provider", 500);
+      }
+      return new OpenAIEmbeddingProvider("openai-compatible", env.EMBEDDING_MODEL, {
+        baseURL: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY || "not-required",
+        ...(env.LLM_API_VERSION ? {
+          defaultQuery: { "api-version": env.LLM_API_VERSION },
+          defaultHeaders: { "api-key": env.LLM_API_KEY },
+        } : {}),
+      });
+    case "openai":
+      return new OpenAIEmbeddingProvider("openai", env.EMBEDDING_MODEL, { apiKey: env.OPENAI_API_KEY });
+    default:
+      throw new AppError(`Unsupported embedding provider "${provider}"`, 500);
+  }
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the provider configured by EMBEDDING_PROVIDER / EMBEDDING_MODEL
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = createEmbeddingProvider();
+    logger.info("Embedding provider initialized", { provider: embeddingProvider.name, model: embeddingProvider.model });
+  }
+  return embeddingProvider;
+}
+
+/**
+ * Override the embedding provider, e.g. to inject a fake in tests
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  embeddingProvider = provider;
+}
+
+/**
+ * Embed texts with the given provider. Hosted calls are checked against the
+ * monthly AI budget and recorded in the usage log like completions; the local
+ * provider costs nothing and is not recorded.
+ */
+export async function embedWithUsage(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+  if (provider.name === "local" || texts.length === 0) {
+    return (await provider.embed(texts)).vectors;
+  }
+
+  await assertWithinLLMBudget();
+
+  const usageEntry = { task: EMBEDDING_USAGE_TASK, provider: provider.name, model: provider.model };
+  const startedAt = Date.now();
+
+  let result: EmbeddingResult;
+  try {
+    result = await provider.embed(texts);
+  } catch (error) {
+    await recordLLMUsage({
+      ...usageEntry,
+      latencyMs: Date.now() - startedAt,
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  await recordLLMUsage({
+    ...usageEntry,
+    promptTokens: result.usage?.promptTokens ?? 0,
+    completionTokens: result.usage?.completionTokens ?? 0,
+    totalTokens: result.usage?.totalTokens ?? 0,
+    latencyMs: Date.now() - startedAt,
+    status: "success",
+  });
+
+  return result.vectors;
+}
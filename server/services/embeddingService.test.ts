@@ -0,0 +1,99 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Candidate, InsertLLMUsageEntry } from "@shared/schema";
+
+const fake = vi.hoisted(() => ({
+  usage: [] as InsertLLMUsageEntry[],
+  spent: 0,
+}));
+
+// Only the storage calls semantic search makes
+vi.mock("../storage", () => ({
+  storage: {
+    getCandidates: async () => [{
+      id: "candidate-1",
+      fullName: "Jane Doe",
+      email: "jane.doe@example.com",
+      phone: null,
+      position: "Backend Engineer",
+      status: "new",
+      appliedAt: new Date(),
+      resumeSummary: "Backend engineer building payment services in TypeScript and PostgreSQL",
+    } as Candidate],
+    getEmbeddings: async () => [],
+    upsertEmbedding: async (row: Record<string, unknown>) => row,
+    createLLMUsageEntry: async (entry: InsertLLMUsageEntry) => {
+      fake.usage.push(entry);
+    },
+    getLLMCostSince: async () => fake.spent,
+  },
+}));
+
+import env from "../config/environment";
+import { LocalEmbeddingProvider, setEmbeddingProvider, type EmbeddingProvider, type EmbeddingResult } from "./embeddingProvider";
+import { searchCandidatesSemantic } from "./embeddingService";
+import { LLMBudgetExceededError } from "./llmUsageService";
+
+// Hosted-style provider reporting 10 tokens per text
+class HostedEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai" as const;
+  readonly model = "text-embedding-3-small";
+  calls = 0;
+  private vectors = new LocalEmbeddingProvider(64);
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    this.calls++;
+    const { vectors } = await this.vectors.embed(texts);
+    return { vectors, usage: { promptTokens: texts.length * 10, completionTokens: 0, totalTokens: texts.length * 10 } };
+  }
+}
+
+describe("embedding usage", () => {
+  const budget = env.LLM_MONTHLY_BUDGET_USD;
+
+  beforeEach(() => {
+    fake.usage = [];
+    fake.spent = 0;
+  });
+
+  afterEach(() => {
+    env.LLM_MONTHLY_BUDGET_USD = budget;
+  });
+
+  afterAll(() => {
+    setEmbeddingProvider(null);
+  });
+
+  it("records hosted embedding calls with their tokens and cost", async () => {
+    setEmbeddingProvider(new HostedEmbeddingProvider());
+
+    await searchCandidatesSemantic("payment services engineer");
+
+    expect(fake.usage).toHaveLength(2); // The query, then the candidate resumes
+    for (const entry of fake.usage) {
+      expect(entry).toMatchObject({ task: "embedding", provider: "openai", model: "text-embedding-3-small", status: "success" });
+      expect(entry.promptTokens).toBe(10);
+      expect(entry.cost).toBe((10 * 0.02 / 1_000_000).toFixed(6));
+    }
+  });
+
+  it("refuses hosted embedding calls once the monthly budget is spent", async () => {
+    const provider = new HostedEmbeddingProvider();
+    setEmbeddingProvider(provider);
+    env.LLM_MONTHLY_BUDGET_USD = 5;
+    fake.spent = 5;
+
+    await expect(searchCandidatesSemantic("payment services engineer")).rejects.toBeInstanceOf(LLMBudgetExceededError);
+    expect(provider.calls).toBe(0);
+  });
+
+  it("leaves local embeddings out of the budget and usage log", async () => {
+    setEmbeddingProvider(new LocalEmbeddingProvider(64));
+    env.LLM_MONTHLY_BUDGET_USD = 5;
+    fake.spent = 5;
+
+    const matches = await searchCandidatesSemantic("payment services engineer");
+
+    expect(matches.map(match => match.id)).toEqual(["candidate-1"]);
+    expect(fake.usage).toHaveLength(0);
+  });
+});
@@ -0,0 +1,233 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { logger } from "./logger";
+import { AppError, ValidationError } from "./errorHandler";
+import { embedWithUsage, getEmbeddingProvider } from "./embeddingProvider";
+import { createPIIRedactor, type PIISubject } from "./piiRedaction";
+import { EMBEDDING_ENTITY_TYPES, type EmbeddingEntityType } from "@shared/constants";
+import type { Candidate, CandidateSimilarity, JobDescription } from "@shared/schema";
+
+// Roughly the 8k-token input limit of hosted embedding models
+const MAX_EMBEDDING_CHARS = 8000;
+const EMBEDDING_BATCH_SIZE = 32;
+
+interface EmbeddingSource {
+  id: string;
+  text: string;
+  subject?: PIISubject; // Personal data to mask before the text leaves the server
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function candidateEmbeddingText(candidate: Pick<Candidate, "position" | "resumeSummary">): string {
+  return [candidate.position, candidate.resumeSummary ?? ""].join("\n").slice(0, MAX_EMBEDDING_CHARS);
+}
+
+export function jobDescriptionEmbeddingText(jobDescription: JobDescription): string {
+  return [
+    jobDescription.position,
+    jobDescription.responsibilities,
+    jobDescription.requiredExperience,
+    jobDescription.skills,
+    jobDescription.notes,
+  ].filter(Boolean).join("\n").slice(0, MAX_EMBEDDING_CHARS);
+}
+
+function contentHash(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Vectors for the given entities, reusing stored embeddings whose text is
+ * unchanged and embedding the rest in batches
+ */
+async function getEntityVectors(entityType: EmbeddingEntityType, sources: EmbeddingSource[]): Promise<Map<string, number[]>> {
+  const provider = getEmbeddingProvider();
+  const stored = await storage.getEmbeddings(entityType, provider.model, sources.map(source => source.id));
+  const storedById = new Map(stored.map(row => [row.entityId, row]));
+
+  const vectors = new Map<string, number[]>();
+  const pending: Array<EmbeddingSource & { hash: string }> = [];
+  for (const source of sources) {
+    const hash = contentHash(source.text);
+    const row = storedById.get(source.id);
+    if (row && row.contentHash === hash) {
+      vectors.set(source.id, row.vector);
+    } else {
+      pending.push({ ...source, hash });
+    }
+  }
+
+  if (pending.length > 0) {
+    logger.info("Computing embeddings", { entityType, count: pending.length, provider: provider.name, model: provider.model });
+  }
+
+  for (let start = 0; start < pending.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = pending.slice(start, start + EMBEDDING_BATCH_SIZE);
+    // Hashed local vectors never leave the server; hosted providers get masked text
+    const texts = batch.map(source => {
+      const redactor = provider.name === "local" ? null : createPIIRedactor(source.subject);
+      return redactor ? redactor.redact(source.text) : source.text;
+    });
+    const embedded = await embedWithUsage(provider, texts);
+
+    for (let index = 0; index < batch.length; index++) {
+      const source = batch[index];
+      const vector = embedded[index];
+      await storage.upsertEmbedding({
+        entityType,
+        entityId: source.id,
+        provider: provider.name,
+        model: provider.model,
+        contentHash: source.hash,
+        vector,
+      });
+      vectors.set(source.id, vector);
+    }
+  }
+
+  return vectors;
+}
+
+async function getCandidateVectors(candidates: Candidate[]): Promise<Map<string, number[]>> {
+  return getEntityVectors(EMBEDDING_ENTITY_TYPES.CANDIDATE, candidates.map(candidate => ({
+    id: candidate.id,
+    text: candidateEmbeddingText(candidate),
+    subject: { fullName: candidate.fullName, email: candidate.email, phone: candidate.phone },
+  })));
+}
+
+/**
+ * Candidates with resume text, once each (getCandidates joins assessments)
+ */
+async function getSearchableCandidates(): Promise<Candidate[]> {
+  const rows = await storage.getCandidates();
+  const byId = new Map<string, Candidate>();
+  for (const row of rows) {
+    if (row.resumeSummary?.trim() && !byId.has(row.id)) {
+      byId.set(row.id, row);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+function rankBySimilarity(
+  target: number[],
+  candidates: Candidate[],
+  vectors: Map<string, number[]>,
+  limit: number
+): CandidateSimilarity[] {
+  return candidates
+    .flatMap(candidate => {
+      const vector = vectors.get(candidate.id);
+      return vector ? [{
+        id: candidate.id,
+        fullName: candidate.fullName,
+        email: candidate.email,
+        position: candidate.position,
+        status: candidate.status,
+        appliedAt: candidate.appliedAt,
+        similarity: Math.round(cosineSimilarity(target, vector) * 10000) / 10000,
+      }] : [];
+    })
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Rank candidates by how close their resume is to a free-text query
+ */
+export async function searchCandidatesSemantic(query: string, limit: number = 20): Promise<CandidateSimilarity[]> {
+  const text = query.trim();
+  if (!text) {
+    throw new ValidationError("Search query is required");
+  }
+
+  const [queryVector] = await embedWithUsage(getEmbeddingProvider(), [text.slice(0, MAX_EMBEDDING_CHARS)]);
+  const candidates = await getSearchableCandidates();
+  const vectors = await getCandidateVectors(candidates);
+
+  return rankBySimilarity(queryVector, candidates, vectors, limit).filter(match => match.similarity > 0);
+}
+
+/**
+ * Candidates whose resumes are closest to the given candidate's resume
+ */
+export async function findSimilarCandidates(candidateId: string, limit: number = 5): Promise<CandidateSimilarity[]> {
+  const candidates = await getSearchableCandidates();
+  const candidate = candidates.find(c => c.id === candidateId);
+  if (!candidate) {
+    const exists = await storage.getCandidateById(candidateId);
+    if (!exists) throw new AppError("Candidate not found", 404);
+    return []; // No resume text to compare
+  }
+
+  const vectors = await getCandidateVectors(candidates);
+  const others = candidates.filter(c => c.id !== candidateId);
+  return rankBySimilarity(vectors.get(candidateId)!, others, vectors, limit);
+}
+
+/**
+ * Rank all candidates against a job description by vector similarity, a cheap
+ * first pass before scoring the best matches with the LLM
+ */
+export async function rankCandidatesForJob(jobDescriptionId: string, limit?: number): Promise<CandidateSimilarity[]> {
+  const jobDescription = await storage.getJobDescriptionById(jobDescriptionId);
+  if (!jobDescription) {
+    throw new AppError("Job description not found", 404);
+  }
+
+  const jobVectors = await getEntityVectors(EMBEDDING_ENTITY_TYPES.JOB_DESCRIPTION, [
+    { id: jobDescription.id, text: jobDescriptionEmbeddingText(jobDescription) },
+  ]);
+  const candidates = await getSearchableCandidates();
+  const vectors = await getCandidateVectors(candidates);
+
+  return rankBySimilarity(jobVectors.get(jobDescription.id)!, candidates, vectors, limit ?? candidates.length);
+}
+
+/**
+ * Embedding similarity of each candidate to each job, keyed by candidate then
+ * job id. Candidates without resume text are left out.
+ */
+export async function getCandidateJobSimilarities(
+  jobDescriptions: JobDescription[],
+  candidateIds?: string[]
+): Promise<Map<string, Map<string, number>>> {
+  const similarities = new Map<string, Map<string, number>>();
+  if (jobDescriptions.length === 0) return similarities;
+
+  const jobVectors = await getEntityVectors(EMBEDDING_ENTITY_TYPES.JOB_DESCRIPTION, jobDescriptions.map(jobDescription => ({
+    id: jobDescription.id,
+    text: jobDescriptionEmbeddingText(jobDescription),
+  })));
+  let candidates = await getSearchableCandidates();
+  if (candidateIds) {
+    const ids = new Set(candidateIds);
+    candidates = candidates.filter(candidate => ids.has(candidate.id));
+  }
+  const vectors = await getCandidateVectors(candidates);
+
+  for (const candidate of candidates) {
+    const vector = vectors.get(candidate.id);
+    if (!vector) continue;
+    const byJob = new Map<string, number>();
+    for (const jobDescription of jobDescriptions) {
+      byJob.set(jobDescription.id, Math.round(cosineSimilarity(jobVectors.get(jobDescription.id)!, vector) * 10000) / 10000);
+    }
+    similarities.set(candidate.id, byJob);
+  }
+  return similarities;
+}
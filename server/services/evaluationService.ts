@@ -0,0 +1,268 @@
+import { storage } from "../storage";
+import { logger } from "./logger";
+import { ValidationError } from "./errorHandler";
+import { getJobProfileById, getJobProfilesForPositions, type JobProfile } from "./jobProfileService";
+import { scoreCandidateHeuristically } from "./heuristicScorer";
+import { getSkillTaxonomy } from "./skillTaxonomyService";
+import { computeRubricScore, indexCriterionScores } from "./rubricService";
+import { hasScoreOverrides } from "./scoreAdjustmentService";
+import { LLMResponseValidationError } from "./llmProvider";
+import { completeWithCache, type AnalysisOptions } from "./analysisCache";
+import { evaluationResponseSchema } from "./llmSchemas";
+import { LLMBudgetExceededError } from "./llmUsageService";
+import { buildPrompt, evaluationVariables } from "./promptTemplateService";
+import { SCORING_METHODS, type ScoringMethod, type UiLanguage } from "@shared/constants";
+import { JobCancelledError, type JobContext } from "./jobQueue";
+import type { BackgroundJobProgress, Candidate, CriterionScore, EvaluationRunWithResults } from "@shared/schema";
+
+export interface EvaluationRequest {
+  position?: string | null;
+  jobDescriptionId?: string | null;
+  createdBy?: string | null;
+  forceRefresh?: boolean;
+  outputLanguage?: UiLanguage;
+}
+
+export interface EvaluationTargets {
+  candidates: Candidate[];
+  selectedJob: JobProfile | null;
+  profilesByPosition: Map<string, JobProfile> | null;
+}
+
+export interface EvaluationResult {
+  candidateId: string;
+  candidateName: string;
+  position: string;
+  fitScore: number;
+  matchingSkills: string[];
+  missingSkills: string[];
+  experienceMatch: number;
+  educationMatch: number;
+  overallRecommendation: string;
+  scoringMethod: ScoringMethod;
+  criteriaScores?: CriterionScore[] | null;
+  scoreOverridden?: boolean; // Scored from an assessment with recruiter overrides
+  ranking: number;
+  rawResponses?: string[] | null;
+  promptTemplateId?: string | null;
+  promptVersion?: number | null;
+}
+
+export async function evaluateCandidate(
+  candidate: any,
+  assessment: any,
+  jobDesc: JobProfile,
+  options: AnalysisOptions = {}
+): Promise<EvaluationResult> {
+  // If we have real assessment data, use it for more accurate evaluation
+  if (assessment && assessment.status === 'completed') {
+    const prompt = await buildPrompt("evaluation", evaluationVariables(candidate, assessment, jobDesc, options.outputLanguage));
+
+    const { data: evaluation, rawResponses } = await completeWithCache({
+      task: "evaluation",
+      messages: prompt.messages,
+      responseFormat: "json",
+      temperature: 0.3, // Lower temperature for more consistent results
+      context: { candidateId: candidate.id, jobDescriptionId: jobDesc.id },
+    }, evaluationResponseSchema, prompt, options);
+    
+    // The fit score is the rubric's weighted mean; criteria the model did not
+    // score (e.g. with a custom template predating rubrics) take its overall fit score
+    const rubricScore = computeRubricScore(
+      jobDesc.rubric,
+      indexCriterionScores(jobDesc.rubric, evaluation.criteriaScores),
+      evaluation.fitScore
+    );
+    
+    return {
+      candidateId: candidate.id,
+      candidateName: candidate.fullName,
+      position: candidate.position,
+      fitScore: rubricScore.overallScore,
+      matchingSkills: evaluation.matchingSkills,
+      missingSkills: evaluation.missingSkills,
+      experienceMatch: Math.round(evaluation.experienceMatch),
+      educationMatch: Math.round(evaluation.educationMatch),
+      overallRecommendation: evaluation.overallRecommendation,
+      scoringMethod: SCORING_METHODS.AI,
+      criteriaScores: rubricScore.criteriaScores,
+      scoreOverridden: hasScoreOverrides(assessment),
+      ranking: 0, // Will be set after sorting
+      rawResponses,
+      promptTemplateId: prompt.templateId,
+      promptVersion: prompt.version
+    };
+  } else {
+    // Fallback for candidates without completed assessments
+    logger.warn(`No completed assessment found for candidate ${candidate.id}, using heuristic evaluation`);
+    
+    const heuristic = scoreCandidateHeuristically(candidate, jobDesc, await getSkillTaxonomy());
+    
+    return {
+      candidateId: candidate.id,
+      candidateName: candidate.fullName,
+      position: candidate.position,
+      fitScore: heuristic.fitScore,
+      matchingSkills: heuristic.matchingSkills,
+      missingSkills: heuristic.missingSkills,
+      experienceMatch: heuristic.experienceMatch,
+      educationMatch: heuristic.educationMatch,
+      overallRecommendation: heuristic.overallRecommendation,
+      scoringMethod: SCORING_METHODS.HEURISTIC,
+      criteriaScores: heuristic.criteriaScores,
+      ranking: 0
+    };
+  }
+}
+
+/**
+ * Resolve the candidates to evaluate and the job each one is scored against:
+ * an explicitly selected job description, otherwise the stored job description
+ * for each candidate's position.
+ */
+export async function resolveEvaluationTargets(request: EvaluationRequest): Promise<EvaluationTargets> {
+  const { position, jobDescriptionId } = request;
+
+  const allCandidates = await storage.getCandidates();
+  const candidates = position && position !== "all"
+    ? allCandidates.filter(c => c.position === position)
+    : allCandidates;
+
+  if (candidates.length === 0) {
+    logger.warn("No candidates found for evaluation", { position });
+    throw new ValidationError("No candidates found for evaluation");
+  }
+
+  const selectedJob = jobDescriptionId ? await getJobProfileById(jobDescriptionId) : null;
+  const profilesByPosition = selectedJob
+    ? null
+    : await getJobProfilesForPositions(candidates.map(c => c.position));
+
+  return { candidates, selectedJob, profilesByPosition };
+}
+
+/**
+ * Evaluate and rank candidates, then persist the results as a new evaluation run.
+ * When run from the job queue, per-candidate progress is streamed through the
+ * job context and the run stops without saving if it is cancelled.
+ */
+export async function executeEvaluationRun(request: EvaluationRequest, context?: JobContext): Promise<EvaluationRunWithResults> {
+  const { position, jobDescriptionId } = request;
+  const { candidates: targetCandidates, selectedJob, profilesByPosition } = await resolveEvaluationTargets(request);
+
+  if (selectedJob) {
+    logger.info("Using job description for evaluation", { 
+      jobDescriptionId, 
+      jobTitle: selectedJob.title 
+    });
+  }
+
+  // Get assessments for candidates
+  const assessments = await storage.getAssessments();
+  
+  logger.info("Processing evaluation for candidates", { 
+    candidateCount: targetCandidates.length,
+    hasJobDescription: !!selectedJob 
+  });
+
+  const evaluationResults: EvaluationResult[] = [];
+  const progress: BackgroundJobProgress = {
+    total: targetCandidates.length,
+    queued: targetCandidates.length,
+    running: 0,
+    completed: 0,
+    failed: 0,
+    dead: 0,
+    cancelled: 0,
+  };
+  await context?.reportProgress(progress);
+
+  for (const candidate of targetCandidates) {
+    if (context && await context.isCancelled()) {
+      logger.info("Evaluation run cancelled", { evaluated: evaluationResults.length, total: targetCandidates.length });
+      throw new JobCancelledError();
+    }
+
+    const item = { itemId: candidate.id, candidateId: candidate.id, candidateName: candidate.fullName };
+    context?.reportItem({ ...item, status: 'started' });
+
+    try {
+      const candidateAssessment = assessments.find(a => a.candidateId === candidate.id);
+      const jobProfile = selectedJob ?? profilesByPosition!.get(candidate.position)!;
+      
+      const evaluationResult = await evaluateCandidate(candidate, candidateAssessment, jobProfile, {
+        forceRefresh: request.forceRefresh,
+        outputLanguage: request.outputLanguage,
+      });
+      
+      evaluationResults.push(evaluationResult);
+      progress.completed++;
+      context?.reportItem({ ...item, status: 'completed', score: evaluationResult.fitScore });
+      
+    } catch (error) {
+      // Without budget no other candidate can be scored either; fail the run
+      if (error instanceof LLMBudgetExceededError) throw error;
+
+      logger.error(`Failed to evaluate candidate ${candidate.id}`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      progress.dead++;
+      context?.reportItem({
+        ...item,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      // Add a failed evaluation result
+      evaluationResults.push({
+        candidateId: candidate.id,
+        candidateName: candidate.fullName,
+        position: candidate.position,
+        fitScore: 0,
+        matchingSkills: [],
+        missingSkills: [],
+        experienceMatch: 0,
+        educationMatch: 0,
+        overallRecommendation: error instanceof LLMResponseValidationError
+          ? "Evaluation failed: the AI response could not be validated"
+          : "Evaluation failed due to technical error",
+        scoringMethod: SCORING_METHODS.AI,
+        ranking: 0,
+        rawResponses: error instanceof LLMResponseValidationError ? error.rawResponses : null
+      });
+    }
+
+    progress.queued--;
+    await context?.reportProgress(progress);
+  }
+
+  // Sort by fit score and assign rankings
+  evaluationResults.sort((a: EvaluationResult, b: EvaluationResult) => b.fitScore - a.fitScore);
+  evaluationResults.forEach((evaluation: EvaluationResult, index: number) => {
+    evaluation.ranking = index + 1;
+  });
+
+  const averageFitScore = evaluationResults.length > 0 
+    ? Math.round(evaluationResults.reduce((sum, e) => sum + e.fitScore, 0) / evaluationResults.length)
+    : 0;
+
+  // Persist the run so rankings survive restarts and are shared across instances
+  const run = await storage.createEvaluationRun(
+    {
+      jobDescriptionId: selectedJob?.id ?? null,
+      jobTitle: selectedJob?.title ?? null,
+      position: position && position !== "all" ? position : null,
+      candidateCount: evaluationResults.length,
+      averageFitScore,
+      createdBy: request.createdBy ?? null,
+    },
+    evaluationResults
+  );
+  
+  logger.info("Evaluation completed successfully", { 
+    runId: run.id,
+    candidateCount: evaluationResults.length,
+    averageFitScore
+  });
+
+  return run;
+}
@@ -0,0 +1,86 @@
+import type { ScoreEvidence } from "@shared/schema";
+
+export interface CitedEvidence {
+  score: string;
+  requirement: string;
+  status: 'met' | 'missing';
+  quote?: string | null;
+}
+
+/**
+ * Collapse whitespace runs to a single space, keeping for every character of
+ * the result its offset in the original text
+ */
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let inSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (!inSpace && normalized.length > 0) {
+        normalized += ' ';
+        offsets.push(i);
+      }
+      inSpace = true;
+    } else {
+      normalized += text[i].toLowerCase();
+      offsets.push(i);
+      inSpace = false;
+    }
+  }
+
+  return { normalized, offsets };
+}
+
+/**
+ * Find a quote in the resume text. Models often change line breaks or case
+ * when quoting extracted PDF text, so an exact match is tried first, then a
+ * case-insensitive one, then one that ignores whitespace differences.
+ */
+export function findQuoteOffsets(
+  text: string,
+  quote: string,
+  normalizedText = normalizeWithOffsets(text)
+): { start: number; end: number } | null {
+  const trimmed = quote.trim().replace(/^["'“”…]+|["'“”…]+$/g, '').trim();
+  if (!trimmed) return null;
+
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+  const insensitive = text.toLowerCase().indexOf(trimmed.toLowerCase());
+  if (insensitive !== -1) return { start: insensitive, end: insensitive + trimmed.length };
+
+  const needle = normalizeWithOffsets(trimmed).normalized;
+  const index = normalizedText.normalized.indexOf(needle);
+  if (index === -1 || !needle) return null;
+
+  return {
+    start: normalizedText.offsets[index],
+    end: normalizedText.offsets[index + needle.length - 1] + 1,
+  };
+}
+
+/**
+ * Attach character offsets into the resume text to the evidence cited by the
+ * model. Quotes that do not appear in the resume keep null offsets so the
+ * requirement is still listed but nothing is highlighted.
+ */
+export function locateEvidence(resumeText: string, evidence: CitedEvidence[]): ScoreEvidence[] {
+  const normalizedText = normalizeWithOffsets(resumeText);
+
+  return evidence.map(item => {
+    const quote = item.quote?.trim() || null;
+    const offsets = quote ? findQuoteOffsets(resumeText, quote, normalizedText) : null;
+
+    return {
+      score: item.score,
+      requirement: item.requirement,
+      status: item.status,
+      quote: offsets ? resumeText.slice(offsets.start, offsets.end) : quote,
+      start: offsets?.start ?? null,
+      end: offsets?.end ?? null,
+    };
+  });
+}
@@ -3,6 +3,9 @@ import path from "path";
 import multer from "multer";
 import { logger } from "./logger";
 import { ValidationService } from "./validationService";
+import { extractDocumentText } from "./documentExtractor";
+import type { DocumentExtractionResult } from "../interfaces/services";
+import { FILE_UPLOAD } from "@shared/constants";
 
 const UPLOAD_DIR = path.join(process.cwd(), "uploads");
 
@@ -38,7 +41,7 @@ export class FileService {
       storage,
       fileFilter: (req, file, cb) => {
         try {
-          ValidationService.validateFileUpload(file, ["application/pdf"]);
+          ValidationService.validateFileUpload(file, FILE_UPLOAD.ALLOWED_TYPES);
           cb(null, true);
         } catch (error) {
           cb(error as Error, false);
@@ -51,38 +54,11 @@ export class FileService {
   }
 
   /**
-   * Extract text from PDF file
+   * Extract text from a PDF, DOCX, ODT, RTF or TXT resume
    */
-  static async extractPdfText(filePath: string): Promise<string> {
-    try {
-      logger.debug("Extracting text from PDF", { filePath });
-
-      const fileBuffer = await fs.readFile(filePath);
-      // Dynamic import to avoid ENOENT test file issues with pdf-parse
-      // @ts-ignore - Dynamic import to avoid pdf-parse test file issues
-      const pdfParse = await import("pdf-parse");
-      const pdfData = await pdfParse.default(fileBuffer);
-
-      const extractedText = pdfData.text.trim();
-
-      if (!extractedText || extractedText.length < 50) {
-        logger.warn("PDF text extraction resulted in minimal content", {
-          filePath,
-          textLength: extractedText.length,
-        });
-        return "PDF content could not be extracted or is minimal.";
-      }
-
-      logger.debug("PDF text extracted successfully", {
-        filePath,
-        textLength: extractedText.length,
-      });
-
-      return extractedText;
-    } catch (error) {
-      logger.error("Failed to extract PDF text", { filePath, error });
-      throw new Error("Failed to extract text from PDF file");
-    }
+  static async extractText(filePath: string): Promise<DocumentExtractionResult> {
+    logger.debug("Extracting resume text", { filePath });
+    return extractDocumentText(filePath);
   }
 
   /**
@@ -1,6 +1,10 @@
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import type { Request, Response, NextFunction } from 'express';
+import { AppError } from './errorHandler';
+import { isAllowedResumeFile, verifyDocumentType, UNSUPPORTED_FILE_MESSAGE } from './documentExtractor';
+import { HTTP_STATUS } from '@shared/constants';
 
 // Create uploads directory if it doesn't exist
 const uploadsDir = path.join(process.cwd(), 'uploads');
@@ -20,12 +24,12 @@ const storage = multer.diskStorage({
   }
 });
 
-// File filter to only allow PDFs
+// File filter for the accepted resume formats; the content itself is checked after upload
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  if (file.mimetype === 'application/pdf') {
+  if (isAllowedResumeFile(file)) {
     cb(null, true);
   } else {
-    cb(new Error('Only PDF files are allowed'));
+    cb(new AppError(UNSUPPORTED_FILE_MESSAGE, HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE));
   }
 };
 
@@ -50,3 +54,16 @@ export async function deleteFile(filePath: string): Promise<void> {
     console.error('Error deleting file:', error);
   }
 }
+
+// Reject uploads whose magic bytes do not match their extension and remove the stored file
+export async function verifyUploadedFile(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!req.file) return next();
+
+  try {
+    await verifyDocumentType(req.file.path, req.file.originalname);
+    next();
+  } catch (error) {
+    await deleteFile(req.file.path);
+    next(error);
+  }
+}
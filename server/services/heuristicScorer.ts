@@ -0,0 +1,265 @@
+import type { JobProfile } from './jobProfileService';
+import { DEFAULT_SKILL_TAXONOMY, type SkillTaxonomy } from './skillTaxonomy';
+import { computeRubricScore } from './rubricService';
+import { RUBRIC_SIGNALS } from '@shared/constants';
+import type { CriterionScore } from '@shared/schema';
+
+// Local, rule-based scoring used when no AI assessment is available.
+// Every function here is pure so identical input always yields identical output.
+
+export interface HeuristicCandidate {
+  fullName: string;
+  resumeSummary: string | null;
+  appliedAt?: Date | string | null;
+}
+
+export interface HeuristicScore {
+  fitScore: number;
+  skillMatch: number;
+  keywordMatch: number;
+  experienceMatch: number;
+  educationMatch: number;
+  matchingSkills: string[];
+  missingSkills: string[];
+  estimatedYears: number;
+  requiredYears: number;
+  educationLevel: string;
+  criteriaScores: CriterionScore[];
+  overallRecommendation: string;
+}
+
+const STOP_WORDS = new Set([
+  'and', 'the', 'with', 'for', 'from', 'that', 'this', 'have', 'has', 'are', 'will', 'years',
+  'year', 'experience', 'knowledge', 'ability', 'strong', 'good', 'excellent', 'skills',
+  'proficiency', 'proficient', 'least', 'plus', 'preferred', 'required', 'must', 'should',
+  'including', 'such', 'other', 'work', 'working', 'understanding', 'familiarity', 'team',
+]);
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+const EDUCATION_LEVELS: Array<{ label: string; score: number; pattern: RegExp }> = [
+  { label: 'Doctorate', score: 100, pattern: /\b(ph\.?\s?d|doctorate|doctoral)\b/ },
+  { label: "Master's", score: 85, pattern: /\b(master'?s?|m\.?sc|m\.?eng|mba|m\.?a\.)\b/ },
+  { label: "Bachelor's", score: 70, pattern: /\b(bachelor'?s?|b\.?sc|b\.?eng|b\.?tech|b\.?a\.|b\.?s\.|undergraduate degree)\b/ },
+  { label: 'Diploma', score: 50, pattern: /\b(diploma|associate degree|associate'?s)\b/ },
+  { label: 'Certification', score: 40, pattern: /\b(certified|certification|certificate)\b/ },
+];
+
+const LEVEL_YEARS: Array<{ pattern: RegExp; years: number }> = [
+  { pattern: /\b(intern|entry|junior|graduate)\b/, years: 1 },
+  { pattern: /\b(mid|intermediate)\b/, years: 3 },
+  { pattern: /\b(senior|sr)\b/, years: 5 },
+  { pattern: /\b(lead|principal|staff|head)\b/, years: 7 },
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsTerm(text: string, term: string): boolean {
+  const pattern = new RegExp(`(?<![a-z0-9])${escapeRegExp(term.toLowerCase())}(?![a-z0-9])`);
+  return pattern.test(text);
+}
+
+/**
+ * Split skills by whether the resume mentions them under their canonical name,
+ * an alias or a narrower skill from the taxonomy
+ */
+export function matchSkills(
+  resumeText: string,
+  skills: string[],
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY
+): { matching: string[]; missing: string[] } {
+  const text = resumeText.toLowerCase();
+  const matching: string[] = [];
+  const missing: string[] = [];
+
+  for (const skill of skills) {
+    if (taxonomy.variants(skill).some(variant => containsTerm(text, variant))) {
+      matching.push(skill);
+    } else {
+      missing.push(skill);
+    }
+  }
+
+  return { matching, missing };
+}
+
+function extractKeywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z][a-z0-9+#.]{3,}/g) || [];
+  return Array.from(new Set(
+    words
+      .map(word => word.replace(/\.+$/, ''))
+      .filter(word => word.length >= 4 && !STOP_WORDS.has(word))
+  )).sort();
+}
+
+function monthIndex(monthName: string | undefined, numericMonth: string | undefined, fallback: number): number {
+  if (numericMonth) {
+    const month = parseInt(numericMonth, 10) - 1;
+    if (month >= 0 && month <= 11) return month;
+  }
+  if (monthName) {
+    const month = MONTHS[monthName.slice(0, 3).toLowerCase()];
+    if (month !== undefined) return month;
+  }
+  return fallback;
+}
+
+function referenceMonth(resumeText: string, appliedAt?: Date | string | null): number {
+  if (appliedAt) {
+    const date = new Date(appliedAt);
+    if (!isNaN(date.getTime())) return date.getUTCFullYear() * 12 + date.getUTCMonth();
+  }
+  // Without an application date, "present" means the latest year mentioned
+  const years = (resumeText.match(/\b(19|20)\d{2}\b/g) || []).map(Number);
+  return years.length > 0 ? Math.max(...years) * 12 + 11 : 0;
+}
+
+/**
+ * Estimate total years of experience from date ranges such as
+ * "Jan 2019 - Present", "03/2017 – 06/2020" or "2015 to 2018".
+ * Overlapping ranges are merged so concurrent roles are not double counted.
+ */
+export function estimateYearsOfExperience(resumeText: string, appliedAt?: Date | string | null): number {
+  const month = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?\\s+';
+  const point = `(?:${month})?(?:(\\d{1,2})\\/)?((?:19|20)\\d{2})`;
+  const rangePattern = new RegExp(
+    `${point}\\s*(?:-|–|—|to|until)\\s*(?:${point}|(present|current|now|today|date))`,
+    'gi'
+  );
+
+  const now = referenceMonth(resumeText, appliedAt);
+  const intervals: Array<[number, number]> = [];
+
+  for (const match of Array.from(resumeText.matchAll(rangePattern))) {
+    const start = parseInt(match[3], 10) * 12 + monthIndex(match[1], match[2], 0);
+    const end = match[7]
+      ? now
+      : parseInt(match[6], 10) * 12 + monthIndex(match[4], match[5], 0);
+
+    if (end > start && end - start < 50 * 12) {
+      intervals.push([start, end]);
+    }
+  }
+
+  intervals.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let totalMonths = 0;
+  let current: [number, number] | null = null;
+  for (const interval of intervals) {
+    if (current && interval[0] <= current[1]) {
+      current[1] = Math.max(current[1], interval[1]);
+    } else {
+      if (current) totalMonths += current[1] - current[0];
+      current = [interval[0], interval[1]];
+    }
+  }
+  if (current) totalMonths += current[1] - current[0];
+
+  // Explicit statements like "7+ years of experience" take precedence when larger
+  const stated = Array.from(resumeText.matchAll(/(\d{1,2})\+?\s*(?:years?|yrs?)\s+(?:of\s+)?(?:professional\s+|work\s+|industry\s+)?experience/gi))
+    .map(match => parseInt(match[1], 10));
+
+  const years = Math.max(totalMonths / 12, ...stated, 0);
+  return Math.round(Math.min(years, 40) * 10) / 10;
+}
+
+export function requiredYearsOfExperience(job: JobProfile): number {
+  const text = `${job.requirements}\n${job.description}`;
+  const stated = Array.from(text.matchAll(/(\d{1,2})\+?\s*(?:-\s*\d{1,2}\s*)?(?:years?|yrs?)/gi))
+    .map(match => parseInt(match[1], 10));
+
+  if (stated.length > 0) return Math.max(...stated);
+
+  const level = job.experienceLevel.toLowerCase();
+  return LEVEL_YEARS.find(entry => entry.pattern.test(level))?.years ?? 2;
+}
+
+export function detectEducationLevel(resumeText: string): { label: string; score: number } {
+  const text = resumeText.toLowerCase();
+  const level = EDUCATION_LEVELS.find(entry => entry.pattern.test(text));
+  return level ? { label: level.label, score: level.score } : { label: 'Not specified', score: 20 };
+}
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+/**
+ * Score a candidate against a job profile using keyword and skill-synonym
+ * matching, experience estimated from date ranges and education keywords.
+ * Each rubric criterion is scored from its signal and the fit score is the
+ * rubric's weighted mean.
+ */
+export function scoreCandidateHeuristically(
+  candidate: HeuristicCandidate,
+  job: JobProfile,
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY
+): HeuristicScore {
+  const resumeText = candidate.resumeSummary || '';
+
+  const { matching, missing } = matchSkills(resumeText, job.skills, taxonomy);
+  const skillMatch = job.skills.length > 0 ? (matching.length / job.skills.length) * 100 : 0;
+
+  const keywords = extractKeywords(job.requirements);
+  const resumeLower = resumeText.toLowerCase();
+  const keywordHits = keywords.filter(keyword =>
+    taxonomy.variants(keyword).some(variant => containsTerm(resumeLower, variant))
+  ).length;
+  const keywordMatch = keywords.length > 0 ? (keywordHits / keywords.length) * 100 : skillMatch;
+
+  const estimatedYears = estimateYearsOfExperience(resumeText, candidate.appliedAt);
+  const requiredYears = requiredYearsOfExperience(job);
+  const experienceMatch = requiredYears > 0
+    ? (estimatedYears / requiredYears) * 100
+    : (estimatedYears > 0 ? 100 : 50);
+
+  const education = resumeText ? detectEducationLevel(resumeText) : { label: 'Not specified', score: 0 };
+
+  const signalScores = {
+    [RUBRIC_SIGNALS.SKILLS]: job.skills.length > 0 ? skillMatch * 0.75 + keywordMatch * 0.25 : keywordMatch,
+    [RUBRIC_SIGNALS.EXPERIENCE]: Math.min(experienceMatch, 100),
+    [RUBRIC_SIGNALS.EDUCATION]: education.score,
+  };
+  const scores: Record<string, { score: number }> = {};
+  for (const criterion of job.rubric) {
+    if (criterion.signal === RUBRIC_SIGNALS.KEYWORDS) {
+      const criterionKeywords = extractKeywords(`${criterion.name} ${criterion.description}`);
+      const hits = criterionKeywords.filter(keyword =>
+        taxonomy.variants(keyword).some(variant => containsTerm(resumeLower, variant))
+      ).length;
+      scores[criterion.id] = { score: criterionKeywords.length > 0 ? (hits / criterionKeywords.length) * 100 : keywordMatch };
+    } else {
+      scores[criterion.id] = { score: signalScores[criterion.signal] };
+    }
+  }
+  const rubricScore = computeRubricScore(job.rubric, scores);
+  const fitScore = clampScore(rubricScore.overallScore);
+
+  const overallRecommendation = resumeText
+    ? `Heuristic estimate (no completed AI assessment): ${candidate.fullName} matches ${matching.length} of ${job.skills.length} required skills` +
+      `${missing.length > 0 ? ` (missing: ${missing.slice(0, 5).join(', ')})` : ''}, ` +
+      `shows about ${estimatedYears} years of experience against ${requiredYears} required, ` +
+      `education: ${education.label}.` +
+      `${rubricScore.failedMustHaves.length > 0 ? ` Must-have criteria not met: ${rubricScore.failedMustHaves.join(', ')}.` : ''}` +
+      ' Run an AI assessment for a more accurate evaluation.'
+    : `Heuristic estimate: no resume text is available for ${candidate.fullName}. Manual review required.`;
+
+  return {
+    fitScore,
+    skillMatch: clampScore(skillMatch),
+    keywordMatch: clampScore(keywordMatch),
+    experienceMatch: clampScore(experienceMatch),
+    educationMatch: clampScore(education.score),
+    matchingSkills: matching,
+    missingSkills: missing,
+    estimatedYears,
+    requiredYears,
+    educationLevel: education.label,
+    criteriaScores: rubricScore.criteriaScores,
+    overallRecommendation,
+  };
+}
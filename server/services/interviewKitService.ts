@@ -0,0 +1,277 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import { logger } from "./logger";
+import { AppError, ValidationError } from "./errorHandler";
+import { completeWithCache } from "./analysisCache";
+import { interviewKitResponseSchema } from "./llmSchemas";
+import { buildPrompt, interviewKitVariables } from "./promptTemplateService";
+import { getSkillTaxonomy } from "./skillTaxonomyService";
+import { resolveOutputLanguage } from "./languageService";
+import { PdfWriter } from "./pdfWriter";
+import { UI_LANGUAGES, type UiLanguage } from "@shared/constants";
+import type { Candidate, Interview, InterviewKit, JobDescription } from "@shared/schema";
+
+// More gaps than this make the kit a checklist of missing skills rather than an interview
+const MAX_GAPS = 10;
+
+export const interviewKitGenerationSchema = z.object({
+  jobDescriptionId: z.string().optional(), // defaults to the active job for the candidate's position
+  forceRefresh: z.boolean().optional().default(false),
+});
+
+export const interviewKitValidationSchema = z.object({
+  summary: z.string().trim().max(2000).default(""),
+  sections: z.array(z.object({
+    competency: z.string().trim().min(1, "Every competency needs a name").max(200),
+    questions: z.array(z.object({
+      question: z.string().trim().min(1, "Every question needs text").max(2000),
+      goodAnswer: z.string().trim().max(4000).default(""),
+      targetsGap: z.string().trim().max(200).nullish().transform(gap => gap || null),
+      followUps: z.array(z.string().trim().min(1).max(1000)).default([]),
+    })),
+  })),
+});
+
+export type InterviewKitGenerationRequest = z.infer<typeof interviewKitGenerationSchema>;
+export type InterviewKitInput = z.infer<typeof interviewKitValidationSchema>;
+
+async function getInterviewOrThrow(interviewId: string): Promise<Interview> {
+  const interview = await storage.getInterviewById(interviewId);
+  if (!interview) {
+    throw new AppError("Interview not found", 404);
+  }
+  return interview;
+}
+
+async function resolveKitJob(candidate: Candidate, jobDescriptionId?: string | null): Promise<JobDescription | null> {
+  if (!jobDescriptionId) {
+    return (await storage.getJobDescriptionByPosition(candidate.position)) ?? null;
+  }
+  const jobDescription = await storage.getJobDescriptionById(jobDescriptionId);
+  if (!jobDescription) {
+    throw new AppError("Job description not found", 404);
+  }
+  return jobDescription;
+}
+
+/**
+ * What the candidate is missing for the job: the latest evaluation's missing
+ * skills first, then requirements the fit score and assessment found no
+ * resume evidence for
+ */
+export async function collectInterviewGaps(candidateId: string, jobDescriptionId: string | null): Promise<string[]> {
+  const [jobEvaluation, anyEvaluation, fitScore, assessment] = await Promise.all([
+    jobDescriptionId ? storage.getLatestEvaluationResult(candidateId, jobDescriptionId) : undefined,
+    storage.getLatestEvaluationResult(candidateId),
+    jobDescriptionId ? storage.getJobFitScoreByCandidate(candidateId, jobDescriptionId) : undefined,
+    storage.getAssessmentByCandidateId(candidateId),
+  ]);
+
+  const sources = [
+    ...((jobEvaluation ?? anyEvaluation)?.missingSkills ?? []),
+    ...(fitScore?.evidence ?? []).filter(item => item.status === "missing").map(item => item.requirement),
+    ...(assessment?.evidence ?? []).filter(item => item.status === "missing").map(item => item.requirement),
+  ];
+
+  const seen = new Set<string>();
+  const gaps: string[] = [];
+  for (const gap of sources.map(gap => gap.trim()).filter(Boolean)) {
+    const key = gap.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      gaps.push(gap);
+    }
+  }
+  return gaps.slice(0, MAX_GAPS);
+}
+
+/**
+ * Generate the interview kit from the candidate's resume, current assessment
+ * and the job, and store it on the interview. Replaces any earlier kit,
+ * including interviewer edits.
+ */
+export async function generateInterviewKit(
+  interviewId: string,
+  request: InterviewKitGenerationRequest,
+  options: { outputLanguage?: UiLanguage } = {}
+): Promise<Interview> {
+  const interview = await getInterviewOrThrow(interviewId);
+  const candidate = await storage.getCandidateById(interview.candidateId);
+  if (!candidate) {
+    throw new AppError("Candidate not found", 404);
+  }
+  if (!candidate.resumeSummary) {
+    throw new ValidationError("An interview kit needs the candidate's resume text");
+  }
+
+  const jobDescription = await resolveKitJob(candidate, request.jobDescriptionId);
+  const [profile, assessment, gaps, taxonomy] = await Promise.all([
+    storage.getCandidateProfile(candidate.id),
+    storage.getAssessmentByCandidateId(candidate.id),
+    collectInterviewGaps(candidate.id, jobDescription?.id ?? null),
+    getSkillTaxonomy(),
+  ]);
+
+  const prompt = await buildPrompt(
+    "interview_kit",
+    interviewKitVariables({ ...candidate, profile }, jobDescription, assessment, gaps, interview.interviewType, options.outputLanguage, taxonomy)
+  );
+
+  const { data: result, cached } = await completeWithCache({
+    task: "interview_kit",
+    messages: prompt.messages,
+    responseFormat: "json",
+    temperature: 0.4,
+    context: { candidateId: candidate.id, jobDescriptionId: jobDescription?.id ?? null },
+  }, interviewKitResponseSchema, prompt, { forceRefresh: request.forceRefresh });
+
+  const kit: InterviewKit = {
+    summary: result.summary,
+    sections: result.sections.map(section => ({
+      competency: section.competency,
+      questions: section.questions.map(question => ({
+        question: question.question,
+        goodAnswer: question.goodAnswer,
+        targetsGap: question.targetsGap || null,
+        followUps: question.followUps,
+      })),
+    })),
+    gaps,
+    language: options.outputLanguage ?? UI_LANGUAGES.EN,
+    jobDescriptionId: jobDescription?.id ?? null,
+    generatedAt: new Date().toISOString(),
+    editedAt: null,
+    editedBy: null,
+    promptTemplateId: prompt.templateId,
+    promptVersion: prompt.version,
+  };
+
+  const updated = await storage.updateInterview(interviewId, { kit });
+  logger.info("Interview kit generated", {
+    interviewId,
+    candidateId: candidate.id,
+    jobDescriptionId: kit.jobDescriptionId,
+    sections: kit.sections.length,
+    gaps: gaps.length,
+    cached,
+  });
+  return updated;
+}
+
+/**
+ * Save interviewer edits to a generated kit
+ */
+export async function updateInterviewKit(interviewId: string, input: InterviewKitInput, editedBy: string | null): Promise<Interview> {
+  const interview = await getInterviewOrThrow(interviewId);
+  if (!interview.kit) {
+    throw new ValidationError("Generate an interview kit before editing it");
+  }
+
+  const kit: InterviewKit = {
+    ...interview.kit,
+    summary: input.summary,
+    sections: input.sections.filter(section => section.questions.length > 0),
+    editedAt: new Date().toISOString(),
+    editedBy,
+  };
+
+  const updated = await storage.updateInterview(interviewId, { kit });
+  logger.info("Interview kit edited", { interviewId, editedBy });
+  return updated;
+}
+
+// Fixed wording of the exported kit, in the language the kit was written in
+const KIT_DOCUMENT_LABELS: Record<UiLanguage, {
+  title: string;
+  gaps: string;
+  probes: string;
+  goodAnswer: string;
+  followUps: string;
+  notes: string;
+  rating: string;
+}> = {
+  en: {
+    title: "Interview kit",
+    gaps: "Gaps to probe",
+    probes: "Probes",
+    goodAnswer: "A strong answer",
+    followUps: "Follow-ups",
+    notes: "Notes",
+    rating: "Rating",
+  },
+  ar: {
+    title: "دليل المقابلة",
+    gaps: "فجوات يجب استكشافها",
+    probes: "يستكشف",
+    goodAnswer: "الإجابة القوية",
+    followUps: "أسئلة المتابعة",
+    notes: "ملاحظات",
+    rating: "التقييم",
+  },
+};
+
+/**
+ * The kit as a PDF for interviewers to print, with room for notes and a 1-5
+ * rating under every question
+ */
+export async function renderInterviewKitPdf(interviewId: string): Promise<{ pdf: Buffer; filename: string }> {
+  const interview = await getInterviewOrThrow(interviewId);
+  if (!interview.kit) {
+    throw new AppError("This interview has no kit yet", 404);
+  }
+  const candidate = await storage.getCandidateById(interview.candidateId);
+  if (!candidate) {
+    throw new AppError("Candidate not found", 404);
+  }
+  const jobDescription = interview.kit.jobDescriptionId
+    ? await storage.getJobDescriptionById(interview.kit.jobDescriptionId)
+    : undefined;
+
+  const { kit } = interview;
+  // Kits generated before the language was recorded were written in English
+  const language = resolveOutputLanguage(kit.language);
+  const labels = KIT_DOCUMENT_LABELS[language];
+  const position = jobDescription?.title || jobDescription?.position || candidate.position;
+  const scheduled = new Date(interview.scheduledDate);
+  const scheduledText = isNaN(scheduled.getTime())
+    ? interview.scheduledDate
+    : scheduled.toLocaleString(language === UI_LANGUAGES.AR ? "ar-EG" : "en-GB");
+
+  const writer = new PdfWriter(language, `${labels.title}: ${candidate.fullName}`);
+  writer.text(`${labels.title}: ${candidate.fullName}`, { size: 18, bold: true, gapAfter: 2 });
+  writer.text(`${position} · ${interview.interviewType} · ${scheduledText}`, { color: "#4b5563", gapAfter: 8 });
+  if (kit.summary) {
+    writer.text(kit.summary, { color: "#374151", gapAfter: 6 });
+  }
+  if (kit.gaps.length > 0) {
+    const separator = language === UI_LANGUAGES.AR ? "، " : ", ";
+    writer.text(`${labels.gaps}: ${kit.gaps.join(separator)}`, { color: "#92400e", gapAfter: 6 });
+  }
+
+  let number = 0;
+  for (const section of kit.sections) {
+    writer.gap(6);
+    writer.text(section.competency, { size: 13, bold: true });
+    writer.rule();
+    for (const question of section.questions) {
+      // Keep a question's heading with at least the start of its answer guide
+      writer.ensureSpace(60);
+      writer.text(`${++number}. ${question.question}`, { size: 11, bold: true, gapAfter: 2 });
+      if (question.targetsGap) {
+        writer.text(`${labels.probes}: ${question.targetsGap}`, { size: 9, color: "#92400e" });
+      }
+      if (question.goodAnswer) {
+        writer.text(`${labels.goodAnswer}: ${question.goodAnswer}`, { color: "#374151" });
+      }
+      for (const followUp of question.followUps) {
+        writer.text(`• ${followUp}`, { color: "#374151" });
+      }
+      writer.gap(4);
+      writer.box(labels.notes, 60);
+      writer.checkboxes(`${labels.rating}:`, ["1", "2", "3", "4", "5"]);
+      writer.gap(8);
+    }
+  }
+
+  return { pdf: await writer.end(), filename: `interview-kit-${interview.id}.pdf` };
+}
@@ -1,109 +1,314 @@
-import OpenAI from "openai";
-import type { Candidate, JobDescription } from "@shared/schema";
+import crypto from "crypto";
+import { z } from "zod";
+import type {
+  BackgroundJob,
+  Candidate,
+  CandidateProfile,
+  CandidateWithFitScore,
+  CriterionScore,
+  JobDescription,
+  JobFitScore,
+  ScoreEvidence,
+} from "@shared/schema";
+import { BACKGROUND_JOB_TYPES, type UiLanguage } from "@shared/constants";
+import { storage } from "../storage";
+import { completeWithCache, type AnalysisOptions } from "./analysisCache";
+import { jobFitResponseSchema } from "./llmSchemas";
+import { buildPrompt, jobFitVariables } from "./promptTemplateService";
+import { locateEvidence } from "./evidenceService";
+import { getSkillTaxonomy } from "./skillTaxonomyService";
+import { computeRubricScore, indexCriterionScores, resolveRubric } from "./rubricService";
+import { AppError, ValidationError } from "./errorHandler";
+import { enqueueBatch } from "./jobQueue";
+import { assertWithinLLMBudget } from "./llmUsageService";
+import { logger } from "./logger";
 
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY 
+// Shorter extracted text means the resume could not be read; assessments flag these for manual review
+const MIN_RESUME_LENGTH = 50;
+
+// Which candidates a batch scores against the job; no filter scores everyone
+export const jobFitBatchValidationSchema = z.object({
+  candidateIds: z.array(z.string()).optional(),
+  position: z.string().optional(),
+  status: z.string().optional(),
+  search: z.string().optional(),
+  onlyUnscored: z.boolean().optional().default(false),
+  onlyStale: z.boolean().optional().default(false),
+  forceRefresh: z.boolean().optional().default(false),
 });
 
+export type JobFitBatchRequest = z.infer<typeof jobFitBatchValidationSchema>;
+
+export type CandidateWithFitScoreStatus = CandidateWithFitScore & {
+  isStale: boolean; // scored from a job description or resume that has since changed
+};
+
+export type RankedJobFitScore = CandidateWithFitScoreStatus & {
+  ranking: number;
+};
+
 export interface JobFitAnalysis {
-  fitScore: number; // 0-100
+  fitScore: number; // 0-100, weighted mean of criteriaScores
   skillMatch: number; // 0-100
   experienceAlignment: number; // 0-100
   languageMatch: number; // 0-100
   analysis: string;
+  evidence: ScoreEvidence[];
+  criteriaScores: CriterionScore[];
+  rawResponses?: string[];
+  promptTemplateId?: string;
+  promptVersion?: number;
+  cached?: boolean;
+}
+
+function contentHash(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+// Only the job fields the fit prompt reads; editing the salary or location keeps scores current
+export function jobDescriptionContentHash(jobDescription: JobDescription): string {
+  return contentHash(JSON.stringify([
+    jobDescription.position,
+    jobDescription.responsibilities ?? "",
+    jobDescription.requiredExperience ?? "",
+    jobDescription.skills,
+    jobDescription.notes ?? "",
+    resolveRubric(jobDescription),
+  ]));
+}
+
+export function resumeContentHash(resumeText: string | null): string {
+  return contentHash(resumeText ?? "");
+}
+
+/**
+ * A score is stale when the job description or resume it was computed from has
+ * changed since, or when it predates content hashing
+ */
+export function isFitScoreStale(
+  score: Pick<JobFitScore, "jobDescriptionHash" | "resumeHash">,
+  jobDescriptionHash: string,
+  resumeText: string | null
+): boolean {
+  return score.jobDescriptionHash !== jobDescriptionHash || score.resumeHash !== resumeContentHash(resumeText);
+}
+
+function withStaleness(jobDescription: JobDescription, candidates: CandidateWithFitScore[]): CandidateWithFitScoreStatus[] {
+  const jobDescriptionHash = jobDescriptionContentHash(jobDescription);
+  return candidates.map(candidate => ({
+    ...candidate,
+    isStale: !!candidate.fitScore && isFitScoreStale(candidate.fitScore, jobDescriptionHash, candidate.resumeSummary),
+  }));
 }
 
 export async function calculateJobFitScore(
-  candidate: Candidate,
+  candidate: Candidate & { profile?: CandidateProfile | null },
   jobDescription: JobDescription,
-  cvContent: string
+  cvContent: string,
+  options: AnalysisOptions = {}
 ): Promise<JobFitAnalysis> {
   try {
-    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert AI recruiter specializing in candidate-job matching. Your task is to analyze how well a candidate fits a specific job position based on their CV and application details compared to the job requirements.
-
-Provide a comprehensive analysis with specific scores and detailed reasoning. Be objective and thorough in your assessment.
-
-Respond with JSON in this exact format:
-{
-  "fitScore": number (0-100),
-  "skillMatch": number (0-100),
-  "experienceAlignment": number (0-100),
-  "languageMatch": number (0-100),
-  "analysis": "Detailed explanation of the analysis including strengths, gaps, and recommendations"
-}`
-        },
-        {
-          role: "user",
-          content: `Please analyze this candidate for the following position:
-
-**Position:** ${jobDescription.position}
-
-**Job Requirements:**
-- Responsibilities: ${jobDescription.responsibilities}
-- Required Experience: ${jobDescription.requiredExperience}
-- Required Skills: ${jobDescription.skills}
-${jobDescription.notes ? `- Additional Notes: ${jobDescription.notes}` : ''}
-
-**Candidate Information:**
-- Name: ${candidate.firstName} ${candidate.lastName}
-- Email: ${candidate.email}
-- Phone: ${candidate.phoneNumber}
-- Position Applied For: ${candidate.position}
-- Experience: ${candidate.experience} years
-- Education: ${candidate.education}
-- Skills: ${candidate.skills}
-- Languages: ${candidate.languages}
-- Additional Notes: ${candidate.notes || 'None provided'}
-
-**CV Content:**
-${cvContent || 'CV content not available'}
-
-Please provide:
-1. **Overall Fit Score (0-100)**: How well does this candidate match the position overall?
-2. **Skill Match (0-100)**: How well do their technical and soft skills align with requirements?
-3. **Experience Alignment (0-100)**: How relevant and sufficient is their experience?
-4. **Language Match (0-100)**: How well do their language skills meet requirements?
-5. **Detailed Analysis**: Comprehensive explanation of strengths, weaknesses, and fit assessment.
-
-Consider factors like:
-- Technical skill overlap
-- Years of experience vs requirements
-- Educational background relevance
-- Language proficiency for the role
-- Industry experience
-- Leadership/management experience if required
-- Cultural fit indicators
-- Growth potential`
-        }
-      ],
-      response_format: { type: "json_object" },
+    const prompt = await buildPrompt(
+      "job_fit",
+      jobFitVariables(candidate, jobDescription, cvContent, options.outputLanguage, await getSkillTaxonomy())
+    );
+
+    const { data: result, rawResponses, cached } = await completeWithCache({
+      task: "job_fit",
+      messages: prompt.messages,
+      responseFormat: "json",
       temperature: 0.3,
-    });
+      context: { candidateId: candidate.id, jobDescriptionId: jobDescription.id },
+    }, jobFitResponseSchema, prompt, options);
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    // Criteria the model did not score take its overall fit score
+    const rubric = resolveRubric(jobDescription);
+    const rubricScore = computeRubricScore(rubric, indexCriterionScores(rubric, result.criteriaScores), result.fitScore);
 
-    // Validate and sanitize the response
+    // Scores are stored as integers
     const analysis: JobFitAnalysis = {
-      fitScore: Math.max(0, Math.min(100, Math.round(result.fitScore || 0))),
-      skillMatch: Math.max(0, Math.min(100, Math.round(result.skillMatch || 0))),
-      experienceAlignment: Math.max(0, Math.min(100, Math.round(result.experienceAlignment || 0))),
-      languageMatch: Math.max(0, Math.min(100, Math.round(result.languageMatch || 0))),
-      analysis: result.analysis || 'Analysis not available',
+      fitScore: rubricScore.overallScore,
+      skillMatch: Math.round(result.skillMatch),
+      experienceAlignment: Math.round(result.experienceAlignment),
+      languageMatch: Math.round(result.languageMatch),
+      analysis: result.analysis,
+      evidence: locateEvidence(cvContent, result.evidence),
+      criteriaScores: rubricScore.criteriaScores,
+      rawResponses,
+      promptTemplateId: prompt.templateId,
+      promptVersion: prompt.version,
+      cached,
     };
 
     return analysis;
   } catch (error) {
     console.error("Error calculating job fit score:", error);
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error("Failed to calculate job fit score: " + (error as Error).message);
   }
 }
 
+/**
+ * Score a stored candidate against a stored job description from the extracted
+ * resume text and save the result, replacing any previous score for the pair
+ */
+export async function scoreCandidateForJob(
+  candidateId: string,
+  jobDescriptionId: string,
+  options: AnalysisOptions = {}
+): Promise<JobFitScore> {
+  const [candidate, jobDescription, profile] = await Promise.all([
+    storage.getCandidateById(candidateId),
+    storage.getJobDescriptionById(jobDescriptionId),
+    storage.getCandidateProfile(candidateId),
+  ]);
+
+  if (!candidate) {
+    throw new AppError("Candidate not found", 404);
+  }
+  if (!jobDescription) {
+    throw new AppError("Job description not found", 404);
+  }
+
+  const cvContent = candidate.resumeSummary || "";
+  const analysis = await calculateJobFitScore({ ...candidate, profile }, jobDescription, cvContent, options);
+
+  const scoreData = {
+    fitScore: analysis.fitScore,
+    skillMatch: analysis.skillMatch,
+    experienceAlignment: analysis.experienceAlignment,
+    languageMatch: analysis.languageMatch,
+    aiAnalysis: analysis.analysis,
+    evidence: analysis.evidence,
+    criteriaScores: analysis.criteriaScores,
+    rawResponses: analysis.rawResponses ?? null,
+    promptTemplateId: analysis.promptTemplateId ?? null,
+    promptVersion: analysis.promptVersion ?? null,
+    jobDescriptionHash: jobDescriptionContentHash(jobDescription),
+    resumeHash: resumeContentHash(cvContent),
+  };
+
+  const existing = await storage.getJobFitScoreByCandidate(candidateId, jobDescriptionId);
+  const saved = existing
+    ? await storage.updateJobFitScore(existing.id, { ...scoreData, calculatedAt: new Date() })
+    : await storage.createJobFitScore({ candidateId, jobDescriptionId, ...scoreData });
+
+  logger.info("Job fit score saved", { candidateId, jobDescriptionId, fitScore: saved.fitScore, cached: analysis.cached });
+  return saved;
+}
+
+/**
+ * Queue a job fit score for every matching candidate with resume text. The
+ * worker scores them with the queue's concurrency limit, from the stored
+ * resume text rather than the uploaded file.
+ */
+export async function queueJobFitScores(
+  jobDescriptionId: string,
+  request: JobFitBatchRequest,
+  options: { createdBy?: string | null; outputLanguage?: UiLanguage } = {}
+): Promise<{ batch: BackgroundJob; total: number; skipped: number }> {
+  const jobDescription = await storage.getJobDescriptionById(jobDescriptionId);
+  if (!jobDescription) {
+    throw new AppError("Job description not found", 404);
+  }
+
+  // Refuse the whole batch up front rather than failing every job once it runs
+  await assertWithinLLMBudget();
+
+  let candidates = await storage.getCandidates({
+    position: request.position && request.position !== "all" ? request.position : undefined,
+    status: request.status && request.status !== "all" ? request.status : undefined,
+    search: request.search?.trim() || undefined,
+  });
+  if (request.candidateIds) {
+    const ids = new Set(request.candidateIds);
+    candidates = candidates.filter(candidate => ids.has(candidate.id));
+  }
+  if (request.onlyUnscored || request.onlyStale) {
+    const scores = withStaleness(jobDescription, await storage.getCandidatesWithFitScores(jobDescriptionId));
+    const scored = new Set(scores.filter(candidate => candidate.fitScore).map(candidate => candidate.id));
+    const stale = new Set(scores.filter(candidate => candidate.isStale).map(candidate => candidate.id));
+    // Together they select every candidate whose score is missing or out of date
+    candidates = candidates.filter(candidate =>
+      (request.onlyUnscored && !scored.has(candidate.id)) || (request.onlyStale && stale.has(candidate.id))
+    );
+  }
+
+  const scorable = candidates.filter(candidate => (candidate.resumeSummary?.trim().length ?? 0) >= MIN_RESUME_LENGTH);
+  if (scorable.length === 0) {
+    throw new ValidationError("No candidates with resume text match the selection");
+  }
+
+  const batch = await enqueueBatch(
+    BACKGROUND_JOB_TYPES.JOB_FIT,
+    scorable.map(candidate => ({
+      candidateId: candidate.id,
+      candidateName: candidate.fullName,
+      jobDescriptionId,
+      forceRefresh: request.forceRefresh,
+      outputLanguage: options.outputLanguage,
+    })),
+    {
+      createdBy: options.createdBy,
+      metadata: { scope: "job_fit", jobDescriptionId, jobTitle: jobDescription.title },
+    }
+  );
+
+  logger.info("Job fit scores queued", {
+    jobDescriptionId,
+    batchId: batch.id,
+    total: scorable.length,
+    skipped: candidates.length - scorable.length,
+  });
+  return { batch, total: scorable.length, skipped: candidates.length - scorable.length };
+}
+
+/**
+ * Scored candidates for a job, best fit first
+ */
+export async function getRankedJobFitScores(jobDescriptionId: string): Promise<RankedJobFitScore[]> {
+  const jobDescription = await storage.getJobDescriptionById(jobDescriptionId);
+  if (!jobDescription) {
+    throw new AppError("Job description not found", 404);
+  }
+
+  const candidates = await storage.getCandidatesWithFitScores(jobDescriptionId);
+  return withStaleness(jobDescription, candidates.filter(candidate => candidate.fitScore))
+    .map((candidate, index) => ({ ...candidate, ranking: index + 1 }));
+}
+
+/**
+ * Every candidate with their fit score for a job, if any, flagged when the score is stale
+ */
+export async function getCandidatesWithFitScoreStatus(jobDescriptionId: string): Promise<CandidateWithFitScoreStatus[]> {
+  const jobDescription = await storage.getJobDescriptionById(jobDescriptionId);
+  if (!jobDescription) {
+    throw new AppError("Job description not found", 404);
+  }
+  return withStaleness(jobDescription, await storage.getCandidatesWithFitScores(jobDescriptionId));
+}
+
+/**
+ * Re-queue the stale fit scores of a job, typically right after it was edited.
+ * Returns null when every score is still current.
+ */
+export async function requeueStaleFitScores(
+  jobDescriptionId: string,
+  options: { createdBy?: string | null; outputLanguage?: UiLanguage } = {}
+): Promise<{ batch: BackgroundJob; total: number; skipped: number } | null> {
+  const stale = (await getCandidatesWithFitScoreStatus(jobDescriptionId)).filter(candidate => candidate.isStale);
+  if (stale.length === 0) {
+    return null;
+  }
+  return queueJobFitScores(
+    jobDescriptionId,
+    { candidateIds: stale.map(candidate => candidate.id), onlyUnscored: false, onlyStale: false, forceRefresh: false },
+    options
+  );
+}
+
 export function getFitScoreColor(score: number): string {
   if (score >= 75) return "green";
   if (score >= 50) return "yellow";
@@ -0,0 +1,32 @@
+import { registerJobHandler } from './jobQueue';
+import { processQueuedAssessment, discardQueuedAssessment } from './assessmentService';
+import { scoreCandidateForJob } from './jobFitService';
+import { processQueuedResumeParsing } from './resumeParser';
+import { executeEvaluationRun } from './evaluationService';
+import { resolveOutputLanguage } from './languageService';
+import { BACKGROUND_JOB_TYPES } from '@shared/constants';
+
+/**
+ * Register the handler for every background job type the worker can run
+ */
+export function registerJobHandlers(): void {
+  registerJobHandler(BACKGROUND_JOB_TYPES.RESUME_ANALYSIS, processQueuedAssessment, {
+    onCancel: discardQueuedAssessment,
+  });
+
+  registerJobHandler(BACKGROUND_JOB_TYPES.RESUME_PARSING, processQueuedResumeParsing);
+
+  registerJobHandler(BACKGROUND_JOB_TYPES.JOB_FIT, async (job) => {
+    const { candidateId, jobDescriptionId, forceRefresh, outputLanguage } = job.payload;
+    const score = await scoreCandidateForJob(candidateId, jobDescriptionId, {
+      forceRefresh: forceRefresh === true,
+      outputLanguage: resolveOutputLanguage(outputLanguage),
+    });
+    return { candidateId, jobDescriptionId, jobFitScoreId: score.id, score: score.fitScore };
+  });
+
+  registerJobHandler(BACKGROUND_JOB_TYPES.EVALUATION_RUN, async (job, context) => {
+    const run = await executeEvaluationRun(job.payload, context);
+    return { runId: run.id, candidateCount: run.candidateCount, averageFitScore: run.averageFitScore };
+  });
+}
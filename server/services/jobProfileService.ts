@@ -0,0 +1,116 @@
+import { storage } from '../storage';
+import type { JobDescription, ScoringCriterion } from '@shared/schema';
+import { logger } from './logger';
+import { AppError, ValidationError } from './errorHandler';
+import { DEFAULT_SKILL_TAXONOMY, type SkillTaxonomy } from './skillTaxonomy';
+import { getSkillTaxonomy } from './skillTaxonomyService';
+import { resolveRubric } from './rubricService';
+
+// Normalized view of a stored job description used by the scoring services
+export interface JobProfile {
+  id: string;
+  title: string;
+  position: string;
+  description: string;
+  requirements: string;
+  skills: string[];
+  experienceLevel: string;
+  rubric: ScoringCriterion[]; // The job's own rubric or the default one
+}
+
+/**
+ * Split the free-text skills column into a de-duplicated list.
+ * Recruiters enter skills comma separated, one per line or as bullet lists.
+ */
+export function parseSkills(skills: string | null | undefined): string[] {
+  if (!skills) return [];
+
+  const seen = new Set<string>();
+  const parsed: string[] = [];
+
+  for (const raw of skills.split(/[,;\n\r|]+/)) {
+    const skill = raw
+      .replace(/^\s*(?:[-*•·]|\d+[.)])\s*/, '') // Strip bullet and numbering prefixes
+      .replace(/\s+/g, ' ')
+      .trim();
+    const key = skill.toLowerCase();
+
+    if (skill && !seen.has(key)) {
+      seen.add(key);
+      parsed.push(skill);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Required skills of a job under their canonical taxonomy names
+ */
+export function canonicalJobSkills(
+  jobDescription: Pick<JobDescription, 'skills'>,
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY
+): string[] {
+  return taxonomy.normalizeList(parseSkills(jobDescription.skills));
+}
+
+export function toJobProfile(
+  jobDescription: JobDescription,
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY
+): JobProfile {
+  return {
+    id: jobDescription.id,
+    title: jobDescription.title || jobDescription.position,
+    position: jobDescription.position,
+    description: jobDescription.description || '',
+    requirements: [jobDescription.requirements, jobDescription.requiredExperience]
+      .filter(Boolean)
+      .join('\n'),
+    skills: canonicalJobSkills(jobDescription, taxonomy),
+    experienceLevel: jobDescription.experienceLevel || 'Not specified',
+    rubric: resolveRubric(jobDescription),
+  };
+}
+
+/**
+ * Load a job profile by id
+ */
+export async function getJobProfileById(jobDescriptionId: string): Promise<JobProfile> {
+  const jobDescription = await storage.getJobDescriptionById(jobDescriptionId);
+
+  if (!jobDescription) {
+    throw new AppError('Job description not found', 404);
+  }
+
+  return toJobProfile(jobDescription, await getSkillTaxonomy());
+}
+
+/**
+ * Resolve the job profile for each position, failing when any position
+ * has no active job description instead of inventing requirements.
+ */
+export async function getJobProfilesForPositions(positions: string[]): Promise<Map<string, JobProfile>> {
+  const profiles = new Map<string, JobProfile>();
+  const missing: string[] = [];
+  const taxonomy = await getSkillTaxonomy();
+
+  for (const position of Array.from(new Set(positions))) {
+    const jobDescription = await storage.getJobDescriptionByPosition(position);
+
+    if (jobDescription) {
+      profiles.set(position, toJobProfile(jobDescription, taxonomy));
+    } else {
+      missing.push(position);
+    }
+  }
+
+  if (missing.length > 0) {
+    logger.warn('No job description found for positions', { missing });
+    throw new ValidationError(
+      `No active job description found for position(s): ${missing.join(', ')}. ` +
+      'Create a job description or select one explicitly before running the evaluation.'
+    );
+  }
+
+  return profiles;
+}
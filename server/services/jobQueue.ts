@@ -0,0 +1,480 @@
+import os from 'os';
+import { EventEmitter } from 'events';
+import { storage } from '../storage';
+import env from '../config/environment';
+import { logger } from './logger';
+import { AppError } from './errorHandler';
+import { BACKGROUND_JOB_STATUS, BACKGROUND_JOB_TYPES, type BackgroundJobType } from '@shared/constants';
+import type {
+  BackgroundJob,
+  BackgroundJobEvent,
+  BackgroundJobItem,
+  BackgroundJobItemStatus,
+  BackgroundJobProgress,
+} from '@shared/schema';
+
+/**
+ * Passed to handlers so long-running jobs can stream per-candidate progress
+ * and stop early when a user cancels them
+ */
+export interface JobContext {
+  reportItem(item: BackgroundJobItem): void;
+  reportProgress(progress: BackgroundJobProgress): Promise<void>;
+  isCancelled(): Promise<boolean>;
+}
+
+export type JobHandler = (job: BackgroundJob, context: JobContext) => Promise<Record<string, any> | void>;
+
+export interface JobHandlerOptions {
+  // Clean up side effects of a cancelled job, e.g. records created when it was enqueued
+  onCancel?: (job: BackgroundJob) => Promise<void>;
+}
+
+export interface EnqueueOptions {
+  createdBy?: string | null;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A running job whose lock is older than this is assumed to belong to a dead worker
+const STALE_LOCK_MS = 15 * 60 * 1000;
+// How often a running job renews its lock, well within STALE_LOCK_MS
+const LOCK_HEARTBEAT_MS = 60 * 1000;
+// How often a worker looks for stale jobs to requeue
+const LOCK_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const FINISHED_STATUSES: string[] = [
+  BACKGROUND_JOB_STATUS.COMPLETED,
+  BACKGROUND_JOB_STATUS.DEAD,
+  BACKGROUND_JOB_STATUS.CANCELLED,
+];
+
+const handlers = new Map<string, { handler: JobHandler; options: JobHandlerOptions }>();
+
+// In-process event bus; subscribers are keyed by the batch id, or the job id for single jobs
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+export function registerJobHandler(type: BackgroundJobType, handler: JobHandler, options: JobHandlerOptions = {}): void {
+  handlers.set(type, { handler, options });
+}
+
+export function isJobFinished(job: Pick<BackgroundJob, 'status'>): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+export function publishJobEvent(event: BackgroundJobEvent): void {
+  jobEvents.emit(event.jobId, event);
+}
+
+/**
+ * Listen to events for a job or batch; returns the unsubscribe function
+ */
+export function subscribeToJob(jobId: string, listener: (event: BackgroundJobEvent) => void): () => void {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+}
+
+const ITEM_STATUS: Record<string, BackgroundJobItemStatus> = {
+  [BACKGROUND_JOB_STATUS.QUEUED]: 'queued',
+  [BACKGROUND_JOB_STATUS.RUNNING]: 'started',
+  [BACKGROUND_JOB_STATUS.COMPLETED]: 'completed',
+  [BACKGROUND_JOB_STATUS.FAILED]: 'retrying',
+  [BACKGROUND_JOB_STATUS.DEAD]: 'failed',
+  [BACKGROUND_JOB_STATUS.CANCELLED]: 'cancelled',
+};
+
+/**
+ * Describe a batch child as a per-candidate progress item
+ */
+export function toJobItem(job: BackgroundJob): BackgroundJobItem {
+  return {
+    itemId: job.id,
+    candidateId: job.payload.candidateId,
+    candidateName: job.payload.candidateName,
+    status: ITEM_STATUS[job.status] ?? 'queued',
+    score: typeof job.result?.score === 'number' ? job.result.score : null,
+    error: job.lastError,
+  };
+}
+
+/**
+ * Exponential backoff: base, 2x base, 4x base ... capped at one hour
+ */
+export function getRetryDelay(attempts: number, baseDelayMs: number = env.JOB_RETRY_BASE_DELAY_MS): number {
+  return Math.min(baseDelayMs * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Client errors (not found, validation) will fail the same way on every attempt
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof AppError && error.statusCode >= 400 && error.statusCode < 500);
+}
+
+export async function enqueueJob(
+  type: BackgroundJobType,
+  payload: Record<string, any>,
+  options: EnqueueOptions = {}
+): Promise<BackgroundJob> {
+  const [job] = await storage.createBackgroundJobs([{
+    type,
+    payload,
+    createdBy: options.createdBy ?? null,
+    maxAttempts: options.maxAttempts ?? env.JOB_MAX_ATTEMPTS,
+    runAt: options.runAt ?? new Date(),
+  }]);
+
+  logger.info('Background job enqueued', { jobId: job.id, type });
+  return job;
+}
+
+/**
+ * Enqueue one job per payload under a parent batch job. The batch is never
+ * executed itself; its id is returned to clients to follow aggregate progress.
+ */
+export async function enqueueBatch(
+  type: BackgroundJobType,
+  payloads: Record<string, any>[],
+  options: EnqueueOptions & { metadata?: Record<string, any> } = {}
+): Promise<BackgroundJob> {
+  const batch = await storage.createBackgroundBatch({
+    type: BACKGROUND_JOB_TYPES.BATCH,
+    status: payloads.length > 0 ? BACKGROUND_JOB_STATUS.RUNNING : BACKGROUND_JOB_STATUS.COMPLETED,
+    payload: { jobType: type, total: payloads.length, ...options.metadata },
+    createdBy: options.createdBy ?? null,
+  }, payloads.map(payload => ({
+    type,
+    payload,
+    createdBy: options.createdBy ?? null,
+    maxAttempts: options.maxAttempts ?? env.JOB_MAX_ATTEMPTS,
+    runAt: options.runAt ?? new Date(),
+  })));
+
+  logger.info('Background batch enqueued', { batchId: batch.id, type, count: payloads.length });
+  return batch;
+}
+
+/**
+ * Put a dead-lettered job back on the queue with a fresh set of attempts
+ */
+export async function retryJob(id: string): Promise<BackgroundJob> {
+  const job = await storage.getBackgroundJobById(id);
+
+  if (!job) {
+    throw new AppError('Background job not found', 404);
+  }
+
+  if (job.status !== BACKGROUND_JOB_STATUS.DEAD) {
+    throw new AppError('Only dead-lettered jobs can be retried', 409);
+  }
+
+  const requeued = await storage.updateBackgroundJob(id, {
+    status: BACKGROUND_JOB_STATUS.QUEUED,
+    attempts: 0,
+    runAt: new Date(),
+    lastError: null,
+    completedAt: null,
+  });
+
+  if (job.parentId) {
+    await storage.updateBackgroundJob(job.parentId, {
+      status: BACKGROUND_JOB_STATUS.RUNNING,
+      completedAt: null,
+    });
+  }
+
+  logger.info('Background job requeued', { jobId: id, type: job.type });
+  return requeued!;
+}
+
+async function runCancelHooks(jobs: BackgroundJob[]): Promise<void> {
+  for (const job of jobs) {
+    const onCancel = handlers.get(job.type)?.options.onCancel;
+    if (!onCancel) continue;
+
+    await onCancel(job).catch(error => {
+      logger.error('Background job cancel hook failed', {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  }
+}
+
+/**
+ * Cancel a queued or running job. For a batch, children that have not started
+ * are cancelled and children already running are allowed to finish.
+ */
+export async function cancelJob(id: string): Promise<BackgroundJob> {
+  const job = await storage.getBackgroundJobById(id);
+
+  if (!job) {
+    throw new AppError('Background job not found', 404);
+  }
+
+  if (isJobFinished(job)) {
+    throw new AppError(`Job is already ${job.status}`, 409);
+  }
+
+  if (job.type === BACKGROUND_JOB_TYPES.BATCH) {
+    await storage.updateBackgroundJob(id, { status: BACKGROUND_JOB_STATUS.CANCELLED });
+    const cancelled = await storage.cancelBackgroundJobs({ parentId: id });
+    await runCancelHooks(cancelled);
+
+    for (const child of cancelled) {
+      publishJobEvent({ type: 'item', jobId: id, item: toJobItem(child) });
+    }
+    await updateBatchStatus(id);
+  } else {
+    const cancelled = await storage.cancelBackgroundJobs({ id });
+    await runCancelHooks(cancelled);
+    if (cancelled.length > 0) {
+      publishJobEvent({ type: 'done', jobId: id, job: cancelled[0] });
+    }
+  }
+
+  logger.info('Background job cancelled', { jobId: id, type: job.type });
+  return (await storage.getBackgroundJobById(id))!;
+}
+
+// Close a batch once none of its children can still change state
+async function updateBatchStatus(parentId: string): Promise<void> {
+  const progress = await storage.getBackgroundJobProgress(parentId);
+  publishJobEvent({ type: 'progress', jobId: parentId, progress });
+
+  if (progress.queued + progress.running + progress.failed > 0) return;
+
+  const batch = await storage.getBackgroundJobById(parentId);
+  if (!batch || batch.completedAt) return;
+
+  const finished = await storage.updateBackgroundJob(parentId, {
+    // A cancelled batch keeps its status so the client can tell it was stopped
+    status: batch.status === BACKGROUND_JOB_STATUS.CANCELLED ? BACKGROUND_JOB_STATUS.CANCELLED : BACKGROUND_JOB_STATUS.COMPLETED,
+    result: progress,
+    completedAt: new Date(),
+  });
+
+  if (finished) {
+    publishJobEvent({ type: 'done', jobId: parentId, job: { ...finished, progress } });
+  }
+  logger.info('Background batch finished', { batchId: parentId, ...progress });
+}
+
+// Tell subscribers a job changed state after its run, and close its batch when it was the last child
+async function publishFinishedJob(job: BackgroundJob): Promise<void> {
+  if (job.parentId) {
+    publishJobEvent({ type: 'item', jobId: job.parentId, item: toJobItem(job) });
+    await updateBatchStatus(job.parentId).catch(error => {
+      logger.error('Failed to update batch status', {
+        batchId: job.parentId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  } else if (isJobFinished(job)) {
+    publishJobEvent({ type: 'done', jobId: job.id, job });
+  }
+}
+
+function createJobContext(job: BackgroundJob): JobContext {
+  const channel = job.parentId ?? job.id;
+
+  return {
+    reportItem(item) {
+      publishJobEvent({ type: 'item', jobId: channel, item });
+    },
+    async reportProgress(progress) {
+      await storage.updateBackgroundJob(job.id, { progress });
+      publishJobEvent({ type: 'progress', jobId: channel, progress });
+    },
+    async isCancelled() {
+      const latest = await storage.getBackgroundJobById(job.id);
+      return latest?.status === BACKGROUND_JOB_STATUS.CANCELLED;
+    },
+  };
+}
+
+export class JobWorker {
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private active = 0;
+  private lastSweepAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private stopped = true;
+
+  constructor(
+    private readonly concurrency: number = env.JOB_WORKER_CONCURRENCY,
+    private readonly pollIntervalMs: number = env.JOB_POLL_INTERVAL_MS
+  ) {}
+
+  async start(): Promise<void> {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    await this.sweepStaleJobs();
+
+    logger.info('Background job worker started', {
+      workerId: this.workerId,
+      concurrency: this.concurrency,
+      handlers: Array.from(handlers.keys()),
+    });
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.stopped) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.poll(), delayMs);
+  }
+
+  /**
+   * Put jobs whose lock has gone stale back in the queue, or dead-letter them
+   * when they have used up their attempts. Repeats while polling rather than
+   * only at startup, so jobs of a worker that crashed while others kept
+   * running, or that restarted before the locks went stale, are still recovered.
+   */
+  private async sweepStaleJobs(): Promise<void> {
+    this.lastSweepAt = Date.now();
+    const { requeued, dead } = await storage.requeueStaleBackgroundJobs(new Date(Date.now() - STALE_LOCK_MS));
+
+    if (requeued.length > 0) {
+      logger.warn('Requeued background jobs abandoned by a previous worker', { count: requeued.length });
+    }
+    for (const job of dead) {
+      logger.error('Background job dead-lettered after its worker stopped responding', { jobId: job.id, type: job.type, attempts: job.attempts });
+      await publishFinishedJob(job);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || this.stopped) return;
+    this.polling = true;
+
+    try {
+      if (Date.now() - this.lastSweepAt >= LOCK_SWEEP_INTERVAL_MS) {
+        await this.sweepStaleJobs();
+      }
+
+      const capacity = this.concurrency - this.active;
+      if (capacity > 0) {
+        const jobs = await storage.claimBackgroundJobs(this.workerId, capacity);
+        for (const job of jobs) {
+          this.active++;
+          this.execute(job).finally(() => {
+            this.active--;
+            // A slot freed up; look for more work right away
+            this.schedule(0);
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Background job poll failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      this.polling = false;
+      this.schedule(this.pollIntervalMs);
+    }
+  }
+
+  private async execute(job: BackgroundJob): Promise<void> {
+    const registration = handlers.get(job.type);
+    const context = createJobContext(job);
+    let finished: BackgroundJob | undefined;
+
+    if (job.parentId) {
+      context.reportItem({ ...toJobItem(job), status: 'started' });
+    }
+
+    // Heartbeat: a job that is still running never looks stale to other workers
+    const heartbeat = setInterval(() => {
+      storage.renewBackgroundJobLock(job.id, this.workerId).catch(error => {
+        logger.warn('Failed to renew background job lock', {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, LOCK_HEARTBEAT_MS);
+
+    try {
+      if (!registration) {
+        throw new AppError(`No handler registered for job type "${job.type}"`, 400);
+      }
+
+      logger.info('Running background job', { jobId: job.id, type: job.type, attempt: job.attempts });
+      const result = await registration.handler(job, context);
+
+      finished = await storage.updateBackgroundJob(job.id, {
+        status: BACKGROUND_JOB_STATUS.COMPLETED,
+        result: result || null,
+        lastError: null,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+      }, BACKGROUND_JOB_STATUS.RUNNING);
+      logger.info('Background job completed', { jobId: job.id, type: job.type });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (error instanceof JobCancelledError) {
+        logger.info('Background job stopped after cancellation', { jobId: job.id, type: job.type });
+      } else if (job.attempts >= job.maxAttempts || !isRetryable(error)) {
+        finished = await storage.updateBackgroundJob(job.id, {
+          status: BACKGROUND_JOB_STATUS.DEAD,
+          lastError: message,
+          lockedAt: null,
+          lockedBy: null,
+          completedAt: new Date(),
+        }, BACKGROUND_JOB_STATUS.RUNNING);
+        logger.error('Background job dead-lettered', { jobId: job.id, type: job.type, attempts: job.attempts, error: message });
+      } else {
+        const delay = getRetryDelay(job.attempts);
+        finished = await storage.updateBackgroundJob(job.id, {
+          status: BACKGROUND_JOB_STATUS.FAILED,
+          lastError: message,
+          lockedAt: null,
+          lockedBy: null,
+          runAt: new Date(Date.now() + delay),
+        }, BACKGROUND_JOB_STATUS.RUNNING);
+        logger.warn('Background job failed, retry scheduled', { jobId: job.id, type: job.type, attempts: job.attempts, retryInMs: delay, error: message });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    // Nothing was updated when the job was cancelled while running
+    if (finished) {
+      await publishFinishedJob(finished);
+    }
+  }
+}
+
+let worker: JobWorker | null = null;
+
+export async function startJobWorker(): Promise<JobWorker> {
+  if (!worker) {
+    worker = new JobWorker();
+  }
+  await worker.start();
+  return worker;
+}
+
+export function stopJobWorker(): void {
+  worker?.stop();
+}
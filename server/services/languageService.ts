@@ -0,0 +1,164 @@
+import type { Request } from "express";
+import { UI_LANGUAGES, UNKNOWN_LANGUAGE, type UiLanguage } from "@shared/constants";
+
+export interface DetectedLanguage {
+  language: string; // ISO 639-1 code, or "und" when it cannot be told
+  confidence: number; // 0-1 share of the letters in the winning script or word list
+}
+
+type Script = "latin" | "arabic" | "hebrew" | "cyrillic" | "greek" | "devanagari" | "thai" | "hangul" | "kana" | "han";
+
+const SCRIPT_RANGES: Array<[number, number, Script]> = [
+  [0x0041, 0x005a, "latin"],
+  [0x0061, 0x007a, "latin"],
+  [0x00c0, 0x024f, "latin"],
+  [0x0370, 0x03ff, "greek"],
+  [0x0400, 0x04ff, "cyrillic"],
+  [0x0590, 0x05ff, "hebrew"],
+  [0x0600, 0x06ff, "arabic"],
+  [0x0750, 0x077f, "arabic"],
+  [0x08a0, 0x08ff, "arabic"],
+  [0x0900, 0x097f, "devanagari"],
+  [0x0e00, 0x0e7f, "thai"],
+  [0x1100, 0x11ff, "hangul"],
+  [0x3040, 0x30ff, "kana"],
+  [0x4e00, 0x9fff, "han"],
+  [0xac00, 0xd7af, "hangul"],
+  [0xfb50, 0xfdff, "arabic"],
+  [0xfe70, 0xfeff, "arabic"],
+];
+
+const SINGLE_LANGUAGE_SCRIPTS: Partial<Record<Script, string>> = {
+  hebrew: "he",
+  cyrillic: "ru",
+  greek: "el",
+  devanagari: "hi",
+  thai: "th",
+  hangul: "ko",
+};
+
+// Letters used by Urdu or Persian but not by Arabic
+const URDU_LETTERS = new Set(["ٹ", "ڈ", "ڑ", "ں", "ے", "ھ"]);
+const PERSIAN_LETTERS = new Set(["پ", "چ", "ژ", "گ"]);
+
+// Frequent function words; resumes are terse, so the lists favour words that
+// still show up in bullet points
+const LATIN_STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "in", "for", "with", "on", "at", "as", "by", "from", "is", "my", "years", "experience"],
+  fr: ["le", "la", "les", "et", "des", "du", "de", "en", "pour", "avec", "dans", "une", "sur", "ans", "expérience"],
+  es: ["el", "la", "los", "las", "y", "de", "del", "en", "para", "con", "por", "una", "años", "experiencia"],
+  de: ["der", "die", "das", "und", "von", "mit", "für", "im", "bei", "zu", "eine", "jahre", "erfahrung"],
+  pt: ["o", "os", "as", "e", "de", "do", "da", "em", "para", "com", "por", "uma", "anos", "experiência"],
+  it: ["il", "lo", "gli", "e", "di", "del", "della", "in", "per", "con", "una", "anni", "esperienza"],
+  nl: ["de", "het", "en", "van", "een", "met", "voor", "op", "bij", "jaar", "ervaring"],
+  tr: ["ve", "bir", "ile", "için", "bu", "olarak", "yıl", "deneyim"],
+};
+
+const BIDI_CONTROL_PATTERN = /[\u200e\u200f\u202a-\u202e\u2066-\u2069]/g;
+const MIN_LETTERS = 20;
+
+function scriptOf(code: number): Script | null {
+  for (const [start, end, script] of SCRIPT_RANGES) {
+    if (code >= start && code <= end) return script;
+  }
+  return null;
+}
+
+/**
+ * Prepare extracted text for storage and prompts: NFKC folds Arabic
+ * presentation forms and ligatures back to ordinary letters, and invisible
+ * bidi control marks are dropped. Text stays in logical (reading) order.
+ */
+export function normalizeUnicodeText(text: string): string {
+  return text.normalize("NFKC").replace(BIDI_CONTROL_PATTERN, "");
+}
+
+function detectLatinLanguage(text: string): DetectedLanguage {
+  const words = text.toLowerCase().split(/[^a-z\u00e0-\u024f]+/).filter(Boolean);
+  const hits: Record<string, number> = {};
+  for (const [language, stopwords] of Object.entries(LATIN_STOPWORDS)) {
+    const set = new Set(stopwords);
+    hits[language] = words.filter(word => set.has(word)).length;
+  }
+
+  const ranked = Object.entries(hits).sort((a, b) => b[1] - a[1]);
+  const total = ranked.reduce((sum, [, count]) => sum + count, 0);
+  // Skills lists and names alone say little; assume English, weakly
+  if (total === 0) return { language: "en", confidence: 0.3 };
+
+  return { language: ranked[0][0], confidence: Math.round((ranked[0][1] / total) * 100) / 100 };
+}
+
+/**
+ * Detect the dominant language of resume text from its script, then from
+ * letters specific to one language or from common function words
+ */
+export function detectLanguage(text: string | null | undefined): DetectedLanguage {
+  if (!text) return { language: UNKNOWN_LANGUAGE, confidence: 0 };
+
+  const normalized = normalizeUnicodeText(text);
+  const counts = new Map<Script, number>();
+  let letters = 0;
+  let urdu = 0;
+  let persian = 0;
+
+  for (const char of normalized) {
+    const script = scriptOf(char.codePointAt(0)!);
+    if (!script) continue;
+    counts.set(script, (counts.get(script) ?? 0) + 1);
+    letters++;
+    if (URDU_LETTERS.has(char)) urdu++;
+    if (PERSIAN_LETTERS.has(char)) persian++;
+  }
+
+  if (letters < MIN_LETTERS) return { language: UNKNOWN_LANGUAGE, confidence: 0 };
+
+  const [script, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  const share = Math.round((count / letters) * 100) / 100;
+
+  switch (script) {
+    case "latin": {
+      const latin = detectLatinLanguage(normalized);
+      return { language: latin.language, confidence: Math.min(share, latin.confidence) };
+    }
+    case "arabic":
+      if (urdu / count > 0.02) return { language: "ur", confidence: share };
+      if (persian / count > 0.01) return { language: "fa", confidence: share };
+      return { language: "ar", confidence: share };
+    case "han":
+    case "kana":
+      // Japanese mixes kanji with kana; Chinese has no kana
+      return { language: counts.has("kana") ? "ja" : "zh", confidence: share };
+    default:
+      return { language: SINGLE_LANGUAGE_SCRIPTS[script] ?? UNKNOWN_LANGUAGE, confidence: share };
+  }
+}
+
+/**
+ * English name of a language code, for prompts
+ */
+export function languageName(code: string | null | undefined): string {
+  if (!code || code === UNKNOWN_LANGUAGE) return "an undetermined language";
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Language AI-written text should be in; anything other than a supported UI
+ * language falls back to English
+ */
+export function resolveOutputLanguage(value: unknown): UiLanguage {
+  const code = typeof value === "string" ? value.trim().toLowerCase().slice(0, 2) : "";
+  return (Object.values(UI_LANGUAGES) as string[]).includes(code) ? (code as UiLanguage) : UI_LANGUAGES.EN;
+}
+
+/**
+ * The recruiter's UI language, sent by the client in the X-UI-Language header
+ * or as a "language" body field
+ */
+export function getRequestLanguage(req: Request): UiLanguage {
+  return resolveOutputLanguage(req.body?.language ?? req.get("x-ui-language"));
+}
@@ -0,0 +1,376 @@
+import fs from "fs";
+import path from "path";
+import OpenAI from "openai";
+import type { z } from "zod";
+import env, { getLLMTaskConfig, type LLMTask, type LLMProviderName } from "../config/environment";
+import { logger } from "./logger";
+import { AppError } from "./errorHandler";
+import { assertWithinLLMBudget, recordLLMUsage } from "./llmUsageService";
+import { createPIIRedactorForContext } from "./piiRedaction";
+
+export type { LLMTask } from "../config/environment";
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// What a call is about, recorded with its token usage for cost reporting
+export interface LLMCallContext {
+  candidateId?: string | null;
+  jobDescriptionId?: string | null;
+}
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  temperature?: number;
+  responseFormat?: "json" | "text";
+  context?: LLMCallContext;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * Chat completions against api.openai.com or any server speaking the same API
+ */
+export class OpenAIProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    public readonly name: LLMProviderName,
+    public readonly model: string,
+    options: ConstructorParameters<typeof OpenAI>[0]
+  ) {
+    this.client = new OpenAI(options);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.3,
+      ...(request.responseFormat === "json" ? { response_format: { type: "json_object" as const } } : {}),
+    });
+
+    return {
+      content: response.choices[0]?.message.content || "",
+      provider: this.name,
+      model: response.model || this.model,
+      usage: response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens,
+      } : undefined,
+    };
+  }
+}
+
+// Canned responses used when no fixture file exists for a task
+const DEFAULT_MOCK_FIXTURES: Record<LLMTask, unknown> = {
+  resume_analysis: {
+    overallScore: 72,
+    technicalSkills: 75,
+    experienceMatch: 70,
+    education: 68,
+    insights: [
+      "Solid technical foundation relevant to the position",
+      "Experience aligns with most of the role requirements",
+      "Educational background supports the role",
+      "Recommend a technical interview to confirm depth of skills",
+    ],
+  },
+  resume_parsing: {
+    workHistory: [
+      { employer: "Mock Corp", title: "Software Engineer", startDate: "2020-01", endDate: null, isCurrent: true },
+    ],
+    education: [
+      { institution: "Mock University", degree: "BSc", fieldOfStudy: "Computer Science", endDate: "2019" },
+    ],
+    skills: [{ name: "JavaScript", category: "Programming language" }, { name: "Communication", category: "Soft skill" }],
+    languages: [{ language: "English", proficiency: "fluent" }],
+    certifications: [],
+  },
+  job_fit: {
+    fitScore: 70,
+    skillMatch: 72,
+    experienceAlignment: 68,
+    languageMatch: 80,
+    analysis: "Mock analysis: the candidate covers most required skills with some gaps in advanced areas.",
+  },
+  evaluation: {
+    fitScore: 70,
+    matchingSkills: [],
+    missingSkills: [],
+    experienceMatch: 70,
+    educationMatch: 70,
+    overallRecommendation: "Mock evaluation: recommend proceeding to interview.",
+  },
+  interview_kit: {
+    summary: "Mock kit: confirm depth in the core skills and probe the gaps found in the assessment.",
+    sections: [
+      {
+        competency: "Technical depth",
+        questions: [
+          {
+            question: "Walk me through the most complex system you built recently.",
+            goodAnswer: "Explains the architecture, trade-offs made and their own contribution with concrete results.",
+            targetsGap: null,
+            followUps: ["What would you change today?"],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+/**
+ * Offline provider returning fixture JSON, read from `<LLM_MOCK_FIXTURES_DIR>/<task>.json`
+ * when present. Responses depend only on the task, so runs are fully reproducible.
+ */
+export class MockLLMProvider implements LLMProvider {
+  public readonly name = "mock" as const;
+
+  constructor(
+    public readonly model: string,
+    private fixturesDir: string = env.LLM_MOCK_FIXTURES_DIR
+  ) {}
+
+  private loadFixture(task: LLMTask): unknown {
+    if (this.fixturesDir) {
+      const fixturePath = path.resolve(this.fixturesDir, `${task}.json`);
+      if (fs.existsSync(fixturePath)) {
+        return JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+      }
+    }
+    return DEFAULT_MOCK_FIXTURES[task];
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const fixture = this.loadFixture(request.task);
+    const content = typeof fixture === "string" ? fixture : JSON.stringify(fixture);
+    const promptLength = request.messages.reduce((sum, message) => sum + message.content.length, 0);
+
+    return {
+      content,
+      provider: this.name,
+      model: this.model,
+      // Rough 4-characters-per-token estimate so usage reporting has realistic numbers
+      usage: {
+        promptTokens: Math.ceil(promptLength / 4),
+        completionTokens: Math.ceil(content.length / 4),
+        totalTokens: Math.ceil(promptLength / 4) + Math.ceil(content.length / 4),
+      },
+    };
+  }
+}
+
+function createProvider(task: LLMTask): LLMProvider {
+  const { provider, model } = getLLMTaskConfig(task);
+
+  switch (provider) {
+    case "mock":
+      return new MockLLMProvider(model);
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL) {
+        throw new AppError("LLM_BASE_URL is required for the openai-compatible provider", 500);
+      }
+      return new OpenAIProvider("openai-compatible", model, {
+        baseURL: env.LLM_BASE_URL,
+        // Local servers such as Ollama ignore the key but the client requires one
+        apiKey: env.LLM_API_KEY || "not-required",
+        // Azure OpenAI authenticates with an api-key header and a versioned query string
+        ...(env.LLM_API_VERSION ? {
+          defaultQuery: { "api-version": env.LLM_API_VERSION },
+          defaultHeaders: { "api-key": env.LLM_API_KEY },
+        } : {}),
+      });
+    case "openai":
+    default:
+      return new OpenAIProvider("openai", model, { apiKey: env.OPENAI_API_KEY });
+  }
+}
+
+const providers = new Map<LLMTask, LLMProvider>();
+
+/**
+ * Get the provider configured for a task (see getLLMTaskConfig)
+ */
+export function getLLMProvider(task: LLMTask): LLMProvider {
+  let provider = providers.get(task);
+  if (!provider) {
+    provider = createProvider(task);
+    providers.set(task, provider);
+    logger.info("LLM provider initialized", { task, provider: provider.name, model: provider.model });
+  }
+  return provider;
+}
+
+/**
+ * Override the provider for a task, e.g. to inject a mock in tests
+ */
+export function setLLMProvider(task: LLMTask, provider: LLMProvider | null): void {
+  if (provider) {
+    providers.set(task, provider);
+  } else {
+    providers.delete(task);
+  }
+}
+
+/**
+ * Run a completion through the task's provider, recording tokens, latency and
+ * cost of every call. Fails with LLMBudgetExceededError once the monthly budget is spent.
+ */
+export async function completeWithLLM(request: LLMCompletionRequest): Promise<LLMCompletion> {
+  await assertWithinLLMBudget();
+
+  const provider = getLLMProvider(request.task);
+  const usageEntry = {
+    task: request.task,
+    provider: provider.name,
+    model: provider.model,
+    candidateId: request.context?.candidateId ?? null,
+    jobDescriptionId: request.context?.jobDescriptionId ?? null,
+  };
+  const startedAt = Date.now();
+
+  let completion: LLMCompletion;
+  try {
+    completion = await provider.complete(request);
+  } catch (error) {
+    await recordLLMUsage({
+      ...usageEntry,
+      latencyMs: Date.now() - startedAt,
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  await recordLLMUsage({
+    ...usageEntry,
+    model: completion.model,
+    promptTokens: completion.usage?.promptTokens ?? 0,
+    completionTokens: completion.usage?.completionTokens ?? 0,
+    totalTokens: completion.usage?.totalTokens ?? 0,
+    latencyMs: Date.now() - startedAt,
+    status: "success",
+  });
+
+  return completion;
+}
+
+export interface StructuredCompletion<T> {
+  data: T;
+  completion: LLMCompletion;
+  // Every raw response received, including the ones that failed validation
+  rawResponses: string[];
+}
+
+/**
+ * Raised when a response still fails schema validation after all repair attempts
+ */
+export class LLMResponseValidationError extends AppError {
+  constructor(
+    public readonly task: LLMTask,
+    public readonly issues: string[],
+    public readonly rawResponses: string[]
+  ) {
+    super(`Invalid ${task} response from AI model: ${issues.slice(0, 3).join("; ")}`, 422, "INVALID_LLM_RESPONSE");
+    this.name = "LLMResponseValidationError";
+  }
+}
+
+function parseJsonContent(content: string): unknown {
+  // Some models wrap JSON in a markdown code fence despite the response format
+  const unfenced = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  return JSON.parse(unfenced);
+}
+
+function validateResponse<T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): { data?: T; issues: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = parseJsonContent(content);
+  } catch (error) {
+    return { issues: [`response is not valid JSON (${(error as Error).message})`] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { data: result.data, issues: [] };
+  }
+
+  return {
+    issues: result.error.issues.map(issue => `${issue.path.join(".") || "response"}: ${issue.message}`),
+  };
+}
+
+/**
+ * Run a JSON completion and validate it against a zod schema. Invalid responses
+ * are sent back to the model together with the validation errors, at most
+ * LLM_MAX_REPAIR_ATTEMPTS times, before giving up with LLMResponseValidationError.
+ *
+ * Personal data is masked before the messages leave the server and restored in
+ * the validated response; raw responses keep the placeholders.
+ */
+export async function completeWithSchema<T>(
+  request: LLMCompletionRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  maxRepairAttempts: number = env.LLM_MAX_REPAIR_ATTEMPTS
+): Promise<StructuredCompletion<T>> {
+  const redactor = await createPIIRedactorForContext(request.context);
+  const messages = request.messages.map(message => ({
+    ...message,
+    content: redactor ? redactor.redact(message.content) : message.content,
+  }));
+  const rawResponses: string[] = [];
+
+  if (redactor) {
+    logger.info("PII redacted from LLM request", { task: request.task, redactions: redactor.redactionCounts });
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const completion = await completeWithLLM({ ...request, messages, responseFormat: "json" });
+    rawResponses.push(completion.content);
+
+    const { data, issues } = validateResponse(completion.content, schema);
+    if (data !== undefined) {
+      if (attempt > 0) {
+        logger.info("LLM response repaired", { task: request.task, attempts: attempt });
+      }
+      return { data: redactor ? redactor.restoreDeep(data) : data, completion, rawResponses };
+    }
+
+    logger.warn("LLM response failed validation", { task: request.task, attempt, issues });
+
+    if (attempt >= maxRepairAttempts) {
+      throw new LLMResponseValidationError(request.task, issues, rawResponses);
+    }
+
+    messages.push(
+      { role: "assistant", content: completion.content },
+      {
+        role: "user",
+        content: `Your previous response did not match the required JSON format:\n- ${issues.join("\n- ")}\n` +
+          "Reply again with only the corrected JSON object, keeping the same structure and field names.",
+      }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { LANGUAGE_PROFICIENCY } from '@shared/constants';
+
+// Expected JSON shape of each AI response. Responses that do not match are
+// sent back to the model for repair instead of being stored with zero scores.
+
+const score = z.number().min(0, 'must be between 0 and 100').max(100, 'must be between 0 and 100');
+
+// Quotes are optional so responses cached before evidence was requested stay valid
+function evidenceSchema<K extends string>(scores: readonly [K, ...K[]]) {
+  return z.array(z.object({
+    score: z.enum(scores),
+    requirement: z.string().min(1, 'must not be empty'),
+    status: z.enum(['met', 'missing']),
+    quote: z.string().nullish(),
+  })).default([]);
+}
+
+// One score per rubric criterion, labelled with the criterion id. Optional so
+// responses cached, or templates saved, before rubrics existed stay valid.
+const criteriaScoresSchema = z.array(z.object({
+  criterion: z.string().min(1, 'must not be empty'),
+  score,
+  rationale: z.string().nullish(),
+})).default([]);
+
+export const resumeAnalysisResponseSchema = z.object({
+  overallScore: score,
+  technicalSkills: score,
+  experienceMatch: score,
+  education: score,
+  insights: z.array(z.string().min(1)).min(1, 'must contain at least one insight'),
+  evidence: evidenceSchema(['technicalSkills', 'experienceMatch', 'education'] as const),
+  criteriaScores: criteriaScoresSchema,
+});
+
+const optionalText = z.string().trim().nullish();
+const required = (field: string) => z.string().trim().min(1, `${field} must not be empty`);
+
+export const resumeParsingResponseSchema = z.object({
+  workHistory: z.array(z.object({
+    employer: required('employer'),
+    title: required('title'),
+    location: optionalText,
+    startDate: optionalText,
+    endDate: optionalText,
+    isCurrent: z.boolean().nullish(),
+    description: optionalText,
+  })).default([]),
+  education: z.array(z.object({
+    institution: required('institution'),
+    degree: optionalText,
+    fieldOfStudy: optionalText,
+    startDate: optionalText,
+    endDate: optionalText,
+  })).default([]),
+  skills: z.array(z.object({
+    name: required('name'),
+    category: optionalText,
+  })).default([]),
+  languages: z.array(z.object({
+    language: required('language'),
+    proficiency: z.nativeEnum(LANGUAGE_PROFICIENCY).catch(LANGUAGE_PROFICIENCY.UNKNOWN),
+  })).default([]),
+  certifications: z.array(z.object({
+    name: required('name'),
+    issuer: optionalText,
+    issuedDate: optionalText,
+    expiresDate: optionalText,
+  })).default([]),
+});
+
+export const jobFitResponseSchema = z.object({
+  fitScore: score,
+  skillMatch: score,
+  experienceAlignment: score,
+  languageMatch: score,
+  analysis: z.string().min(1, 'must not be empty'),
+  evidence: evidenceSchema(['skillMatch', 'experienceAlignment', 'languageMatch'] as const),
+  criteriaScores: criteriaScoresSchema,
+});
+
+export const evaluationResponseSchema = z.object({
+  fitScore: score,
+  matchingSkills: z.array(z.string()),
+  missingSkills: z.array(z.string()),
+  experienceMatch: score,
+  educationMatch: score,
+  overallRecommendation: z.string().min(1, 'must not be empty'),
+  criteriaScores: criteriaScoresSchema,
+});
+
+export const interviewKitResponseSchema = z.object({
+  summary: z.string().trim().default(''),
+  sections: z.array(z.object({
+    competency: required('competency'),
+    questions: z.array(z.object({
+      question: required('question'),
+      goodAnswer: required('goodAnswer'),
+      targetsGap: optionalText, // the missing skill or requirement the question probes
+      followUps: z.array(z.string().trim().min(1)).default([]),
+    })).min(1, 'must contain at least one question'),
+  })).min(1, 'must contain at least one competency'),
+});
+
+export type ResumeAnalysisResponse = z.infer<typeof resumeAnalysisResponseSchema>;
+export type ResumeParsingResponse = z.infer<typeof resumeParsingResponseSchema>;
+export type JobFitResponse = z.infer<typeof jobFitResponseSchema>;
+export type EvaluationResponse = z.infer<typeof evaluationResponseSchema>;
+export type InterviewKitResponse = z.infer<typeof interviewKitResponseSchema>;
@@ -0,0 +1,147 @@
+import { storage } from "../storage";
+import env from "../config/environment";
+import { logger } from "./logger";
+import { AppError } from "./errorHandler";
+import type { InsertLLMUsageEntry, LLMCostReport } from "@shared/schema";
+
+export interface ModelPricing {
+  input: number; // USD per 1M prompt tokens
+  output: number; // USD per 1M completion tokens
+}
+
+// List prices of the hosted models; dated variants (gpt-4o-2024-08-06) match by prefix.
+// Models not listed here cost nothing unless priced through LLM_PRICING.
+const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+};
+
+export class LLMBudgetExceededError extends AppError {
+  constructor(public readonly budget: number, public readonly spent: number) {
+    super(
+      `Monthly AI budget of $${budget.toFixed(2)} has been reached ($${spent.toFixed(2)} spent this month). ` +
+      'Raise LLM_MONTHLY_BUDGET_USD or wait until next month to run new AI jobs.',
+      402,
+      'LLM_BUDGET_EXCEEDED'
+    );
+    this.name = 'LLMBudgetExceededError';
+  }
+}
+
+let pricingTable: Record<string, ModelPricing> | null = null;
+
+function getPricingTable(): Record<string, ModelPricing> {
+  if (!pricingTable) {
+    let overrides: Record<string, ModelPricing> = {};
+    if (env.LLM_PRICING) {
+      try {
+        overrides = JSON.parse(env.LLM_PRICING);
+      } catch (error) {
+        logger.warn("Ignoring invalid LLM_PRICING", { error: error instanceof Error ? error.message : error });
+      }
+    }
+    pricingTable = { ...DEFAULT_MODEL_PRICING, ...overrides };
+  }
+  return pricingTable;
+}
+
+export function getModelPricing(model: string): ModelPricing | undefined {
+  const table = getPricingTable();
+  if (table[model]) return table[model];
+
+  // Longest matching prefix, so gpt-4o-mini-2024-07-18 is not priced as gpt-4o
+  const prefix = Object.keys(table)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+export function calculateLLMCost(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) return 0;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+function startOfMonth(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Store one LLM call. Failures are logged and swallowed so usage tracking
+ * never breaks the AI feature itself.
+ */
+export async function recordLLMUsage(entry: Omit<InsertLLMUsageEntry, 'cost'>): Promise<void> {
+  const cost = entry.status === 'error'
+    ? 0
+    : calculateLLMCost(entry.model, entry.promptTokens ?? 0, entry.completionTokens ?? 0);
+
+  try {
+    await storage.createLLMUsageEntry({ ...entry, cost: cost.toFixed(6) });
+  } catch (error) {
+    logger.warn("Failed to record LLM usage", {
+      task: entry.task,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export async function getMonthToDateLLMCost(): Promise<number> {
+  return storage.getLLMCostSince(startOfMonth());
+}
+
+/**
+ * Throw LLMBudgetExceededError when this month's spend has reached LLM_MONTHLY_BUDGET_USD
+ */
+export async function assertWithinLLMBudget(): Promise<void> {
+  const budget = env.LLM_MONTHLY_BUDGET_USD;
+  if (!budget || budget <= 0) return;
+
+  const spent = await getMonthToDateLLMCost();
+  if (spent >= budget) {
+    logger.warn("Monthly LLM budget exceeded", { budget, spent });
+    throw new LLMBudgetExceededError(budget, spent);
+  }
+}
+
+/**
+ * Cost report for the dashboard, grouped by day, task and job
+ */
+export async function getLLMCostReport(from: Date, to: Date): Promise<LLMCostReport> {
+  const [breakdown, monthToDate] = await Promise.all([
+    storage.getLLMUsageBreakdown(from, to),
+    getMonthToDateLLMCost(),
+  ]);
+
+  const totals = breakdown.byTask.reduce(
+    (sum, row) => ({
+      calls: sum.calls + row.calls,
+      promptTokens: sum.promptTokens + row.promptTokens,
+      completionTokens: sum.completionTokens + row.completionTokens,
+      cost: sum.cost + row.cost,
+    }),
+    { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+  );
+
+  const monthlyBudget = env.LLM_MONTHLY_BUDGET_USD > 0 ? env.LLM_MONTHLY_BUDGET_USD : 0;
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals,
+    ...breakdown,
+    budget: {
+      monthlyBudget,
+      monthToDate,
+      remaining: monthlyBudget ? Math.max(0, monthlyBudget - monthToDate) : null,
+      exceeded: monthlyBudget > 0 && monthToDate >= monthlyBudget,
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobDescription } from "@shared/schema";
+
+const fake = vi.hoisted(() => ({
+  jobDescription: undefined as JobDescription | undefined,
+}));
+
+// Only the storage calls a resume analysis makes
+vi.mock("../storage", () => ({
+  storage: {
+    getActivePromptTemplate: async () => undefined,
+    createPromptTemplate: async (data: Record<string, unknown>) => ({
+      id: `template-${data.task}`,
+      version: 1,
+      createdBy: null,
+      createdAt: new Date(),
+      ...data,
+    }),
+    getAnalysisCacheEntry: async () => undefined,
+    saveAnalysisCacheEntry: async () => undefined,
+    recordAnalysisCacheHit: async () => undefined,
+    createLLMUsageEntry: async () => undefined,
+    getLLMCostSince: async () => 0,
+    getJobDescriptionByPosition: async () => fake.jobDescription,
+  },
+}));
+
+import { MockLLMProvider, setLLMProvider, type LLMCompletion, type LLMCompletionRequest } from "./llmProvider";
+import { analyzeResume } from "./openai";
+
+const RESUME = [
+  "Senior backend engineer with 8 years of experience building payment platforms.",
+  "Skills: TypeScript, Node.js, PostgreSQL",
+  "Education: BSc Computer Science",
+].join("\n");
+
+// Mock provider that merges extra fields into the canned analysis and keeps the prompts it is sent
+class ScriptedProvider extends MockLLMProvider {
+  readonly prompts: string[] = [];
+  response: Record<string, unknown> = {};
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.prompts.push(request.messages.map(message => message.content).join("\n"));
+    const completion = await super.complete(request);
+    return { ...completion, content: JSON.stringify({ ...JSON.parse(completion.content), ...this.response }) };
+  }
+}
+
+describe("analyzeResume scoring", () => {
+  let provider: ScriptedProvider;
+
+  beforeEach(() => {
+    fake.jobDescription = undefined;
+    provider = new ScriptedProvider("test-model", "");
+    setLLMProvider("resume_analysis", provider);
+  });
+
+  afterAll(() => {
+    setLLMProvider("resume_analysis", null);
+  });
+
+  it("weights the sub-scores with the default rubric when the position has none", async () => {
+    const analysis = await analyzeResume(RESUME, "Backend Engineer", undefined, { forceRefresh: true });
+
+    // 0.6 * 75 + 0.25 * 70 + 0.15 * 68, not the model's own 72
+    expect(analysis.overallScore).toBe(73);
+    expect(analysis.criteriaScores.map(criterion => [criterion.criterionId, criterion.score])).toEqual([
+      ["technical_skills", 75],
+      ["experience", 70],
+      ["education", 68],
+    ]);
+  });
+
+  it("scores against the position's rubric and caps a failed must-have", async () => {
+    fake.jobDescription = {
+      id: "job-1",
+      position: "Backend Engineer",
+      rubric: [
+        { id: "kubernetes", name: "Kubernetes", description: "Runs services on Kubernetes", weight: 50, mustHave: true, signal: "keywords" },
+        { id: "technical_skills", name: "Technical skills", description: "", weight: 50, mustHave: false, signal: "skills" },
+      ],
+    } as JobDescription;
+    provider.response = {
+      overallScore: 80,
+      criteriaScores: [{ criterion: "Kubernetes", score: 30, rationale: "Not mentioned in the resume" }],
+    };
+
+    const analysis = await analyzeResume(RESUME, "Backend Engineer", undefined, { forceRefresh: true });
+
+    expect(provider.prompts[0]).toContain('"kubernetes" Kubernetes (weight 50%, MUST-HAVE)');
+    expect(analysis.criteriaScores).toEqual([
+      { criterionId: "kubernetes", name: "Kubernetes", weight: 50, mustHave: true, score: 30, rationale: "Not mentioned in the resume" },
+      { criterionId: "technical_skills", name: "Technical skills", weight: 50, mustHave: false, score: 75, rationale: null },
+    ]);
+    expect(analysis.overallScore).toBe(30);
+  });
+});
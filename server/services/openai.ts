@@ -1,12 +1,14 @@
-import OpenAI from "openai";
-import env from "../config/environment";
+import { storage } from "../storage";
 import { logger } from "./logger";
 import { AppError } from "./errorHandler";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: env.OPENAI_API_KEY
-});
+import type { LLMCallContext } from "./llmProvider";
+import { completeWithCache, type AnalysisOptions } from "./analysisCache";
+import { resumeAnalysisResponseSchema } from "./llmSchemas";
+import { buildPrompt, resumeAnalysisVariables } from "./promptTemplateService";
+import { locateEvidence } from "./evidenceService";
+import { computeRubricScore, indexCriterionScores, resolveRubric } from "./rubricService";
+import { RUBRIC_SIGNALS } from "@shared/constants";
+import type { CriterionScore, ScoreEvidence, ScoringCriterion } from "@shared/schema";
 
 export interface ResumeAnalysis {
   overallScore: number;
@@ -14,11 +16,41 @@ export interface ResumeAnalysis {
   experienceMatch: number;
   education: number;
   insights: string[];
+  evidence: ScoreEvidence[];
+  criteriaScores: CriterionScore[];
+  rawResponses?: string[];
+  promptTemplateId?: string;
+  promptVersion?: number;
+  provider?: string;
+  model?: string;
+  cached?: boolean;
+}
+
+// Criteria the model did not score take the sub-score measuring the same signal;
+// the rest fall back to the model's overall score
+function subScoresBySignal(
+  rubric: ScoringCriterion[],
+  result: { technicalSkills: number; experienceMatch: number; education: number }
+): Record<string, { score: number }> {
+  const bySignal: Partial<Record<string, number>> = {
+    [RUBRIC_SIGNALS.SKILLS]: result.technicalSkills,
+    [RUBRIC_SIGNALS.EXPERIENCE]: result.experienceMatch,
+    [RUBRIC_SIGNALS.EDUCATION]: result.education,
+  };
+
+  const scores: Record<string, { score: number }> = {};
+  for (const criterion of rubric) {
+    const score = bySignal[criterion.signal];
+    if (score !== undefined) scores[criterion.id] = { score };
+  }
+  return scores;
 }
 
 export async function analyzeResume(
   resumeText: string, 
-  position: string
+  position: string,
+  context?: LLMCallContext,
+  options: AnalysisOptions = {}
 ): Promise<ResumeAnalysis> {
   try {
     logger.info('Starting AI resume analysis', { position, textLength: resumeText.length });
@@ -27,59 +59,51 @@ export async function analyzeResume(
       throw new AppError('Resume text is too short for analysis', 400);
     }
 
-    const prompt = `
-    Analyze this resume for the position of "${position}". 
-    Provide a detailed assessment in JSON format with the following structure:
-    {
-      "overallScore": number (0-100),
-      "technicalSkills": number (0-100),
-      "experienceMatch": number (0-100),
-      "education": number (0-100),
-      "insights": ["insight1", "insight2", "insight3", "insight4"]
-    }
-
-    Resume content:
-    ${resumeText}
-
-    Consider:
-    - Technical skills relevant to the position
-    - Years of experience and relevance
-    - Educational background
-    - Project experience and achievements
-    - Overall fit for the role
+    const jobDescription = await storage.getJobDescriptionByPosition(position);
+    const rubric = resolveRubric(jobDescription ?? { rubric: null });
+    const prompt = await buildPrompt(
+      "resume_analysis",
+      resumeAnalysisVariables(resumeText, position, options.outputLanguage, rubric)
+    );
 
-    Provide 4 specific insights about the candidate's strengths and recommendations.
-    `;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert HR recruiter and technical interviewer. Analyze resumes objectively and provide detailed assessments."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const { data: result, rawResponses, provider, model, cached } = await completeWithCache({
+      task: "resume_analysis",
+      messages: prompt.messages,
+      responseFormat: "json",
       temperature: 0.3,
-    });
+      context,
+    }, resumeAnalysisResponseSchema, prompt, options);
 
-    const analysis = JSON.parse(response.choices[0].message.content || "{}");
+    const rubricScore = computeRubricScore(
+      rubric,
+      { ...subScoresBySignal(rubric, result), ...indexCriterionScores(rubric, result.criteriaScores) },
+      result.overallScore
+    );
     
     logger.info('AI analysis completed', { 
-      overallScore: analysis.overallScore,
-      position 
+      overallScore: rubricScore.overallScore,
+      position,
+      provider,
+      model,
+      promptVersion: prompt.version,
+      cached,
+      attempts: rawResponses.length
     });
 
     return {
-      overallScore: Math.max(0, Math.min(100, analysis.overallScore || 0)),
-      technicalSkills: Math.max(0, Math.min(100, analysis.technicalSkills || 0)),
-      experienceMatch: Math.max(0, Math.min(100, analysis.experienceMatch || 0)),
-      education: Math.max(0, Math.min(100, analysis.education || 0)),
-      insights: analysis.insights || [],
+      overallScore: rubricScore.overallScore,
+      technicalSkills: result.technicalSkills,
+      experienceMatch: result.experienceMatch,
+      education: result.education,
+      insights: result.insights,
+      evidence: locateEvidence(resumeText, result.evidence),
+      criteriaScores: rubricScore.criteriaScores,
+      rawResponses,
+      promptTemplateId: prompt.templateId,
+      promptVersion: prompt.version,
+      provider,
+      model,
+      cached,
     };
   } catch (error) {
     logger.error("AI resume analysis failed", { error: error instanceof Error ? error.message : 'Unknown error' });
@@ -0,0 +1,54 @@
+import fs from "fs";
+import path from "path";
+import { spawnSync } from "child_process";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { EXTRACTION_METHODS } from "@shared/constants";
+
+const DATA_DIR = path.resolve(__dirname, "../../test/data");
+const SCANNED_PDF = path.join(DATA_DIR, "scanned-resume.pdf");
+// Page 1 of scanned-resume.pdf as pdf2pic renders it at 150 dpi
+const SCANNED_PAGE = path.join(DATA_DIR, "scanned-resume.png");
+
+const renderer = vi.hoisted(() => ({ real: false }));
+
+// pdf2pic needs GraphicsMagick and Ghostscript; unless a test asks for the
+// real renderer, pages come back as the pre-rendered image
+vi.mock("pdf2pic", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("pdf2pic")>();
+  return {
+    ...actual,
+    fromBuffer: (...args: Parameters<typeof actual.fromBuffer>) => renderer.real
+      ? actual.fromBuffer(...args)
+      : { bulk: async () => [{ page: 1, buffer: fs.readFileSync(SCANNED_PAGE) }] },
+  };
+});
+
+import { extractResumeText } from "./pdfExtractor";
+
+const hasRenderer = ["gm", "gs"].every(command =>
+  spawnSync(command, [command === "gm" ? "version" : "--version"], { stdio: "ignore" }).status === 0
+);
+
+function expectScannedResume(result: Awaited<ReturnType<typeof extractResumeText>>): void {
+  expect(result.method).toBe(EXTRACTION_METHODS.OCR);
+  expect(result.confidence).toBeGreaterThan(70);
+  expect(result.confidence).toBeLessThanOrEqual(100);
+  expect(result.text).toContain("Jane Doe");
+  expect(result.text).toContain("Northwind Payments");
+  expect(result.text).toContain("University of Leeds");
+}
+
+describe("extractResumeText OCR fallback", () => {
+  afterEach(() => {
+    renderer.real = false;
+  });
+
+  it("reads an image-only PDF with OCR and reports its confidence", async () => {
+    expectScannedResume(await extractResumeText(SCANNED_PDF));
+  }, 120_000);
+
+  it.skipIf(!hasRenderer)("renders the pages with GraphicsMagick and Ghostscript", async () => {
+    renderer.real = true;
+    expectScannedResume(await extractResumeText(SCANNED_PDF));
+  }, 120_000);
+});
@@ -1,6 +1,22 @@
 import fs from "fs";
+import os from "os";
+import path from "path";
+import { createRequire } from "module";
 import { logger } from "./logger";
 import { AppError } from "./errorHandler";
+import { env } from "../config/environment";
+import { normalizeUnicodeText } from "./languageService";
+import { EXTRACTION_METHODS, type ExtractionMethod } from "@shared/constants";
+
+const require = createRequire(import.meta.url);
+
+// Language data bundled with the app so OCR works without network access
+const OCR_LANGUAGE_PACKAGES = {
+  eng: "@tesseract.js-data/eng",
+  ara: "@tesseract.js-data/ara",
+} as const;
+
+const OCR_LANGUAGE_DIR = path.join(os.tmpdir(), "resume-ocr-traineddata");
 
 // Type definition for pdf-parse
 interface PDFData {
@@ -21,7 +37,8 @@ function extractTextFromBuffer(buffer: Buffer): string {
       return textMatches
         .map((match) => match.replace(/BT\s+|\s+ET/g, ""))
         .join(" ")
-        .replace(/[^\x20-\x7E]/g, " ")
+        // Drop control characters only, so Arabic and other non-Latin text survives
+        .replace(/[\u0000-\u001f\u007f-\u009f\ufffd]/g, " ")
         .replace(/\s+/g, " ")
         .trim();
     }
@@ -32,9 +49,111 @@ function extractTextFromBuffer(buffer: Buffer): string {
   }
 }
 
-// Use dynamic import for pdf-parse to avoid ENOENT test file issues
+export interface PDFExtractionResult {
+  text: string;
+  method: ExtractionMethod;
+  confidence: number | null; // Mean OCR word confidence (0-100); null for text-layer extraction
+}
+
+function cleanText(text: string): string {
+  return normalizeUnicodeText(text)
+    .replace(/\s+/g, " ") // Replace multiple whitespace with single space
+    .replace(/\n\s*\n/g, "\n") // Remove empty lines
+    .trim();
+}
+
+// tesseract.js reads every language from a single langPath while each data
+// package ships its own directory, so the LSTM models are gathered in one place
+function prepareOCRLanguageDir(): string {
+  fs.mkdirSync(OCR_LANGUAGE_DIR, { recursive: true });
+
+  for (const [code, packageName] of Object.entries(OCR_LANGUAGE_PACKAGES)) {
+    const target = path.join(OCR_LANGUAGE_DIR, `${code}.traineddata.gz`);
+    if (!fs.existsSync(target)) {
+      const packageDir = path.dirname(require.resolve(`${packageName}/package.json`));
+      fs.copyFileSync(path.join(packageDir, "4.0.0_best_int", `${code}.traineddata.gz`), target);
+    }
+  }
+
+  return OCR_LANGUAGE_DIR;
+}
+
+// Render pages to images (pdf2pic drives GraphicsMagick and Ghostscript)
+async function renderPages(pdfBuffer: Buffer, pageCount: number | null): Promise<Buffer[]> {
+  const { fromBuffer } = await import("pdf2pic");
+  const convert = fromBuffer(pdfBuffer, {
+    density: 300,
+    format: "png",
+    width: 2480,
+    preserveAspectRatio: true,
+  });
+
+  const maxPages = Math.max(env.OCR_MAX_PAGES, 1);
+  const pages = pageCount
+    ? Array.from({ length: Math.min(pageCount, maxPages) }, (_, i) => i + 1)
+    : -1;
+  const images = await convert.bulk(pages, { responseType: "buffer" });
+
+  return images
+    .slice(0, maxPages)
+    .map((image) => image.buffer)
+    .filter((buffer): buffer is Buffer => !!buffer && buffer.length > 0);
+}
+
+/**
+ * Run scanned or image-only PDFs through OCR. Page confidences are averaged
+ * weighted by the amount of text recognised on each page.
+ */
+async function extractTextWithOCR(
+  pdfBuffer: Buffer,
+  pageCount: number | null
+): Promise<{ text: string; confidence: number }> {
+  const images = await renderPages(pdfBuffer, pageCount);
+  if (images.length === 0) {
+    logger.warn("No PDF pages rendered for OCR; check that GraphicsMagick and Ghostscript are installed");
+    return { text: "", confidence: 0 };
+  }
+
+  const { createWorker, OEM } = await import("tesseract.js");
+  const worker = await createWorker(Object.keys(OCR_LANGUAGE_PACKAGES), OEM.LSTM_ONLY, {
+    langPath: prepareOCRLanguageDir(),
+    gzip: true,
+    cacheMethod: "none",
+  });
+
+  try {
+    const pages: Array<{ text: string; confidence: number }> = [];
+    for (const image of images) {
+      const { data } = await worker.recognize(image);
+      pages.push({ text: data.text.trim(), confidence: data.confidence });
+    }
+
+    const totalLength = pages.reduce((sum, page) => sum + page.text.length, 0);
+    const confidence = totalLength
+      ? pages.reduce((sum, page) => sum + page.confidence * page.text.length, 0) / totalLength
+      : 0;
+
+    return {
+      text: pages.map((page) => page.text).join("\n"),
+      confidence: Math.round(confidence * 100) / 100,
+    };
+  } finally {
+    await worker.terminate();
+  }
+}
 
 export async function extractTextFromPDF(filePath: string): Promise<string> {
+  const { text } = await extractResumeText(filePath);
+  return text;
+}
+
+// Use dynamic import for pdf-parse to avoid ENOENT test file issues
+
+/**
+ * Extract resume text, recording which method produced it. Falls back to OCR
+ * when the text layer is missing or shorter than OCR_MIN_TEXT_LENGTH.
+ */
+export async function extractResumeText(filePath: string): Promise<PDFExtractionResult> {
   try {
     logger.info("Starting PDF text extraction", { filePath });
 
@@ -48,6 +167,9 @@ export async function extractTextFromPDF(filePath: string): Promise<string> {
     logger.debug("PDF file read successfully", { fileSize: pdfBuffer.length });
 
     let extractedText = "";
+    let method: ExtractionMethod = EXTRACTION_METHODS.PDF_PARSE;
+    let confidence: number | null = null;
+    let pageCount: number | null = null;
 
     // Try pdf-parse first with dynamic import
     try {
@@ -55,6 +177,7 @@ export async function extractTextFromPDF(filePath: string): Promise<string> {
       const pdfParse = await import("pdf-parse");
       const data: PDFData = await pdfParse.default(pdfBuffer);
       extractedText = data.text;
+      pageCount = data.numpages || null;
       logger.info("PDF text extracted using pdf-parse", {
         textLength: extractedText.length,
       });
@@ -65,13 +188,7 @@ export async function extractTextFromPDF(filePath: string): Promise<string> {
 
       // Fallback to buffer analysis
       extractedText = extractTextFromBuffer(pdfBuffer);
-
-      if (!extractedText) {
-        throw new AppError(
-          "Failed to extract text from PDF using all available methods",
-          500
-        );
-      }
+      method = EXTRACTION_METHODS.BUFFER;
 
       logger.info("PDF text extracted using fallback method", {
         textLength: extractedText.length,
@@ -79,10 +196,32 @@ export async function extractTextFromPDF(filePath: string): Promise<string> {
     }
 
     // Clean up the extracted text
-    extractedText = extractedText
-      .replace(/\s+/g, " ") // Replace multiple whitespace with single space
-      .replace(/\n\s*\n/g, "\n") // Remove empty lines
-      .trim();
+    extractedText = cleanText(extractedText);
+
+    // Scanned resumes have no text layer, so read the page images instead
+    if (env.OCR_ENABLED && extractedText.length < env.OCR_MIN_TEXT_LENGTH) {
+      logger.info("PDF text layer too short, trying OCR", {
+        textLength: extractedText.length,
+        threshold: env.OCR_MIN_TEXT_LENGTH,
+      });
+
+      try {
+        const ocr = await extractTextWithOCR(pdfBuffer, pageCount);
+        const ocrText = cleanText(ocr.text);
+        if (ocrText.length > extractedText.length) {
+          extractedText = ocrText;
+          method = EXTRACTION_METHODS.OCR;
+          confidence = ocr.confidence;
+        }
+        logger.info("PDF OCR finished", {
+          textLength: ocrText.length,
+          confidence: ocr.confidence,
+          used: method === EXTRACTION_METHODS.OCR,
+        });
+      } catch (ocrError: any) {
+        logger.warn("PDF OCR failed", { error: ocrError.message });
+      }
+    }
 
     // Validate extracted content
     if (!extractedText || extractedText.length < 10) {
@@ -95,9 +234,11 @@ export async function extractTextFromPDF(filePath: string): Promise<string> {
     logger.info("PDF text extraction successful", {
       textLength: extractedText.length,
       wordCount: extractedText.split(/\s+/).length,
+      method,
+      confidence,
     });
 
-    return extractedText;
+    return { text: extractedText, method, confidence };
   } catch (error: any) {
     logger.error("PDF text extraction failed", {
       error: error.message,
@@ -0,0 +1,224 @@
+import path from "path";
+import { createRequire } from "module";
+import PDFDocument from "pdfkit";
+import bidiFactory from "bidi-js";
+import { UI_LANGUAGES, type UiLanguage } from "@shared/constants";
+
+const require = createRequire(import.meta.url);
+const bidi = bidiFactory();
+
+// Fonts bundled with the app; the Arabic subset has no Latin letters or digits, so text is drawn in runs per script
+const FONT_DIR = path.join(path.dirname(require.resolve("@fontsource/noto-sans-arabic/LICENSE")), "files");
+const FONTS = {
+  latin: path.join(FONT_DIR, "noto-sans-arabic-latin-400-normal.woff"),
+  latinBold: path.join(FONT_DIR, "noto-sans-arabic-latin-700-normal.woff"),
+  arabic: path.join(FONT_DIR, "noto-sans-arabic-arabic-400-normal.woff"),
+  arabicBold: path.join(FONT_DIR, "noto-sans-arabic-arabic-700-normal.woff"),
+} as const;
+
+const ARABIC_CHAR = /[\u0600-\u06FF\u0750-\u077F\u0870-\u08FF\uFB50-\uFDFF\uFE70-\uFEFC]/;
+// Direction marks, e.g. from Arabic date formatting; the bidi algorithm below does their job and the fonts have no glyphs for them
+const BIDI_CONTROLS = /[\u061C\u200E\u200F\u202A-\u202E\u2066-\u2069]/g;
+const RTL_LANGUAGES: UiLanguage[] = [UI_LANGUAGES.AR];
+const LINE_SPACING = 1.4;
+
+export interface PdfTextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  gapAfter?: number;
+}
+
+interface TextRun {
+  text: string;
+  arabic: boolean;
+}
+
+function scriptRuns(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  for (const char of text) {
+    // Spaces stay in the run they are in, so an Arabic phrase is drawn as one piece
+    const arabic = char === " " && runs.length > 0 ? runs[runs.length - 1].arabic : ARABIC_CHAR.test(char);
+    const last = runs[runs.length - 1];
+    if (last && last.arabic === arabic) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, arabic });
+    }
+  }
+  return runs;
+}
+
+/**
+ * A4 document writer that wraps and places text itself, since PDFKit has no
+ * right-to-left support. Each line is reordered with the Unicode bidi
+ * algorithm and drawn as script runs, so Arabic kits read right to left and
+ * the English terms inside them stay readable.
+ */
+export class PdfWriter {
+  readonly doc: PDFKit.PDFDocument;
+  private readonly rtl: boolean;
+  private readonly chunks: Buffer[] = [];
+
+  constructor(language: UiLanguage, title: string) {
+    this.rtl = RTL_LANGUAGES.includes(language);
+    this.doc = new PDFDocument({ size: "A4", margin: 50, lang: language, info: { Title: title }, displayTitle: true });
+    this.doc.registerFont("latin", FONTS.latin);
+    this.doc.registerFont("latinBold", FONTS.latinBold);
+    this.doc.registerFont("arabic", FONTS.arabic);
+    this.doc.registerFont("arabicBold", FONTS.arabicBold);
+    this.doc.on("data", (chunk: Buffer) => this.chunks.push(chunk));
+  }
+
+  private get left(): number {
+    return this.doc.page.margins.left;
+  }
+
+  private get width(): number {
+    return this.doc.page.width - this.doc.page.margins.left - this.doc.page.margins.right;
+  }
+
+  private useFont(run: TextRun, style: PdfTextStyle): void {
+    const name = run.arabic ? "arabic" : "latin";
+    this.doc.font(style.bold ? `${name}Bold` : name).fontSize(style.size ?? 10);
+  }
+
+  private measure(text: string, style: PdfTextStyle): number {
+    return scriptRuns(text).reduce((width, run) => {
+      this.useFont(run, style);
+      return width + this.doc.widthOfString(run.text);
+    }, 0);
+  }
+
+  private wrap(text: string, style: PdfTextStyle): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.measure(candidate, style) > this.width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      if (line) lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * Make room for content of the given height, starting a new page when it
+   * would run past the bottom margin
+   */
+  ensureSpace(height: number): void {
+    if (this.doc.y + height > this.doc.page.height - this.doc.page.margins.bottom) {
+      this.doc.addPage();
+    }
+  }
+
+  /**
+   * Reorder a line for display and split it into script runs, left to right
+   */
+  private layoutLine(line: string, style: PdfTextStyle): { runs: TextRun[]; width: number } {
+    const levels = bidi.getEmbeddingLevels(line, this.rtl ? "rtl" : "ltr");
+    const mirrored = bidi.getMirroredCharactersMap(line, levels.levels);
+    const visual = bidi.getReorderedIndices(line, levels).map(index => mirrored.get(index) ?? line[index]).join("");
+
+    // Arabic is shaped from logical order and reversed by the font engine, so each
+    // word goes back to logical order and is drawn apart from the spaces around it
+    const runs = scriptRuns(visual).flatMap(run => run.arabic
+      ? run.text.split(/( +)/).filter(Boolean).map(piece => ({ text: Array.from(piece).reverse().join(""), arabic: true }))
+      : [run]);
+    const width = runs.reduce((total, run) => {
+      this.useFont(run, style);
+      return total + this.doc.widthOfString(run.text);
+    }, 0);
+    return { runs, width };
+  }
+
+  private drawRuns(runs: TextRun[], style: PdfTextStyle, x: number, y: number): void {
+    for (const run of runs) {
+      this.useFont(run, style);
+      this.doc.fillColor(style.color ?? "#111827").text(run.text, x, y, { lineBreak: false });
+      x += this.doc.widthOfString(run.text);
+    }
+  }
+
+  text(text: string, style: PdfTextStyle = {}): void {
+    const lineHeight = (style.size ?? 10) * LINE_SPACING;
+    for (const line of this.wrap(text.replace(BIDI_CONTROLS, ""), style)) {
+      this.ensureSpace(lineHeight);
+      const y = this.doc.y;
+      const { runs, width } = this.layoutLine(line, style);
+      this.drawRuns(runs, style, this.rtl ? this.left + this.width - width : this.left, y);
+      this.doc.y = y + lineHeight;
+    }
+    this.doc.y += style.gapAfter ?? 0;
+  }
+
+  /**
+   * An empty bordered box with a small caption, for handwritten notes
+   */
+  box(caption: string, height: number): void {
+    this.ensureSpace(height + 4);
+    const top = this.doc.y;
+    this.doc.roundedRect(this.left, top, this.width, height, 4).lineWidth(0.75).strokeColor("#d1d5db").stroke();
+    this.doc.y = top + 4;
+    this.text(` ${caption} `, { size: 8, color: "#9ca3af" });
+    this.doc.y = top + height + 4;
+  }
+
+  /**
+   * A caption followed by numbered tick boxes, laid out in the document's direction
+   */
+  checkboxes(caption: string, labels: string[]): void {
+    const style: PdfTextStyle = { size: 9, color: "#4b5563" };
+    const boxSize = 8;
+    const lineHeight = style.size! * LINE_SPACING;
+    this.ensureSpace(lineHeight);
+    const y = this.doc.y;
+
+    // Items are placed from the start edge: the left in English, the right in Arabic
+    let offset = 0;
+    const place = (width: number): number => {
+      const x = this.rtl ? this.left + this.width - offset - width : this.left + offset;
+      offset += width;
+      return x;
+    };
+
+    const captionLine = this.layoutLine(caption, style);
+    this.drawRuns(captionLine.runs, style, place(captionLine.width), y);
+    offset += 8;
+
+    for (const label of labels) {
+      const labelLine = this.layoutLine(label, style);
+      this.drawRuns(labelLine.runs, style, place(labelLine.width), y);
+      offset += 3;
+      this.doc.rect(place(boxSize), y + 2, boxSize, boxSize).lineWidth(0.75).strokeColor("#6b7280").stroke();
+      offset += 12;
+    }
+
+    this.doc.y = y + lineHeight;
+  }
+
+  rule(): void {
+    this.ensureSpace(6);
+    const y = this.doc.y + 2;
+    this.doc.moveTo(this.left, y).lineTo(this.left + this.width, y).lineWidth(0.75).strokeColor("#d1d5db").stroke();
+    this.doc.y = y + 4;
+  }
+
+  gap(height: number): void {
+    this.doc.y += height;
+  }
+
+  end(): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      this.doc.on("end", () => resolve(Buffer.concat(this.chunks)));
+      this.doc.on("error", reject);
+      this.doc.end();
+    });
+  }
+}
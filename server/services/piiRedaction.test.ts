@@ -0,0 +1,375 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Assessment, Candidate, Interview, InterviewKit, JobDescription, Skill } from "@shared/schema";
+
+const fake = vi.hoisted(() => ({
+  candidate: undefined as unknown as Candidate,
+  assessment: undefined as unknown as Assessment,
+  jobDescription: undefined as unknown as JobDescription,
+  interview: undefined as unknown as Interview,
+  skills: [] as Skill[],
+}));
+
+// In-memory stand-in for the database: only the calls the AI pipeline makes
+vi.mock("../storage", () => ({
+  storage: {
+    getActivePromptTemplate: async () => undefined,
+    createPromptTemplate: async (data: Record<string, unknown>) => ({
+      id: `template-${data.task}`,
+      version: 1,
+      createdBy: null,
+      createdAt: new Date(),
+      ...data,
+    }),
+    getAnalysisCacheEntry: async () => undefined,
+    saveAnalysisCacheEntry: async () => undefined,
+    recordAnalysisCacheHit: async () => undefined,
+    createLLMUsageEntry: async () => undefined,
+    getLLMCostSince: async () => 0,
+    getCandidateById: async (id: string) => (id === fake.candidate.id ? fake.candidate : undefined),
+    getCandidates: async () => [fake.candidate],
+    getCandidateProfile: async () => null,
+    getSkills: async () => fake.skills,
+    getSkillTaxonomyVersion: async () => String(fake.skills.length),
+    createSkills: async (rows: Array<Pick<Skill, "name" | "category" | "aliases">>) => {
+      const created = rows.map((row, index) => ({ ...row, id: `skill-${index}`, parentId: null }) as Skill);
+      fake.skills.push(...created);
+      return created;
+    },
+    updateSkill: async (id: string, updates: Partial<Skill>) => {
+      const skill = fake.skills.find(row => row.id === id)!;
+      Object.assign(skill, updates);
+      return skill;
+    },
+    getInterviewById: async (id: string) => (id === fake.interview.id ? fake.interview : undefined),
+    updateInterview: async (_id: string, updates: { kit: InterviewKit }) => ({ ...fake.interview, ...updates }),
+    getJobDescriptionById: async (id: string) => (id === fake.jobDescription.id ? fake.jobDescription : undefined),
+    getJobDescriptionByPosition: async () => fake.jobDescription,
+    getAssessmentByCandidateId: async () => fake.assessment,
+    getLatestEvaluationResult: async () => undefined,
+    getJobFitScoreByCandidate: async () => undefined,
+    getEmbeddings: async () => [],
+    upsertEmbedding: async (row: Record<string, unknown>) => row,
+  },
+}));
+
+import { MockLLMProvider, setLLMProvider, type LLMCompletion, type LLMCompletionRequest, type LLMTask } from "./llmProvider";
+import { LocalEmbeddingProvider, setEmbeddingProvider, type EmbeddingProvider, type EmbeddingResult } from "./embeddingProvider";
+import { analyzeResume } from "./openai";
+import { calculateJobFitScore } from "./jobFitService";
+import { parseResume } from "./resumeParser";
+import { evaluateCandidate } from "./evaluationService";
+import { generateInterviewKit } from "./interviewKitService";
+import { toJobProfile } from "./jobProfileService";
+import { getCandidateJobSimilarities } from "./embeddingService";
+import { createPIIRedactor } from "./piiRedaction";
+import { jobFitVariables } from "./promptTemplateService";
+
+const NAME = "Layla Haddad";
+const EMAIL = "layla.haddad@example.com";
+const PHONE = "+971 50 123 4567";
+const PII = [NAME, EMAIL, PHONE];
+
+const RESUME = [
+  NAME,
+  `Email: ${EMAIL} | Phone: ${PHONE}`,
+  "Senior backend engineer with 8 years of experience building payment platforms.",
+  "Skills: TypeScript, Node.js, PostgreSQL, Kubernetes",
+  "Experience: Lead Engineer at Gulf Payments (2019-2024), Software Engineer at Souq Labs (2016-2019)",
+  "Education: BSc Computer Science, American University of Sharjah",
+].join("\n");
+
+const TASKS: LLMTask[] = ["resume_analysis", "resume_parsing", "job_fit", "evaluation", "interview_kit"];
+
+// Mock provider that keeps every message it is sent
+class CapturingProvider extends MockLLMProvider {
+  readonly requests: LLMCompletionRequest[] = [];
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+    return super.complete(request);
+  }
+}
+
+// Hosted-style embedding provider that keeps every text it is sent
+class CapturingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai" as const;
+  readonly model = "test-embedding";
+  readonly texts: string[] = [];
+  private vectors = new LocalEmbeddingProvider(64);
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    this.texts.push(...texts);
+    return this.vectors.embed(texts);
+  }
+}
+
+function sentContent(provider: CapturingProvider): string {
+  return provider.requests.flatMap(request => request.messages.map(message => message.content)).join("\n");
+}
+
+function expectNoPII(text: string): void {
+  for (const value of PII) {
+    expect(text).not.toContain(value);
+  }
+}
+
+describe("PII redaction of AI provider calls", () => {
+  let provider: CapturingProvider;
+
+  beforeAll(() => {
+    fake.candidate = {
+      id: "candidate-1",
+      fullName: NAME,
+      email: EMAIL,
+      phone: PHONE,
+      position: "Backend Engineer",
+      resumeSummary: RESUME,
+      status: "new",
+    } as Candidate;
+    fake.assessment = {
+      id: "assessment-1",
+      candidateId: fake.candidate.id,
+      overallScore: "82",
+      technicalSkills: "85",
+      experienceMatch: "80",
+      education: "75",
+      aiInsights: `${NAME} has strong backend experience`,
+      status: "completed",
+      evidence: null,
+    } as Assessment;
+    fake.jobDescription = {
+      id: "job-1",
+      title: "Backend Engineer",
+      position: "Backend Engineer",
+      description: "Build and run our payment APIs",
+      responsibilities: "Design services, review code, mentor engineers",
+      requirements: "5+ years of backend development",
+      requiredExperience: "5 years",
+      skills: "TypeScript, PostgreSQL, Kubernetes",
+      experienceLevel: "Senior",
+      notes: null,
+      rubric: null,
+    } as JobDescription;
+    fake.interview = {
+      id: "interview-1",
+      candidateId: fake.candidate.id,
+      scheduledDate: "2026-11-02T10:00:00.000Z",
+      interviewType: "video",
+      status: "scheduled",
+      kit: null,
+    } as Interview;
+  });
+
+  beforeEach(() => {
+    provider = new CapturingProvider("test-model", "");
+    for (const task of TASKS) {
+      setLLMProvider(task, provider);
+    }
+  });
+
+  afterAll(() => {
+    for (const task of TASKS) {
+      setLLMProvider(task, null);
+    }
+    setEmbeddingProvider(null);
+  });
+
+  it("puts the candidate's identity in the test resume", () => {
+    for (const value of PII) {
+      expect(RESUME).toContain(value);
+    }
+  });
+
+  it("masks the candidate in resume analysis", async () => {
+    await analyzeResume(RESUME, fake.candidate.position, { candidateId: fake.candidate.id });
+
+    expect(provider.requests).toHaveLength(1);
+    expect(sentContent(provider)).toContain("Kubernetes");
+    expectNoPII(sentContent(provider));
+  });
+
+  it("masks the candidate in job fit scoring", async () => {
+    await calculateJobFitScore(fake.candidate, fake.jobDescription, RESUME);
+
+    expect(provider.requests).toHaveLength(1);
+    expectNoPII(sentContent(provider));
+  });
+
+  it("masks the candidate in resume parsing", async () => {
+    await parseResume(RESUME, { candidateId: fake.candidate.id });
+
+    expect(provider.requests).toHaveLength(1);
+    expectNoPII(sentContent(provider));
+  });
+
+  it("masks the candidate in evaluation", async () => {
+    await evaluateCandidate(fake.candidate, fake.assessment, toJobProfile(fake.jobDescription));
+
+    expect(provider.requests).toHaveLength(1);
+    expectNoPII(sentContent(provider));
+  });
+
+  it("masks the candidate in interview kit generation", async () => {
+    await generateInterviewKit(fake.interview.id, { jobDescriptionId: fake.jobDescription.id, forceRefresh: false });
+
+    expect(provider.requests).toHaveLength(1);
+    expectNoPII(sentContent(provider));
+  });
+
+  it("masks the candidate in texts sent to a hosted embedding provider", async () => {
+    const embeddings = new CapturingEmbeddingProvider();
+    setEmbeddingProvider(embeddings);
+
+    const similarities = await getCandidateJobSimilarities([fake.jobDescription], [fake.candidate.id]);
+
+    expect(similarities.get(fake.candidate.id)?.has(fake.jobDescription.id)).toBe(true);
+    expect(embeddings.texts.join("\n")).toContain("Kubernetes");
+    expectNoPII(embeddings.texts.join("\n"));
+  });
+
+  it("restores placeholders in the returned analysis and evidence", async () => {
+    // Answers with the placeholders it was sent, as a model quoting the resume would
+    class EchoingProvider extends CapturingProvider {
+      async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+        const completion = await super.complete(request);
+        const sent = request.messages.map(message => message.content).join("\n");
+        const name = sent.match(/\[NAME_\d+\]/)![0];
+        const email = sent.match(/\[EMAIL_\d+\]/)![0];
+        return {
+          ...completion,
+          content: JSON.stringify({
+            ...JSON.parse(completion.content),
+            analysis: `${name} is a strong match`,
+            evidence: [{ score: "skillMatch", requirement: "Kubernetes", status: "met", quote: `Email: ${email}` }],
+          }),
+        };
+      }
+    }
+    const echoing = new EchoingProvider("test-model", "");
+    setLLMProvider("job_fit", echoing);
+
+    const result = await calculateJobFitScore(fake.candidate, fake.jobDescription, RESUME, { forceRefresh: true });
+
+    expectNoPII(sentContent(echoing));
+    expect(result.analysis).toBe(`${NAME} is a strong match`);
+    expect(result.evidence[0].quote).toBe(`Email: ${EMAIL}`);
+    expect(result.evidence[0].start).toBe(RESUME.indexOf(`Email: ${EMAIL}`));
+  });
+
+  it("leaves the candidate's e-mail and phone out of the job fit prompt", () => {
+    const values = Object.values(jobFitVariables(fake.candidate, fake.jobDescription, "")).join("\n");
+
+    expect(values).not.toContain(EMAIL);
+    expect(values).not.toContain(PHONE);
+  });
+});
+
+describe("phone rule", () => {
+  const redact = (text: string) => createPIIRedactor()!.redact(text);
+
+  it.each([
+    "+971 50 123 4567",
+    "00971 50 123 4567",
+    "+44 (0)20 7946 0958",
+    "050-123-4567",
+    "(555) 123-4567",
+    "020 7946 0958",
+  ])("masks %s", phone => {
+    expect(redact(`Phone: ${phone}`)).toBe("Phone: [PHONE_1]");
+  });
+
+  it.each([
+    "2015.03 - 2016.12",
+    "03/2015 - 12/2016",
+    "01.02.2015 - 31.12.2016",
+    "2015 2016 2017",
+  ])("keeps the work-history dates %s", dates => {
+    expect(redact(`Engineer, Acme ${dates}`)).toBe(`Engineer, Acme ${dates}`);
+  });
+
+  it.each(["978-3-16-148410-0", "0-306-40615-2"])("keeps the ISBN %s", isbn => {
+    expect(redact(`ISBN ${isbn}`)).toBe(`ISBN ${isbn}`);
+  });
+});
+
+describe("built-in rules", () => {
+  const redact = (text: string) => createPIIRedactor()!.redact(text);
+
+  it.each([
+    ["Address: 12 Palm Street, Dubai Marina", "Address: [ADDRESS_1]"],
+    ["Lives at 221B Baker Street, London", "Lives at [ADDRESS_1], London"],
+    ["P.O. Box 12345, Abu Dhabi", "[ADDRESS_1], Abu Dhabi"],
+  ])("masks the address in %s", (text, expected) => {
+    expect(redact(text)).toBe(expected);
+  });
+
+  it.each([
+    ["Date of birth: 12/05/1990", "Date of birth: [DATE_OF_BIRTH_1]"],
+    ["DOB 3 March 1991", "DOB [DATE_OF_BIRTH_1]"],
+    ["تاريخ الميلاد: 1990-05-12", "تاريخ الميلاد: [DATE_OF_BIRTH_1]"],
+  ])("masks the date of birth in %s", (text, expected) => {
+    expect(redact(text)).toBe(expected);
+  });
+
+  it.each([
+    ["SSN 123-45-6789", "SSN [NATIONAL_ID_1]"],
+    ["Emirates ID: 784-1990-1234567-1", "Emirates ID: [NATIONAL_ID_1]"],
+    ["Passport No: N1234567", "Passport No: [NATIONAL_ID_1]"],
+  ])("masks the national id in %s", (text, expected) => {
+    expect(redact(text)).toBe(expected);
+  });
+
+  it.each([
+    ["![Layla at the beach](photo.jpg)", "![[PHOTO_1]](photo.jpg)"],
+    ['<img src="me.png" alt="Portrait of Layla">', '<img src="me.png" alt="[PHOTO_1]">'],
+  ])("masks the photo description in %s", (text, expected) => {
+    expect(redact(text)).toBe(expected);
+  });
+
+  it("gives a repeated value the same placeholder and restores every one", () => {
+    const redactor = createPIIRedactor({ fullName: NAME })!;
+    const redacted = redactor.redact(`${NAME} (${EMAIL}); contact ${EMAIL} or Layla`);
+
+    expect(redacted).toBe("[NAME_1] ([EMAIL_1]); contact [EMAIL_1] or [NAME_2]");
+    expect(redactor.restore(redacted)).toBe(`${NAME} (${EMAIL}); contact ${EMAIL} or Layla`);
+    expect(redactor.restoreDeep({ insights: ["[NAME_1] fits"], evidence: [{ quote: "[EMAIL_1]", score: 80 }] }))
+      .toEqual({ insights: [`${NAME} fits`], evidence: [{ quote: EMAIL, score: 80 }] });
+  });
+});
+
+describe("redaction settings", () => {
+  // The settings are read when the environment module loads, so each case gets fresh modules
+  async function loadRedactor(settings: Record<string, string>) {
+    for (const [name, value] of Object.entries(settings)) {
+      vi.stubEnv(name, value);
+    }
+    vi.resetModules();
+    return (await import("./piiRedaction")).createPIIRedactor;
+  }
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("applies only the rules listed in PII_REDACTION_RULES", async () => {
+    const create = await loadRedactor({ PII_REDACTION_RULES: "email" });
+
+    expect(create({ fullName: NAME, phone: PHONE })!.redact(`${NAME}, ${EMAIL}, ${PHONE}`))
+      .toBe(`${NAME}, [EMAIL_1], ${PHONE}`);
+  });
+
+  it("adds the patterns in PII_REDACTION_PATTERNS", async () => {
+    const create = await loadRedactor({
+      PII_REDACTION_PATTERNS: JSON.stringify([{ name: "employee id", pattern: "EMP-\\d{5}", flags: "i" }]),
+    });
+
+    expect(create()!.redact("Badge emp-12345 and EMP-67890")).toBe("Badge [EMPLOYEE_ID_1] and [EMPLOYEE_ID_2]");
+  });
+
+  it("masks nothing when PII_REDACTION_ENABLED is false", async () => {
+    const create = await loadRedactor({ PII_REDACTION_ENABLED: "false" });
+
+    expect(create({ fullName: NAME })).toBeNull();
+  });
+});
@@ -0,0 +1,308 @@
+import env from "../config/environment";
+import { storage } from "../storage";
+import { logger } from "./logger";
+import type { LLMCallContext } from "./llmProvider";
+
+export const PII_RULE_NAMES = [
+  "email",
+  "phone",
+  "address",
+  "date_of_birth",
+  "national_id",
+  "photo_alt",
+  "name",
+] as const;
+
+export type PIIRuleName = typeof PII_RULE_NAMES[number];
+
+// Identity of the candidate a prompt is about; these exact values are masked
+// even where no generic pattern would catch them
+export interface PIISubject {
+  fullName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface RedactionRule {
+  rule: string;
+  placeholder: string; // prefix of the placeholder, e.g. EMAIL for [EMAIL_1]
+  pattern: RegExp; // must be global
+  group?: number; // capture group holding the value when the pattern also matches a label
+  accept?: (value: string) => boolean;
+  normalize?: (value: string) => string; // values normalizing alike share a placeholder
+}
+
+interface CustomPattern {
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+const PLACEHOLDER_PATTERN = /\[([A-Z][A-Z0-9_]*)_(\d+)\]/g;
+
+const DATE = String.raw`(\d{1,2}[\/.\-]\d{1,2}[\/.\-]\d{2,4}|\d{4}[\/.\-]\d{1,2}[\/.\-]\d{1,2}|\d{1,2}(?:st|nd|rd|th)?\s+[A-Za-z]{3,9}\.?,?\s+\d{4}|[A-Za-z]{3,9}\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})`;
+const STREET_SUFFIX = "Street|St|Road|Rd|Avenue|Ave|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct|Place|Pl|Square|Sq|Terrace|Highway|Hwy";
+
+const digitsOnly = (value: string) => value.replace(/\D/g, "");
+const lowerCase = (value: string) => value.toLowerCase().replace(/\s+/g, " ").trim();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const YEAR = /^(19|20)\d{2}$/;
+const DAY_OR_MONTH = /^(0?[1-9]|[12]\d|3[01])$/;
+
+// Work-history dates such as "2015.03 - 2016.12", "03/2015 - 12/2016" or "2015 2016 2017"
+function looksLikeDates(groups: string[]): boolean {
+  return groups.some(group => YEAR.test(group)) && groups.every(group => YEAR.test(group) || DAY_OR_MONTH.test(group));
+}
+
+// Hyphenated ISBN-10 or ISBN-13 with a valid check digit, e.g. "0-306-40615-2" or "978-3-16-148410-0"
+function looksLikeISBN(value: string): boolean {
+  if (!/^\d+(?:-\d+){3,4}$/.test(value)) return false;
+  const digits = digitsOnly(value).split("").map(Number);
+  if (digits.length === 10) {
+    return digits.reduce((sum, digit, index) => sum + digit * (10 - index), 0) % 11 === 0;
+  }
+  if (digits.length === 13 && /^97[89]/.test(digitsOnly(value))) {
+    return digits.reduce((sum, digit, index) => sum + digit * (index % 2 === 0 ? 1 : 3), 0) % 10 === 0;
+  }
+  return false;
+}
+
+// Phone numbers have 9-15 digits. One with a +/00 country code is taken as is;
+// without one, numbers shaped like dates or ISBNs are left alone.
+function looksLikePhone(value: string): boolean {
+  const digits = digitsOnly(value);
+  if (digits.length < 9 || digits.length > 15) return false;
+  if (/^\(?(?:\+|00)/.test(value)) return true;
+
+  const groups = value.split(/\D+/).filter(Boolean);
+  return !looksLikeDates(groups) && !looksLikeISBN(value.trim());
+}
+
+const BUILT_IN_RULES: Record<PIIRuleName, RedactionRule[]> = {
+  photo_alt: [
+    { rule: "photo_alt", placeholder: "PHOTO", pattern: /!\[([^\]\n]+)\]\([^)\n]*\)/g, group: 1 },
+    { rule: "photo_alt", placeholder: "PHOTO", pattern: /\balt\s*=\s*["']([^"'\n]+)["']/gi, group: 1 },
+  ],
+  email: [
+    { rule: "email", placeholder: "EMAIL", pattern: new RegExp(String.raw`[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}`, "gu"), normalize: lowerCase },
+  ],
+  date_of_birth: [
+    {
+      rule: "date_of_birth",
+      placeholder: "DATE_OF_BIRTH",
+      pattern: new RegExp(String.raw`(?<!\p{L})(?:date\s+of\s+birth|birth\s*date|d\.?o\.?b\.?|born(?:\s+on)?|تاريخ\s+الميلاد)\s*[:\-]?\s*${DATE}`, "giu"),
+      group: 1,
+    },
+  ],
+  national_id: [
+    { rule: "national_id", placeholder: "NATIONAL_ID", pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+    { rule: "national_id", placeholder: "NATIONAL_ID", pattern: /\b784-?\d{4}-?\d{7}-?\d\b/g },
+    {
+      rule: "national_id",
+      placeholder: "NATIONAL_ID",
+      pattern: new RegExp(String.raw`(?<!\p{L})(?:national\s+id(?:\s+(?:no|number))?|id\s+(?:no|number)|identity\s+(?:card\s+)?(?:no|number)|passport(?:\s+(?:no|number))?|social\s+security(?:\s+number)?|ssn|civil\s+id|iqama(?:\s+(?:no|number))?|emirates\s+id|رقم\s+الهوية|الرقم\s+الوطني|رقم\s+جواز\s+السفر)\.?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{4,})`, "giu"),
+      group: 1,
+      accept: value => /\d/.test(value),
+    },
+  ],
+  address: [
+    { rule: "address", placeholder: "ADDRESS", pattern: new RegExp(String.raw`(?<!\p{L})(?:home\s+address|address|العنوان)\s*:\s*([^\n]+)`, "giu"), group: 1 },
+    {
+      rule: "address",
+      placeholder: "ADDRESS",
+      pattern: new RegExp(String.raw`\b\d{1,5}[A-Za-z]?\s+(?:[A-Z][\p{L}.'-]*\s+){1,4}(?:${STREET_SUFFIX})\b\.?(?:,?\s*(?:Apt|Suite|Unit|#)\.?\s*[\w-]+)?`, "gu"),
+    },
+    { rule: "address", placeholder: "ADDRESS", pattern: /\bP\.?\s?O\.?\s+Box\s+\d+/gi },
+  ],
+  phone: [
+    {
+      rule: "phone",
+      placeholder: "PHONE",
+      pattern: /(?<![\w+])\+?\(?\d[\d \t().-]{7,}\d(?!\w)/g,
+      accept: looksLikePhone,
+      normalize: digitsOnly,
+    },
+  ],
+  name: [],
+};
+
+// Order matters: labelled values and e-mail addresses go before the generic
+// phone pattern that would otherwise split them
+const RULE_ORDER: PIIRuleName[] = ["photo_alt", "email", "date_of_birth", "national_id", "address", "phone", "name"];
+
+let customRules: RedactionRule[] | null = null;
+
+function getCustomRules(): RedactionRule[] {
+  if (!customRules) {
+    customRules = [];
+    if (env.PII_REDACTION_PATTERNS) {
+      try {
+        const patterns: CustomPattern[] = JSON.parse(env.PII_REDACTION_PATTERNS);
+        customRules = patterns.map(({ name, pattern, flags }) => ({
+          rule: name,
+          placeholder: name.toUpperCase().replace(/[^A-Z0-9]+/g, "_"),
+          pattern: new RegExp(pattern, (flags ?? "").includes("g") ? flags : `${flags ?? ""}g`),
+        }));
+      } catch (error) {
+        logger.warn("Ignoring invalid PII_REDACTION_PATTERNS", { error: error instanceof Error ? error.message : error });
+      }
+    }
+  }
+  return customRules;
+}
+
+export function getEnabledPIIRules(): PIIRuleName[] {
+  const configured = env.PII_REDACTION_RULES
+    .split(",")
+    .map(rule => rule.trim())
+    .filter(Boolean);
+  if (configured.length === 0) return [...PII_RULE_NAMES];
+
+  const unknown = configured.filter(rule => !PII_RULE_NAMES.includes(rule as PIIRuleName));
+  if (unknown.length > 0) {
+    logger.warn("Ignoring unknown PII redaction rules", { rules: unknown });
+  }
+  return PII_RULE_NAMES.filter(rule => configured.includes(rule));
+}
+
+/**
+ * Rules matching the subject's own name, e-mail and phone number as written in
+ * the candidate record
+ */
+function subjectRules(subject: PIISubject, enabled: PIIRuleName[]): RedactionRule[] {
+  const rules: RedactionRule[] = [];
+
+  if (enabled.includes("email") && subject.email?.trim()) {
+    rules.push({ rule: "email", placeholder: "EMAIL", pattern: new RegExp(escapeRegExp(subject.email.trim()), "gi"), normalize: lowerCase });
+  }
+
+  const phoneDigits = digitsOnly(subject.phone ?? "");
+  if (enabled.includes("phone") && phoneDigits.length >= 6) {
+    // Same digits with any separators, with or without the leading +
+    const pattern = phoneDigits.split("").join(String.raw`[ \t().-]*`);
+    rules.push({ rule: "phone", placeholder: "PHONE", pattern: new RegExp(String.raw`(?<!\d)\+?${pattern}(?!\d)`, "g"), normalize: digitsOnly });
+  }
+
+  const nameParts = (subject.fullName ?? "").trim().split(/\s+/).filter(Boolean);
+  if (enabled.includes("name") && nameParts.length > 0) {
+    const boundary = (source: string) => new RegExp(String.raw`(?<![\p{L}\p{N}])${source}(?![\p{L}\p{N}])`, "giu");
+    rules.push({ rule: "name", placeholder: "NAME", pattern: boundary(nameParts.map(escapeRegExp).join(String.raw`\s+`)), normalize: lowerCase });
+    // Single name parts, skipping initials and particles such as "Al" or "de"
+    for (const part of nameParts.filter(part => part.replace(new RegExp(String.raw`\P{L}`, "gu"), "").length >= 3)) {
+      rules.push({ rule: "name", placeholder: "NAME", pattern: boundary(escapeRegExp(part)), normalize: lowerCase });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Masks personal data with placeholders such as [EMAIL_1] and maps them back.
+ * The same value always gets the same placeholder, and numbering follows the
+ * order of appearance, so identical input redacts to identical output.
+ */
+export class PIIRedactor {
+  private placeholders = new Map<string, string>();
+  private originals = new Map<string, string>();
+  private counters = new Map<string, number>();
+  private counts: Record<string, number> = {};
+
+  constructor(private readonly rules: RedactionRule[]) {}
+
+  private placeholderFor(rule: RedactionRule, value: string): string {
+    const key = `${rule.placeholder}:${(rule.normalize ?? lowerCase)(value)}`;
+    let placeholder = this.placeholders.get(key);
+    if (!placeholder) {
+      const next = (this.counters.get(rule.placeholder) ?? 0) + 1;
+      this.counters.set(rule.placeholder, next);
+      placeholder = `[${rule.placeholder}_${next}]`;
+      this.placeholders.set(key, placeholder);
+      this.originals.set(placeholder, value);
+    }
+    this.counts[rule.rule] = (this.counts[rule.rule] ?? 0) + 1;
+    return placeholder;
+  }
+
+  redact(text: string): string {
+    return this.rules.reduce((current, rule) => current.replace(rule.pattern, (match, ...args) => {
+      const value: string | undefined = rule.group ? args[rule.group - 1] : match;
+      if (!value?.trim() || (rule.accept && !rule.accept(value))) return match;
+
+      const trimmed = value.trim();
+      const placeholder = this.placeholderFor(rule, trimmed);
+      const index = match.lastIndexOf(trimmed);
+      return match.slice(0, index) + placeholder + match.slice(index + trimmed.length);
+    }), text);
+  }
+
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.originals.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Restore every string inside a parsed model response
+   */
+  restoreDeep<T>(value: T): T {
+    if (typeof value === "string") return this.restore(value) as T;
+    if (Array.isArray(value)) return value.map(item => this.restoreDeep(item)) as T;
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.restoreDeep(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  // Number of values masked per rule so far
+  get redactionCounts(): Record<string, number> {
+    return { ...this.counts };
+  }
+}
+
+/**
+ * Build a redactor with the configured rules, or null when redaction is turned
+ * off with PII_REDACTION_ENABLED=false
+ */
+export function createPIIRedactor(subject: PIISubject = {}): PIIRedactor | null {
+  if (!env.PII_REDACTION_ENABLED) return null;
+
+  const enabled = getEnabledPIIRules();
+  // The subject's name goes last so it is not masked inside an e-mail address
+  const subjectSpecific = subjectRules(subject, enabled);
+  const rules = [
+    ...getCustomRules(),
+    ...subjectSpecific.filter(rule => rule.rule !== "name"),
+    ...RULE_ORDER.filter(rule => enabled.includes(rule)).flatMap(rule => BUILT_IN_RULES[rule]),
+    ...subjectSpecific.filter(rule => rule.rule === "name"),
+  ];
+  return new PIIRedactor(rules);
+}
+
+/**
+ * Redactor for an AI call, masking the identity of the candidate the call is
+ * about on top of the generic patterns
+ */
+export async function createPIIRedactorForContext(context?: LLMCallContext): Promise<PIIRedactor | null> {
+  if (!env.PII_REDACTION_ENABLED) return null;
+
+  let subject: PIISubject = {};
+  if (context?.candidateId) {
+    try {
+      const candidate = await storage.getCandidateById(context.candidateId);
+      if (candidate) {
+        subject = { fullName: candidate.fullName, email: candidate.email, phone: candidate.phone };
+      }
+    } catch (error) {
+      logger.warn("Could not load candidate for PII redaction, using generic rules only", {
+        candidateId: context.candidateId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return createPIIRedactor(subject);
+}
@@ -0,0 +1,714 @@
+import { storage } from "../storage";
+import { logger } from "./logger";
+import { AppError, ValidationError } from "./errorHandler";
+import { completeWithSchema, type LLMMessage } from "./llmProvider";
+import {
+  evaluationResponseSchema,
+  interviewKitResponseSchema,
+  jobFitResponseSchema,
+  resumeAnalysisResponseSchema,
+  resumeParsingResponseSchema,
+} from "./llmSchemas";
+import { canonicalJobSkills, getJobProfileById, toJobProfile, type JobProfile } from "./jobProfileService";
+import { getSkillTaxonomy } from "./skillTaxonomyService";
+import type { SkillTaxonomy } from "./skillTaxonomy";
+import { DEFAULT_SCORING_RUBRIC, formatRubric, resolveRubric } from "./rubricService";
+import { detectLanguage, languageName } from "./languageService";
+import { UI_LANGUAGES, type PromptTask, type UiLanguage } from "@shared/constants";
+import type { Assessment, Candidate, CandidateProfile, JobDescription, PromptTemplate, ScoringCriterion } from "@shared/schema";
+
+export interface PromptTemplateText {
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+export interface RenderedPrompt {
+  templateId: string;
+  version: number;
+  messages: LLMMessage[];
+}
+
+export interface PromptPreviewRequest {
+  task: PromptTask;
+  candidateId: string;
+  jobDescriptionId?: string | null;
+  templateId?: string | null;
+  systemPrompt?: string;
+  userPrompt?: string;
+  execute?: boolean;
+  outputLanguage?: UiLanguage;
+}
+
+export interface PromptPreview {
+  task: PromptTask;
+  variables: Record<string, string>;
+  messages: LLMMessage[];
+  output?: unknown;
+  rawResponses?: string[];
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+// Variables each task can reference, with the description shown in the admin editor
+export const PROMPT_VARIABLES: Record<PromptTask, Record<string, string>> = {
+  resume_analysis: {
+    position: "Position the candidate applied for",
+    jobRubric: "Scoring rubric of the position: criterion ids, weights, must-have flags and descriptions",
+    resumeText: "Text extracted from the resume",
+    resumeLanguage: "Language the resume is written in, e.g. Arabic",
+    outputLanguage: "Language the insights are written in (the recruiter's UI language)",
+  },
+  resume_parsing: {
+    resumeText: "Text extracted from the resume",
+    resumeLanguage: "Language the resume is written in, e.g. Arabic",
+  },
+  job_fit: {
+    jobPosition: "Job position",
+    jobResponsibilities: "Job responsibilities",
+    jobRequiredExperience: "Required experience",
+    jobSkills: "Required skills",
+    jobNotes: "Additional notes on the job description",
+    jobRubric: "Scoring rubric: criterion ids, weights, must-have flags and descriptions",
+    candidateName: "Candidate full name",
+    candidatePosition: "Position the candidate applied for",
+    candidateProfile: "Work history, education, skills, languages and certifications parsed from the resume",
+    cvContent: "Text extracted from the resume",
+    resumeLanguage: "Language the resume is written in, e.g. Arabic",
+    outputLanguage: "Language the analysis is written in (the recruiter's UI language)",
+  },
+  evaluation: {
+    jobTitle: "Job title",
+    jobDescription: "Job description",
+    jobRequirements: "Job requirements",
+    jobSkills: "Required skills (comma separated)",
+    jobExperienceLevel: "Experience level",
+    jobRubric: "Scoring rubric: criterion ids, weights, must-have flags and descriptions",
+    candidateName: "Candidate full name",
+    candidatePosition: "Position the candidate applied for",
+    resumeContent: "Text extracted from the resume",
+    assessmentOverallScore: "Assessment overall score",
+    assessmentTechnicalSkills: "Assessment technical skills score",
+    assessmentExperienceMatch: "Assessment experience match score",
+    assessmentEducation: "Assessment education score",
+    assessmentInsights: "AI insights from the assessment",
+    outputLanguage: "Language the recommendation is written in (the recruiter's UI language)",
+  },
+  interview_kit: {
+    interviewType: "Interview format: phone, video or in-person",
+    jobPosition: "Job position",
+    jobResponsibilities: "Job responsibilities",
+    jobRequiredExperience: "Required experience",
+    jobSkills: "Required skills",
+    jobRubric: "Scoring rubric: criterion ids, weights, must-have flags and descriptions",
+    candidateName: "Candidate full name",
+    candidatePosition: "Position the candidate applied for",
+    candidateProfile: "Work history, education, skills, languages and certifications parsed from the resume",
+    cvContent: "Text extracted from the resume",
+    resumeLanguage: "Language the resume is written in, e.g. Arabic",
+    assessmentInsights: "AI insights from the candidate's current assessment",
+    missingSkills: "Skills and requirements the evaluation and assessment found missing, one per line",
+    outputLanguage: "Language the kit is written in (the recruiter's UI language)",
+  },
+};
+
+// Built-in prompts, saved as version 1 of each task the first time it runs
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTask, PromptTemplateText> = {
+  resume_analysis: {
+    systemPrompt: "You are an expert HR recruiter and technical interviewer. Analyze resumes objectively and provide detailed assessments.",
+    userPrompt: `Analyze this resume for the position of "{{position}}".
+Provide a detailed assessment in JSON format with the following structure:
+{
+  "overallScore": number (0-100),
+  "technicalSkills": number (0-100),
+  "experienceMatch": number (0-100),
+  "education": number (0-100),
+  "insights": ["insight1", "insight2", "insight3", "insight4"],
+  "evidence": [
+    {
+      "score": "technicalSkills" | "experienceMatch" | "education",
+      "requirement": "requirement of the position this evidence relates to",
+      "status": "met" | "missing",
+      "quote": "exact text copied from the resume, or null when the requirement is missing"
+    }
+  ],
+  "criteriaScores": [
+    { "criterion": "criterion id from the scoring rubric", "score": number (0-100), "rationale": "one sentence" }
+  ]
+}
+
+Scoring rubric:
+{{jobRubric}}
+
+Resume content ({{resumeLanguage}}):
+{{resumeText}}
+
+Consider:
+- Technical skills relevant to the position
+- Years of experience and relevance
+- Educational background
+- Project experience and achievements
+- Overall fit for the role
+
+Provide 4 specific insights about the candidate's strengths and recommendations.
+Back every sub-score with evidence: for each requirement you considered, quote the resume passage that satisfies it word for word (a short phrase or sentence), or mark it as missing with a null quote.
+Score every criterion of the scoring rubric, labelled with its id. The overall score is computed from these and the weights, so score each criterion on its own; a must-have criterion the resume does not satisfy should score below 50.
+
+Assess the resume in the language it is written in; do not score a candidate lower because the resume is not in English.
+Write the insights and requirements in {{outputLanguage}}. Keep JSON keys and the score and status values in English, and copy evidence quotes exactly as they appear in the resume, without translating them.`,
+  },
+  resume_parsing: {
+    systemPrompt: "You are an expert resume parser. Extract structured data from resumes accurately and never invent information that is not in the resume.",
+    userPrompt: `Extract the structured profile from this resume.
+
+Respond with JSON in this exact format:
+{
+  "workHistory": [{ "employer": string, "title": string, "location": string | null, "startDate": string | null, "endDate": string | null, "isCurrent": boolean, "description": string | null }],
+  "education": [{ "institution": string, "degree": string | null, "fieldOfStudy": string | null, "startDate": string | null, "endDate": string | null }],
+  "skills": [{ "name": string, "category": string | null }],
+  "languages": [{ "language": string, "proficiency": "native" | "fluent" | "professional" | "intermediate" | "basic" | "unknown" }],
+  "certifications": [{ "name": string, "issuer": string | null, "issuedDate": string | null, "expiresDate": string | null }]
+}
+
+Rules:
+- List work history and education most recent first
+- Write dates as YYYY-MM, or YYYY when the month is not given
+- Only include information stated in the resume and use null for anything missing
+- Name each skill once, with its common spelling (e.g. "JavaScript" rather than "JS")
+- Use "unknown" proficiency when a language is listed without a level
+- The resume is written in {{resumeLanguage}}: keep employers, titles, institutions and descriptions as written, but name skills and languages in English (e.g. "Arabic" rather than "العربية") and write dates with Western digits
+
+Resume content:
+{{resumeText}}`,
+  },
+  job_fit: {
+    systemPrompt: `You are an expert AI recruiter specializing in candidate-job matching. Your task is to analyze how well a candidate fits a specific job position based on their CV and application details compared to the job requirements.
+
+Provide a comprehensive analysis with specific scores and detailed reasoning. Be objective and thorough in your assessment.
+
+Respond with JSON in this exact format:
+{
+  "fitScore": number (0-100),
+  "skillMatch": number (0-100),
+  "experienceAlignment": number (0-100),
+  "languageMatch": number (0-100),
+  "analysis": "Detailed explanation of the analysis including strengths, gaps, and recommendations",
+  "evidence": [
+    {
+      "score": "skillMatch" | "experienceAlignment" | "languageMatch",
+      "requirement": "job requirement this evidence relates to",
+      "status": "met" | "missing",
+      "quote": "exact text copied from the CV, or null when the requirement is missing"
+    }
+  ],
+  "criteriaScores": [
+    { "criterion": "criterion id from the scoring rubric", "score": number (0-100), "rationale": "one sentence" }
+  ]
+}`,
+    userPrompt: `Please analyze this candidate for the following position:
+
+**Position:** {{jobPosition}}
+
+**Job Requirements:**
+- Responsibilities: {{jobResponsibilities}}
+- Required Experience: {{jobRequiredExperience}}
+- Required Skills: {{jobSkills}}
+- Additional Notes: {{jobNotes}}
+
+**Scoring Rubric:**
+{{jobRubric}}
+
+**Candidate Information:**
+- Name: {{candidateName}}
+- Position Applied For: {{candidatePosition}}
+
+**Structured Profile (parsed from the CV):**
+{{candidateProfile}}
+
+**CV Content ({{resumeLanguage}}):**
+{{cvContent}}
+
+Please provide:
+1. **Overall Fit Score (0-100)**: How well does this candidate match the position overall?
+2. **Skill Match (0-100)**: How well do their technical and soft skills align with requirements?
+3. **Experience Alignment (0-100)**: How relevant and sufficient is their experience?
+4. **Language Match (0-100)**: How well do their language skills meet requirements?
+5. **Detailed Analysis**: Comprehensive explanation of strengths, weaknesses, and fit assessment.
+6. **Evidence**: For each job requirement, the CV passage that satisfies it quoted word for word, or the requirement marked as missing with a null quote.
+7. **Criteria Scores (0-100)**: One score for every criterion of the scoring rubric, labelled with its id. The overall fit score is computed from these and the weights, so score each criterion on its own; a must-have criterion the CV does not satisfy should score below 50.
+
+Consider factors like:
+- Technical skill overlap
+- Years of experience vs requirements
+- Educational background relevance
+- Language proficiency for the role
+- Industry experience
+- Leadership/management experience if required
+- Cultural fit indicators
+- Growth potential
+
+Assess the CV in the language it is written in; do not score a candidate lower because the CV is not in English.
+Write the analysis and requirements in {{outputLanguage}}. Keep JSON keys and the score and status values in English, and copy evidence quotes exactly as they appear in the CV, without translating them.`,
+  },
+  evaluation: {
+    systemPrompt: "You are an expert HR recruiter and talent evaluator. You have access to comprehensive AI assessment data for candidates. Use this quantitative data heavily in your evaluation and provide realistic, data-driven recommendations.",
+    userPrompt: `Analyze this candidate's profile against the job requirements and provide a detailed evaluation:
+
+JOB DESCRIPTION:
+Title: {{jobTitle}}
+Description: {{jobDescription}}
+Requirements: {{jobRequirements}}
+Required Skills: {{jobSkills}}
+Experience Level: {{jobExperienceLevel}}
+
+SCORING RUBRIC:
+{{jobRubric}}
+
+CANDIDATE PROFILE:
+Name: {{candidateName}}
+Position Applied: {{candidatePosition}}
+Resume Content: {{resumeContent}}
+
+ASSESSMENT RESULTS:
+Overall Score: {{assessmentOverallScore}}%
+Technical Skills: {{assessmentTechnicalSkills}}%
+Experience Match: {{assessmentExperienceMatch}}%
+Education Score: {{assessmentEducation}}%
+AI Insights: {{assessmentInsights}}
+
+Please analyze how well this candidate fits the job requirements and provide the following in JSON format:
+{
+"fitScore": number (0-100, weight the assessment scores heavily),
+"matchingSkills": ["skill1", "skill2"],
+"missingSkills": ["skill1", "skill2"],
+"experienceMatch": number (0-100, based on assessment and job requirements),
+"educationMatch": number (0-100, based on assessment education score),
+"overallRecommendation": "detailed recommendation string considering assessment results",
+"criteriaScores": [
+  { "criterion": "criterion id from the scoring rubric", "score": number (0-100), "rationale": "one sentence" }
+]
+}
+
+Consider:
+1. Use the assessment scores as primary indicators of candidate quality
+2. Match the candidate's demonstrated skills (from assessment) with job requirements
+3. Factor in the AI insights from the assessment
+4. Provide realistic recommendations based on quantitative assessment data
+5. Be more positive if assessment scores are high, more cautious if scores are low
+6. Score every rubric criterion on its own, labelled with its id; the final fit score is computed from these and the weights, and a must-have criterion the candidate does not satisfy should score below 50
+
+Write the overallRecommendation in {{outputLanguage}}; keep JSON keys in English.`,
+  },
+  interview_kit: {
+    systemPrompt: "You are an experienced hiring manager and interview coach. You prepare structured, fair, job-related interview questions tailored to one candidate, and describe what a strong answer looks like so any interviewer can assess it consistently.",
+    userPrompt: `Prepare a {{interviewType}} interview kit for this candidate.
+
+JOB:
+Position: {{jobPosition}}
+Responsibilities: {{jobResponsibilities}}
+Required Experience: {{jobRequiredExperience}}
+Required Skills: {{jobSkills}}
+
+SCORING RUBRIC:
+{{jobRubric}}
+
+CANDIDATE:
+Name: {{candidateName}}
+Position Applied: {{candidatePosition}}
+Structured Profile:
+{{candidateProfile}}
+
+Assessment Insights:
+{{assessmentInsights}}
+
+Gaps to probe (missing skills and requirements):
+{{missingSkills}}
+
+Resume ({{resumeLanguage}}):
+{{cvContent}}
+
+Respond with JSON in this exact format:
+{
+  "summary": "two or three sentences on what this interview should establish",
+  "sections": [
+    {
+      "competency": "competency name, e.g. a rubric criterion or skill area",
+      "questions": [
+        {
+          "question": "the question to ask",
+          "goodAnswer": "what a strong answer covers",
+          "targetsGap": "the gap from the list above this question probes, or null",
+          "followUps": ["optional follow-up question"]
+        }
+      ]
+    }
+  ]
+}
+
+Rules:
+- Group 8 to 12 questions into 3 to 5 competencies drawn from the job and its rubric
+- Ask at least one question for every gap listed, and label it with that gap word for word
+- Refer to specific experience from the resume so the questions cannot be answered generically
+- Only ask job-related questions; never ask about age, family, religion, nationality, health or other protected characteristics
+
+Write the kit in {{outputLanguage}}; keep JSON keys in English and copy the gaps exactly as listed.`,
+  },
+};
+
+/**
+ * List the distinct {{variable}} names used in the given prompt texts
+ */
+export function extractPromptVariables(...texts: string[]): string[] {
+  const variables = new Set<string>();
+  for (const text of texts) {
+    for (const match of Array.from(text.matchAll(VARIABLE_PATTERN))) {
+      variables.add(match[1]);
+    }
+  }
+  return Array.from(variables);
+}
+
+/**
+ * Check a template only references variables its task provides and return them
+ */
+export function validatePromptTemplate(task: PromptTask, template: PromptTemplateText): string[] {
+  const variables = extractPromptVariables(template.systemPrompt, template.userPrompt);
+  const unknown = variables.filter(name => !(name in PROMPT_VARIABLES[task]));
+
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Unknown variable(s) for ${task}: ${unknown.map(name => `{{${name}}}`).join(', ')}`
+    );
+  }
+
+  return variables;
+}
+
+export function renderPrompt(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (_match, name: string) => values[name] ?? "");
+}
+
+function renderMessages(template: PromptTemplateText, values: Record<string, string>): LLMMessage[] {
+  return [
+    { role: "system", content: renderPrompt(template.systemPrompt, values) },
+    { role: "user", content: renderPrompt(template.userPrompt, values) },
+  ];
+}
+
+export function resumeAnalysisVariables(
+  resumeText: string,
+  position: string,
+  outputLanguage: UiLanguage = UI_LANGUAGES.EN,
+  rubric: ScoringCriterion[] = DEFAULT_SCORING_RUBRIC
+): Record<string, string> {
+  return {
+    position,
+    jobRubric: formatRubric(rubric),
+    resumeText,
+    resumeLanguage: languageName(detectLanguage(resumeText).language),
+    outputLanguage: languageName(outputLanguage),
+  };
+}
+
+export function resumeParsingVariables(resumeText: string): Record<string, string> {
+  return { resumeText, resumeLanguage: languageName(detectLanguage(resumeText).language) };
+}
+
+function formatPeriod(startDate?: string | null, endDate?: string | null, isCurrent?: boolean): string {
+  if (!startDate && !endDate && !isCurrent) return "";
+  return ` (${startDate || "?"} - ${isCurrent ? "present" : endDate || "?"})`;
+}
+
+/**
+ * Plain-text rendering of a parsed profile for prompts
+ */
+export function formatCandidateProfile(profile?: CandidateProfile | null): string {
+  if (!profile?.parsedAt) return "Not available";
+
+  const lines: string[] = [];
+  if (profile.workHistory.length > 0) {
+    lines.push("Work history:", ...profile.workHistory.map(job =>
+      `- ${job.title} at ${job.employer}${formatPeriod(job.startDate, job.endDate, job.isCurrent)}`
+    ));
+  }
+  if (profile.education.length > 0) {
+    lines.push("Education:", ...profile.education.map(entry =>
+      `- ${[entry.degree, entry.fieldOfStudy].filter(Boolean).join(", ") || "Studies"} at ${entry.institution}${formatPeriod(entry.startDate, entry.endDate)}`
+    ));
+  }
+  if (profile.skills.length > 0) {
+    lines.push(`Skills: ${profile.skills.map(skill => skill.name).join(", ")}`);
+  }
+  if (profile.languages.length > 0) {
+    lines.push(`Languages: ${profile.languages.map(entry => `${entry.language} (${entry.proficiency})`).join(", ")}`);
+  }
+  if (profile.certifications.length > 0) {
+    lines.push(`Certifications: ${profile.certifications.map(cert => cert.issuer ? `${cert.name} (${cert.issuer})` : cert.name).join(", ")}`);
+  }
+
+  return lines.length > 0 ? lines.join("\n") : "Not available";
+}
+
+export function jobFitVariables(
+  candidate: Candidate & { profile?: CandidateProfile | null },
+  jobDescription: JobDescription,
+  cvContent: string,
+  outputLanguage: UiLanguage = UI_LANGUAGES.EN,
+  taxonomy?: SkillTaxonomy
+): Record<string, string> {
+  return {
+    jobPosition: jobDescription.position,
+    jobResponsibilities: jobDescription.responsibilities || "Not specified",
+    jobRequiredExperience: jobDescription.requiredExperience || "Not specified",
+    jobSkills: canonicalJobSkills(jobDescription, taxonomy).join(", ") || "Not specified",
+    jobNotes: jobDescription.notes || "None provided",
+    jobRubric: formatRubric(resolveRubric(jobDescription)),
+    candidateName: candidate.fullName,
+    candidatePosition: candidate.position,
+    candidateProfile: formatCandidateProfile(candidate.profile),
+    cvContent: cvContent || "CV content not available",
+    resumeLanguage: languageName(detectLanguage(cvContent).language),
+    outputLanguage: languageName(outputLanguage),
+  };
+}
+
+export function evaluationVariables(
+  candidate: Candidate,
+  assessment: Assessment,
+  jobDesc: JobProfile,
+  outputLanguage: UiLanguage = UI_LANGUAGES.EN
+): Record<string, string> {
+  return {
+    jobTitle: jobDesc.title,
+    jobDescription: jobDesc.description,
+    jobRequirements: jobDesc.requirements,
+    jobSkills: jobDesc.skills.join(", "),
+    jobExperienceLevel: jobDesc.experienceLevel,
+    jobRubric: formatRubric(jobDesc.rubric),
+    candidateName: candidate.fullName,
+    candidatePosition: candidate.position,
+    resumeContent: candidate.resumeSummary || "No resume content available",
+    assessmentOverallScore: String(assessment.overallScore ?? ""),
+    assessmentTechnicalSkills: String(assessment.technicalSkills ?? ""),
+    assessmentExperienceMatch: String(assessment.experienceMatch ?? ""),
+    assessmentEducation: String(assessment.education ?? ""),
+    assessmentInsights: assessment.aiInsights || "No insights available",
+    outputLanguage: languageName(outputLanguage),
+  };
+}
+
+export function interviewKitVariables(
+  candidate: Candidate & { profile?: CandidateProfile | null },
+  jobDescription: JobDescription | null,
+  assessment: Assessment | null | undefined,
+  gaps: string[],
+  interviewType: string,
+  outputLanguage: UiLanguage = UI_LANGUAGES.EN,
+  taxonomy?: SkillTaxonomy
+): Record<string, string> {
+  const cvContent = candidate.resumeSummary || "";
+  return {
+    interviewType,
+    jobPosition: jobDescription?.position || candidate.position,
+    jobResponsibilities: jobDescription?.responsibilities || "Not specified",
+    jobRequiredExperience: jobDescription?.requiredExperience || "Not specified",
+    jobSkills: (jobDescription && canonicalJobSkills(jobDescription, taxonomy).join(", ")) || "Not specified",
+    jobRubric: jobDescription ? formatRubric(resolveRubric(jobDescription)) : "Not specified",
+    candidateName: candidate.fullName,
+    candidatePosition: candidate.position,
+    candidateProfile: formatCandidateProfile(candidate.profile),
+    cvContent: cvContent || "CV content not available",
+    resumeLanguage: languageName(detectLanguage(cvContent).language),
+    assessmentInsights: assessment?.aiInsights || "No insights available",
+    missingSkills: gaps.length > 0 ? gaps.map(gap => `- ${gap}`).join("\n") : "None identified",
+    outputLanguage: languageName(outputLanguage),
+  };
+}
+
+const BUILT_IN_NOTES = "Built-in default";
+
+function isOutdatedBuiltIn(template: PromptTemplate, task: PromptTask): boolean {
+  const defaults = DEFAULT_PROMPT_TEMPLATES[task];
+  return !template.createdBy
+    && template.notes === BUILT_IN_NOTES
+    && (template.systemPrompt !== defaults.systemPrompt || template.userPrompt !== defaults.userPrompt);
+}
+
+/**
+ * Get the active template for a task, saving the built-in prompt as a new
+ * version when no version has been activated yet or when the active version is
+ * an older built-in prompt. Versions saved by an admin are never replaced.
+ */
+export async function getActivePromptTemplate(task: PromptTask): Promise<PromptTemplate> {
+  const active = await storage.getActivePromptTemplate(task);
+  if (active && !isOutdatedBuiltIn(active, task)) return active;
+
+  const defaults = DEFAULT_PROMPT_TEMPLATES[task];
+  const template = await storage.createPromptTemplate({
+    task,
+    ...defaults,
+    variables: extractPromptVariables(defaults.systemPrompt, defaults.userPrompt),
+    isActive: true,
+    notes: BUILT_IN_NOTES,
+  });
+
+  logger.info("Default prompt template saved", { task, version: template.version, replacedVersion: active?.version });
+  return template;
+}
+
+/**
+ * Render the active template of a task into chat messages
+ */
+export async function buildPrompt(task: PromptTask, values: Record<string, string>): Promise<RenderedPrompt> {
+  const template = await getActivePromptTemplate(task);
+  return {
+    templateId: template.id,
+    version: template.version,
+    messages: renderMessages(template, values),
+  };
+}
+
+/**
+ * Save an edited prompt as the next version of its task
+ */
+export async function createPromptTemplateVersion(
+  data: PromptTemplateText & { task: PromptTask; notes?: string | null; isActive?: boolean },
+  createdBy?: string | null
+): Promise<PromptTemplate> {
+  const variables = validatePromptTemplate(data.task, data);
+
+  const template = await storage.createPromptTemplate({
+    task: data.task,
+    systemPrompt: data.systemPrompt,
+    userPrompt: data.userPrompt,
+    variables,
+    isActive: data.isActive ?? false,
+    notes: data.notes ?? null,
+    createdBy: createdBy ?? null,
+  });
+
+  logger.info("Prompt template version saved", {
+    task: template.task,
+    version: template.version,
+    isActive: template.isActive,
+  });
+  return template;
+}
+
+async function resolvePreviewJob(candidate: Candidate, jobDescriptionId?: string | null): Promise<JobDescription> {
+  const jobDescription = jobDescriptionId
+    ? await storage.getJobDescriptionById(jobDescriptionId)
+    : await storage.getJobDescriptionByPosition(candidate.position);
+
+  if (!jobDescription) {
+    throw new ValidationError("Select a job description to preview this prompt against");
+  }
+  return jobDescription;
+}
+
+/**
+ * Render a prompt (a saved version, an unsaved draft or the active one) with the
+ * data of a sample candidate, optionally sending it to the model. Nothing is stored.
+ */
+export async function previewPromptTemplate(request: PromptPreviewRequest): Promise<PromptPreview> {
+  const candidate = await storage.getCandidateById(request.candidateId);
+  if (!candidate) {
+    throw new AppError("Candidate not found", 404);
+  }
+
+  let template: PromptTemplateText;
+  if (request.systemPrompt !== undefined && request.userPrompt !== undefined) {
+    template = { systemPrompt: request.systemPrompt, userPrompt: request.userPrompt };
+    validatePromptTemplate(request.task, template);
+  } else if (request.templateId) {
+    const saved = await storage.getPromptTemplateById(request.templateId);
+    if (!saved || saved.task !== request.task) {
+      throw new AppError("Prompt template not found", 404);
+    }
+    template = saved;
+  } else {
+    template = await getActivePromptTemplate(request.task);
+  }
+
+  let variables: Record<string, string>;
+  switch (request.task) {
+    case "resume_analysis":
+      variables = resumeAnalysisVariables(
+        candidate.resumeSummary || "",
+        candidate.position,
+        request.outputLanguage,
+        resolveRubric((await storage.getJobDescriptionByPosition(candidate.position)) ?? { rubric: null })
+      );
+      break;
+    case "resume_parsing":
+      variables = resumeParsingVariables(candidate.resumeSummary || "");
+      break;
+    case "job_fit": {
+      const profile = await storage.getCandidateProfile(candidate.id);
+      variables = jobFitVariables(
+        { ...candidate, profile },
+        await resolvePreviewJob(candidate, request.jobDescriptionId),
+        candidate.resumeSummary || "",
+        request.outputLanguage,
+        await getSkillTaxonomy()
+      );
+      break;
+    }
+    case "evaluation": {
+      const assessment = await storage.getAssessmentByCandidateId(candidate.id);
+      if (!assessment || assessment.status !== "completed") {
+        throw new ValidationError("The evaluation prompt needs a candidate with a completed assessment");
+      }
+      const jobProfile = request.jobDescriptionId
+        ? await getJobProfileById(request.jobDescriptionId)
+        : toJobProfile(await resolvePreviewJob(candidate), await getSkillTaxonomy());
+      variables = evaluationVariables(candidate, assessment, jobProfile, request.outputLanguage);
+      break;
+    }
+    case "interview_kit": {
+      // Imported here to avoid a circular dependency, the kit service builds its prompt with this module
+      const { collectInterviewGaps } = await import("./interviewKitService");
+      const jobDescription = await resolvePreviewJob(candidate, request.jobDescriptionId);
+      const [profile, assessment, gaps] = await Promise.all([
+        storage.getCandidateProfile(candidate.id),
+        storage.getAssessmentByCandidateId(candidate.id),
+        collectInterviewGaps(candidate.id, jobDescription.id),
+      ]);
+      variables = interviewKitVariables(
+        { ...candidate, profile },
+        jobDescription,
+        assessment,
+        gaps,
+        "video",
+        request.outputLanguage,
+        await getSkillTaxonomy()
+      );
+      break;
+    }
+  }
+
+  const messages = renderMessages(template, variables);
+  const preview: PromptPreview = { task: request.task, variables, messages };
+
+  if (request.execute) {
+    const schema = {
+      resume_analysis: resumeAnalysisResponseSchema,
+      resume_parsing: resumeParsingResponseSchema,
+      job_fit: jobFitResponseSchema,
+      evaluation: evaluationResponseSchema,
+      interview_kit: interviewKitResponseSchema,
+    }[request.task];
+
+    const { data, rawResponses } = await completeWithSchema<unknown>({
+      task: request.task,
+      messages,
+      responseFormat: "json",
+      temperature: 0.3,
+      context: { candidateId: candidate.id, jobDescriptionId: request.jobDescriptionId ?? null },
+    }, schema);
+
+    preview.output = data;
+    preview.rawResponses = rawResponses;
+  }
+
+  return preview;
+}
@@ -0,0 +1,161 @@
+import { storage } from "../storage";
+import { logger } from "./logger";
+import { AppError } from "./errorHandler";
+import { enqueueJob } from "./jobQueue";
+import type { LLMCallContext } from "./llmProvider";
+import { completeWithCache, type AnalysisCacheOptions } from "./analysisCache";
+import { resumeParsingResponseSchema, type ResumeParsingResponse } from "./llmSchemas";
+import { buildPrompt, resumeParsingVariables } from "./promptTemplateService";
+import { DEFAULT_SKILL_TAXONOMY, type SkillTaxonomy } from "./skillTaxonomy";
+import { getSkillTaxonomy } from "./skillTaxonomyService";
+import { BACKGROUND_JOB_TYPES } from "@shared/constants";
+import type { BackgroundJob, CandidateProfile, ParsedCandidateProfile } from "@shared/schema";
+
+const PRESENT_PATTERN = /^(present|current|now|ongoing|today)$/i;
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const value = key(item).toLowerCase();
+    if (seen.has(value)) return false;
+    seen.add(value);
+    return true;
+  });
+}
+
+/**
+ * Turn the model response into table rows: "Present" end dates become
+ * isCurrent, skills take their canonical taxonomy name, and skills and
+ * languages listed twice are kept once
+ */
+export function normalizeParsedResume(
+  parsed: ResumeParsingResponse,
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY
+): ParsedCandidateProfile {
+  return {
+    workHistory: parsed.workHistory.map((job, index) => {
+      const endsPresent = !!job.endDate && PRESENT_PATTERN.test(job.endDate);
+      return {
+        employer: job.employer,
+        title: job.title,
+        location: job.location || null,
+        startDate: job.startDate || null,
+        endDate: endsPresent ? null : job.endDate || null,
+        isCurrent: job.isCurrent === true || endsPresent,
+        description: job.description || null,
+        sortOrder: index,
+      };
+    }),
+    education: parsed.education.map((entry, index) => ({
+      institution: entry.institution,
+      degree: entry.degree || null,
+      fieldOfStudy: entry.fieldOfStudy || null,
+      startDate: entry.startDate || null,
+      endDate: entry.endDate || null,
+      sortOrder: index,
+    })),
+    skills: uniqueBy(
+      parsed.skills.map(skill => {
+        const canonical = taxonomy.canonicalize(skill.name);
+        return {
+          name: canonical.name,
+          category: canonical.category || skill.category || null,
+          skillId: canonical.skillId,
+        };
+      }),
+      skill => skill.name
+    ),
+    languages: uniqueBy(parsed.languages, entry => entry.language).map(entry => ({
+      language: entry.language,
+      proficiency: entry.proficiency,
+    })),
+    certifications: parsed.certifications.map(cert => ({
+      name: cert.name,
+      issuer: cert.issuer || null,
+      issuedDate: cert.issuedDate || null,
+      expiresDate: cert.expiresDate || null,
+    })),
+  };
+}
+
+/**
+ * Extract work history, education, skills, languages and certifications from resume text
+ */
+export async function parseResume(
+  resumeText: string,
+  context?: LLMCallContext,
+  options: AnalysisCacheOptions = {}
+): Promise<ParsedCandidateProfile> {
+  if (!resumeText || resumeText.trim().length < 50) {
+    throw new AppError('Resume text is too short to parse', 400);
+  }
+
+  const prompt = await buildPrompt("resume_parsing", resumeParsingVariables(resumeText));
+  const { data, cached } = await completeWithCache({
+    task: "resume_parsing",
+    messages: prompt.messages,
+    responseFormat: "json",
+    temperature: 0,
+    context,
+  }, resumeParsingResponseSchema, prompt, options);
+
+  const profile = normalizeParsedResume(data, await getSkillTaxonomy());
+  logger.info('Resume parsed', {
+    candidateId: context?.candidateId,
+    promptVersion: prompt.version,
+    cached,
+    workHistory: profile.workHistory.length,
+    education: profile.education.length,
+    skills: profile.skills.length,
+  });
+  return profile;
+}
+
+/**
+ * Parse a stored candidate's resume text and replace their structured profile
+ */
+export async function parseCandidateResume(
+  candidateId: string,
+  options: AnalysisCacheOptions = {}
+): Promise<CandidateProfile> {
+  const candidate = await storage.getCandidateById(candidateId);
+  if (!candidate) {
+    throw new AppError('Candidate not found', 404);
+  }
+  if (!candidate.resumeSummary) {
+    throw new AppError('No resume text is available for this candidate', 400);
+  }
+
+  const parsed = await parseResume(candidate.resumeSummary, { candidateId }, options);
+  return storage.replaceCandidateProfile(candidateId, parsed);
+}
+
+/**
+ * Hand resume parsing to the background job queue
+ */
+export async function queueResumeParsing(
+  candidateId: string,
+  options: { createdBy?: string | null; forceRefresh?: boolean } = {}
+): Promise<BackgroundJob> {
+  return enqueueJob(
+    BACKGROUND_JOB_TYPES.RESUME_PARSING,
+    { candidateId, forceRefresh: options.forceRefresh ?? false },
+    { createdBy: options.createdBy }
+  );
+}
+
+/**
+ * Background job handler for RESUME_PARSING
+ */
+export async function processQueuedResumeParsing(job: BackgroundJob): Promise<Record<string, any>> {
+  const { candidateId, forceRefresh } = job.payload;
+  const profile = await parseCandidateResume(candidateId, { forceRefresh: forceRefresh === true });
+  return {
+    candidateId,
+    workHistory: profile.workHistory.length,
+    education: profile.education.length,
+    skills: profile.skills.length,
+    languages: profile.languages.length,
+    certifications: profile.certifications.length,
+  };
+}
@@ -0,0 +1,250 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import { logger } from "./logger";
+import { AppError, ValidationError } from "./errorHandler";
+import { getCandidateJobSimilarities } from "./embeddingService";
+import { isFitScoreStale, jobDescriptionContentHash } from "./jobFitService";
+import { queueAssessment } from "./assessmentService";
+import { assertWithinLLMBudget } from "./llmUsageService";
+import { queueResumeParsing } from "./resumeParser";
+import { APPLICATION_TRANSFER_MODES, type ApplicationTransferMode, type UiLanguage } from "@shared/constants";
+import type {
+  Candidate,
+  FitMatrix,
+  FitMatrixRow,
+  InsertJobFitScore,
+  JobDescription,
+  JobFitScore,
+  RoleFit,
+  RoleSummary,
+  SuggestedRole,
+} from "@shared/schema";
+
+// Criteria scored at least this well are listed as reasons for a suggested role
+const REASON_MIN_SCORE = 60;
+const MAX_REASONS = 3;
+
+export const applicationTransferValidationSchema = z.object({
+  jobDescriptionId: z.string().min(1, "Job description is required"),
+  mode: z.nativeEnum(APPLICATION_TRANSFER_MODES),
+});
+
+export type ApplicationTransferInput = z.infer<typeof applicationTransferValidationSchema>;
+
+function toRoleSummary(jobDescription: JobDescription): RoleSummary {
+  return { id: jobDescription.id, title: jobDescription.title, position: jobDescription.position };
+}
+
+// Scored pairs rank above unscored ones; similarity only orders the unscored
+function compareRoleFits(a: RoleFit, b: RoleFit): number {
+  if (a.fitScore != null || b.fitScore != null) {
+    if (a.fitScore == null) return 1;
+    if (b.fitScore == null) return -1;
+    return b.fitScore - a.fitScore;
+  }
+  return (b.similarity ?? -1) - (a.similarity ?? -1);
+}
+
+function bestRoleFit(fits: RoleFit[]): RoleFit | null {
+  const best = [...fits].sort(compareRoleFits)[0];
+  return best && (best.fitScore != null || best.similarity != null) ? best : null;
+}
+
+// Similarity is only a fallback, so an unavailable embedding provider leaves the fit scores to rank on their own
+async function similaritiesOrEmpty(jobDescriptions: JobDescription[], candidateIds?: string[]): Promise<Map<string, Map<string, number>>> {
+  try {
+    return await getCandidateJobSimilarities(jobDescriptions, candidateIds);
+  } catch (error) {
+    logger.warn("Role similarities unavailable, ranking by fit scores only", { error: (error as Error).message });
+    return new Map();
+  }
+}
+
+function roleFit(
+  jobDescription: JobDescription,
+  jobDescriptionHash: string,
+  candidate: Pick<Candidate, "resumeSummary">,
+  score: JobFitScore | undefined,
+  similarity: number | undefined
+): RoleFit {
+  return {
+    jobDescriptionId: jobDescription.id,
+    fitScore: score ? score.fitScore : null,
+    isStale: !!score && isFitScoreStale(score, jobDescriptionHash, candidate.resumeSummary),
+    similarity: similarity ?? null,
+  };
+}
+
+function roleReasons(score: JobFitScore | undefined): string[] {
+  if (!score) return [];
+  const strengths = (score.criteriaScores || [])
+    .filter(criterion => criterion.score >= REASON_MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_REASONS)
+    .map(criterion => `${criterion.name} (${criterion.score}%)${criterion.rationale ? `: ${criterion.rationale}` : ""}`);
+  return strengths.length > 0 ? strengths : [score.aiAnalysis];
+}
+
+/**
+ * Every candidate against every active job, from stored fit scores with
+ * embedding similarity filling in the pairs that were never scored
+ */
+export async function getFitMatrix(): Promise<FitMatrix> {
+  const jobDescriptions = await storage.getJobDescriptions();
+  const [candidates, scores, similarities] = await Promise.all([
+    storage.getCandidates(),
+    storage.getJobFitScoresForJobs(jobDescriptions.map(jobDescription => jobDescription.id)),
+    similaritiesOrEmpty(jobDescriptions),
+  ]);
+
+  const hashes = new Map(jobDescriptions.map(jobDescription => [jobDescription.id, jobDescriptionContentHash(jobDescription)]));
+  const scoresByPair = new Map(scores.map(score => [`${score.candidateId}:${score.jobDescriptionId}`, score]));
+
+  const rows: FitMatrixRow[] = candidates.map(candidate => {
+    const fits = jobDescriptions.map(jobDescription => roleFit(
+      jobDescription,
+      hashes.get(jobDescription.id)!,
+      candidate,
+      scoresByPair.get(`${candidate.id}:${jobDescription.id}`),
+      similarities.get(candidate.id)?.get(jobDescription.id)
+    ));
+    return {
+      id: candidate.id,
+      fullName: candidate.fullName,
+      position: candidate.position,
+      status: candidate.status,
+      currentJobDescriptionId: jobDescriptions.find(jobDescription => jobDescription.position === candidate.position)?.id ?? null,
+      bestJobDescriptionId: bestRoleFit(fits)?.jobDescriptionId ?? null,
+      fits,
+    };
+  });
+
+  return { jobs: jobDescriptions.map(toRoleSummary), rows };
+}
+
+/**
+ * The active jobs other than the one applied for that fit the candidate best
+ */
+export async function getSuggestedRoles(candidateId: string, limit: number = 3): Promise<SuggestedRole[]> {
+  const candidate = await storage.getCandidateById(candidateId);
+  if (!candidate) {
+    throw new AppError("Candidate not found", 404);
+  }
+
+  const jobDescriptions = await storage.getJobDescriptions();
+  const [scores, similarities] = await Promise.all([
+    storage.getJobFitScoresByCandidateId(candidateId),
+    similaritiesOrEmpty(jobDescriptions, [candidateId]),
+  ]);
+  const scoresByJob = new Map(scores.map(score => [score.jobDescriptionId, score]));
+  const candidateSimilarities = similarities.get(candidateId);
+
+  const currentJob = jobDescriptions.find(jobDescription => jobDescription.position === candidate.position);
+  const currentScore = currentJob ? scoresByJob.get(currentJob.id) : undefined;
+
+  return jobDescriptions
+    .filter(jobDescription => jobDescription.id !== currentJob?.id)
+    .map(jobDescription => {
+      const score = scoresByJob.get(jobDescription.id);
+      const fit = roleFit(jobDescription, jobDescriptionContentHash(jobDescription), candidate, score, candidateSimilarities?.get(jobDescription.id));
+      return {
+        ...fit,
+        job: toRoleSummary(jobDescription),
+        reasons: roleReasons(score),
+        scoreDelta: score && currentScore ? score.fitScore - currentScore.fitScore : null,
+      };
+    })
+    .filter(role => role.fitScore != null || role.similarity != null)
+    .sort(compareRoleFits)
+    .slice(0, limit);
+}
+
+/**
+ * Move an application to another active job, or duplicate it so the candidate
+ * is considered for both. Either way the application for the new position gets
+ * a fresh assessment, since assessments are made against the position applied for.
+ */
+export async function transferApplication(
+  candidateId: string,
+  input: ApplicationTransferInput,
+  options: { createdBy?: string | null; outputLanguage?: UiLanguage } = {}
+): Promise<{ candidate: Candidate; mode: ApplicationTransferMode }> {
+  const [candidate, jobDescription] = await Promise.all([
+    storage.getCandidateById(candidateId),
+    storage.getJobDescriptionById(input.jobDescriptionId),
+  ]);
+  if (!candidate) {
+    throw new AppError("Candidate not found", 404);
+  }
+  if (!jobDescription) {
+    throw new AppError("Job description not found", 404);
+  }
+  if (!jobDescription.isActive) {
+    throw new ValidationError("Only active jobs accept applications");
+  }
+  if (jobDescription.position === candidate.position) {
+    throw new ValidationError("The candidate already applied for this position");
+  }
+  if (await storage.getCandidateByEmailAndPosition(candidate.email, jobDescription.position)) {
+    throw new ValidationError("The candidate already has an application for this position");
+  }
+
+  // Checked before anything is written, so a spent budget cannot leave a transfer without its assessment
+  if (candidate.resumeSummary) {
+    await assertWithinLLMBudget();
+  }
+
+  let transferred: Candidate;
+  if (input.mode === APPLICATION_TRANSFER_MODES.MOVE) {
+    transferred = await storage.updateCandidatePosition(candidateId, jobDescription.position);
+  } else {
+    // The resume is the same, so the fit score for the new job carries over
+    const score = await storage.getJobFitScoreByCandidate(candidateId, jobDescription.id);
+    let carriedScore: Omit<InsertJobFitScore, "candidateId"> | undefined;
+    if (score) {
+      const { id, calculatedAt, candidateId: sourceCandidateId, ...scoreData } = score;
+      carriedScore = scoreData;
+    }
+
+    transferred = await storage.duplicateCandidate({
+      fullName: candidate.fullName,
+      email: candidate.email,
+      phone: candidate.phone,
+      linkedinProfile: candidate.linkedinProfile,
+      position: jobDescription.position,
+      cvFileName: candidate.cvFileName,
+      cvFilePath: candidate.cvFilePath,
+      resumeSummary: candidate.resumeSummary,
+      extractionMethod: candidate.extractionMethod,
+      extractionConfidence: candidate.extractionConfidence,
+      resumeLanguage: candidate.resumeLanguage,
+    }, carriedScore);
+  }
+
+  // Queued only once the application is saved; a queueing failure is logged
+  // rather than reported as a failed transfer, since the transfer itself stands
+  if (transferred.resumeSummary) {
+    try {
+      if (input.mode === APPLICATION_TRANSFER_MODES.DUPLICATE) {
+        await queueResumeParsing(transferred.id, { createdBy: options.createdBy });
+      }
+      await queueAssessment(transferred, options.createdBy, options.outputLanguage);
+    } catch (error) {
+      logger.error("Failed to queue analysis of transferred application", {
+        candidateId: transferred.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  logger.info("Application transferred", {
+    candidateId,
+    transferredCandidateId: transferred.id,
+    jobDescriptionId: jobDescription.id,
+    fromPosition: candidate.position,
+    toPosition: jobDescription.position,
+    mode: input.mode,
+    createdBy: options.createdBy,
+  });
+  return { candidate: transferred, mode: input.mode };
+}
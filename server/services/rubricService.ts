@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { MUST_HAVE_MIN_SCORE, RUBRIC_SIGNALS } from '@shared/constants';
+import type { CriterionScore, JobDescription, ScoringCriterion } from '@shared/schema';
+
+// Job scoring rubrics. Scorers rate each criterion 0-100 and the overall
+// score is computed here from the weights, never taken from the model.
+
+export const MAX_RUBRIC_CRITERIA = 12;
+
+// Used for jobs without their own rubric; mirrors the weights the heuristic scorer always used
+export const DEFAULT_SCORING_RUBRIC: ScoringCriterion[] = [
+  {
+    id: 'technical_skills',
+    name: 'Technical skills',
+    description: 'Required skills and technologies demonstrated in the resume',
+    weight: 60,
+    mustHave: false,
+    signal: RUBRIC_SIGNALS.SKILLS,
+  },
+  {
+    id: 'experience',
+    name: 'Experience',
+    description: 'Years and relevance of professional experience against the level required',
+    weight: 25,
+    mustHave: false,
+    signal: RUBRIC_SIGNALS.EXPERIENCE,
+  },
+  {
+    id: 'education',
+    name: 'Education',
+    description: 'Degrees and certifications relevant to the role',
+    weight: 15,
+    mustHave: false,
+    signal: RUBRIC_SIGNALS.EDUCATION,
+  },
+];
+
+// Criteria as sent by the job description editor; ids are assigned from the names
+export const scoringRubricValidationSchema = z.array(z.object({
+  name: z.string().trim().min(1, 'Criterion name is required').max(100),
+  description: z.string().trim().max(500).default(''),
+  weight: z.number().positive('Criterion weight must be positive').max(100),
+  mustHave: z.boolean().default(false),
+  signal: z.nativeEnum(RUBRIC_SIGNALS).default(RUBRIC_SIGNALS.KEYWORDS),
+})).max(MAX_RUBRIC_CRITERIA, `A rubric can have at most ${MAX_RUBRIC_CRITERIA} criteria`);
+
+export type ScoringRubricInput = z.infer<typeof scoringRubricValidationSchema>;
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'criterion';
+}
+
+/**
+ * Give each criterion a unique id derived from its name; an empty rubric
+ * is stored as null so the job falls back to the default rubric
+ */
+export function normalizeRubric(input: ScoringRubricInput | null | undefined): ScoringCriterion[] | null {
+  if (!input || input.length === 0) return null;
+
+  const used = new Set<string>();
+  return input.map((criterion, index) => {
+    let id = slugify(criterion.name);
+    if (used.has(id)) id = `${id}_${index + 1}`;
+    used.add(id);
+    return { id, ...criterion };
+  });
+}
+
+export function resolveRubric(jobDescription: Pick<JobDescription, 'rubric'>): ScoringCriterion[] {
+  return jobDescription.rubric && jobDescription.rubric.length > 0 ? jobDescription.rubric : DEFAULT_SCORING_RUBRIC;
+}
+
+/**
+ * Rubric as a list for prompts: id, weight share, must-have flag and description
+ */
+export function formatRubric(rubric: ScoringCriterion[]): string {
+  const totalWeight = rubric.reduce((sum, criterion) => sum + criterion.weight, 0);
+  return rubric.map(criterion => {
+    const share = totalWeight > 0 ? Math.round((criterion.weight / totalWeight) * 100) : 0;
+    const flags = [`weight ${share}%`, ...(criterion.mustHave ? ['MUST-HAVE'] : [])].join(', ');
+    return `- "${criterion.id}" ${criterion.name} (${flags})${criterion.description ? `: ${criterion.description}` : ''}`;
+  }).join('\n');
+}
+
+export interface RubricScore {
+  overallScore: number; // 0-100
+  criteriaScores: CriterionScore[];
+  failedMustHaves: string[]; // Names of must-have criteria scored below MUST_HAVE_MIN_SCORE
+}
+
+/**
+ * Weighted mean of the criterion scores. A must-have criterion below
+ * MUST_HAVE_MIN_SCORE caps the overall score at that criterion's score, so a
+ * candidate missing a hard requirement cannot rank above one who meets it on
+ * the strength of the other criteria.
+ *
+ * @param scores Score per criterion id; criteria without a score get fallbackScore
+ */
+export function computeRubricScore(
+  rubric: ScoringCriterion[],
+  scores: Record<string, { score: number; rationale?: string | null }>,
+  fallbackScore: number = 0
+): RubricScore {
+  const criteriaScores: CriterionScore[] = rubric.map(criterion => {
+    const entry = scores[criterion.id];
+    return {
+      criterionId: criterion.id,
+      name: criterion.name,
+      weight: criterion.weight,
+      mustHave: criterion.mustHave,
+      score: Math.max(0, Math.min(100, Math.round(entry ? entry.score : fallbackScore))),
+      rationale: entry?.rationale || null,
+    };
+  });
+
+  const totalWeight = criteriaScores.reduce((sum, criterion) => sum + criterion.weight, 0);
+  let overallScore = totalWeight > 0
+    ? Math.round(criteriaScores.reduce((sum, criterion) => sum + criterion.score * criterion.weight, 0) / totalWeight)
+    : 0;
+
+  const failed = criteriaScores.filter(criterion => criterion.mustHave && criterion.score < MUST_HAVE_MIN_SCORE);
+  for (const criterion of failed) {
+    overallScore = Math.min(overallScore, criterion.score);
+  }
+
+  return { overallScore, criteriaScores, failedMustHaves: failed.map(criterion => criterion.name) };
+}
+
+/**
+ * Key criterion scores returned by the model by criterion id, accepting the
+ * criterion name as well since models sometimes echo that instead
+ */
+export function indexCriterionScores(
+  rubric: ScoringCriterion[],
+  returned: Array<{ criterion: string; score: number; rationale?: string | null }>
+): Record<string, { score: number; rationale?: string | null }> {
+  const scores: Record<string, { score: number; rationale?: string | null }> = {};
+  for (const entry of returned) {
+    const key = entry.criterion.trim().toLowerCase();
+    const criterion = rubric.find(c => c.id === key || c.name.toLowerCase() === key);
+    if (criterion && !(criterion.id in scores)) {
+      scores[criterion.id] = { score: entry.score, rationale: entry.rationale };
+    }
+  }
+  return scores;
+}
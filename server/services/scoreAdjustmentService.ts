@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import { logger } from "./logger";
+import { AppError, ValidationError } from "./errorHandler";
+import { ADJUSTABLE_SCORE_FIELDS, ASSESSMENT_STATUS } from "@shared/constants";
+import type { Assessment, InsertScoreAdjustment, ScoreAdjustment, ScoreOverrides } from "@shared/schema";
+
+// Assessments without scores to trust can still be scored by hand; pending and
+// failed ones are left to the AI so a re-run does not clash with an override
+const ADJUSTABLE_STATUSES: string[] = [ASSESSMENT_STATUS.COMPLETED, ASSESSMENT_STATUS.NEEDS_REVIEW];
+
+export const scoreAdjustmentValidationSchema = z.object({
+  field: z.nativeEnum(ADJUSTABLE_SCORE_FIELDS),
+  value: z.number().min(0, "Score must be between 0 and 100").max(100, "Score must be between 0 and 100").nullable(), // null restores the AI value
+  reason: z.string().trim().min(1, "A reason is required for every score adjustment").max(1000),
+});
+
+export type ScoreAdjustmentInput = z.infer<typeof scoreAdjustmentValidationSchema>;
+
+function toScore(value: string | null): number | null {
+  if (value == null) return null;
+  const score = parseFloat(value);
+  return isNaN(score) ? null : score;
+}
+
+function toDecimal(value: number | null): string | null {
+  return value == null ? null : value.toString();
+}
+
+export function hasScoreOverrides(assessment: Pick<Assessment, "scoreOverrides"> | null | undefined): boolean {
+  return !!assessment?.scoreOverrides && Object.keys(assessment.scoreOverrides).length > 0;
+}
+
+// New score values and the audit row for one adjustment of the given assessment
+function planScoreAdjustment(
+  assessment: Assessment,
+  input: ScoreAdjustmentInput,
+  adjustedBy: string | null
+): { updates: Partial<Assessment>; adjustment: InsertScoreAdjustment } {
+  if (!ADJUSTABLE_STATUSES.includes(assessment.status)) {
+    throw new ValidationError("Only completed assessments or assessments needing review can be adjusted");
+  }
+
+  const { field, reason } = input;
+  const overrides: ScoreOverrides = { ...(assessment.scoreOverrides || {}) };
+  const existing = overrides[field];
+  const previousValue = toScore(assessment[field]);
+  const aiValue = existing ? existing.aiValue : previousValue;
+
+  let newValue: number | null;
+  if (input.value === null) {
+    if (!existing) {
+      throw new ValidationError("This score has not been overridden");
+    }
+    delete overrides[field];
+    newValue = aiValue;
+  } else {
+    newValue = Math.round(input.value * 100) / 100;
+    if (newValue === previousValue) {
+      throw new ValidationError("The new score is the same as the current score");
+    }
+    overrides[field] = {
+      aiValue,
+      value: newValue,
+      reason,
+      adjustedBy,
+      adjustedAt: new Date().toISOString(),
+    };
+  }
+
+  return {
+    updates: {
+      [field]: toDecimal(newValue),
+      scoreOverrides: Object.keys(overrides).length > 0 ? overrides : null,
+    },
+    adjustment: {
+      assessmentId: assessment.id,
+      candidateId: assessment.candidateId,
+      field,
+      aiValue: toDecimal(aiValue),
+      previousValue: toDecimal(previousValue),
+      newValue: toDecimal(newValue),
+      reverted: input.value === null,
+      reason,
+      adjustedBy,
+    },
+  };
+}
+
+/**
+ * Override one assessment score, or restore the AI value when value is null.
+ * The score column takes the new value, the AI value is kept in scoreOverrides
+ * and every change is appended to the adjustment history. The assessment is
+ * read under a row lock, so concurrent adjustments of different scores both
+ * keep their override.
+ */
+export async function adjustAssessmentScore(
+  assessmentId: string,
+  input: ScoreAdjustmentInput,
+  adjustedBy: string | null
+): Promise<Assessment> {
+  const result = await storage.applyScoreAdjustment(
+    assessmentId,
+    assessment => planScoreAdjustment(assessment, input, adjustedBy)
+  );
+  if (!result) {
+    throw new AppError("Assessment not found", 404);
+  }
+
+  const { assessment, adjustment } = result;
+  logger.info("Assessment score adjusted", {
+    assessmentId,
+    candidateId: assessment.candidateId,
+    field: input.field,
+    previousValue: toScore(adjustment.previousValue),
+    newValue: toScore(adjustment.newValue),
+    reverted: adjustment.reverted,
+    adjustedBy,
+  });
+  return assessment;
+}
+
+/**
+ * Every adjustment made to an assessment, newest first
+ */
+export async function getScoreAdjustmentHistory(assessmentId: string): Promise<ScoreAdjustment[]> {
+  const assessment = await storage.getAssessmentById(assessmentId);
+  if (!assessment) {
+    throw new AppError("Assessment not found", 404);
+  }
+  return storage.getScoreAdjustments(assessmentId);
+}
@@ -0,0 +1,144 @@
+import type { Skill } from '@shared/schema';
+
+// In-memory view of the skill taxonomy used to normalize and match skills.
+// Pure: it is built from rows and never touches the database.
+
+export type TaxonomyEntry = Pick<Skill, 'id' | 'name' | 'category' | 'parentId' | 'aliases'>;
+
+// A built-in skill, seeded into an empty taxonomy table
+export interface SkillDefinition {
+  name: string;
+  category: string;
+  parent?: string; // Name of the broader skill
+  aliases: string[];
+}
+
+export interface CanonicalSkill {
+  name: string;
+  skillId: string | null; // null for skills outside the taxonomy
+  category: string | null;
+}
+
+export const BUILT_IN_SKILLS: SkillDefinition[] = [
+  { name: 'JavaScript', category: 'Programming language', aliases: ['js', 'ecmascript', 'es6'] },
+  { name: 'TypeScript', category: 'Programming language', aliases: ['ts'] },
+  { name: 'C#', category: 'Programming language', aliases: ['csharp'] },
+  { name: 'Go', category: 'Programming language', aliases: ['golang'] },
+  { name: 'HTML', category: 'Web', aliases: ['html5'] },
+  { name: 'CSS', category: 'Web', aliases: ['css3'] },
+  { name: 'React', category: 'Framework', aliases: ['reactjs', 'react.js'] },
+  { name: 'Vue.js', category: 'Framework', aliases: ['vue', 'vuejs'] },
+  { name: 'Angular', category: 'Framework', aliases: ['angularjs', 'angular.js'] },
+  { name: 'Node.js', category: 'Runtime', aliases: ['node', 'nodejs'] },
+  { name: 'PostgreSQL', category: 'Database', aliases: ['postgres', 'psql'] },
+  { name: 'MongoDB', category: 'Database', aliases: ['mongo'] },
+  { name: 'Database Design', category: 'Database', aliases: ['data modeling', 'data modelling', 'schema design'] },
+  { name: 'Kubernetes', category: 'DevOps', aliases: ['k8s'] },
+  { name: 'CI/CD', category: 'DevOps', aliases: ['continuous integration', 'continuous delivery', 'continuous deployment'] },
+  { name: 'AWS', category: 'Cloud', aliases: ['amazon web services'] },
+  { name: 'Google Cloud Platform', category: 'Cloud', aliases: ['gcp', 'google cloud'] },
+  { name: 'Azure', category: 'Cloud', aliases: ['microsoft azure'] },
+  { name: 'API Development', category: 'Backend', aliases: ['api design', 'apis'] },
+  { name: 'REST', category: 'Backend', parent: 'API Development', aliases: ['restful', 'rest api'] },
+  { name: 'Artificial Intelligence', category: 'Data science', aliases: ['ai'] },
+  { name: 'Machine Learning', category: 'Data science', parent: 'Artificial Intelligence', aliases: ['ml'] },
+  { name: 'TensorFlow', category: 'Data science', parent: 'Machine Learning', aliases: ['tf'] },
+  { name: 'scikit-learn', category: 'Data science', parent: 'Machine Learning', aliases: ['sklearn', 'scikit learn'] },
+  { name: 'Project Management', category: 'Management', aliases: ['pmp'] },
+  { name: 'RF Engineering', category: 'Telecommunications', aliases: ['radio frequency'] },
+];
+
+// Lookup key of a skill name or alias: case and spacing do not matter
+export function keyOf(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export class SkillTaxonomy {
+  private byKey = new Map<string, TaxonomyEntry>();
+  private childrenOf = new Map<string, TaxonomyEntry[]>();
+
+  /**
+   * @param persisted false when the entries are not database rows, so no skillId is reported
+   */
+  constructor(entries: TaxonomyEntry[], private persisted: boolean = true) {
+    for (const entry of entries) {
+      for (const name of [entry.name, ...(entry.aliases || [])]) {
+        const key = keyOf(name);
+        // Canonical names win over aliases that collide with them
+        if (key && (!this.byKey.has(key) || key === keyOf(entry.name))) {
+          this.byKey.set(key, entry);
+        }
+      }
+      if (entry.parentId) {
+        this.childrenOf.set(entry.parentId, [...(this.childrenOf.get(entry.parentId) || []), entry]);
+      }
+    }
+  }
+
+  static fromDefinitions(definitions: SkillDefinition[]): SkillTaxonomy {
+    return new SkillTaxonomy(definitions.map(definition => ({
+      id: keyOf(definition.name),
+      name: definition.name,
+      category: definition.category,
+      parentId: definition.parent ? keyOf(definition.parent) : null,
+      aliases: definition.aliases,
+    })), false);
+  }
+
+  find(name: string): TaxonomyEntry | undefined {
+    return this.byKey.get(keyOf(name));
+  }
+
+  /**
+   * Map a skill name or alias to its canonical form; unknown skills keep their name
+   */
+  canonicalize(name: string): CanonicalSkill {
+    const entry = this.find(name);
+    if (!entry) {
+      return { name: name.replace(/\s+/g, ' ').trim(), skillId: null, category: null };
+    }
+    return { name: entry.name, skillId: this.persisted ? entry.id : null, category: entry.category };
+  }
+
+  /**
+   * Canonical names of a skill list, de-duplicated in first-seen order
+   */
+  normalizeList(names: string[]): string[] {
+    const seen = new Set<string>();
+    const normalized: string[] = [];
+    for (const name of names) {
+      const canonical = this.canonicalize(name).name;
+      const key = keyOf(canonical);
+      if (key && !seen.has(key)) {
+        seen.add(key);
+        normalized.push(canonical);
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * Lowercase terms that count as evidence of a skill: its canonical name, its
+   * aliases and those of every narrower skill below it
+   */
+  variants(name: string): string[] {
+    const entry = this.find(name);
+    if (!entry) return [keyOf(name)];
+
+    const terms = new Set<string>();
+    const visited = new Set<string>();
+    const stack = [entry];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (visited.has(current.id)) continue;
+      visited.add(current.id);
+      terms.add(keyOf(current.name));
+      (current.aliases || []).forEach(alias => terms.add(keyOf(alias)));
+      stack.push(...(this.childrenOf.get(current.id) || []));
+    }
+    return Array.from(terms);
+  }
+}
+
+// Used when no curated taxonomy has been loaded, e.g. by pure scoring callers
+export const DEFAULT_SKILL_TAXONOMY = SkillTaxonomy.fromDefinitions(BUILT_IN_SKILLS);
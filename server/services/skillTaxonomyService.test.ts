@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Skill } from "@shared/schema";
+
+const fake = vi.hoisted(() => ({
+  skills: [] as Skill[],
+  version: "1",
+  loads: 0,
+}));
+
+// The skill table as another instance would change it: rows and version move together
+vi.mock("../storage", () => ({
+  storage: {
+    getSkills: async () => {
+      fake.loads++;
+      return fake.skills;
+    },
+    getSkillTaxonomyVersion: async () => fake.version,
+  },
+}));
+
+import { getSkillTaxonomy, invalidateSkillTaxonomy } from "./skillTaxonomyService";
+
+function skill(id: string, name: string, aliases: string[] = []): Skill {
+  return { id, name, category: null, parentId: null, aliases, createdAt: null, updatedAt: null };
+}
+
+describe("getSkillTaxonomy", () => {
+  beforeEach(() => {
+    invalidateSkillTaxonomy();
+    fake.skills = [skill("skill-1", "Kubernetes", ["k8s"])];
+    fake.version = "1";
+    fake.loads = 0;
+  });
+
+  it("reuses the loaded taxonomy while the skill table is unchanged", async () => {
+    const first = await getSkillTaxonomy();
+    const second = await getSkillTaxonomy();
+
+    expect(second).toBe(first);
+    expect(fake.loads).toBe(1);
+  });
+
+  it("reloads when the skill table was changed elsewhere", async () => {
+    expect((await getSkillTaxonomy()).canonicalize("kube").name).toBe("kube");
+
+    fake.skills = [skill("skill-1", "Kubernetes", ["k8s", "kube"])];
+    fake.version = "1:edited";
+
+    expect((await getSkillTaxonomy()).canonicalize("kube").name).toBe("Kubernetes");
+    expect(fake.loads).toBe(2);
+  });
+});
@@ -0,0 +1,154 @@
+import { storage } from "../storage";
+import { logger } from "./logger";
+import { AppError, ValidationError } from "./errorHandler";
+import { BUILT_IN_SKILLS, SkillTaxonomy, keyOf } from "./skillTaxonomy";
+import type { InsertSkill, Skill } from "@shared/schema";
+
+// Taxonomy loaded for a given table version (see storage.getSkillTaxonomyVersion)
+let cached: { version: string; taxonomy: Promise<SkillTaxonomy> } | null = null;
+
+/**
+ * Save the built-in skills into an empty taxonomy so there is something to curate
+ */
+async function seedBuiltInSkills(): Promise<Skill[]> {
+  const created = await storage.createSkills(BUILT_IN_SKILLS.map(skill => ({
+    name: skill.name,
+    category: skill.category,
+    aliases: skill.aliases,
+  })));
+
+  // Parents are linked once every skill has an id
+  const idByName = new Map(created.map(skill => [skill.name, skill.id]));
+  for (const definition of BUILT_IN_SKILLS.filter(skill => skill.parent)) {
+    await storage.updateSkill(idByName.get(definition.name)!, { parentId: idByName.get(definition.parent!) ?? null });
+  }
+
+  logger.info("Built-in skill taxonomy saved", { skills: created.length });
+  return storage.getSkills();
+}
+
+async function loadSkillTaxonomy(): Promise<SkillTaxonomy> {
+  let skills = await storage.getSkills();
+  if (skills.length === 0) {
+    skills = await seedBuiltInSkills();
+  }
+  return new SkillTaxonomy(skills);
+}
+
+/**
+ * The curated taxonomy, reused until the skill table changes. The version is
+ * read on every call, so edits made through another instance are picked up too.
+ */
+export async function getSkillTaxonomy(): Promise<SkillTaxonomy> {
+  const version = await storage.getSkillTaxonomyVersion();
+  if (!cached || cached.version !== version) {
+    const entry = {
+      version,
+      taxonomy: loadSkillTaxonomy().catch(error => {
+        if (cached === entry) cached = null;
+        throw error;
+      }),
+    };
+    cached = entry;
+  }
+  return cached.taxonomy;
+}
+
+export function invalidateSkillTaxonomy(): void {
+  cached = null;
+}
+
+/**
+ * All skills, seeding the built-ins on first use
+ */
+export async function listSkills(): Promise<Skill[]> {
+  await getSkillTaxonomy();
+  return storage.getSkills();
+}
+
+/**
+ * Reject names or aliases used by another skill and parents that would form a cycle
+ */
+async function validateSkill(data: InsertSkill, skillId?: string): Promise<InsertSkill> {
+  const skills = await storage.getSkills();
+  const others = skills.filter(skill => skill.id !== skillId);
+
+  const aliases = Array.from(new Set(
+    (data.aliases || []).map(alias => alias.replace(/\s+/g, " ").trim()).filter(alias => keyOf(alias) !== keyOf(data.name))
+  ));
+  const taken = new Map<string, string>();
+  for (const skill of others) {
+    for (const name of [skill.name, ...skill.aliases]) {
+      taken.set(keyOf(name), skill.name);
+    }
+  }
+  for (const name of [data.name, ...aliases]) {
+    const owner = taken.get(keyOf(name));
+    if (owner) {
+      throw new ValidationError(`"${name}" is already used by the skill "${owner}"`);
+    }
+  }
+
+  if (data.parentId) {
+    const byId = new Map(skills.map(skill => [skill.id, skill]));
+    if (!byId.has(data.parentId)) {
+      throw new ValidationError("Parent skill not found");
+    }
+    // Walk up from the new parent; reaching this skill means it would become its own ancestor
+    let current: string | null | undefined = data.parentId;
+    const visited = new Set<string>();
+    while (current && !visited.has(current)) {
+      if (current === skillId) {
+        throw new ValidationError("A skill cannot be nested under itself or one of its children");
+      }
+      visited.add(current);
+      current = byId.get(current)?.parentId;
+    }
+  }
+
+  return {
+    name: data.name.replace(/\s+/g, " ").trim(),
+    category: data.category?.trim() || null,
+    parentId: data.parentId || null,
+    aliases,
+  };
+}
+
+export async function createSkill(data: InsertSkill): Promise<Skill> {
+  const [skill] = await storage.createSkills([await validateSkill(data)]);
+  invalidateSkillTaxonomy();
+  logger.info("Skill created", { skillId: skill.id, name: skill.name });
+  return skill;
+}
+
+export async function updateSkill(id: string, updates: Partial<InsertSkill>): Promise<Skill> {
+  const existing = await storage.getSkillById(id);
+  if (!existing) {
+    throw new AppError("Skill not found", 404);
+  }
+
+  const data = await validateSkill({
+    name: updates.name ?? existing.name,
+    category: updates.category !== undefined ? updates.category : existing.category,
+    parentId: updates.parentId !== undefined ? updates.parentId : existing.parentId,
+    aliases: updates.aliases ?? existing.aliases,
+  }, id);
+  const skill = await storage.updateSkill(id, data);
+  invalidateSkillTaxonomy();
+  return skill;
+}
+
+/**
+ * Delete a skill; its children move to the top level and parsed resume skills
+ * keep their name but lose the link
+ */
+export async function deleteSkill(id: string): Promise<void> {
+  const existing = await storage.getSkillById(id);
+  if (!existing) {
+    throw new AppError("Skill not found", 404);
+  }
+
+  await storage.deleteSkill(id);
+  invalidateSkillTaxonomy();
+  logger.info("Skill deleted", { skillId: id, name: existing.name });
+}
@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { logger } from './logger';
+import { ValidationError } from './errorHandler';
+import { FILE_UPLOAD } from '@shared/constants';
+import { normalizeRubric, scoringRubricValidationSchema } from './rubricService';
 
 // Validation schemas
 export const candidateValidationSchema = z.object({
@@ -48,6 +51,7 @@ export const jobDescriptionValidationSchema = z.object({
   experienceLevel: z.string().optional(),
   location: z.string().optional(),
   notes: z.string().optional(),
+  rubric: scoringRubricValidationSchema.nullish().transform(rubric => normalizeRubric(rubric)),
   isActive: z.boolean().optional().default(true),
   // Add missing fields that are in edit dialog
   department: z.string().optional(),
@@ -60,14 +64,15 @@ export class ValidationService {
   /**
    * Validate request data against a schema
    */
-  static validate<T>(schema: z.ZodSchema<T>, data: unknown): T {
+  static validate<S extends z.ZodTypeAny>(schema: S, data: unknown): z.output<S> {
     try {
       return schema.parse(data);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+        const errorMessages = error.errors.map(err => err.path.length > 0 ? `${err.path.join('.')}: ${err.message}` : err.message);
         logger.warn('Validation failed', { errors: errorMessages, data });
-        throw new Error(`Validation failed: ${errorMessages.join(', ')}`);
+        // A ValidationError so the error handler answers 400 rather than 500
+        throw new ValidationError(`Validation failed: ${errorMessages.join(', ')}`);
       }
       throw error;
     }
@@ -76,7 +81,7 @@ export class ValidationService {
   /**
    * Validate file upload
    */
-  static validateFileUpload(file: Express.Multer.File, allowedTypes: string[] = ['application/pdf']) {
+  static validateFileUpload(file: Express.Multer.File, allowedTypes: readonly string[] = FILE_UPLOAD.ALLOWED_TYPES) {
     if (!file) {
       throw new Error('No file uploaded');
     }
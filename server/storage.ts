@@ -2,16 +2,32 @@ import {
   users,
   candidates,
   assessments,
+  scoreAdjustments,
   interviews,
   emailHistory,
   jobDescriptions,
   jobFitScores,
+  evaluationRuns,
+  evaluationResults,
+  backgroundJobs,
+  promptTemplates,
+  llmUsage,
+  aiAnalysisCache,
+  embeddings,
+  skillTaxonomy,
+  candidateWorkHistory,
+  candidateEducation,
+  candidateSkills,
+  candidateLanguages,
+  candidateCertifications,
   type User,
   type InsertUser,
   type Candidate,
   type InsertCandidate,
   type Assessment,
   type InsertAssessment,
+  type ScoreAdjustment,
+  type InsertScoreAdjustment,
   type Interview,
   type InsertInterview,
   type EmailHistory,
@@ -23,9 +39,41 @@ import {
   type CandidateWithAssessment,
   type CandidateWithRelations,
   type CandidateWithFitScore,
+  type EvaluationRun,
+  type InsertEvaluationRun,
+  type InsertEvaluationResult,
+  type EvaluationResult,
+  type EvaluationRunWithResults,
+  type BackgroundJob,
+  type InsertBackgroundJob,
+  type BackgroundJobProgress,
+  type PromptTemplate,
+  type InsertPromptTemplate,
+  type LLMUsageEntry,
+  type InsertLLMUsageEntry,
+  type LLMCostBreakdown,
+  type AIAnalysisCacheEntry,
+  type InsertAIAnalysisCacheEntry,
+  type AIAnalysisCacheStats,
+  type Embedding,
+  type InsertEmbedding,
+  type Skill,
+  type InsertSkill,
+  type CandidateProfile,
+  type ParsedCandidateProfile,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, like, or, sql } from "drizzle-orm";
+import { eq, desc, asc, and, like, ilike, or, sql, gte, lte, lt, ne, inArray, exists, getTableColumns } from "drizzle-orm";
+
+// A candidate's current assessment: the explicit pointer, otherwise the newest
+// completed or needs-review assessment, otherwise the newest of any status.
+// Superseded re-runs are only returned by getAssessmentsByCandidateId.
+const currentAssessmentId = sql`coalesce(${candidates.currentAssessmentId}, (
+  select latest.id from ${assessments} latest
+  where latest.candidate_id = ${candidates.id}
+  order by (latest.status in ('completed', 'needs_review')) desc, latest.created_at desc
+  limit 1
+))`;
 
 export interface IStorage {
   // User operations
@@ -43,20 +91,35 @@ export interface IStorage {
     search?: string;
     position?: string;
     status?: string;
+    language?: string;
+    skills?: string[];
     limit?: number;
     offset?: number;
   }): Promise<CandidateWithAssessment[]>;
   getCandidateById(id: string): Promise<CandidateWithRelations | undefined>;
   getCandidateByEmailAndPosition(email: string, position: string): Promise<Candidate | undefined>;
   updateCandidateStatus(id: string, status: string): Promise<Candidate>;
+  updateCandidatePosition(id: string, position: string): Promise<Candidate>;
+  duplicateCandidate(candidate: InsertCandidate, fitScore?: Omit<InsertJobFitScore, 'candidateId'>): Promise<Candidate>;
+  updateCandidateResumeLanguage(id: string, language: string): Promise<void>;
   deleteCandidate(id: string): Promise<void>;
   
   // Assessment operations
   createAssessment(assessment: InsertAssessment): Promise<Assessment>;
   getAssessmentByCandidateId(candidateId: string): Promise<Assessment | undefined>;
+  getAssessmentsByCandidateId(candidateId: string): Promise<Assessment[]>;
+  setCurrentAssessment(candidateId: string, assessmentId: string): Promise<void>;
   updateAssessment(id: string, updates: Partial<Assessment>): Promise<Assessment>;
   getAssessments(): Promise<Assessment[]>;
+  getAssessmentById(id: string): Promise<Assessment | undefined>;
   deleteAssessment(id: string): Promise<boolean>;
+
+  // Score adjustment operations
+  applyScoreAdjustment(
+    assessmentId: string,
+    plan: (assessment: Assessment) => { updates: Partial<Assessment>; adjustment: InsertScoreAdjustment }
+  ): Promise<{ assessment: Assessment; adjustment: ScoreAdjustment } | undefined>;
+  getScoreAdjustments(assessmentId: string): Promise<ScoreAdjustment[]>;
   
   // Interview operations
   createInterview(interview: InsertInterview): Promise<Interview>;
@@ -65,6 +128,7 @@ export interface IStorage {
     status?: string;
     date?: Date;
   }): Promise<Interview[]>;
+  getInterviewById(id: string): Promise<Interview | undefined>;
   updateInterview(id: string, updates: Partial<Interview>): Promise<Interview>;
   deleteInterview(id: string): Promise<void>;
   
@@ -94,9 +158,78 @@ export interface IStorage {
   createJobFitScore(jobFitScore: InsertJobFitScore): Promise<JobFitScore>;
   getJobFitScoresByCandidateId(candidateId: string): Promise<JobFitScore[]>;
   getJobFitScoreByCandidate(candidateId: string, jobDescriptionId: string): Promise<JobFitScore | undefined>;
+  getJobFitScoresForJobs(jobDescriptionIds: string[]): Promise<JobFitScore[]>;
   getCandidatesWithFitScores(jobDescriptionId?: string): Promise<CandidateWithFitScore[]>;
   updateJobFitScore(id: string, updates: Partial<JobFitScore>): Promise<JobFitScore>;
   
+  // Evaluation run operations
+  createEvaluationRun(run: InsertEvaluationRun, results: InsertEvaluationResult[]): Promise<EvaluationRunWithResults>;
+  getEvaluationRuns(filters?: {
+    position?: string;
+    jobDescriptionId?: string;
+    limit?: number;
+  }): Promise<EvaluationRun[]>;
+  getEvaluationRunById(id: string): Promise<EvaluationRunWithResults | undefined>;
+  getLatestEvaluationRun(): Promise<EvaluationRunWithResults | undefined>;
+  deleteEvaluationRun(id: string): Promise<boolean>;
+  deleteEvaluationResult(runId: string, candidateId: string): Promise<number>;
+  getLatestEvaluationResult(candidateId: string, jobDescriptionId?: string): Promise<EvaluationResult | undefined>;
+  
+  // Background job operations
+  createBackgroundJobs(jobs: InsertBackgroundJob[]): Promise<BackgroundJob[]>;
+  createBackgroundBatch(batch: InsertBackgroundJob, children: InsertBackgroundJob[]): Promise<BackgroundJob>;
+  getBackgroundJobById(id: string): Promise<BackgroundJob | undefined>;
+  getBackgroundJobs(filters?: {
+    status?: string;
+    type?: string;
+    parentId?: string;
+    limit?: number;
+  }): Promise<BackgroundJob[]>;
+  claimBackgroundJobs(workerId: string, limit: number): Promise<BackgroundJob[]>;
+  updateBackgroundJob(id: string, updates: Partial<BackgroundJob>, expectedStatus?: string): Promise<BackgroundJob | undefined>;
+  cancelBackgroundJobs(filter: { id?: string; parentId?: string }): Promise<BackgroundJob[]>;
+  getBackgroundJobProgress(parentId: string): Promise<BackgroundJobProgress>;
+  renewBackgroundJobLock(id: string, workerId: string): Promise<void>;
+  requeueStaleBackgroundJobs(lockedBefore: Date): Promise<{ requeued: BackgroundJob[]; dead: BackgroundJob[] }>;
+  
+  // Prompt template operations
+  getPromptTemplates(task?: string): Promise<PromptTemplate[]>;
+  getPromptTemplateById(id: string): Promise<PromptTemplate | undefined>;
+  getActivePromptTemplate(task: string): Promise<PromptTemplate | undefined>;
+  createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate>;
+  activatePromptTemplate(id: string): Promise<PromptTemplate | undefined>;
+  
+  // LLM usage operations
+  createLLMUsageEntry(entry: InsertLLMUsageEntry): Promise<LLMUsageEntry>;
+  getLLMCostSince(since: Date): Promise<number>;
+  getLLMUsageBreakdown(from: Date, to: Date): Promise<{
+    byDay: LLMCostBreakdown[];
+    byTask: LLMCostBreakdown[];
+    byJob: LLMCostBreakdown[];
+  }>;
+  
+  // Candidate profile operations
+  getCandidateProfile(candidateId: string): Promise<CandidateProfile>;
+  replaceCandidateProfile(candidateId: string, profile: ParsedCandidateProfile): Promise<CandidateProfile>;
+  
+  // AI analysis cache operations
+  getAnalysisCacheEntry(cacheKey: string): Promise<AIAnalysisCacheEntry | undefined>;
+  recordAnalysisCacheHit(id: string): Promise<void>;
+  saveAnalysisCacheEntry(entry: InsertAIAnalysisCacheEntry): Promise<AIAnalysisCacheEntry>;
+  getAnalysisCacheStats(): Promise<AIAnalysisCacheStats[]>;
+
+  // Embedding operations
+  getEmbeddings(entityType: string, model: string, entityIds?: string[]): Promise<Embedding[]>;
+  upsertEmbedding(embedding: InsertEmbedding): Promise<Embedding>;
+
+  // Skill taxonomy operations
+  getSkills(): Promise<Skill[]>;
+  getSkillTaxonomyVersion(): Promise<string>;
+  getSkillById(id: string): Promise<Skill | undefined>;
+  createSkills(skills: InsertSkill[]): Promise<Skill[]>;
+  updateSkill(id: string, updates: Partial<InsertSkill>): Promise<Skill>;
+  deleteSkill(id: string): Promise<void>;
+  
   // Statistics  
   getStats(): Promise<{
     totalCandidates: number;
@@ -166,16 +299,33 @@ export class DatabaseStorage implements IStorage {
     search?: string;
     position?: string;
     status?: string;
+    language?: string;
+    skills?: string[];
     limit?: number;
     offset?: number;
   }): Promise<CandidateWithAssessment[]> {
     const conditions = [];
     
     if (filters?.search) {
+      const pattern = `%${filters.search}%`;
       conditions.push(
         or(
-          like(candidates.fullName, `%${filters.search}%`),
-          like(candidates.email, `%${filters.search}%`)
+          like(candidates.fullName, pattern),
+          like(candidates.email, pattern),
+          // Parsed profile: skills, employers and job titles
+          exists(
+            db.select({ id: candidateSkills.id })
+              .from(candidateSkills)
+              .where(and(eq(candidateSkills.candidateId, candidates.id), ilike(candidateSkills.name, pattern)))
+          ),
+          exists(
+            db.select({ id: candidateWorkHistory.id })
+              .from(candidateWorkHistory)
+              .where(and(
+                eq(candidateWorkHistory.candidateId, candidates.id),
+                or(ilike(candidateWorkHistory.employer, pattern), ilike(candidateWorkHistory.title, pattern))
+              ))
+          )
         )
       );
     }
@@ -188,6 +338,25 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(candidates.status, filters.status));
     }
 
+    if (filters?.language) {
+      conditions.push(eq(candidates.resumeLanguage, filters.language));
+    }
+
+    if (filters?.skills && filters.skills.length > 0) {
+      // Parsed skills are stored under their canonical taxonomy name
+      const names = filters.skills.map(skill => skill.toLowerCase());
+      conditions.push(
+        exists(
+          db.select({ id: candidateSkills.id })
+            .from(candidateSkills)
+            .where(and(
+              eq(candidateSkills.candidateId, candidates.id),
+              inArray(sql`lower(${candidateSkills.name})`, names)
+            ))
+        )
+      );
+    }
+
     let queryBuilder = db
       .select({
         id: candidates.id,
@@ -199,6 +368,10 @@ export class DatabaseStorage implements IStorage {
         cvFileName: candidates.cvFileName,
         cvFilePath: candidates.cvFilePath,
         resumeSummary: candidates.resumeSummary,
+        extractionMethod: candidates.extractionMethod,
+        extractionConfidence: candidates.extractionConfidence,
+        resumeLanguage: candidates.resumeLanguage,
+        currentAssessmentId: candidates.currentAssessmentId,
         status: candidates.status,
         appliedAt: candidates.appliedAt,
         updatedAt: candidates.updatedAt,
@@ -210,13 +383,15 @@ export class DatabaseStorage implements IStorage {
           experienceMatch: assessments.experienceMatch,
           education: assessments.education,
           aiInsights: assessments.aiInsights,
+          evidence: assessments.evidence,
+          scoreOverrides: assessments.scoreOverrides,
           status: assessments.status,
           processedAt: assessments.processedAt,
           createdAt: assessments.createdAt,
         },
       })
       .from(candidates)
-      .leftJoin(assessments, eq(candidates.id, assessments.candidateId));
+      .leftJoin(assessments, eq(assessments.id, currentAssessmentId));
 
     if (conditions.length > 0) {
       queryBuilder = queryBuilder.where(and(...conditions));
@@ -245,7 +420,7 @@ export class DatabaseStorage implements IStorage {
     if (!candidate) return undefined;
 
     const [candidateAssessments, candidateInterviews, candidateEmails] = await Promise.all([
-      db.select().from(assessments).where(eq(assessments.candidateId, id)),
+      db.select().from(assessments).where(eq(assessments.candidateId, id)).orderBy(desc(assessments.createdAt)),
       db.select().from(interviews).where(eq(interviews.candidateId, id)),
       db.select().from(emailHistory).where(eq(emailHistory.candidateId, id)),
     ]);
@@ -276,21 +451,51 @@ export class DatabaseStorage implements IStorage {
     return updatedCandidate;
   }
 
+  async updateCandidatePosition(id: string, position: string): Promise<Candidate> {
+    const [updatedCandidate] = await db
+      .update(candidates)
+      .set({ position, updatedAt: new Date() })
+      .where(eq(candidates.id, id))
+      .returning();
+    return updatedCandidate;
+  }
+
+  async duplicateCandidate(candidate: InsertCandidate, fitScore?: Omit<InsertJobFitScore, 'candidateId'>): Promise<Candidate> {
+    // Both rows or neither, so a failed duplicate never blocks a retry for the same position
+    return await db.transaction(async (tx) => {
+      const [newCandidate] = await tx.insert(candidates).values(candidate).returning();
+      if (fitScore) {
+        await tx.insert(jobFitScores).values({ ...fitScore, candidateId: newCandidate.id });
+      }
+      return newCandidate;
+    });
+  }
+
+  async updateCandidateResumeLanguage(id: string, language: string): Promise<void> {
+    await db.update(candidates).set({ resumeLanguage: language }).where(eq(candidates.id, id));
+  }
+
   async deleteCandidate(id: string): Promise<void> {
     // Delete in correct order to handle foreign key constraints
     // 1. Delete job fit scores
     await db.delete(jobFitScores).where(eq(jobFitScores.candidateId, id));
     
-    // 2. Delete email history
+    // 2. Delete evaluation results
+    await db.delete(evaluationResults).where(eq(evaluationResults.candidateId, id));
+    
+    // 3. Delete email history
     await db.delete(emailHistory).where(eq(emailHistory.candidateId, id));
     
-    // 3. Delete interviews
+    // 4. Delete interviews
     await db.delete(interviews).where(eq(interviews.candidateId, id));
     
-    // 4. Delete assessments
+    // 5. Delete assessments
     await db.delete(assessments).where(eq(assessments.candidateId, id));
     
-    // 5. Delete candidate
+    // 6. Delete resume embeddings (not a foreign key, they also belong to job descriptions)
+    await db.delete(embeddings).where(and(eq(embeddings.entityType, 'candidate'), eq(embeddings.entityId, id)));
+    
+    // 7. Delete candidate
     await db.delete(candidates).where(eq(candidates.id, id));
   }
 
@@ -305,12 +510,25 @@ export class DatabaseStorage implements IStorage {
 
   async getAssessmentByCandidateId(candidateId: string): Promise<Assessment | undefined> {
     const [assessment] = await db
-      .select()
+      .select(getTableColumns(assessments))
       .from(assessments)
-      .where(eq(assessments.candidateId, candidateId));
+      .innerJoin(candidates, eq(candidates.id, assessments.candidateId))
+      .where(and(eq(candidates.id, candidateId), eq(assessments.id, currentAssessmentId)));
     return assessment;
   }
 
+  async getAssessmentsByCandidateId(candidateId: string): Promise<Assessment[]> {
+    return await db
+      .select()
+      .from(assessments)
+      .where(eq(assessments.candidateId, candidateId))
+      .orderBy(desc(assessments.createdAt));
+  }
+
+  async setCurrentAssessment(candidateId: string, assessmentId: string): Promise<void> {
+    await db.update(candidates).set({ currentAssessmentId: assessmentId }).where(eq(candidates.id, candidateId));
+  }
+
   async updateAssessment(id: string, updates: Partial<Assessment>): Promise<Assessment> {
     const [updatedAssessment] = await db
       .update(assessments)
@@ -321,7 +539,18 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAssessments(): Promise<Assessment[]> {
-    return await db.select().from(assessments).orderBy(desc(assessments.createdAt));
+    // One per candidate: the current assessment
+    return await db
+      .select(getTableColumns(assessments))
+      .from(assessments)
+      .innerJoin(candidates, eq(candidates.id, assessments.candidateId))
+      .where(eq(assessments.id, currentAssessmentId))
+      .orderBy(desc(assessments.createdAt));
+  }
+
+  async getAssessmentById(id: string): Promise<Assessment | undefined> {
+    const [assessment] = await db.select().from(assessments).where(eq(assessments.id, id));
+    return assessment;
   }
 
   async deleteAssessment(id: string): Promise<boolean> {
@@ -329,6 +558,40 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount > 0;
   }
 
+  // Score adjustment operations
+  async applyScoreAdjustment(
+    assessmentId: string,
+    plan: (assessment: Assessment) => { updates: Partial<Assessment>; adjustment: InsertScoreAdjustment }
+  ): Promise<{ assessment: Assessment; adjustment: ScoreAdjustment } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Held until commit, so the plan always merges into the latest overrides
+      const [current] = await tx
+        .select()
+        .from(assessments)
+        .where(eq(assessments.id, assessmentId))
+        .for('update');
+      if (!current) return undefined;
+
+      const { updates, adjustment } = plan(current);
+      // processedAt is left alone: it records when the AI produced the scores
+      const [assessment] = await tx
+        .update(assessments)
+        .set(updates)
+        .where(eq(assessments.id, assessmentId))
+        .returning();
+      const [saved] = await tx.insert(scoreAdjustments).values(adjustment).returning();
+      return { assessment, adjustment: saved };
+    });
+  }
+
+  async getScoreAdjustments(assessmentId: string): Promise<ScoreAdjustment[]> {
+    return await db
+      .select()
+      .from(scoreAdjustments)
+      .where(eq(scoreAdjustments.assessmentId, assessmentId))
+      .orderBy(desc(scoreAdjustments.createdAt));
+  }
+
   // Interview operations
   async createInterview(interview: InsertInterview): Promise<Interview> {
     const [newInterview] = await db
@@ -362,6 +625,11 @@ export class DatabaseStorage implements IStorage {
     return await queryBuilder.orderBy(desc(interviews.scheduledDate));
   }
 
+  async getInterviewById(id: string): Promise<Interview | undefined> {
+    const [interview] = await db.select().from(interviews).where(eq(interviews.id, id));
+    return interview;
+  }
+
   async updateInterview(id: string, updates: Partial<Interview>): Promise<Interview> {
     const [updatedInterview] = await db
       .update(interviews)
@@ -467,6 +735,11 @@ export class DatabaseStorage implements IStorage {
     return jobFitScore;
   }
 
+  async getJobFitScoresForJobs(jobDescriptionIds: string[]): Promise<JobFitScore[]> {
+    if (jobDescriptionIds.length === 0) return [];
+    return await db.select().from(jobFitScores).where(inArray(jobFitScores.jobDescriptionId, jobDescriptionIds));
+  }
+
   async getCandidatesWithFitScores(jobDescriptionId?: string): Promise<CandidateWithFitScore[]> {
     if (jobDescriptionId) {
       const result = await db
@@ -479,7 +752,8 @@ export class DatabaseStorage implements IStorage {
           eq(candidates.id, jobFitScores.candidateId),
           eq(jobFitScores.jobDescriptionId, jobDescriptionId)
         ))
-        .orderBy(desc(jobFitScores.fitScore));
+        // Unscored candidates last, ties broken by the most recent application
+        .orderBy(sql`${jobFitScores.fitScore} desc nulls last`, desc(candidates.appliedAt));
 
       return result.map(row => ({
         ...row.candidate,
@@ -511,6 +785,632 @@ export class DatabaseStorage implements IStorage {
     return jobFitScore;
   }
 
+  // Evaluation run operations
+  async createEvaluationRun(
+    runData: InsertEvaluationRun,
+    results: InsertEvaluationResult[]
+  ): Promise<EvaluationRunWithResults> {
+    return await db.transaction(async (tx) => {
+      const [run] = await tx
+        .insert(evaluationRuns)
+        .values(runData)
+        .returning();
+
+      const savedResults = results.length > 0
+        ? await tx
+            .insert(evaluationResults)
+            .values(results.map(result => ({ ...result, runId: run.id })))
+            .returning()
+        : [];
+
+      return {
+        ...run,
+        results: savedResults.sort((a, b) => a.ranking - b.ranking),
+      };
+    });
+  }
+
+  async getEvaluationRuns(filters?: {
+    position?: string;
+    jobDescriptionId?: string;
+    limit?: number;
+  }): Promise<EvaluationRun[]> {
+    const conditions = [];
+
+    if (filters?.position) {
+      conditions.push(eq(evaluationRuns.position, filters.position));
+    }
+
+    if (filters?.jobDescriptionId) {
+      conditions.push(eq(evaluationRuns.jobDescriptionId, filters.jobDescriptionId));
+    }
+
+    return await db
+      .select()
+      .from(evaluationRuns)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(evaluationRuns.createdAt))
+      .limit(filters?.limit ?? 50);
+  }
+
+  async getEvaluationRunById(id: string): Promise<EvaluationRunWithResults | undefined> {
+    const [run] = await db.select().from(evaluationRuns).where(eq(evaluationRuns.id, id));
+    if (!run) return undefined;
+
+    const results = await db
+      .select()
+      .from(evaluationResults)
+      .where(eq(evaluationResults.runId, id))
+      .orderBy(asc(evaluationResults.ranking));
+
+    return { ...run, results };
+  }
+
+  async getLatestEvaluationRun(): Promise<EvaluationRunWithResults | undefined> {
+    const [latest] = await db
+      .select({ id: evaluationRuns.id })
+      .from(evaluationRuns)
+      .orderBy(desc(evaluationRuns.createdAt))
+      .limit(1);
+
+    return latest ? this.getEvaluationRunById(latest.id) : undefined;
+  }
+
+  async deleteEvaluationRun(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(evaluationRuns)
+      .where(eq(evaluationRuns.id, id))
+      .returning({ id: evaluationRuns.id });
+    return deleted.length > 0;
+  }
+
+  async deleteEvaluationResult(runId: string, candidateId: string): Promise<number> {
+    return await db.transaction(async (tx) => {
+      // Lock the run so concurrent deletes renumber one after the other
+      const [run] = await tx
+        .select({ id: evaluationRuns.id })
+        .from(evaluationRuns)
+        .where(eq(evaluationRuns.id, runId))
+        .for('update');
+      if (!run) return 0;
+
+      const deleted = await tx
+        .delete(evaluationResults)
+        .where(and(eq(evaluationResults.runId, runId), eq(evaluationResults.candidateId, candidateId)))
+        .returning({ id: evaluationResults.id });
+      if (deleted.length === 0) return 0;
+
+      // Close the gap in the ranking and keep the run totals in line with its results
+      const remaining = await tx
+        .select({ id: evaluationResults.id, ranking: evaluationResults.ranking, fitScore: evaluationResults.fitScore })
+        .from(evaluationResults)
+        .where(eq(evaluationResults.runId, runId))
+        .orderBy(asc(evaluationResults.ranking));
+
+      for (let index = 0; index < remaining.length; index++) {
+        if (remaining[index].ranking !== index + 1) {
+          await tx
+            .update(evaluationResults)
+            .set({ ranking: index + 1 })
+            .where(eq(evaluationResults.id, remaining[index].id));
+        }
+      }
+
+      await tx
+        .update(evaluationRuns)
+        .set({
+          candidateCount: remaining.length,
+          averageFitScore: remaining.length > 0
+            ? Math.round(remaining.reduce((sum, result) => sum + result.fitScore, 0) / remaining.length)
+            : 0,
+        })
+        .where(eq(evaluationRuns.id, runId));
+
+      return deleted.length;
+    });
+  }
+
+  async getLatestEvaluationResult(candidateId: string, jobDescriptionId?: string): Promise<EvaluationResult | undefined> {
+    const conditions = [eq(evaluationResults.candidateId, candidateId)];
+    if (jobDescriptionId) {
+      conditions.push(eq(evaluationRuns.jobDescriptionId, jobDescriptionId));
+    }
+
+    const [row] = await db
+      .select({ result: evaluationResults })
+      .from(evaluationResults)
+      .innerJoin(evaluationRuns, eq(evaluationResults.runId, evaluationRuns.id))
+      .where(and(...conditions))
+      .orderBy(desc(evaluationResults.createdAt))
+      .limit(1);
+    return row?.result;
+  }
+
+  // Background job operations
+  async createBackgroundJobs(jobs: InsertBackgroundJob[]): Promise<BackgroundJob[]> {
+    if (jobs.length === 0) return [];
+    return await db.insert(backgroundJobs).values(jobs).returning();
+  }
+
+  async createBackgroundBatch(batch: InsertBackgroundJob, children: InsertBackgroundJob[]): Promise<BackgroundJob> {
+    // Both or neither, so a batch is never left running without children to finish it
+    return await db.transaction(async (tx) => {
+      const [parent] = await tx.insert(backgroundJobs).values(batch).returning();
+      if (children.length > 0) {
+        await tx.insert(backgroundJobs).values(children.map(child => ({ ...child, parentId: parent.id })));
+      }
+      return parent;
+    });
+  }
+
+  async getBackgroundJobById(id: string): Promise<BackgroundJob | undefined> {
+    const [job] = await db.select().from(backgroundJobs).where(eq(backgroundJobs.id, id));
+    if (!job) return undefined;
+
+    return job.type === 'batch'
+      ? { ...job, progress: await this.getBackgroundJobProgress(job.id) }
+      : job;
+  }
+
+  async getBackgroundJobs(filters?: {
+    status?: string;
+    type?: string;
+    parentId?: string;
+    limit?: number;
+  }): Promise<BackgroundJob[]> {
+    const conditions = [];
+
+    if (filters?.status) {
+      conditions.push(eq(backgroundJobs.status, filters.status));
+    }
+
+    if (filters?.type) {
+      conditions.push(eq(backgroundJobs.type, filters.type));
+    }
+
+    if (filters?.parentId) {
+      conditions.push(eq(backgroundJobs.parentId, filters.parentId));
+    }
+
+    return await db
+      .select()
+      .from(backgroundJobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(backgroundJobs.createdAt))
+      .limit(filters?.limit ?? 100);
+  }
+
+  async claimBackgroundJobs(workerId: string, limit: number): Promise<BackgroundJob[]> {
+    // SKIP LOCKED lets several workers poll the same table without claiming a job twice
+    const claimable = db
+      .select({ id: backgroundJobs.id })
+      .from(backgroundJobs)
+      .where(and(
+        inArray(backgroundJobs.status, ['queued', 'failed']),
+        lte(backgroundJobs.runAt, new Date()),
+        lt(backgroundJobs.attempts, backgroundJobs.maxAttempts),
+        ne(backgroundJobs.type, 'batch')
+      ))
+      .orderBy(asc(backgroundJobs.runAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(backgroundJobs)
+      .set({
+        status: 'running',
+        attempts: sql`${backgroundJobs.attempts} + 1`,
+        lockedAt: new Date(),
+        lockedBy: workerId,
+        updatedAt: new Date(),
+      })
+      .where(inArray(backgroundJobs.id, claimable))
+      .returning();
+  }
+
+  async updateBackgroundJob(
+    id: string,
+    updates: Partial<BackgroundJob>,
+    expectedStatus?: string
+  ): Promise<BackgroundJob | undefined> {
+    // expectedStatus guards against overwriting a job that was cancelled while it ran
+    const [job] = await db
+      .update(backgroundJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(expectedStatus
+        ? and(eq(backgroundJobs.id, id), eq(backgroundJobs.status, expectedStatus))
+        : eq(backgroundJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async cancelBackgroundJobs(filter: { id?: string; parentId?: string }): Promise<BackgroundJob[]> {
+    if (!filter.id && !filter.parentId) return [];
+
+    // Running children of a batch are left to finish; a running single job is
+    // cancelled in place and its handler stops at the next checkpoint
+    const cancellable = filter.parentId ? ['queued', 'failed'] : ['queued', 'failed', 'running'];
+
+    return await db
+      .update(backgroundJobs)
+      .set({ status: 'cancelled', completedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        filter.id ? eq(backgroundJobs.id, filter.id) : eq(backgroundJobs.parentId, filter.parentId!),
+        inArray(backgroundJobs.status, cancellable)
+      ))
+      .returning();
+  }
+
+  async getBackgroundJobProgress(parentId: string): Promise<BackgroundJobProgress> {
+    const rows = await db
+      .select({ status: backgroundJobs.status, count: sql<number>`count(*)::int` })
+      .from(backgroundJobs)
+      .where(eq(backgroundJobs.parentId, parentId))
+      .groupBy(backgroundJobs.status);
+
+    const progress: BackgroundJobProgress = { total: 0, queued: 0, running: 0, completed: 0, failed: 0, dead: 0, cancelled: 0 };
+    for (const row of rows) {
+      if (row.status in progress) {
+        progress[row.status as keyof BackgroundJobProgress] = row.count;
+      }
+      progress.total += row.count;
+    }
+    return progress;
+  }
+
+  async renewBackgroundJobLock(id: string, workerId: string): Promise<void> {
+    await db
+      .update(backgroundJobs)
+      .set({ lockedAt: new Date() })
+      .where(and(
+        eq(backgroundJobs.id, id),
+        eq(backgroundJobs.status, 'running'),
+        eq(backgroundJobs.lockedBy, workerId)
+      ));
+  }
+
+  async requeueStaleBackgroundJobs(lockedBefore: Date): Promise<{ requeued: BackgroundJob[]; dead: BackgroundJob[] }> {
+    const stale = and(
+      eq(backgroundJobs.status, 'running'),
+      ne(backgroundJobs.type, 'batch'),
+      lt(backgroundJobs.lockedAt, lockedBefore)
+    );
+
+    // Jobs left running by a crashed worker go back to the queue; the attempt
+    // already counts, so a job that keeps taking its worker down is dead-lettered
+    return await db.transaction(async (tx) => {
+      const dead = await tx
+        .update(backgroundJobs)
+        .set({
+          status: 'dead',
+          lastError: 'Worker stopped responding while running the job',
+          lockedAt: null,
+          lockedBy: null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(stale, gte(backgroundJobs.attempts, backgroundJobs.maxAttempts)))
+        .returning();
+
+      const requeued = await tx
+        .update(backgroundJobs)
+        .set({ status: 'queued', lockedAt: null, lockedBy: null, runAt: new Date(), updatedAt: new Date() })
+        .where(stale)
+        .returning();
+
+      return { requeued, dead };
+    });
+  }
+
+  // Prompt template operations
+  async getPromptTemplates(task?: string): Promise<PromptTemplate[]> {
+    return await db
+      .select()
+      .from(promptTemplates)
+      .where(task ? eq(promptTemplates.task, task) : undefined)
+      .orderBy(asc(promptTemplates.task), desc(promptTemplates.version));
+  }
+
+  async getPromptTemplateById(id: string): Promise<PromptTemplate | undefined> {
+    const [template] = await db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+    return template;
+  }
+
+  async getActivePromptTemplate(task: string): Promise<PromptTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(promptTemplates)
+      .where(and(eq(promptTemplates.task, task), eq(promptTemplates.isActive, true)))
+      .orderBy(desc(promptTemplates.version))
+      .limit(1);
+    return template;
+  }
+
+  async createPromptTemplate(templateData: InsertPromptTemplate): Promise<PromptTemplate> {
+    return await db.transaction(async (tx) => {
+      // Serialize version numbering per task
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${'prompt_templates:' + templateData.task}))`);
+
+      const [latest] = await tx
+        .select({ version: sql<number>`coalesce(max(${promptTemplates.version}), 0)` })
+        .from(promptTemplates)
+        .where(eq(promptTemplates.task, templateData.task));
+
+      if (templateData.isActive) {
+        await tx
+          .update(promptTemplates)
+          .set({ isActive: false })
+          .where(eq(promptTemplates.task, templateData.task));
+      }
+
+      const [template] = await tx
+        .insert(promptTemplates)
+        .values({ ...templateData, version: Number(latest.version) + 1 })
+        .returning();
+      return template;
+    });
+  }
+
+  async activatePromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+    return await db.transaction(async (tx) => {
+      const [template] = await tx.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+      if (!template) return undefined;
+
+      await tx
+        .update(promptTemplates)
+        .set({ isActive: false })
+        .where(and(eq(promptTemplates.task, template.task), ne(promptTemplates.id, id)));
+
+      const [activated] = await tx
+        .update(promptTemplates)
+        .set({ isActive: true })
+        .where(eq(promptTemplates.id, id))
+        .returning();
+      return activated;
+    });
+  }
+
+  // LLM usage operations
+  async createLLMUsageEntry(entry: InsertLLMUsageEntry): Promise<LLMUsageEntry> {
+    const [saved] = await db.insert(llmUsage).values(entry).returning();
+    return saved;
+  }
+
+  async getLLMCostSince(since: Date): Promise<number> {
+    const [row] = await db
+      .select({ cost: sql<string>`coalesce(sum(${llmUsage.cost}), 0)` })
+      .from(llmUsage)
+      .where(gte(llmUsage.createdAt, since));
+    return Number(row.cost);
+  }
+
+  async getLLMUsageBreakdown(from: Date, to: Date): Promise<{
+    byDay: LLMCostBreakdown[];
+    byTask: LLMCostBreakdown[];
+    byJob: LLMCostBreakdown[];
+  }> {
+    const inRange = and(gte(llmUsage.createdAt, from), lt(llmUsage.createdAt, to));
+    const totals = {
+      calls: sql<number>`count(*)::int`,
+      promptTokens: sql<number>`coalesce(sum(${llmUsage.promptTokens}), 0)::int`,
+      completionTokens: sql<number>`coalesce(sum(${llmUsage.completionTokens}), 0)::int`,
+      cost: sql<string>`coalesce(sum(${llmUsage.cost}), 0)`,
+    };
+    const toBreakdown = (row: { key: string; label: string; calls: number; promptTokens: number; completionTokens: number; cost: string }) => ({
+      ...row,
+      cost: Number(row.cost),
+    });
+
+    const day = sql<string>`to_char(date_trunc('day', ${llmUsage.createdAt}), 'YYYY-MM-DD')`;
+    const byDay = await db
+      .select({ key: day, label: day, ...totals })
+      .from(llmUsage)
+      .where(inRange)
+      .groupBy(day)
+      .orderBy(day);
+
+    const byTask = await db
+      .select({ key: llmUsage.task, label: llmUsage.task, ...totals })
+      .from(llmUsage)
+      .where(inRange)
+      .groupBy(llmUsage.task)
+      .orderBy(desc(totals.cost));
+
+    // Calls without a job description (resume analysis) are attributed to the candidate's position
+    const jobKey = sql<string>`coalesce(${jobDescriptions.id}, ${candidates.position}, 'unassigned')`;
+    const jobLabel = sql<string>`coalesce(${jobDescriptions.title}, ${jobDescriptions.position}, ${candidates.position}, 'Unassigned')`;
+    const byJob = await db
+      .select({ key: jobKey, label: jobLabel, ...totals })
+      .from(llmUsage)
+      .leftJoin(jobDescriptions, eq(llmUsage.jobDescriptionId, jobDescriptions.id))
+      .leftJoin(candidates, eq(llmUsage.candidateId, candidates.id))
+      .where(inRange)
+      .groupBy(jobKey, jobLabel)
+      .orderBy(desc(totals.cost));
+
+    return {
+      byDay: byDay.map(toBreakdown),
+      byTask: byTask.map(toBreakdown),
+      byJob: byJob.map(toBreakdown),
+    };
+  }
+
+  // Candidate profile operations
+  async getCandidateProfile(candidateId: string): Promise<CandidateProfile> {
+    const [[candidate], workHistory, education, skills, languages, certifications] = await Promise.all([
+      db.select({ profileParsedAt: candidates.profileParsedAt }).from(candidates).where(eq(candidates.id, candidateId)),
+      db.select().from(candidateWorkHistory)
+        .where(eq(candidateWorkHistory.candidateId, candidateId))
+        .orderBy(asc(candidateWorkHistory.sortOrder)),
+      db.select().from(candidateEducation)
+        .where(eq(candidateEducation.candidateId, candidateId))
+        .orderBy(asc(candidateEducation.sortOrder)),
+      db.select().from(candidateSkills)
+        .where(eq(candidateSkills.candidateId, candidateId))
+        .orderBy(asc(candidateSkills.name)),
+      db.select().from(candidateLanguages)
+        .where(eq(candidateLanguages.candidateId, candidateId))
+        .orderBy(asc(candidateLanguages.language)),
+      db.select().from(candidateCertifications)
+        .where(eq(candidateCertifications.candidateId, candidateId))
+        .orderBy(asc(candidateCertifications.name)),
+    ]);
+
+    return {
+      workHistory,
+      education,
+      skills,
+      languages,
+      certifications,
+      parsedAt: candidate?.profileParsedAt ?? null,
+    };
+  }
+
+  async replaceCandidateProfile(candidateId: string, profile: ParsedCandidateProfile): Promise<CandidateProfile> {
+    await db.transaction(async (tx) => {
+      await tx.delete(candidateWorkHistory).where(eq(candidateWorkHistory.candidateId, candidateId));
+      await tx.delete(candidateEducation).where(eq(candidateEducation.candidateId, candidateId));
+      await tx.delete(candidateSkills).where(eq(candidateSkills.candidateId, candidateId));
+      await tx.delete(candidateLanguages).where(eq(candidateLanguages.candidateId, candidateId));
+      await tx.delete(candidateCertifications).where(eq(candidateCertifications.candidateId, candidateId));
+
+      const withCandidate = <T extends object>(rows: T[]) => rows.map(row => ({ ...row, candidateId }));
+      if (profile.workHistory.length > 0) {
+        await tx.insert(candidateWorkHistory).values(withCandidate(profile.workHistory));
+      }
+      if (profile.education.length > 0) {
+        await tx.insert(candidateEducation).values(withCandidate(profile.education));
+      }
+      if (profile.skills.length > 0) {
+        await tx.insert(candidateSkills).values(withCandidate(profile.skills)).onConflictDoNothing();
+      }
+      if (profile.languages.length > 0) {
+        await tx.insert(candidateLanguages).values(withCandidate(profile.languages)).onConflictDoNothing();
+      }
+      if (profile.certifications.length > 0) {
+        await tx.insert(candidateCertifications).values(withCandidate(profile.certifications));
+      }
+
+      await tx.update(candidates).set({ profileParsedAt: new Date() }).where(eq(candidates.id, candidateId));
+    });
+
+    return this.getCandidateProfile(candidateId);
+  }
+
+  // AI analysis cache operations
+  async getAnalysisCacheEntry(cacheKey: string): Promise<AIAnalysisCacheEntry | undefined> {
+    const [entry] = await db.select().from(aiAnalysisCache).where(eq(aiAnalysisCache.cacheKey, cacheKey));
+    return entry;
+  }
+
+  async recordAnalysisCacheHit(id: string): Promise<void> {
+    await db
+      .update(aiAnalysisCache)
+      .set({ hitCount: sql`${aiAnalysisCache.hitCount} + 1`, lastHitAt: new Date() })
+      .where(eq(aiAnalysisCache.id, id));
+  }
+
+  async saveAnalysisCacheEntry(entry: InsertAIAnalysisCacheEntry): Promise<AIAnalysisCacheEntry> {
+    const [saved] = await db
+      .insert(aiAnalysisCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: aiAnalysisCache.cacheKey,
+        set: {
+          result: entry.result,
+          rawResponses: entry.rawResponses ?? null,
+          missCount: sql`${aiAnalysisCache.missCount} + 1`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getAnalysisCacheStats(): Promise<AIAnalysisCacheStats[]> {
+    const rows = await db
+      .select({
+        task: aiAnalysisCache.task,
+        entries: sql<number>`count(*)::int`,
+        hits: sql<number>`coalesce(sum(${aiAnalysisCache.hitCount}), 0)::int`,
+        misses: sql<number>`coalesce(sum(${aiAnalysisCache.missCount}), 0)::int`,
+      })
+      .from(aiAnalysisCache)
+      .groupBy(aiAnalysisCache.task)
+      .orderBy(aiAnalysisCache.task);
+
+    return rows.map(row => ({
+      ...row,
+      hitRate: row.hits + row.misses > 0 ? row.hits / (row.hits + row.misses) : 0,
+    }));
+  }
+
+  // Embedding operations
+  async getEmbeddings(entityType: string, model: string, entityIds?: string[]): Promise<Embedding[]> {
+    const conditions = [eq(embeddings.entityType, entityType), eq(embeddings.model, model)];
+    if (entityIds) {
+      if (entityIds.length === 0) return [];
+      conditions.push(inArray(embeddings.entityId, entityIds));
+    }
+    return db.select().from(embeddings).where(and(...conditions));
+  }
+
+  async upsertEmbedding(embedding: InsertEmbedding): Promise<Embedding> {
+    const [saved] = await db
+      .insert(embeddings)
+      .values(embedding)
+      .onConflictDoUpdate({
+        target: [embeddings.entityType, embeddings.entityId, embeddings.model],
+        set: {
+          provider: embedding.provider,
+          contentHash: embedding.contentHash,
+          vector: embedding.vector,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Skill taxonomy operations
+  async getSkills(): Promise<Skill[]> {
+    return db.select().from(skillTaxonomy).orderBy(asc(skillTaxonomy.name));
+  }
+
+  // Changes whenever a skill is created, edited or deleted, on any instance
+  async getSkillTaxonomyVersion(): Promise<string> {
+    const [row] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        updatedAt: sql<string | null>`max(${skillTaxonomy.updatedAt})::text`,
+      })
+      .from(skillTaxonomy);
+    return `${row.count}:${row.updatedAt ?? ''}`;
+  }
+
+  async getSkillById(id: string): Promise<Skill | undefined> {
+    const [skill] = await db.select().from(skillTaxonomy).where(eq(skillTaxonomy.id, id));
+    return skill;
+  }
+
+  async createSkills(skills: InsertSkill[]): Promise<Skill[]> {
+    if (skills.length === 0) return [];
+    return db.insert(skillTaxonomy).values(skills).returning();
+  }
+
+  async updateSkill(id: string, updates: Partial<InsertSkill>): Promise<Skill> {
+    const [skill] = await db
+      .update(skillTaxonomy)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(skillTaxonomy.id, id))
+      .returning();
+    return skill;
+  }
+
+  async deleteSkill(id: string): Promise<void> {
+    await db.delete(skillTaxonomy).where(eq(skillTaxonomy.id, id));
+  }
+
   // Statistics
   async getDashboardStats(): Promise<{
     totalCandidates: number;
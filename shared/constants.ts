@@ -30,9 +30,102 @@ export const EMAIL_STATUS = {
 export const ASSESSMENT_STATUS = {
   PENDING: 'pending',
   COMPLETED: 'completed',
-  FAILED: 'failed'
+  FAILED: 'failed',
+  INVALID_RESPONSE: 'invalid_response', // AI output failed schema validation after repair attempts
+  NEEDS_REVIEW: 'needs_review' // No usable resume text, so the candidate has to be assessed by hand
+} as const;
+
+export const BACKGROUND_JOB_STATUS = {
+  QUEUED: 'queued',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed', // Attempt failed, waiting for retry
+  DEAD: 'dead', // Retries exhausted (dead-lettered)
+  CANCELLED: 'cancelled'
+} as const;
+
+export const BACKGROUND_JOB_TYPES = {
+  RESUME_ANALYSIS: 'resume_analysis',
+  RESUME_PARSING: 'resume_parsing',
+  JOB_FIT: 'job_fit',
+  EVALUATION_RUN: 'evaluation_run',
+  BATCH: 'batch' // Parent of a group of jobs, used for progress tracking
+} as const;
+
+// AI tasks whose prompts are stored as versioned templates
+export const PROMPT_TASKS = {
+  RESUME_ANALYSIS: 'resume_analysis',
+  RESUME_PARSING: 'resume_parsing',
+  JOB_FIT: 'job_fit',
+  EVALUATION: 'evaluation',
+  INTERVIEW_KIT: 'interview_kit'
+} as const;
+
+export const LANGUAGE_PROFICIENCY = {
+  NATIVE: 'native',
+  FLUENT: 'fluent',
+  PROFESSIONAL: 'professional',
+  INTERMEDIATE: 'intermediate',
+  BASIC: 'basic',
+  UNKNOWN: 'unknown'
+} as const;
+
+export const SCORING_METHODS = {
+  AI: 'ai',
+  HEURISTIC: 'heuristic'
+} as const;
+
+// What the heuristic scorer measures for a rubric criterion; the AI scorers
+// judge each criterion from its name and description instead
+export const RUBRIC_SIGNALS = {
+  SKILLS: 'skills', // Share of the job's required skills found in the resume
+  EXPERIENCE: 'experience', // Estimated years against the years required
+  EDUCATION: 'education', // Highest degree mentioned
+  KEYWORDS: 'keywords' // Words of the criterion description found in the resume
 } as const;
 
+// A must-have criterion scored below this caps the overall score at that criterion's score
+export const MUST_HAVE_MIN_SCORE = 50;
+
+// Assessment scores a recruiter can override; values are the assessment column names
+export const ADJUSTABLE_SCORE_FIELDS = {
+  OVERALL_SCORE: 'overallScore',
+  TECHNICAL_SKILLS: 'technicalSkills',
+  EXPERIENCE_MATCH: 'experienceMatch',
+  EDUCATION: 'education'
+} as const;
+
+// Moving an application changes its position; duplicating keeps it and applies to the new one too
+export const APPLICATION_TRANSFER_MODES = {
+  MOVE: 'move',
+  DUPLICATE: 'duplicate'
+} as const;
+
+export const EXTRACTION_METHODS = {
+  PDF_PARSE: 'pdf-parse',
+  BUFFER: 'buffer', // Raw BT/ET text blocks, used when pdf-parse cannot read the file
+  OCR: 'ocr',
+  DOCX: 'docx',
+  ODT: 'odt',
+  RTF: 'rtf',
+  TEXT: 'text'
+} as const;
+
+// What an embedding vector was computed from
+export const EMBEDDING_ENTITY_TYPES = {
+  CANDIDATE: 'candidate',
+  JOB_DESCRIPTION: 'job_description'
+} as const;
+
+// Languages the recruiter UI is translated into; AI insights can be written in any of them
+export const UI_LANGUAGES = {
+  EN: 'en',
+  AR: 'ar'
+} as const;
+
+// Stored as the resume language when there is too little text to tell
+export const UNKNOWN_LANGUAGE = 'und';
+
 export const EMAIL_TYPES = {
   APPLICATION_CONFIRMATION: 'application_confirmation',
   INTERVIEW_INVITATION: 'interview_invitation',
@@ -46,10 +139,28 @@ export const INTERVIEW_TYPES = {
   IN_PERSON: 'in_person'
 } as const;
 
+// Resume formats accepted for upload, with the content types browsers send for them
+export const RESUME_DOCUMENT_TYPES = {
+  pdf: { contentType: 'application/pdf', mimeTypes: ['application/pdf'], extensions: ['.pdf'] },
+  docx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx']
+  },
+  odt: {
+    contentType: 'application/vnd.oasis.opendocument.text',
+    mimeTypes: ['application/vnd.oasis.opendocument.text'],
+    extensions: ['.odt']
+  },
+  rtf: { contentType: 'application/rtf', mimeTypes: ['application/rtf', 'text/rtf', 'application/x-rtf'], extensions: ['.rtf'] },
+  txt: { contentType: 'text/plain; charset=utf-8', mimeTypes: ['text/plain'], extensions: ['.txt'] }
+} as const;
+
 // File upload constants
 export const FILE_UPLOAD = {
   MAX_SIZE: 10 * 1024 * 1024, // 10MB
-  ALLOWED_TYPES: ['application/pdf'],
+  ALLOWED_TYPES: Object.values(RESUME_DOCUMENT_TYPES).flatMap(type => type.mimeTypes),
+  ALLOWED_EXTENSIONS: Object.values(RESUME_DOCUMENT_TYPES).flatMap(type => type.extensions),
   UPLOAD_PATH: 'uploads'
 } as const;
 
@@ -62,6 +173,8 @@ export const HTTP_STATUS = {
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
   INTERNAL_SERVER_ERROR: 500
 } as const;
 
@@ -80,5 +193,17 @@ export type ApplicationStatus = typeof APPLICATION_STATUS[keyof typeof APPLICATI
 export type InterviewStatus = typeof INTERVIEW_STATUS[keyof typeof INTERVIEW_STATUS];
 export type EmailStatus = typeof EMAIL_STATUS[keyof typeof EMAIL_STATUS];
 export type AssessmentStatus = typeof ASSESSMENT_STATUS[keyof typeof ASSESSMENT_STATUS];
+export type BackgroundJobStatus = typeof BACKGROUND_JOB_STATUS[keyof typeof BACKGROUND_JOB_STATUS];
+export type BackgroundJobType = typeof BACKGROUND_JOB_TYPES[keyof typeof BACKGROUND_JOB_TYPES];
+export type PromptTask = typeof PROMPT_TASKS[keyof typeof PROMPT_TASKS];
+export type LanguageProficiency = typeof LANGUAGE_PROFICIENCY[keyof typeof LANGUAGE_PROFICIENCY];
+export type ScoringMethod = typeof SCORING_METHODS[keyof typeof SCORING_METHODS];
+export type RubricSignal = typeof RUBRIC_SIGNALS[keyof typeof RUBRIC_SIGNALS];
+export type AdjustableScoreField = typeof ADJUSTABLE_SCORE_FIELDS[keyof typeof ADJUSTABLE_SCORE_FIELDS];
+export type ApplicationTransferMode = typeof APPLICATION_TRANSFER_MODES[keyof typeof APPLICATION_TRANSFER_MODES];
+export type ResumeDocumentType = keyof typeof RESUME_DOCUMENT_TYPES;
+export type ExtractionMethod = typeof EXTRACTION_METHODS[keyof typeof EXTRACTION_METHODS];
+export type EmbeddingEntityType = typeof EMBEDDING_ENTITY_TYPES[keyof typeof EMBEDDING_ENTITY_TYPES];
+export type UiLanguage = typeof UI_LANGUAGES[keyof typeof UI_LANGUAGES];
 export type EmailType = typeof EMAIL_TYPES[keyof typeof EMAIL_TYPES];
 export type InterviewType = typeof INTERVIEW_TYPES[keyof typeof INTERVIEW_TYPES];
@@ -9,9 +9,13 @@ import {
   integer,
   decimal,
   boolean,
+  real,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { AdjustableScoreField, RubricSignal, UiLanguage } from "./constants";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -51,10 +55,88 @@ export const candidates = pgTable("candidates", {
   cvFileName: varchar("cv_file_name"),
   cvFilePath: varchar("cv_file_path"),
   resumeSummary: text("resume_summary"), // Extracted text content from PDF
+  extractionMethod: varchar("extraction_method"), // pdf-parse, buffer, ocr
+  extractionConfidence: decimal("extraction_confidence", { precision: 5, scale: 2 }), // OCR confidence (0-100)
+  resumeLanguage: varchar("resume_language", { length: 8 }), // ISO 639-1 code detected from resumeSummary, "und" if unclear
+  profileParsedAt: timestamp("profile_parsed_at"), // Last time the structured profile was parsed from resumeSummary
+  // Assessment shown for the candidate; re-runs keep their rows but only the current one is listed.
+  // null falls back to the latest usable assessment.
+  currentAssessmentId: varchar("current_assessment_id").references((): AnyPgColumn => assessments.id, { onDelete: 'set null' }),
   status: varchar("status").notNull().default("new"), // new, reviewed, interview, hired, rejected
   appliedAt: timestamp("applied_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [index("IDX_candidates_resume_language").on(table.resumeLanguage)]);
+
+// A resume snippet the model cited for a sub-score. Offsets index into the
+// candidate's resumeSummary and are null when the quote could not be located.
+export type ScoreEvidence = {
+  score: string; // sub-score key, e.g. technicalSkills or skillMatch
+  requirement: string;
+  status: 'met' | 'missing';
+  quote: string | null;
+  start: number | null;
+  end: number | null;
+};
+
+// One criterion of a job's scoring rubric. Weights are relative: the overall
+// score is the weighted mean of the criterion scores.
+export type ScoringCriterion = {
+  id: string; // Slug of the name, used by the model to label its scores
+  name: string;
+  description: string;
+  weight: number;
+  mustHave: boolean;
+  signal: RubricSignal;
+};
+
+// A criterion score as stored with a fit score or evaluation result
+export type CriterionScore = {
+  criterionId: string;
+  name: string;
+  weight: number;
+  mustHave: boolean;
+  score: number; // 0-100
+  rationale: string | null;
+};
+
+// A recruiter's override of one assessment score. The score column holds the
+// overridden value; aiValue keeps what the model returned.
+export type ScoreOverride = {
+  aiValue: number | null;
+  value: number;
+  reason: string;
+  adjustedBy: string | null;
+  adjustedAt: string; // ISO timestamp
+};
+
+export type ScoreOverrides = Partial<Record<AdjustableScoreField, ScoreOverride>>;
+
+// Interview questions for one candidate, grouped by competency. Generated by
+// the model and then edited freely by the interviewers.
+export type InterviewKitQuestion = {
+  question: string;
+  goodAnswer: string; // what a strong answer covers
+  targetsGap: string | null; // the missing skill or requirement the question probes
+  followUps: string[];
+};
+
+export type InterviewKitSection = {
+  competency: string;
+  questions: InterviewKitQuestion[];
+};
+
+export type InterviewKit = {
+  summary: string;
+  sections: InterviewKitSection[];
+  gaps: string[]; // missing skills the kit was generated to probe
+  language: UiLanguage; // language the kit is written in
+  jobDescriptionId: string | null;
+  generatedAt: string; // ISO timestamp
+  editedAt: string | null;
+  editedBy: string | null;
+  promptTemplateId: string | null;
+  promptVersion: number | null;
+};
 
 // Assessments table for AI evaluations
 export const assessments = pgTable("assessments", {
@@ -65,11 +147,34 @@ export const assessments = pgTable("assessments", {
   experienceMatch: decimal("experience_match", { precision: 5, scale: 2 }),
   education: decimal("education", { precision: 5, scale: 2 }),
   aiInsights: text("ai_insights"),
-  status: varchar("status").notNull().default("pending"), // pending, completed, failed
+  status: varchar("status").notNull().default("pending"), // pending, completed, failed, invalid_response, needs_review
+  rawResponses: jsonb("raw_responses").$type<string[]>(), // Raw AI output of every attempt, for debugging
+  evidence: jsonb("evidence").$type<ScoreEvidence[]>(), // Resume quotes backing each sub-score
+  criteriaScores: jsonb("criteria_scores").$type<CriterionScore[]>(), // overallScore is their weighted mean
+  promptTemplateId: varchar("prompt_template_id").references(() => promptTemplates.id, { onDelete: 'set null' }),
+  promptVersion: integer("prompt_version"), // Version of the prompt template that produced the scores
+  provider: varchar("provider"), // LLM provider and model that produced the scores
+  model: varchar("model"),
+  scoreOverrides: jsonb("score_overrides").$type<ScoreOverrides>(), // Recruiter overrides in effect, keyed by score
   processedAt: timestamp("processed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Audit trail of recruiter score overrides; rows are never updated
+export const scoreAdjustments = pgTable("score_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assessmentId: varchar("assessment_id").notNull().references(() => assessments.id, { onDelete: 'cascade' }),
+  candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: 'cascade' }),
+  field: varchar("field").notNull(), // overallScore, technicalSkills, experienceMatch, education
+  aiValue: decimal("ai_value", { precision: 5, scale: 2 }), // What the model returned
+  previousValue: decimal("previous_value", { precision: 5, scale: 2 }),
+  newValue: decimal("new_value", { precision: 5, scale: 2 }),
+  reverted: boolean("reverted").notNull().default(false), // true when the AI value was restored
+  reason: text("reason").notNull(),
+  adjustedBy: varchar("adjusted_by"), // Email of the user who made the change
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_score_adjustments_assessment").on(table.assessmentId)]);
+
 // Interviews table
 export const interviews = pgTable("interviews", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -78,6 +183,7 @@ export const interviews = pgTable("interviews", {
   interviewType: varchar("interview_type").notNull(), // video, phone, in-person
   status: varchar("status").notNull().default("scheduled"), // scheduled, completed, cancelled, rescheduled
   notes: text("notes"),
+  kit: jsonb("kit").$type<InterviewKit>(), // null until a kit is generated
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -108,6 +214,7 @@ export const jobDescriptions = pgTable("job_descriptions", {
   experienceLevel: varchar("experience_level"),
   location: varchar("location"),
   notes: text("notes"),
+  rubric: jsonb("rubric").$type<ScoringCriterion[]>(), // null scores against the default rubric
   isActive: boolean("is_active").default(true),
   // Add missing fields that are in edit dialog
   department: varchar("department"),
@@ -128,22 +235,232 @@ export const jobFitScores = pgTable("job_fit_scores", {
   experienceAlignment: integer("experience_alignment").notNull(),
   languageMatch: integer("language_match").notNull(),
   aiAnalysis: text("ai_analysis").notNull(),
+  rawResponses: jsonb("raw_responses").$type<string[]>(),
+  evidence: jsonb("evidence").$type<ScoreEvidence[]>(),
+  criteriaScores: jsonb("criteria_scores").$type<CriterionScore[]>(), // fitScore is their weighted mean
+  promptTemplateId: varchar("prompt_template_id").references(() => promptTemplates.id, { onDelete: 'set null' }),
+  promptVersion: integer("prompt_version"),
+  // sha256 of the job description and resume text the score was computed from; null for older scores
+  jobDescriptionHash: varchar("job_description_hash"),
+  resumeHash: varchar("resume_hash"),
   calculatedAt: timestamp("calculated_at").defaultNow(),
 });
 
+// Evaluation runs (one row per "Run Evaluation" batch)
+export const evaluationRuns = pgTable("evaluation_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobDescriptionId: varchar("job_description_id").references(() => jobDescriptions.id, { onDelete: 'set null' }),
+  jobTitle: varchar("job_title"),
+  position: varchar("position"), // null when all positions were evaluated
+  candidateCount: integer("candidate_count").notNull().default(0),
+  averageFitScore: integer("average_fit_score").notNull().default(0),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Ranked per-candidate results of an evaluation run
+export const evaluationResults = pgTable("evaluation_results", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull().references(() => evaluationRuns.id, { onDelete: 'cascade' }),
+  candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: 'cascade' }),
+  candidateName: varchar("candidate_name").notNull(),
+  position: varchar("position").notNull(),
+  fitScore: integer("fit_score").notNull(), // 0-100
+  matchingSkills: jsonb("matching_skills").$type<string[]>().notNull().default([]),
+  missingSkills: jsonb("missing_skills").$type<string[]>().notNull().default([]),
+  experienceMatch: integer("experience_match").notNull(),
+  educationMatch: integer("education_match").notNull(),
+  overallRecommendation: text("overall_recommendation").notNull(),
+  scoringMethod: varchar("scoring_method").notNull().default("ai"), // ai, heuristic
+  criteriaScores: jsonb("criteria_scores").$type<CriterionScore[]>(), // fitScore is their weighted mean
+  scoreOverridden: boolean("score_overridden").notNull().default(false), // The assessment used had recruiter overrides
+  rawResponses: jsonb("raw_responses").$type<string[]>(),
+  promptTemplateId: varchar("prompt_template_id").references(() => promptTemplates.id, { onDelete: 'set null' }),
+  promptVersion: integer("prompt_version"), // null for heuristic results
+  ranking: integer("ranking").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_evaluation_results_run").on(table.runId)]);
+
+// Versioned prompts for the AI tasks; exactly one version per task is active
+export const promptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  task: varchar("task").notNull(), // resume_analysis, job_fit, evaluation
+  version: integer("version").notNull(),
+  systemPrompt: text("system_prompt").notNull(),
+  userPrompt: text("user_prompt").notNull(), // {{variable}} placeholders are filled in at call time
+  variables: jsonb("variables").$type<string[]>().notNull().default([]),
+  isActive: boolean("is_active").notNull().default(false),
+  notes: text("notes"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_prompt_templates_task_version").on(table.task, table.version)]);
+
+// One row per LLM call, used for cost reporting and the monthly budget
+export const llmUsage = pgTable("llm_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  task: varchar("task").notNull(), // resume_analysis, job_fit, evaluation, embedding
+  provider: varchar("provider").notNull(),
+  model: varchar("model").notNull(),
+  candidateId: varchar("candidate_id").references(() => candidates.id, { onDelete: 'set null' }),
+  jobDescriptionId: varchar("job_description_id").references(() => jobDescriptions.id, { onDelete: 'set null' }),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull(),
+  cost: decimal("cost", { precision: 12, scale: 6 }).notNull().default("0"), // USD
+  status: varchar("status").notNull().default("success"), // success, error
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("IDX_llm_usage_created_at").on(table.createdAt)]);
+
+// Validated AI results keyed by a hash of the rendered prompt, provider, model and prompt version
+export const aiAnalysisCache = pgTable("ai_analysis_cache", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cacheKey: varchar("cache_key").notNull().unique(), // sha256 hex
+  task: varchar("task").notNull(), // resume_analysis, job_fit, evaluation
+  provider: varchar("provider").notNull(),
+  model: varchar("model").notNull(),
+  promptTemplateId: varchar("prompt_template_id").references(() => promptTemplates.id, { onDelete: 'cascade' }),
+  promptVersion: integer("prompt_version"),
+  result: jsonb("result").$type<Record<string, any>>().notNull(),
+  rawResponses: jsonb("raw_responses").$type<string[]>(),
+  hitCount: integer("hit_count").notNull().default(0),
+  missCount: integer("miss_count").notNull().default(1), // Times the result was computed (first call and forced refreshes)
+  lastHitAt: timestamp("last_hit_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Text embeddings for semantic search, one per entity and embedding model.
+// Vectors are compared in process, so any vector size works without pgvector.
+export const embeddings = pgTable("embeddings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entityType: varchar("entity_type").notNull(), // candidate, job_description
+  entityId: varchar("entity_id").notNull(),
+  provider: varchar("provider").notNull(),
+  model: varchar("model").notNull(),
+  contentHash: varchar("content_hash").notNull(), // sha256 of the embedded text; re-embedded when it changes
+  vector: real("vector").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_embeddings_entity_model").on(table.entityType, table.entityId, table.model)]);
+
+// Curated skill vocabulary. Job and resume skills are mapped to the canonical
+// name through the aliases so scoring and filters compare like with like.
+export const skillTaxonomy = pgTable("skill_taxonomy", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull().unique(), // Canonical name shown everywhere
+  category: varchar("category"), // e.g. programming language, framework, cloud
+  parentId: varchar("parent_id").references((): AnyPgColumn => skillTaxonomy.id, { onDelete: 'set null' }), // Broader skill; requiring the parent accepts any child
+  aliases: jsonb("aliases").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_skill_taxonomy_parent").on(table.parentId)]);
+
+// Structured resume profile, parsed from resumeSummary and replaced on every parse.
+// Dates are kept as written in the resume, normalized to YYYY-MM or YYYY when possible.
+export const candidateWorkHistory = pgTable("candidate_work_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: 'cascade' }),
+  employer: varchar("employer").notNull(),
+  title: varchar("title").notNull(),
+  location: varchar("location"),
+  startDate: varchar("start_date"),
+  endDate: varchar("end_date"), // null while isCurrent
+  isCurrent: boolean("is_current").notNull().default(false),
+  description: text("description"),
+  sortOrder: integer("sort_order").notNull().default(0), // Order in the resume, most recent first
+}, (table) => [index("IDX_work_history_candidate").on(table.candidateId)]);
+
+export const candidateEducation = pgTable("candidate_education", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: 'cascade' }),
+  institution: varchar("institution").notNull(),
+  degree: varchar("degree"),
+  fieldOfStudy: varchar("field_of_study"),
+  startDate: varchar("start_date"),
+  endDate: varchar("end_date"),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => [index("IDX_education_candidate").on(table.candidateId)]);
+
+export const candidateSkills = pgTable("candidate_skills", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: 'cascade' }),
+  name: varchar("name").notNull(), // Canonical taxonomy name when the skill is known
+  category: varchar("category"), // e.g. programming language, framework, soft skill
+  skillId: varchar("skill_id").references(() => skillTaxonomy.id, { onDelete: 'set null' }),
+}, (table) => [
+  uniqueIndex("IDX_candidate_skills_candidate_name").on(table.candidateId, table.name),
+  index("IDX_candidate_skills_name").on(table.name),
+]);
+
+export const candidateLanguages = pgTable("candidate_languages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: 'cascade' }),
+  language: varchar("language").notNull(),
+  proficiency: varchar("proficiency").notNull().default("unknown"), // native, fluent, professional, intermediate, basic, unknown
+}, (table) => [uniqueIndex("IDX_candidate_languages_candidate_language").on(table.candidateId, table.language)]);
+
+export const candidateCertifications = pgTable("candidate_certifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: 'cascade' }),
+  name: varchar("name").notNull(),
+  issuer: varchar("issuer"),
+  issuedDate: varchar("issued_date"),
+  expiresDate: varchar("expires_date"),
+}, (table) => [index("IDX_certifications_candidate").on(table.candidateId)]);
+
+// Durable background job queue (resume analysis, job fit scoring, evaluation runs)
+export const backgroundJobs = pgTable("background_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type").notNull(), // resume_analysis, job_fit, evaluation_run, batch
+  status: varchar("status").notNull().default("queued"), // queued, running, completed, failed, dead, cancelled
+  payload: jsonb("payload").$type<Record<string, any>>().notNull().default({}),
+  result: jsonb("result").$type<Record<string, any>>(),
+  progress: jsonb("progress").$type<BackgroundJobProgress>(), // Reported by long-running single jobs; computed from children for batches
+  parentId: varchar("parent_id").references((): AnyPgColumn => backgroundJobs.id, { onDelete: 'cascade' }),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  lockedBy: varchar("locked_by"),
+  lastError: text("last_error"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("IDX_background_jobs_status_run_at").on(table.status, table.runAt),
+  index("IDX_background_jobs_parent").on(table.parentId),
+]);
+
 // Define relations
 export const candidatesRelations = relations(candidates, ({ many }) => ({
   assessments: many(assessments),
   interviews: many(interviews),
   emails: many(emailHistory),
   jobFitScores: many(jobFitScores),
+  evaluationResults: many(evaluationResults),
+  workHistory: many(candidateWorkHistory),
+  education: many(candidateEducation),
+  skills: many(candidateSkills),
+  languages: many(candidateLanguages),
+  certifications: many(candidateCertifications),
 }));
 
-export const assessmentsRelations = relations(assessments, ({ one }) => ({
+export const assessmentsRelations = relations(assessments, ({ one, many }) => ({
   candidate: one(candidates, {
     fields: [assessments.candidateId],
     references: [candidates.id],
   }),
+  adjustments: many(scoreAdjustments),
+}));
+
+export const scoreAdjustmentsRelations = relations(scoreAdjustments, ({ one }) => ({
+  assessment: one(assessments, {
+    fields: [scoreAdjustments.assessmentId],
+    references: [assessments.id],
+  }),
 }));
 
 export const interviewsRelations = relations(interviews, ({ one }) => ({
@@ -175,21 +492,84 @@ export const jobFitScoresRelations = relations(jobFitScores, ({ one }) => ({
   }),
 }));
 
+export const evaluationRunsRelations = relations(evaluationRuns, ({ one, many }) => ({
+  jobDescription: one(jobDescriptions, {
+    fields: [evaluationRuns.jobDescriptionId],
+    references: [jobDescriptions.id],
+  }),
+  results: many(evaluationResults),
+}));
+
+export const evaluationResultsRelations = relations(evaluationResults, ({ one }) => ({
+  run: one(evaluationRuns, {
+    fields: [evaluationResults.runId],
+    references: [evaluationRuns.id],
+  }),
+  candidate: one(candidates, {
+    fields: [evaluationResults.candidateId],
+    references: [candidates.id],
+  }),
+}));
+
 // Insert schemas
 export const insertCandidateSchema = createInsertSchema(candidates).omit({
   id: true,
+  profileParsedAt: true,
+  currentAssessmentId: true,
   appliedAt: true,
   updatedAt: true,
 });
 
-export const insertAssessmentSchema = createInsertSchema(assessments).omit({
+const scoreEvidenceSchema = z.object({
+  score: z.string(),
+  requirement: z.string(),
+  status: z.enum(['met', 'missing']),
+  quote: z.string().nullable(),
+  start: z.number().int().nullable(),
+  end: z.number().int().nullable(),
+});
+
+const criterionScoreSchema = z.object({
+  criterionId: z.string(),
+  name: z.string(),
+  weight: z.number(),
+  mustHave: z.boolean(),
+  score: z.number(),
+  rationale: z.string().nullable(),
+});
+
+const scoreOverrideSchema = z.object({
+  aiValue: z.number().nullable(),
+  value: z.number(),
+  reason: z.string(),
+  adjustedBy: z.string().nullable(),
+  adjustedAt: z.string(),
+});
+
+export const insertAssessmentSchema = createInsertSchema(assessments, {
+  rawResponses: z.array(z.string()).nullish(),
+  evidence: z.array(scoreEvidenceSchema).nullish(),
+  criteriaScores: z.array(criterionScoreSchema).nullish(),
+  scoreOverrides: z.object({
+    overallScore: scoreOverrideSchema.optional(),
+    technicalSkills: scoreOverrideSchema.optional(),
+    experienceMatch: scoreOverrideSchema.optional(),
+    education: scoreOverrideSchema.optional(),
+  }).nullish(),
+}).omit({
   id: true,
   processedAt: true,
   createdAt: true,
 });
 
+export const insertScoreAdjustmentSchema = createInsertSchema(scoreAdjustments).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertInterviewSchema = createInsertSchema(interviews).omit({
   id: true,
+  kit: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -223,6 +603,8 @@ export type InsertCandidate = z.infer<typeof insertCandidateSchema>;
 export type Candidate = typeof candidates.$inferSelect;
 export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
 export type Assessment = typeof assessments.$inferSelect;
+export type InsertScoreAdjustment = z.infer<typeof insertScoreAdjustmentSchema>;
+export type ScoreAdjustment = typeof scoreAdjustments.$inferSelect;
 export type InsertInterview = z.infer<typeof insertInterviewSchema>;
 export type Interview = typeof interviews.$inferSelect;
 export type InsertEmail = z.infer<typeof insertEmailSchema>;
@@ -233,21 +615,40 @@ export type CandidateWithAssessment = Candidate & {
   assessment?: Assessment;
 };
 
+// An assessment run in a candidate's history
+export type AssessmentHistoryEntry = Assessment & {
+  isCurrent: boolean;
+};
+
 export type CandidateWithRelations = Candidate & {
   assessments: Assessment[];
   interviews: Interview[];
   emails: EmailHistory[];
   jobFitScores: JobFitScore[];
+  profile?: CandidateProfile;
 };
 
 // Job Description schemas
-export const insertJobDescriptionSchema = createInsertSchema(jobDescriptions).omit({
+export const insertJobDescriptionSchema = createInsertSchema(jobDescriptions, {
+  rubric: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    weight: z.number(),
+    mustHave: z.boolean(),
+    signal: z.enum(['skills', 'experience', 'education', 'keywords']),
+  })).nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertJobFitScoreSchema = createInsertSchema(jobFitScores).omit({
+export const insertJobFitScoreSchema = createInsertSchema(jobFitScores, {
+  rawResponses: z.array(z.string()).nullish(),
+  evidence: z.array(scoreEvidenceSchema).nullish(),
+  criteriaScores: z.array(criterionScoreSchema).nullish(),
+}).omit({
   id: true,
   calculatedAt: true,
 });
@@ -260,3 +661,246 @@ export type JobFitScore = typeof jobFitScores.$inferSelect;
 export type CandidateWithFitScore = Candidate & {
   fitScore?: JobFitScore;
 };
+
+// Evaluation run schemas
+export const insertEvaluationRunSchema = createInsertSchema(evaluationRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEvaluationResultSchema = createInsertSchema(evaluationResults, {
+  matchingSkills: z.array(z.string()),
+  missingSkills: z.array(z.string()),
+  rawResponses: z.array(z.string()).nullish(),
+  criteriaScores: z.array(criterionScoreSchema).nullish(),
+}).omit({
+  id: true,
+  runId: true,
+  createdAt: true,
+});
+
+export type InsertEvaluationRun = z.infer<typeof insertEvaluationRunSchema>;
+export type EvaluationRun = typeof evaluationRuns.$inferSelect;
+export type InsertEvaluationResult = z.infer<typeof insertEvaluationResultSchema>;
+export type EvaluationResult = typeof evaluationResults.$inferSelect;
+
+export type EvaluationRunWithResults = EvaluationRun & {
+  results: EvaluationResult[];
+};
+
+// Prompt template schemas (version is assigned when the template is saved)
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates, {
+  task: z.enum(['resume_analysis', 'resume_parsing', 'job_fit', 'evaluation', 'interview_kit']),
+  systemPrompt: z.string().trim().min(1, 'System prompt is required'),
+  userPrompt: z.string().trim().min(1, 'User prompt is required'),
+  variables: z.array(z.string()),
+}).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+});
+
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+
+// LLM usage schemas
+export const insertLLMUsageSchema = createInsertSchema(llmUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertLLMUsageEntry = z.infer<typeof insertLLMUsageSchema>;
+export type LLMUsageEntry = typeof llmUsage.$inferSelect;
+
+export type LLMCostBreakdown = {
+  key: string;
+  label: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+};
+
+export type LLMCostReport = {
+  from: string;
+  to: string;
+  totals: Omit<LLMCostBreakdown, 'key' | 'label'>;
+  byDay: LLMCostBreakdown[];
+  byTask: LLMCostBreakdown[];
+  byJob: LLMCostBreakdown[];
+  budget: {
+    monthlyBudget: number; // 0 when no cap is configured
+    monthToDate: number;
+    remaining: number | null;
+    exceeded: boolean;
+  };
+};
+
+// AI analysis cache schemas
+export const insertAIAnalysisCacheSchema = createInsertSchema(aiAnalysisCache, {
+  result: z.record(z.any()),
+  rawResponses: z.array(z.string()).nullish(),
+}).omit({
+  id: true,
+  hitCount: true,
+  missCount: true,
+  lastHitAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertAIAnalysisCacheEntry = z.infer<typeof insertAIAnalysisCacheSchema>;
+export type AIAnalysisCacheEntry = typeof aiAnalysisCache.$inferSelect;
+
+export type AIAnalysisCacheStats = {
+  task: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1
+};
+
+// Embedding schemas
+export const insertEmbeddingSchema = createInsertSchema(embeddings, {
+  vector: z.array(z.number()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertEmbedding = z.infer<typeof insertEmbeddingSchema>;
+export type Embedding = typeof embeddings.$inferSelect;
+
+// A candidate ranked by the cosine similarity of their resume embedding
+export type CandidateSimilarity = Pick<Candidate, 'id' | 'fullName' | 'email' | 'position' | 'status' | 'appliedAt'> & {
+  similarity: number; // -1 to 1, higher is closer
+};
+
+// How well a candidate fits one active job: the LLM fit score when the pair was
+// scored, otherwise only the embedding similarity used as a cheap pre-filter
+export type RoleFit = {
+  jobDescriptionId: string;
+  fitScore: number | null; // 0-100
+  isStale: boolean;
+  similarity: number | null; // -1 to 1
+};
+
+export type RoleSummary = Pick<JobDescription, 'id' | 'title' | 'position'>;
+
+export type FitMatrixRow = Pick<Candidate, 'id' | 'fullName' | 'position' | 'status'> & {
+  currentJobDescriptionId: string | null; // active job matching the position applied for
+  bestJobDescriptionId: string | null;
+  fits: RoleFit[]; // one per job, in the order of FitMatrix.jobs
+};
+
+export type FitMatrix = {
+  jobs: RoleSummary[];
+  rows: FitMatrixRow[];
+};
+
+export type SuggestedRole = RoleFit & {
+  job: RoleSummary;
+  reasons: string[]; // strongest rubric criteria, empty until the pair is fit-scored
+  scoreDelta: number | null; // fit score minus the fit score for the current role
+};
+
+// Skill taxonomy schemas
+export const insertSkillSchema = createInsertSchema(skillTaxonomy, {
+  name: z.string().trim().min(1, 'Skill name is required').max(100),
+  category: z.string().trim().max(100).nullish(),
+  parentId: z.string().nullish(),
+  aliases: z.array(z.string().trim().min(1).max(100)).default([]),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateSkillSchema = insertSkillSchema.partial();
+
+export type InsertSkill = z.infer<typeof insertSkillSchema>;
+export type Skill = typeof skillTaxonomy.$inferSelect;
+
+// Candidate profile schemas (rows are written by the resume parser)
+export const insertCandidateWorkHistorySchema = createInsertSchema(candidateWorkHistory).omit({ id: true });
+export const insertCandidateEducationSchema = createInsertSchema(candidateEducation).omit({ id: true });
+export const insertCandidateSkillSchema = createInsertSchema(candidateSkills).omit({ id: true });
+export const insertCandidateLanguageSchema = createInsertSchema(candidateLanguages).omit({ id: true });
+export const insertCandidateCertificationSchema = createInsertSchema(candidateCertifications).omit({ id: true });
+
+export type InsertCandidateWorkHistory = z.infer<typeof insertCandidateWorkHistorySchema>;
+export type CandidateWorkHistory = typeof candidateWorkHistory.$inferSelect;
+export type InsertCandidateEducation = z.infer<typeof insertCandidateEducationSchema>;
+export type CandidateEducation = typeof candidateEducation.$inferSelect;
+export type InsertCandidateSkill = z.infer<typeof insertCandidateSkillSchema>;
+export type CandidateSkill = typeof candidateSkills.$inferSelect;
+export type InsertCandidateLanguage = z.infer<typeof insertCandidateLanguageSchema>;
+export type CandidateLanguage = typeof candidateLanguages.$inferSelect;
+export type InsertCandidateCertification = z.infer<typeof insertCandidateCertificationSchema>;
+export type CandidateCertification = typeof candidateCertifications.$inferSelect;
+
+export type CandidateProfile = {
+  workHistory: CandidateWorkHistory[];
+  education: CandidateEducation[];
+  skills: CandidateSkill[];
+  languages: CandidateLanguage[];
+  certifications: CandidateCertification[];
+  parsedAt: Date | null;
+};
+
+// Profile rows as produced by the parser, before they are attached to a candidate
+export type ParsedCandidateProfile = {
+  workHistory: Omit<InsertCandidateWorkHistory, 'candidateId'>[];
+  education: Omit<InsertCandidateEducation, 'candidateId'>[];
+  skills: Omit<InsertCandidateSkill, 'candidateId'>[];
+  languages: Omit<InsertCandidateLanguage, 'candidateId'>[];
+  certifications: Omit<InsertCandidateCertification, 'candidateId'>[];
+};
+
+// Background job schemas
+export const insertBackgroundJobSchema = createInsertSchema(backgroundJobs, {
+  payload: z.record(z.any()),
+}).omit({
+  id: true,
+  result: true,
+  progress: true,
+  attempts: true,
+  lockedAt: true,
+  lockedBy: true,
+  lastError: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+});
+
+export type InsertBackgroundJob = z.infer<typeof insertBackgroundJobSchema>;
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
+
+export type BackgroundJobProgress = {
+  total: number;
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number; // Waiting for retry
+  dead: number;
+  cancelled: number;
+};
+
+// Per-candidate progress streamed to clients while a batch or evaluation run is processed
+export type BackgroundJobItemStatus = 'queued' | 'started' | 'completed' | 'retrying' | 'failed' | 'cancelled';
+
+export type BackgroundJobItem = {
+  itemId: string;
+  candidateId?: string;
+  candidateName?: string;
+  status: BackgroundJobItemStatus;
+  score?: number | null;
+  error?: string | null;
+};
+
+export type BackgroundJobEvent =
+  | { type: 'snapshot'; jobId: string; job: BackgroundJob; items: BackgroundJobItem[] }
+  | { type: 'item'; jobId: string; item: BackgroundJobItem }
+  | { type: 'progress'; jobId: string; progress: BackgroundJobProgress }
+  | { type: 'done'; jobId: string; job: BackgroundJob };
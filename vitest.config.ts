@@ -0,0 +1,24 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // Tests replace storage and providers; these keep module setup offline
+    env: {
+      LLM_PROVIDER: "mock",
+      EMBEDDING_PROVIDER: "local",
+      PII_REDACTION_ENABLED: "true",
+    },
+  },
+});